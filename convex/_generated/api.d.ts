@@ -10,13 +10,49 @@
 
 import type * as admin from "../admin.js";
 import type * as auth from "../auth.js";
+import type * as candidates from "../candidates.js";
 import type * as documents from "../documents.js";
+import type * as donors from "../donors.js";
+import type * as entityActions from "../entityActions.js";
 import type * as extraction from "../extraction.js";
 import type * as extractionHelpers from "../extractionHelpers.js";
 import type * as extractions from "../extractions.js";
 import type * as http from "../http.js";
+import type * as lib_candidateMatching from "../lib/candidateMatching.js";
+import type * as lib_consensus from "../lib/consensus.js";
+import type * as lib_contentHash from "../lib/contentHash.js";
+import type * as lib_documentAggregates from "../lib/documentAggregates.js";
+import type * as lib_entityActions from "../lib/entityActions.js";
+import type * as lib_entityRegistry from "../lib/entityRegistry.js";
+import type * as lib_fourEyes from "../lib/fourEyes.js";
+import type * as lib_latestExtraction from "../lib/latestExtraction.js";
+import type * as lib_modelCalls from "../lib/modelCalls.js";
+import type * as lib_nameMatching from "../lib/nameMatching.js";
+import type * as lib_pageReviews from "../lib/pageReviews.js";
+import type * as lib_portalReconciliation from "../lib/portalReconciliation.js";
+import type * as lib_roles from "../lib/roles.js";
+import type * as lib_rowStore from "../lib/rowStore.js";
+import type * as lib_rowTotals from "../lib/rowTotals.js";
+import type * as lib_shared_pageReviewStates from "../lib/shared/pageReviewStates.js";
+import type * as lib_shared_panamaId from "../lib/shared/panamaId.js";
+import type * as lib_shared_roles from "../lib/shared/roles.js";
+import type * as lib_shared_rowKeys from "../lib/shared/rowKeys.js";
+import type * as lib_shared_rows from "../lib/shared/rows.js";
+import type * as lib_shared_validationDiff from "../lib/shared/validationDiff.js";
+import type * as lib_shared_validationRules from "../lib/shared/validationRules.js";
+import type * as lib_versionDiff from "../lib/versionDiff.js";
 import type * as lib_withAuth from "../lib/withAuth.js";
+import type * as migrations from "../migrations.js";
+import type * as pageExtractions from "../pageExtractions.js";
+import type * as pageReviews from "../pageReviews.js";
+import type * as portalRecords from "../portalRecords.js";
+import type * as presence from "../presence.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as rowVerifications from "../rowVerifications.js";
 import type * as summaryExtraction from "../summaryExtraction.js";
+import type * as suppliers from "../suppliers.js";
+import type * as users from "../users.js";
+import type * as validationEdits from "../validationEdits.js";
 
 import type {
   ApiFromModules,
@@ -27,13 +63,49 @@ import type {
 declare const fullApi: ApiFromModules<{
   admin: typeof admin;
   auth: typeof auth;
+  candidates: typeof candidates;
   documents: typeof documents;
+  donors: typeof donors;
+  entityActions: typeof entityActions;
   extraction: typeof extraction;
   extractionHelpers: typeof extractionHelpers;
   extractions: typeof extractions;
   http: typeof http;
+  "lib/candidateMatching": typeof lib_candidateMatching;
+  "lib/consensus": typeof lib_consensus;
+  "lib/contentHash": typeof lib_contentHash;
+  "lib/documentAggregates": typeof lib_documentAggregates;
+  "lib/entityActions": typeof lib_entityActions;
+  "lib/entityRegistry": typeof lib_entityRegistry;
+  "lib/fourEyes": typeof lib_fourEyes;
+  "lib/latestExtraction": typeof lib_latestExtraction;
+  "lib/modelCalls": typeof lib_modelCalls;
+  "lib/nameMatching": typeof lib_nameMatching;
+  "lib/pageReviews": typeof lib_pageReviews;
+  "lib/portalReconciliation": typeof lib_portalReconciliation;
+  "lib/roles": typeof lib_roles;
+  "lib/rowStore": typeof lib_rowStore;
+  "lib/rowTotals": typeof lib_rowTotals;
+  "lib/shared/pageReviewStates": typeof lib_shared_pageReviewStates;
+  "lib/shared/panamaId": typeof lib_shared_panamaId;
+  "lib/shared/roles": typeof lib_shared_roles;
+  "lib/shared/rowKeys": typeof lib_shared_rowKeys;
+  "lib/shared/rows": typeof lib_shared_rows;
+  "lib/shared/validationDiff": typeof lib_shared_validationDiff;
+  "lib/shared/validationRules": typeof lib_shared_validationRules;
+  "lib/versionDiff": typeof lib_versionDiff;
   "lib/withAuth": typeof lib_withAuth;
+  migrations: typeof migrations;
+  pageExtractions: typeof pageExtractions;
+  pageReviews: typeof pageReviews;
+  portalRecords: typeof portalRecords;
+  presence: typeof presence;
+  rateLimits: typeof rateLimits;
+  rowVerifications: typeof rowVerifications;
   summaryExtraction: typeof summaryExtraction;
+  suppliers: typeof suppliers;
+  users: typeof users;
+  validationEdits: typeof validationEdits;
 }>;
 
 /**
@@ -1,9 +1,11 @@
 'use node';
 
 import { v } from 'convex/values';
-import { createAccount } from '@convex-dev/auth/server';
+import { createAccount, invalidateSessions, modifyAccountCredentials } from '@convex-dev/auth/server';
 import Crypto from 'node:crypto';
-import { authAction } from './lib/withAuth';
+import { internal } from './_generated/api';
+import { adminAction } from './lib/withAuth';
+import { roleValidator } from './lib/roles';
 
 /**
  * Generate a random password of specified length
@@ -19,11 +21,12 @@ function generatePassword(length: number = 16): string {
 }
 
 /**
- * Create a new user with a generated password (admin only, requires authentication)
+ * Create a new user with a generated password and the given role (admin only)
  */
-export const createUser = authAction({
+export const createUser = adminAction({
   args: {
     email: v.string(),
+    role: roleValidator,
   },
   returns: v.object({
     email: v.string(),
@@ -44,6 +47,7 @@ export const createUser = authAction({
         },
         profile: {
           email: args.email,
+          role: args.role,
         },
       });
     } catch (error) {
@@ -59,3 +63,37 @@ export const createUser = authAction({
     };
   },
 });
+
+/**
+ * Replace a user's password with a generated one and sign them out (admin only)
+ */
+export const resetPassword = adminAction({
+  args: {
+    userId: v.id('users'),
+  },
+  returns: v.object({
+    email: v.string(),
+    password: v.string(),
+  }),
+  handler: async (ctx, args): Promise<{ email: string; password: string }> => {
+    const email: string | null = await ctx.runQuery(internal.users.getUserEmail, { userId: args.userId });
+    if (!email) {
+      throw new Error('User has no password account');
+    }
+
+    const password = generatePassword(16);
+    await modifyAccountCredentials(ctx, {
+      provider: 'password',
+      account: {
+        id: email,
+        secret: password,
+      },
+    });
+    await invalidateSessions(ctx, { userId: args.userId });
+
+    return {
+      email,
+      password,
+    };
+  },
+});
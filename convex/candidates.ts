@@ -0,0 +1,218 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import { internal } from './_generated/api';
+import { internalMutation } from './_generated/server';
+import { authQuery, adminMutation, reviewerMutation } from './lib/withAuth';
+import { findCandidateForFileName, pdfFileKeyFromUrl } from './lib/candidateMatching';
+import { refreshDocumentAggregate } from './lib/documentAggregates';
+import { scheduleDocumentEntitiesRefresh } from './lib/entityRegistry';
+
+// One entry of the documents index written by scripts/generate-documents-index.ts
+const candidateIndexEntryValidator = v.object({
+  id: v.string(),
+  candidateName: v.string(),
+  documentId: v.string(),
+  position: v.string(),
+  party: v.string(),
+  province: v.union(v.string(), v.null()),
+  district: v.union(v.string(), v.null()),
+  township: v.union(v.string(), v.null()),
+  status: v.string(),
+  isProclaimed: v.boolean(),
+  dateSent: v.union(v.string(), v.null()),
+  totalIngress: v.number(),
+  totalEgress: v.number(),
+  pdfUrl: v.union(v.string(), v.null()),
+});
+
+// Documents examined per run when linking by file name
+const LINK_BATCH_SIZE = 500;
+
+/**
+ * Link documents without a candidate to the candidate whose affidavit has the same file name.
+ *
+ * Walks the unlinked documents one batch per run and schedules itself for the next, so documents
+ * that never match do not keep the scan from reaching the rest.
+ *
+ *   npx convex run candidates:linkUnmatchedDocuments
+ */
+export const linkUnmatchedDocuments = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query('documents')
+      .withIndex('by_candidate', (q) => q.eq('candidateId', undefined))
+      .paginate({ cursor: args.cursor ?? null, numItems: LINK_BATCH_SIZE });
+
+    for (const doc of page.page) {
+      const candidateId = await findCandidateForFileName(ctx, doc.name);
+      if (!candidateId) continue;
+      await ctx.db.patch(doc._id, { candidateId });
+      await refreshDocumentAggregate(ctx, doc._id);
+      await scheduleDocumentEntitiesRefresh(ctx, doc._id);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.candidates.linkUnmatchedDocuments, { cursor: page.continueCursor });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Insert or update candidates from the documents index. Run linkUnmatchedDocuments afterwards to
+ * link the documents of new candidates.
+ */
+export const importCandidates = internalMutation({
+  args: {
+    candidates: v.array(candidateIndexEntryValidator),
+  },
+  returns: v.object({ inserted: v.number(), updated: v.number() }),
+  handler: async (ctx, args) => {
+    let inserted = 0;
+    let updated = 0;
+
+    for (const { id, documentId, ...entry } of args.candidates) {
+      const fields = { ...entry, externalId: id, cedula: documentId, pdfFileKey: pdfFileKeyFromUrl(entry.pdfUrl) };
+      const existing = await ctx.db
+        .query('candidates')
+        .withIndex('by_external_id', (q) => q.eq('externalId', id))
+        .unique();
+
+      if (existing) {
+        await ctx.db.replace(existing._id, fields);
+        // Linked documents copy the candidate's name and portal totals into their aggregates
+        const linkedDocuments = await ctx.db
+          .query('documents')
+          .withIndex('by_candidate', (q) => q.eq('candidateId', existing._id))
+          .collect();
+        for (const doc of linkedDocuments) {
+          await refreshDocumentAggregate(ctx, doc._id);
+        }
+        updated++;
+      } else {
+        await ctx.db.insert('candidates', fields);
+        inserted++;
+      }
+    }
+
+    return { inserted, updated };
+  },
+});
+
+/**
+ * Distinct positions, parties and provinces, for the documents list filters
+ */
+export const getCandidateFilterOptions = authQuery({
+  args: {},
+  returns: v.object({
+    positions: v.array(v.string()),
+    parties: v.array(v.string()),
+    provinces: v.array(v.string()),
+  }),
+  handler: async (ctx) => {
+    const candidates = await ctx.db.query('candidates').collect();
+    const distinct = (values: Array<string | null>) =>
+      Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+    return {
+      positions: distinct(candidates.map((candidate) => candidate.position)),
+      parties: distinct(candidates.map((candidate) => candidate.party)),
+      provinces: distinct(candidates.map((candidate) => candidate.province)),
+    };
+  },
+});
+
+/**
+ * Search candidates by name (for linking documents by hand)
+ */
+export const searchCandidates = authQuery({
+  args: {
+    query: v.string(),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id('candidates'),
+      candidateName: v.string(),
+      position: v.string(),
+      party: v.string(),
+      province: v.union(v.string(), v.null()),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    if (args.query.trim() === '') {
+      return [];
+    }
+
+    const candidates = await ctx.db
+      .query('candidates')
+      .withSearchIndex('search_name', (q) => q.search('candidateName', args.query))
+      .take(10);
+
+    return candidates.map(({ _id, candidateName, position, party, province }) => ({
+      _id,
+      candidateName,
+      position,
+      party,
+      province,
+    }));
+  },
+});
+
+/**
+ * Documents that are not linked to any candidate
+ */
+export const listUnlinkedDocuments = authQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query('documents')
+      .withIndex('by_candidate', (q) => q.eq('candidateId', undefined))
+      .paginate(args.paginationOpts);
+
+    return { ...result, page: result.page.map(({ _id, name }) => ({ _id, name })) };
+  },
+});
+
+/**
+ * Link a document to a candidate by hand (or unlink it with null)
+ */
+export const setDocumentCandidate = reviewerMutation({
+  args: {
+    documentId: v.id('documents'),
+    candidateId: v.union(v.id('candidates'), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+    if (args.candidateId && !(await ctx.db.get(args.candidateId))) {
+      throw new Error('Candidate not found');
+    }
+
+    await ctx.db.patch(args.documentId, { candidateId: args.candidateId ?? undefined });
+    await refreshDocumentAggregate(ctx, args.documentId);
+    await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
+    return null;
+  },
+});
+
+/**
+ * Retry file-name matching for every document without a candidate, in the background
+ */
+export const relinkUnmatchedDocuments = adminMutation({
+  args: {},
+  returns: v.null(),
+  handler: async (ctx) => {
+    await ctx.scheduler.runAfter(0, internal.candidates.linkUnmatchedDocuments, {});
+    return null;
+  },
+});
@@ -1,7 +1,16 @@
 import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
 import { internal } from './_generated/api';
-import { authMutation, authQuery } from './lib/withAuth';
-import { EgressRow, IngressRow } from './extractions';
+import { authQuery, adminMutation, reviewerAction, reviewerMutation } from './lib/withAuth';
+import type { Doc, Id } from './_generated/dataModel';
+import { internalMutation, internalQuery, type ActionCtx, type MutationCtx, type QueryCtx } from './_generated/server';
+import { loadDocumentRows, loadOwnerRows, loadVerifiedRows } from './lib/rowStore';
+import { summarizeEgressRow, summarizeIngressRow } from './lib/portalReconciliation';
+import { diffVersionRows, mapVersionRowDiff } from './lib/versionDiff';
+import { candidateSummary, findCandidateForFileName } from './lib/candidateMatching';
+import { refreshDocumentAggregate, syncDocumentAggregateStatus } from './lib/documentAggregates';
+import { scheduleDocumentEntitiesRefresh } from './lib/entityRegistry';
+import { storedFileSha256 } from './lib/contentHash';
 
 export const getDocumentStats = authQuery({
   args: {},
@@ -33,7 +42,7 @@ export const getDocumentStats = authQuery({
 /**
  * Generate an upload URL for a PDF file
  */
-export const generateUploadUrl = authMutation({
+export const generateUploadUrl = reviewerMutation({
   args: {},
   returns: v.string(),
   handler: async (ctx) => {
@@ -42,33 +51,301 @@ export const generateUploadUrl = authMutation({
 });
 
 /**
- * Create a new document record after uploading a PDF
+ * Insert a document for an uploaded PDF and start its extraction
  */
-export const createDocument = authMutation({
+async function insertDocument(
+  ctx: MutationCtx,
+  fields: Pick<
+    Doc<'documents'>,
+    'fileId' | 'name' | 'pageCount' | 'candidateId' | 'contentHash' | 'kind' | 'versionGroupId' | 'version'
+  >,
+): Promise<Id<'documents'>> {
+  const documentId = await ctx.db.insert('documents', { ...fields, status: 'pending' });
+  await refreshDocumentAggregate(ctx, documentId);
+
+  // Trigger the extraction workflow
+  await ctx.scheduler.runAfter(0, internal.extraction.startExtraction, {
+    documentId,
+  });
+
+  return documentId;
+}
+
+/**
+ * Insert a newer version of the filing `documentId` belongs to and mark the latest version so far
+ * as superseded by it. The new version keeps the candidate and kind of the filing.
+ */
+async function insertDocumentVersion(
+  ctx: MutationCtx,
+  documentId: Id<'documents'>,
+  fields: Pick<Doc<'documents'>, 'fileId' | 'name' | 'pageCount' | 'contentHash'>,
+): Promise<Id<'documents'>> {
+  const doc = await ctx.db.get(documentId);
+  if (!doc) {
+    throw new Error('Document not found');
+  }
+
+  const versionGroupId = doc.versionGroupId ?? doc._id;
+  if (doc.versionGroupId === undefined) {
+    await ctx.db.patch(doc._id, { versionGroupId, version: 1 });
+  }
+  const latest = await ctx.db
+    .query('documents')
+    .withIndex('by_version_group', (q) => q.eq('versionGroupId', versionGroupId))
+    .order('desc')
+    .first();
+  if (!latest) {
+    throw new Error('Document not found');
+  }
+
+  const newDocumentId = await insertDocument(ctx, {
+    ...fields,
+    candidateId: doc.candidateId,
+    kind: doc.kind,
+    versionGroupId,
+    version: (latest.version ?? 1) + 1,
+  });
+  await ctx.db.patch(latest._id, { supersededBy: newDocumentId });
+  await refreshDocumentAggregate(ctx, latest._id);
+  await scheduleDocumentEntitiesRefresh(ctx, latest._id);
+  return newDocumentId;
+}
+
+/**
+ * Document that already holds a PDF with this content, if any (checked before uploading)
+ */
+export const findDocumentByContentHash = authQuery({
+  args: {
+    contentHash: v.string(),
+  },
+  returns: v.union(v.object({ _id: v.id('documents'), name: v.string(), displayName: v.string() }), v.null()),
+  handler: async (ctx, args) => {
+    const doc = await ctx.db
+      .query('documents')
+      .withIndex('by_content_hash', (q) => q.eq('contentHash', args.contentHash))
+      .first();
+    if (!doc) {
+      return null;
+    }
+    const aggregate = await getDocumentAggregate(ctx, doc._id);
+    return { _id: doc._id, name: doc.name, displayName: aggregate?.displayName ?? doc.name };
+  },
+});
+
+/**
+ * SHA-256 of an uploaded PDF, computed from the stored file rather than trusted from the client
+ */
+async function hashUploadedFile(ctx: ActionCtx, fileId: Id<'_storage'>): Promise<string> {
+  const contentHash = await storedFileSha256(ctx, fileId);
+  if (!contentHash) {
+    throw new Error('Uploaded file not found');
+  }
+  return contentHash;
+}
+
+/**
+ * Create a new document record after uploading a PDF. A duplicate upload is deleted from storage.
+ */
+export const createDocument = reviewerAction({
   args: {
     fileId: v.id('_storage'),
     name: v.string(),
     pageCount: v.number(),
   },
   returns: v.id('documents'),
+  handler: async (ctx, args): Promise<Id<'documents'>> => {
+    const contentHash = await hashUploadedFile(ctx, args.fileId);
+    const documentId = await ctx.runMutation(internal.documents.insertUploadedDocument, { ...args, contentHash });
+    if (!documentId) {
+      await ctx.storage.delete(args.fileId);
+      throw new Error('This PDF was already uploaded');
+    }
+    return documentId;
+  },
+});
+
+/**
+ * Insert the document of an upload, or return null when a document already has this content
+ */
+export const insertUploadedDocument = internalMutation({
+  args: {
+    fileId: v.id('_storage'),
+    name: v.string(),
+    pageCount: v.number(),
+    // SHA-256 (hex) of the PDF
+    contentHash: v.string(),
+  },
+  returns: v.union(v.id('documents'), v.null()),
   handler: async (ctx, args) => {
-    const documentId = await ctx.db.insert('documents', {
-      fileId: args.fileId,
-      name: args.name,
-      pageCount: args.pageCount,
-      status: 'pending',
-    });
+    const duplicate = await ctx.db
+      .query('documents')
+      .withIndex('by_content_hash', (q) => q.eq('contentHash', args.contentHash))
+      .first();
+    if (duplicate) {
+      return null;
+    }
 
-    // Trigger the extraction workflow
-    await ctx.scheduler.runAfter(0, internal.extraction.startExtraction, {
-      documentId,
+    return await insertDocument(ctx, {
+      ...args,
+      candidateId: (await findCandidateForFileName(ctx, args.name)) ?? undefined,
     });
+  },
+});
 
+/**
+ * Add an amended filing as a new version of a document. The new version gets its own extraction,
+ * summary and validated data; the previous one stays available from the versions page.
+ */
+export const createDocumentVersion = reviewerAction({
+  args: {
+    // Any version of the filing
+    documentId: v.id('documents'),
+    fileId: v.id('_storage'),
+    name: v.string(),
+    pageCount: v.number(),
+  },
+  returns: v.id('documents'),
+  handler: async (ctx, args): Promise<Id<'documents'>> => {
+    const contentHash = await hashUploadedFile(ctx, args.fileId);
+    const documentId = await ctx.runMutation(internal.documents.insertUploadedDocumentVersion, {
+      ...args,
+      contentHash,
+    });
+    if (!documentId) {
+      await ctx.storage.delete(args.fileId);
+      throw new Error('This PDF was already uploaded as another document');
+    }
     return documentId;
   },
 });
 
-export const retryAllExtractions = authMutation({
+/**
+ * Insert an uploaded version of a filing, or return null when another filing already has this content
+ */
+export const insertUploadedDocumentVersion = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    fileId: v.id('_storage'),
+    name: v.string(),
+    pageCount: v.number(),
+    // SHA-256 (hex) of the PDF
+    contentHash: v.string(),
+  },
+  returns: v.union(v.id('documents'), v.null()),
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+    // Re-uploading a version of this same filing is allowed (it gets extracted again)
+    const versionGroupId = doc.versionGroupId ?? doc._id;
+    const duplicates = await ctx.db
+      .query('documents')
+      .withIndex('by_content_hash', (q) => q.eq('contentHash', args.contentHash))
+      .collect();
+    if (duplicates.some((duplicate) => (duplicate.versionGroupId ?? duplicate._id) !== versionGroupId)) {
+      return null;
+    }
+
+    const { documentId, ...fields } = args;
+    return await insertDocumentVersion(ctx, documentId, fields);
+  },
+});
+
+/**
+ * Upload URL for scripts/ingest-scraped-pdfs.ts
+ */
+export const generateIngestUploadUrl = internalMutation({
+  args: {},
+  returns: v.string(),
+  handler: async (ctx) => {
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * The subset of content hashes that no document has yet
+ */
+export const filterNewContentHashes = internalQuery({
+  args: {
+    contentHashes: v.array(v.string()),
+  },
+  returns: v.array(v.string()),
+  handler: async (ctx, args) => {
+    const newHashes: string[] = [];
+    for (const contentHash of args.contentHashes) {
+      const existing = await ctx.db
+        .query('documents')
+        .withIndex('by_content_hash', (q) => q.eq('contentHash', contentHash))
+        .first();
+      if (!existing) newHashes.push(contentHash);
+    }
+    return newHashes;
+  },
+});
+
+/**
+ * Create a document for a PDF downloaded by the scraper, linked to the candidate of its affidavit.
+ * A changed PDF under a file name the candidate already has becomes a new version of that document.
+ * A PDF whose content was already ingested is dropped from storage instead.
+ */
+export const ingestScrapedDocument = internalMutation({
+  args: {
+    fileId: v.id('_storage'),
+    name: v.string(),
+    pageCount: v.number(),
+    contentHash: v.string(),
+    // Affidavit id on the portal (the scraper's entry directory)
+    affidavitId: v.string(),
+    kind: v.union(v.literal('affidavit'), v.literal('audit')),
+  },
+  returns: v.object({ documentId: v.id('documents'), created: v.boolean() }),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('documents')
+      .withIndex('by_content_hash', (q) => q.eq('contentHash', args.contentHash))
+      .first();
+    if (existing) {
+      await ctx.storage.delete(args.fileId);
+      return { documentId: existing._id, created: false };
+    }
+
+    const candidate = await ctx.db
+      .query('candidates')
+      .withIndex('by_external_id', (q) => q.eq('externalId', args.affidavitId))
+      .unique();
+
+    if (candidate) {
+      const previous = (
+        await ctx.db
+          .query('documents')
+          .withIndex('by_candidate', (q) => q.eq('candidateId', candidate._id))
+          .collect()
+      ).find((doc) => doc.name === args.name && doc.supersededBy === undefined);
+      if (previous) {
+        const documentId = await insertDocumentVersion(ctx, previous._id, {
+          fileId: args.fileId,
+          name: args.name,
+          pageCount: args.pageCount,
+          contentHash: args.contentHash,
+        });
+        return { documentId, created: true };
+      }
+    }
+
+    const documentId = await insertDocument(ctx, {
+      fileId: args.fileId,
+      name: args.name,
+      pageCount: args.pageCount,
+      contentHash: args.contentHash,
+      kind: args.kind,
+      candidateId: candidate?._id ?? (await findCandidateForFileName(ctx, args.name)) ?? undefined,
+    });
+    return { documentId, created: true };
+  },
+});
+
+export const retryAllExtractions = adminMutation({
   args: {},
   returns: v.null(),
   handler: async (ctx) => {
@@ -81,6 +358,7 @@ export const retryAllExtractions = authMutation({
         errorMessage: undefined,
         processingStartedAt: undefined,
       });
+      await syncDocumentAggregateStatus(ctx, document._id);
       await ctx.scheduler.runAfter(0, internal.extraction.startExtraction, {
         documentId: document._id,
       });
@@ -92,7 +370,7 @@ export const retryAllExtractions = authMutation({
 /**
  * Manually trigger re-extraction for a document
  */
-export const retryExtraction = authMutation({
+export const retryExtraction = reviewerMutation({
   args: {
     documentId: v.id('documents'),
   },
@@ -109,6 +387,7 @@ export const retryExtraction = authMutation({
       errorMessage: undefined,
       processingStartedAt: undefined,
     });
+    await syncDocumentAggregateStatus(ctx, args.documentId);
 
     // Trigger the extraction workflow
     await ctx.scheduler.runAfter(0, internal.extraction.startExtraction, {
@@ -123,7 +402,7 @@ export const retryExtraction = authMutation({
  * Re-extract a single page from a document
  * This deletes validated data for that page and triggers re-extraction
  */
-export const reExtractPage = authMutation({
+export const reExtractPage = reviewerMutation({
   args: {
     documentId: v.id('documents'),
     pageNumber: v.number(),
@@ -148,137 +427,208 @@ export const reExtractPage = authMutation({
     await ctx.scheduler.runAfter(0, internal.extraction.reExtractPage, {
       documentId: args.documentId,
       pageNumber: args.pageNumber,
+      requestedBy: ctx.userId,
     });
 
     return null;
   },
 });
 
+async function getDocumentAggregate(ctx: QueryCtx, documentId: Id<'documents'>) {
+  return await ctx.db
+    .query('documentAggregates')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+}
+
+const documentStatusValidator = v.union(
+  v.literal('pending'),
+  v.literal('processing'),
+  v.literal('completed'),
+  v.literal('failed'),
+);
+
+export const documentSortValidator = v.union(
+  v.literal('creationTime'),
+  v.literal('name'),
+  v.literal('totalIngresos'),
+  v.literal('totalGastos'),
+);
+
 /**
- * List all documents
+ * List documents with their row counts and summary totals, filtered and sorted on the server
  */
 export const listDocuments = authQuery({
-  args: {},
-  handler: async (ctx) => {
-    const documents = await ctx.db.query('documents').order('desc').collect();
-
-    return await Promise.all(
-      documents.map(async (doc) => {
-        // First check if there's validated data
-        const validatedData = await ctx.db
-          .query('validatedData')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .unique();
-
-        // Get summary extraction for total amounts
-        const summaryExtraction = await ctx.db
-          .query('summaryExtractions')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .first();
-
-        const summaryTotals = summaryExtraction
-          ? {
-              totalIngresos: summaryExtraction.summary.totalIngresos ?? null,
-              totalGastos: summaryExtraction.summary.totalGastos ?? null,
-            }
-          : { totalIngresos: null, totalGastos: null };
-
-        if (validatedData) {
-          return {
-            ...doc,
-            ingressCount: validatedData.ingress.length,
-            egressCount: validatedData.egress.length,
-            ...summaryTotals,
-          };
+  args: {
+    paginationOpts: paginationOptsValidator,
+    status: v.optional(documentStatusValidator),
+    summaryStatus: v.optional(documentStatusValidator),
+    validated: v.optional(v.boolean()),
+    // Range for the largest absolute discrepancy between summary and rows
+    minDiscrepancy: v.optional(v.number()),
+    maxDiscrepancy: v.optional(v.number()),
+    position: v.optional(v.string()),
+    party: v.optional(v.string()),
+    province: v.optional(v.string()),
+    sortBy: v.optional(documentSortValidator),
+    sortOrder: v.optional(v.union(v.literal('asc'), v.literal('desc'))),
+  },
+  handler: async (ctx, args) => {
+    const sortBy = args.sortBy ?? 'creationTime';
+    const aggregates = ctx.db.query('documentAggregates');
+    const sorted =
+      sortBy === 'name'
+        ? aggregates.withIndex('by_display_name')
+        : sortBy === 'totalIngresos'
+          ? aggregates.withIndex('by_summary_ingresos')
+          : sortBy === 'totalGastos'
+            ? aggregates.withIndex('by_summary_gastos')
+            : aggregates.withIndex('by_creation_time');
+
+    const results = await sorted
+      .order(args.sortOrder ?? (sortBy === 'name' ? 'asc' : 'desc'))
+      .filter((q) => {
+        // Only the latest version of each filing
+        const conditions = [q.neq(q.field('isSuperseded'), true)];
+        if (args.status !== undefined) conditions.push(q.eq(q.field('status'), args.status));
+        if (args.summaryStatus !== undefined) conditions.push(q.eq(q.field('summaryStatus'), args.summaryStatus));
+        if (args.validated !== undefined) {
+          conditions.push(
+            args.validated ? q.eq(q.field('dataSource'), 'validated') : q.neq(q.field('dataSource'), 'validated'),
+          );
         }
-
-        // Otherwise, use the latest Gemini 3 extraction
-        const extractions = await ctx.db
-          .query('extractions')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .collect();
-
-        const gemini3Extraction = extractions
-          .filter((e) => e.model.startsWith('gemini-3'))
-          .sort((a, b) => b.completedAt - a.completedAt)[0];
-
-        if (gemini3Extraction) {
-          return {
-            ...doc,
-            ingressCount: gemini3Extraction.ingress.length,
-            egressCount: gemini3Extraction.egress.length,
-            ...summaryTotals,
-          };
+        if (args.minDiscrepancy !== undefined) {
+          conditions.push(q.eq(q.field('hasSummary'), true), q.gte(q.field('maxAbsDiscrepancy'), args.minDiscrepancy));
         }
-
-        // No extractions yet
+        if (args.maxDiscrepancy !== undefined) {
+          conditions.push(q.eq(q.field('hasSummary'), true), q.lte(q.field('maxAbsDiscrepancy'), args.maxDiscrepancy));
+        }
+        if (args.position !== undefined) conditions.push(q.eq(q.field('candidatePosition'), args.position));
+        if (args.party !== undefined) conditions.push(q.eq(q.field('candidateParty'), args.party));
+        if (args.province !== undefined) conditions.push(q.eq(q.field('candidateProvince'), args.province));
+        return q.and(...conditions);
+      })
+      .paginate(args.paginationOpts);
+
+    const page = await Promise.all(
+      results.page.map(async (aggregate) => {
+        const doc = await ctx.db.get(aggregate.documentId);
+        if (!doc) return null;
         return {
           ...doc,
-          ingressCount: 0,
-          egressCount: 0,
-          ...summaryTotals,
+          ingressCount: aggregate.ingressCount,
+          egressCount: aggregate.egressCount,
+          ruleIssueCount: aggregate.ruleIssueCount,
+          validatedPageCount: aggregate.validatedPageCount ?? 0,
+          totalIngresos: aggregate.summaryTotalIngresos,
+          totalGastos: aggregate.summaryTotalGastos,
+          candidateName: aggregate.candidateName,
+          candidatePosition: aggregate.candidatePosition,
+          candidateParty: aggregate.candidateParty,
         };
       }),
     );
+
+    return {
+      ...results,
+      page: page.filter((doc): doc is NonNullable<typeof doc> => doc !== null),
+    };
   },
 });
 
 /**
- * Export-ready data for all documents (validated data preferred, otherwise Gemini 3)
+ * Export-ready data for a page of documents (validated data preferred, otherwise Gemini 3).
+ * With `verifiedOnly`, only validated rows that passed four-eyes verification are exported.
  */
 export const getDocumentsForCsvExport = authQuery({
-  args: {},
-  handler: async (ctx) => {
-    const documents = await ctx.db.query('documents').order('desc').collect();
-
-    return await Promise.all(
-      documents.map(async (doc) => {
-        const validatedData = await ctx.db
-          .query('validatedData')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .unique();
+  args: {
+    paginationOpts: paginationOptsValidator,
+    verifiedOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const results = await ctx.db
+      .query('documents')
+      .order('desc')
+      .filter((q) => q.eq(q.field('supersededBy'), undefined))
+      .paginate(args.paginationOpts);
 
-        if (validatedData) {
-          return {
-            ...doc,
-            source: 'validated' as const,
-            sourceModel: null,
-            sourceCompletedAt: validatedData.validatedAt,
-            ingress: validatedData.ingress,
-            egress: validatedData.egress,
-          };
-        }
+    return {
+      ...results,
+      page: await Promise.all(
+        results.page.map(async (doc) => {
+          const aggregate = await getDocumentAggregate(ctx, doc._id);
+          const candidate = candidateSummary(doc.candidateId ? await ctx.db.get(doc.candidateId) : null);
+
+          if (args.verifiedOnly) {
+            const verifiedRows = await loadVerifiedRows(ctx, doc._id);
+            const validatedData = await ctx.db
+              .query('validatedData')
+              .withIndex('by_document', (q) => q.eq('documentId', doc._id))
+              .unique();
+            return {
+              ...doc,
+              ...candidate,
+              source: verifiedRows ? ('verified' as const) : ('none' as const),
+              sourceModel: null,
+              sourceCompletedAt: validatedData?.validatedAt ?? null,
+              ingress: verifiedRows?.ingress ?? [],
+              egress: verifiedRows?.egress ?? [],
+            };
+          }
 
-        const extractions = await ctx.db
-          .query('extractions')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .collect();
+          if (aggregate?.dataSource === 'validated') {
+            const validatedData = await ctx.db
+              .query('validatedData')
+              .withIndex('by_document', (q) => q.eq('documentId', doc._id))
+              .unique();
+            if (validatedData) {
+              const { ingress, egress } = await loadOwnerRows(ctx, {
+                source: 'validated',
+                documentId: doc._id,
+                validatedDataId: validatedData._id,
+              });
+              return {
+                ...doc,
+                ...candidate,
+                source: 'validated' as const,
+                sourceModel: null,
+                sourceCompletedAt: validatedData.validatedAt,
+                ingress,
+                egress,
+              };
+            }
+          }
 
-        const latestGemini3Extraction = extractions
-          .filter((extraction) => extraction.model.startsWith('gemini-3'))
-          .sort((a, b) => b.completedAt - a.completedAt)[0];
+          const extraction = aggregate?.extractionId ? await ctx.db.get(aggregate.extractionId) : null;
+          if (!extraction) {
+            return {
+              ...doc,
+              ...candidate,
+              source: 'none' as const,
+              sourceModel: null,
+              sourceCompletedAt: null,
+              ingress: [],
+              egress: [],
+            };
+          }
 
-        if (!latestGemini3Extraction) {
+          const { ingress, egress } = await loadOwnerRows(ctx, {
+            source: 'extraction',
+            documentId: doc._id,
+            extractionId: extraction._id,
+          });
           return {
             ...doc,
-            source: 'none' as const,
-            sourceModel: null,
-            sourceCompletedAt: null,
-            ingress: [],
-            egress: [],
+            ...candidate,
+            source: 'gemini-3' as const,
+            sourceModel: extraction.model,
+            sourceCompletedAt: extraction.completedAt,
+            ingress,
+            egress,
           };
-        }
-
-        return {
-          ...doc,
-          source: 'gemini-3' as const,
-          sourceModel: latestGemini3Extraction.model,
-          sourceCompletedAt: latestGemini3Extraction.completedAt,
-          ingress: latestGemini3Extraction.ingress,
-          egress: latestGemini3Extraction.egress,
-        };
-      }),
-    );
+        }),
+      ),
+    };
   },
 });
 
@@ -304,10 +654,87 @@ export const getDocument = authQuery({
   },
 });
 
+/**
+ * Every version of the filing `documentId` belongs to, oldest first
+ */
+export const getDocumentVersions = authQuery({
+  args: {
+    documentId: v.id('documents'),
+  },
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+
+    const versions = doc.versionGroupId
+      ? await ctx.db
+          .query('documents')
+          .withIndex('by_version_group', (q) => q.eq('versionGroupId', doc.versionGroupId))
+          .collect()
+      : [doc];
+
+    return await Promise.all(
+      versions.map(async (version) => {
+        const aggregate = await getDocumentAggregate(ctx, version._id);
+        return {
+          _id: version._id,
+          _creationTime: version._creationTime,
+          name: version.name,
+          version: version.version ?? 1,
+          status: version.status,
+          pageCount: version.pageCount,
+          isLatest: version.supersededBy === undefined,
+          dataSource: aggregate?.dataSource ?? 'none',
+          ingressCount: aggregate?.ingressCount ?? 0,
+          egressCount: aggregate?.egressCount ?? 0,
+          totalIngresos: aggregate?.summaryTotalIngresos ?? null,
+          totalGastos: aggregate?.summaryTotalGastos ?? null,
+        };
+      }),
+    );
+  },
+});
+
+/**
+ * Rows added, removed and changed between two versions of a filing, on their validated rows
+ * (or the latest extraction when a version is not validated yet)
+ */
+export const getVersionDiff = authQuery({
+  args: {
+    baseDocumentId: v.id('documents'),
+    compareDocumentId: v.id('documents'),
+  },
+  handler: async (ctx, args) => {
+    const [base, compare] = await Promise.all([ctx.db.get(args.baseDocumentId), ctx.db.get(args.compareDocumentId)]);
+    if (!base || !compare) {
+      throw new Error('Document not found');
+    }
+    if ((base.versionGroupId ?? base._id) !== (compare.versionGroupId ?? compare._id)) {
+      throw new Error('Documents are not versions of the same filing');
+    }
+
+    const [baseRows, compareRows] = await Promise.all([
+      loadDocumentRows(ctx, base._id),
+      loadDocumentRows(ctx, compare._id),
+    ]);
+
+    return {
+      base: { _id: base._id, version: base.version ?? 1, dataSource: baseRows.source },
+      compare: { _id: compare._id, version: compare.version ?? 1, dataSource: compareRows.source },
+      ingress: mapVersionRowDiff(
+        diffVersionRows('ingress', baseRows.ingress, compareRows.ingress),
+        summarizeIngressRow,
+      ),
+      egress: mapVersionRowDiff(diffVersionRows('egress', baseRows.egress, compareRows.egress), summarizeEgressRow),
+    };
+  },
+});
+
 /**
  * Set the rotation for a specific page (rotates by 90 degrees each call)
  */
-export const setPageRotation = authMutation({
+export const setPageRotation = reviewerMutation({
   args: {
     documentId: v.id('documents'),
     pageNumber: v.number(),
@@ -339,7 +766,7 @@ export const setPageRotation = authMutation({
 /**
  * Reprocess all documents stuck in "processing" state
  */
-export const reprocessStuckDocuments = authMutation({
+export const reprocessStuckDocuments = adminMutation({
   args: {},
   returns: v.object({
     reprocessed: v.number(),
@@ -356,6 +783,7 @@ export const reprocessStuckDocuments = authMutation({
         errorMessage: undefined,
         processingStartedAt: undefined,
       });
+      await syncDocumentAggregateStatus(ctx, doc._id);
 
       await ctx.scheduler.runAfter(0, internal.extraction.startExtraction, {
         documentId: doc._id,
@@ -371,7 +799,7 @@ export const reprocessStuckDocuments = authMutation({
 /**
  * Process summaries for all documents that have completed extraction but no summary
  */
-export const processAllSummaries = authMutation({
+export const processAllSummaries = adminMutation({
   args: {
     force: v.optional(v.boolean()),
   },
@@ -392,6 +820,7 @@ export const processAllSummaries = authMutation({
       await ctx.db.patch(doc._id, {
         summaryStatus: 'pending',
       });
+      await syncDocumentAggregateStatus(ctx, doc._id);
 
       await ctx.scheduler.runAfter(0, internal.summaryExtraction.startSummaryExtraction, {
         documentId: doc._id,
@@ -407,7 +836,7 @@ export const processAllSummaries = authMutation({
 /**
  * Process summary for a single document
  */
-export const processSingleSummary = authMutation({
+export const processSingleSummary = reviewerMutation({
   args: { documentId: v.id('documents') },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -419,6 +848,7 @@ export const processSingleSummary = authMutation({
     await ctx.db.patch(args.documentId, {
       summaryStatus: 'pending',
     });
+    await syncDocumentAggregateStatus(ctx, args.documentId);
 
     await ctx.scheduler.runAfter(0, internal.summaryExtraction.startSummaryExtraction, {
       documentId: args.documentId,
@@ -429,136 +859,42 @@ export const processSingleSummary = authMutation({
 });
 
 /**
- * Get documents with discrepancy calculations between summary totals and row sums
+ * Documents with a summary, ordered by their largest discrepancy between summary totals and row sums,
+ * or between the portal-declared totals and either of them. With `verifiedOnly` the row sums count
+ * four-eyes verified rows only, and documents without validated data come last.
  */
 export const getDocumentsWithDiscrepancies = authQuery({
-  args: {},
-  handler: async (ctx) => {
-    const documents = await ctx.db.query('documents').collect();
-
-    const results = await Promise.all(
-      documents.map(async (doc) => {
-        // Get summary extraction
-        const summaryExtraction = await ctx.db
-          .query('summaryExtractions')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .first();
-
-        if (!summaryExtraction) {
-          return null;
-        }
-
-        const summaryTotalIngresos = summaryExtraction.summary.totalIngresos ?? null;
-        const summaryTotalGastos = summaryExtraction.summary.totalGastos ?? null;
-        const saldoAnterior = summaryExtraction.summary.saldoPrimariasRecoleccionFirmas ?? 0;
-
-        // Adjusted summary ingresos: subtract saldo anterior (carry-over from primaries)
-        const adjustedSummaryIngresos = summaryTotalIngresos != null ? summaryTotalIngresos - saldoAnterior : null;
-
-        // Get best row data: validated first, then gemini-3-flash
-        const validatedData = await ctx.db
-          .query('validatedData')
-          .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-          .unique();
-
-        let ingress: IngressRow[] = [];
-        let egress: EgressRow[] = [];
-        let dataSource: 'validated' | 'gemini-3-flash' | 'none' = 'none';
-
-        if (validatedData) {
-          ingress = validatedData.ingress;
-          egress = validatedData.egress;
-          dataSource = 'validated';
-        } else {
-          const extractions = await ctx.db
-            .query('extractions')
-            .withIndex('by_document', (q) => q.eq('documentId', doc._id))
-            .collect();
-
-          const gemini3Extraction = extractions
-            .filter((e) => e.model.startsWith('gemini-3'))
-            .sort((a, b) => b.completedAt - a.completedAt)[0];
-
-          if (gemini3Extraction) {
-            ingress = gemini3Extraction.ingress;
-            egress = gemini3Extraction.egress;
-            dataSource = 'gemini-3-flash';
-          }
-        }
-
-        // Calculate sums from rows using self-reported totals
-        const summedIngresos = ingress.reduce((sum, row) => sum + (row.total ?? 0), 0);
-        const summedGastos = egress.reduce((sum, row) => sum + (row.totalDeGastosDePropagandaYCampania ?? 0), 0);
-
-        // Calculate sums from category fields (not self-reported totals)
-        const summedIngresosByCategory = ingress.reduce((sum, row) => {
-          const rowCategorySum =
-            (row.donacionesPrivadasEfectivo ?? 0) +
-            (row.donacionesPrivadasChequeAch ?? 0) +
-            (row.donacionesPrivadasEspecie ?? 0) +
-            (row.recursosPropiosEfectivoCheque ?? 0) +
-            (row.recursosPropiosEspecie ?? 0);
-          return sum + rowCategorySum;
-        }, 0);
-
-        const summedGastosByCategory = egress.reduce((sum, row) => {
-          let rowCategorySum =
-            (row.movilizacion ?? 0) +
-            (row.combustible ?? 0) +
-            (row.hospedaje ?? 0) +
-            (row.activistas ?? 0) +
-            (row.caravanaConcentraciones ?? 0) +
-            (row.comidaBrindis ?? 0) +
-            (row.alquilerLocalServiciosBasicos ?? 0) +
-            (row.cargosBancarios ?? 0) +
-            (row.personalizacionArticulosPromocionales ?? 0) +
-            (row.propagandaElectoral ?? 0);
-          if (rowCategorySum === 0) rowCategorySum = (row.totalGastosCampania ?? 0) + (row.totalGastosPropaganda ?? 0);
-          return sum + rowCategorySum;
-        }, 0);
-
-        // Calculate discrepancies using self-reported totals (adjusted for saldo anterior)
-        const ingressDiscrepancy = adjustedSummaryIngresos != null ? adjustedSummaryIngresos - summedIngresos : null;
-        const egressDiscrepancy = summaryTotalGastos != null ? summaryTotalGastos - summedGastos : null;
-
-        // Calculate discrepancies using category sums (adjusted for saldo anterior)
-        const ingressDiscrepancyByCategory =
-          adjustedSummaryIngresos != null ? adjustedSummaryIngresos - summedIngresosByCategory : null;
-        const egressDiscrepancyByCategory =
-          summaryTotalGastos != null ? summaryTotalGastos - summedGastosByCategory : null;
-
-        // Calculate max absolute discrepancy for sorting (use category-based for better accuracy)
-        const maxAbsDiscrepancy = Math.max(
-          Math.abs(ingressDiscrepancyByCategory ?? 0),
-          Math.abs(egressDiscrepancyByCategory ?? 0),
-        );
-
-        return {
-          _id: doc._id,
-          name: doc.name,
-          dataSource,
-          summaryTotalIngresos,
-          saldoAnterior,
-          adjustedSummaryIngresos,
-          summaryTotalGastos,
-          summedIngresos,
-          summedGastos,
-          summedIngresosByCategory,
-          summedGastosByCategory,
-          ingressDiscrepancy,
-          egressDiscrepancy,
-          ingressDiscrepancyByCategory,
-          egressDiscrepancyByCategory,
-          maxAbsDiscrepancy,
-          ingressRowCount: ingress.length,
-          egressRowCount: egress.length,
-        };
-      }),
-    );
+  args: {
+    paginationOpts: paginationOptsValidator,
+    // 'summary': summary page against row sums; 'portal': portal-declared totals against both
+    sortBy: v.optional(v.union(v.literal('summary'), v.literal('portal'))),
+    verifiedOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const index = args.verifiedOnly
+      ? args.sortBy === 'portal'
+        ? 'by_summary_and_verified_portal_discrepancy'
+        : 'by_summary_and_verified_discrepancy'
+      : args.sortBy === 'portal'
+        ? 'by_summary_and_portal_discrepancy'
+        : 'by_summary_and_discrepancy';
+    const results = await ctx.db
+      .query('documentAggregates')
+      .withIndex(index, (q) => q.eq('hasSummary', true))
+      .order('desc')
+      .filter((q) => q.neq(q.field('isSuperseded'), true))
+      .paginate(args.paginationOpts);
 
-    // Filter out nulls and sort by max absolute discrepancy descending
-    return results
-      .filter((r): r is NonNullable<typeof r> => r !== null)
-      .sort((a, b) => b.maxAbsDiscrepancy - a.maxAbsDiscrepancy);
+    return {
+      ...results,
+      page: results.page.map(
+        ({ _id, _creationTime, documentId, extractionId, hasSummary, updatedAt, ...aggregate }) => ({
+          _id: documentId,
+          ...aggregate,
+          ingressRowCount: aggregate.ingressCount,
+          egressRowCount: aggregate.egressCount,
+        }),
+      ),
+    };
   },
 });
@@ -0,0 +1,119 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import { internalMutation } from './_generated/server';
+import { authQuery, reviewerMutation } from './lib/withAuth';
+import {
+  getEntityDetail,
+  mergeEntities,
+  pinEntity,
+  refreshDocumentEntities,
+  searchEntities,
+  splitEntity,
+  type EntityRegistry,
+} from './lib/entityRegistry';
+
+// Donors are built from the ingress rows, one contribution per document and identity
+const DONOR_REGISTRY: EntityRegistry<'donor'> = {
+  entityType: 'donor',
+  tables: { entities: 'donors', links: 'donorContributions', aliases: 'donorAliases' },
+  entityField: 'donorId',
+  byEntityIndex: 'by_donor',
+  extractRows: ({ ingress }) =>
+    ingress.map((row) => ({
+      name: row.contribuyenteNombre,
+      idNumber: row.cedulaRuc,
+      amount: row.total ?? 0,
+      categoryAmounts: {},
+    })),
+};
+
+/**
+ * Rebuild the contributions of one document from its current rows (validated, otherwise extracted).
+ * Scheduled through scheduleDocumentEntitiesRefresh, so it follows every change to the document's
+ * rows, candidate or versions.
+ */
+export const refreshDocumentDonors = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await refreshDocumentEntities(ctx, DONOR_REGISTRY, args.documentId);
+    return null;
+  },
+});
+
+/**
+ * Donors by total donated, or matching a name or cédula/RUC
+ */
+export const listDonors = authQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const found = await searchEntities(ctx, DONOR_REGISTRY, args.search?.trim() ?? '', args.paginationOpts);
+    if (found) return found;
+    return await ctx.db.query('donors').withIndex('by_total_amount').order('desc').paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * A donor with every candidate it gave to, their totals and the documents the donations are in,
+ * and the identities (cédula/RUC or name) its rows were matched under, for splitting
+ */
+export const getDonor = authQuery({
+  args: {
+    donorId: v.id('donors'),
+  },
+  handler: async (ctx, args) => {
+    return await getEntityDetail(ctx, DONOR_REGISTRY, args.donorId);
+  },
+});
+
+/**
+ * Merge one donor into another. Every identity of the merged donor keeps pointing at the target,
+ * so documents extracted or validated later land there too.
+ */
+export const mergeDonors = reviewerMutation({
+  args: {
+    sourceId: v.id('donors'),
+    targetId: v.id('donors'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await mergeEntities(ctx, DONOR_REGISTRY, ctx.userId, args.sourceId, args.targetId);
+    return null;
+  },
+});
+
+/**
+ * Move some identities of a donor (and their contributions) into a new donor
+ */
+export const splitDonor = reviewerMutation({
+  args: {
+    donorId: v.id('donors'),
+    identityKeys: v.array(v.string()),
+  },
+  returns: v.id('donors'),
+  handler: async (ctx, args) => {
+    return await splitEntity(ctx, DONOR_REGISTRY, ctx.userId, args.donorId, args.identityKeys);
+  },
+});
+
+/**
+ * Set a donor's canonical name and cédula/RUC by hand. The donor keeps every identity it has now,
+ * and automatic matching stops renaming it or giving it another number.
+ */
+export const pinDonor = reviewerMutation({
+  args: {
+    donorId: v.id('donors'),
+    name: v.string(),
+    idNumber: v.union(v.string(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await pinEntity(ctx, DONOR_REGISTRY, ctx.userId, args.donorId, { name: args.name, idNumber: args.idNumber });
+    return null;
+  },
+});
@@ -0,0 +1,35 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import { authQuery } from './lib/withAuth';
+
+/**
+ * Manual merges, splits and pins in the donor or supplier registry, newest first
+ */
+export const listEntityActions = authQuery({
+  args: {
+    entityType: v.union(v.literal('donor'), v.literal('supplier')),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query('entityActions')
+      .withIndex('by_entity_type', (q) => q.eq('entityType', args.entityType))
+      .order('desc')
+      .paginate(args.paginationOpts);
+
+    const userNames = new Map<string, string>();
+    for (const action of result.page) {
+      if (userNames.has(action.userId)) continue;
+      const user = await ctx.db.get(action.userId);
+      userNames.set(action.userId, user?.name ?? user?.email ?? 'Usuario eliminado');
+    }
+
+    return {
+      ...result,
+      page: result.page.map((action) => ({
+        ...action,
+        userName: userNames.get(action.userId) ?? 'Usuario eliminado',
+      })),
+    };
+  },
+});
@@ -6,7 +6,6 @@ import { internal } from './_generated/api';
 import pLimit from 'p-limit';
 import {
   MODEL,
-  callGeminiDirect,
   splitPdfIntoPages,
   extractSinglePage,
   EXTRACTION_PROMPT,
@@ -15,11 +14,140 @@ import {
   type IngresoRow,
   type EgresoRow,
 } from '../pdf-extraction';
+import type { ExtractionUsage, ExtractionVariant } from '../extraction-providers';
+import { EGRESS_KEY_FIELD, INGRESS_KEY_FIELD } from './lib/shared/rows';
+import { getModelVariants } from './lib/modelCalls';
+import { countDisagreements, mergeRowsByConsensus } from './lib/consensus';
 
 const PAGE_CONCURRENCY = 50;
 
-type IngressRow = IngresoRow & { pageNumber: number };
-type EgressRow = EgresoRow & { pageNumber: number };
+type IngressRow = IngresoRow & { pageNumber: number; disagreementFields?: string[] };
+type EgressRow = EgresoRow & { pageNumber: number; disagreementFields?: string[] };
+
+type VariantPageRows = { ingress: IngressRow[]; egress: EgressRow[] };
+
+type PageResult = VariantPageRows & { byVariant: Array<VariantPageRows | null> };
+
+type ExtractionRecord = VariantPageRows & {
+  provider: string;
+  model: string;
+  variant?: string;
+  consensusOf?: string[];
+};
+
+function sumUsage(usages: ExtractionUsage[]): ExtractionUsage {
+  const sum = (key: keyof ExtractionUsage) =>
+    usages.some((usage) => usage[key] != null) ? usages.reduce((total, usage) => total + (usage[key] ?? 0), 0) : null;
+  return {
+    promptTokens: sum('promptTokens'),
+    completionTokens: sum('completionTokens'),
+    totalTokens: sum('totalTokens'),
+  };
+}
+
+/**
+ * Name recorded on page job records for the variants being run
+ */
+function variantsProviderName(variants: ExtractionVariant[]): string {
+  return variants.length === 1 ? variants[0].provider.name : variants.map((variant) => variant.label).join(', ');
+}
+
+/**
+ * Provider and model recorded on a stored extraction: those of the variants that ran,
+ * comma-separated when a consensus merges variants from different providers or models
+ */
+function extractionSource(variants: ExtractionVariant[]): { provider: string; model: string } {
+  const distinct = (values: string[]) => [...new Set(values)].join(',');
+  return {
+    provider: distinct(variants.map((variant) => variant.provider.name)),
+    model: distinct(variants.map((variant) => variant.provider.modelId)),
+  };
+}
+
+/**
+ * Run every variant on one page and merge their rows by consensus.
+ * The page only fails when every variant fails; `byVariant` holds null for variants that failed.
+ */
+export async function extractPageWithVariants(
+  variants: ExtractionVariant[],
+  pdfBase64: string,
+  pageNumber: number,
+): Promise<{ merged: VariantPageRows; byVariant: Array<VariantPageRows | null>; usage: ExtractionUsage }> {
+  const settled = await Promise.allSettled(
+    variants.map((variant) =>
+      variant.provider.extract(pdfBase64, {
+        task: 'pages',
+        prompt: EXTRACTION_PROMPT,
+        schema: ResponseSchema,
+        jsonSchema: RESPONSE_JSON_SCHEMA,
+        mediaResolution: variant.mediaResolution,
+      }),
+    ),
+  );
+
+  const byVariant = settled.map((outcome, index) => {
+    if (outcome.status === 'rejected') {
+      console.warn(`[${MODEL.id}] Page ${pageNumber}: variant ${variants[index].label} failed:`, outcome.reason);
+      return null;
+    }
+    return {
+      ingress: outcome.value.parsed.ingress.map((row) => ({ ...row, pageNumber })),
+      egress: outcome.value.parsed.egress.map((row) => ({ ...row, pageNumber })),
+    };
+  });
+
+  const succeeded = byVariant.filter((rows): rows is VariantPageRows => rows !== null);
+  if (succeeded.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  if (variants.length > 1 && succeeded.length === 1) {
+    console.warn(`[${MODEL.id}] Page ${pageNumber}: only one variant succeeded, no consensus available`);
+  }
+
+  const merged = {
+    ingress: mergeRowsByConsensus(
+      succeeded.map((rows) => rows.ingress),
+      INGRESS_KEY_FIELD,
+    ),
+    egress: mergeRowsByConsensus(
+      succeeded.map((rows) => rows.egress),
+      EGRESS_KEY_FIELD,
+    ),
+  };
+
+  if (succeeded.length > 1) {
+    const flagged = countDisagreements(merged.ingress) + countDisagreements(merged.egress);
+    if (flagged > 0) {
+      console.log(`[${MODEL.id}] Page ${pageNumber}: ${flagged} cells need review (variants disagree)`);
+    }
+  }
+
+  const usage = sumUsage(settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value.usage] : [])));
+
+  return { merged, byVariant, usage };
+}
+
+/**
+ * The extraction records a run stores, in order: each variant's own rows when several variants
+ * ran, then the merged result (last) that the app works from
+ */
+export function extractionRecords(variants: ExtractionVariant[], pageResults: PageResult[]): ExtractionRecord[] {
+  const merged: ExtractionRecord = {
+    ...extractionSource(variants),
+    ingress: pageResults.flatMap((result) => result.ingress),
+    egress: pageResults.flatMap((result) => result.egress),
+    consensusOf: variants.length > 1 ? variants.map((variant) => variant.label) : undefined,
+  };
+  if (variants.length === 1) return [merged];
+
+  const perVariant = variants.map((variant, index) => ({
+    ...extractionSource([variant]),
+    variant: variant.label,
+    ingress: pageResults.flatMap((result) => result.byVariant[index]?.ingress ?? []),
+    egress: pageResults.flatMap((result) => result.byVariant[index]?.egress ?? []),
+  }));
+  return [...perVariant, merged];
+}
 
 /**
  * Re-extract a single page from a document
@@ -28,9 +156,14 @@ export const reExtractPage = internalAction({
   args: {
     documentId: v.id('documents'),
     pageNumber: v.number(),
+    // User who asked for the re-extraction; validated cells it rewrites are logged under them
+    requestedBy: v.id('users'),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
+    // Set once the model call starts, so only model failures are recorded on the page job
+    let startedAt: number | null = null;
+
     try {
       // Get document info
       const doc = await ctx.runQuery(internal.extractionHelpers.getDocumentInternal, {
@@ -65,37 +198,49 @@ export const reExtractPage = internalAction({
         status: 'processing',
       });
 
-      console.log(`[${MODEL.id}] Re-extracting page ${args.pageNumber}...`);
+      const variants = getModelVariants(ctx, `page ${args.pageNumber} re-extraction`);
+      const providerName = variantsProviderName(variants);
+      console.log(`[${MODEL.id} via ${providerName}] Re-extracting page ${args.pageNumber}...`);
 
-      const { parsed: result } = await callGeminiDirect(pdfBase64, process.env.GEMINI_API_KEY!, {
-        prompt: EXTRACTION_PROMPT,
-        schema: ResponseSchema,
-        jsonSchema: RESPONSE_JSON_SCHEMA,
-        mediaResolution: 'MEDIA_RESOLUTION_HIGH',
+      // Set before the job record is touched, so a failure from here on is recorded against the page
+      startedAt = Date.now();
+      await ctx.runMutation(internal.extractionHelpers.markPageExtractionStarted, {
+        documentId: args.documentId,
+        pageNumber: args.pageNumber,
+        provider: providerName,
       });
 
+      const { merged: result, usage } = await extractPageWithVariants(variants, pdfBase64, args.pageNumber);
+
       console.log(
         `[${MODEL.id}] Page ${args.pageNumber} re-extracted: ${result.ingress.length} ingress, ${result.egress.length} egress`,
       );
 
-      // Add page numbers to rows
-      const ingressWithPage = result.ingress.map((row) => ({ ...row, pageNumber: args.pageNumber }));
-      const egressWithPage = result.egress.map((row) => ({ ...row, pageNumber: args.pageNumber }));
+      await ctx.runMutation(internal.extractionHelpers.recordPageExtractionResult, {
+        documentId: args.documentId,
+        pageNumber: args.pageNumber,
+        status: 'completed',
+        latencyMs: Date.now() - startedAt,
+        ...usage,
+        ingressCount: result.ingress.length,
+        egressCount: result.egress.length,
+      });
 
       // Update extraction data for this page
       await ctx.runMutation(internal.extractionHelpers.updateExtractionForPage, {
         documentId: args.documentId,
         pageNumber: args.pageNumber,
-        ingress: ingressWithPage,
-        egress: egressWithPage,
+        ingress: result.ingress,
+        egress: result.egress,
       });
 
       // Also update validated data if it exists (so UI shows new rows immediately)
       await ctx.runMutation(internal.extractionHelpers.updateValidatedDataForPage, {
         documentId: args.documentId,
         pageNumber: args.pageNumber,
-        ingress: ingressWithPage,
-        egress: egressWithPage,
+        ingress: result.ingress,
+        egress: result.egress,
+        requestedBy: args.requestedBy,
       });
 
       // Clear the re-extraction status
@@ -106,6 +251,16 @@ export const reExtractPage = internalAction({
     } catch (error) {
       console.error(`[${MODEL.id}] Re-extraction failed for page ${args.pageNumber}:`, error);
 
+      if (startedAt !== null) {
+        await ctx.runMutation(internal.extractionHelpers.recordPageExtractionResult, {
+          documentId: args.documentId,
+          pageNumber: args.pageNumber,
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          latencyMs: Date.now() - startedAt,
+        });
+      }
+
       // Set status to failed
       await ctx.runMutation(internal.extractionHelpers.setPageReExtractionStatus, {
         documentId: args.documentId,
@@ -160,10 +315,15 @@ export const startExtraction = internalAction({
       const pages = await splitPdfIntoPages(pdfBytes);
       console.log(`Split PDF into ${pages.length} pages`);
 
-      console.log(`Processing with ${MODEL.id}...`);
+      const variants = getModelVariants(ctx, `document ${args.documentId}`);
+      const providerName = variantsProviderName(variants);
+      console.log(`Processing with ${MODEL.id} via ${providerName}...`);
 
-      const allIngress: IngressRow[] = [];
-      const allEgress: EgressRow[] = [];
+      // Start a fresh set of per-page job records for this run
+      await ctx.runMutation(internal.extractionHelpers.resetPageExtractions, {
+        documentId: args.documentId,
+        pageCount: pages.length,
+      });
 
       // Process pages concurrently with limit
       const limit = pLimit(PAGE_CONCURRENCY);
@@ -172,54 +332,81 @@ export const startExtraction = internalAction({
         pages.map((page) =>
           limit(async () => {
             const pdfBase64 = Buffer.from(page.pageBytes).toString('base64');
+            const startedAt = Date.now();
 
             try {
-              const { parsed: result } = await callGeminiDirect(pdfBase64, process.env.GEMINI_API_KEY!, {
-                prompt: EXTRACTION_PROMPT,
-                schema: ResponseSchema,
-                jsonSchema: RESPONSE_JSON_SCHEMA,
-                mediaResolution: 'MEDIA_RESOLUTION_HIGH',
+              await ctx.runMutation(internal.extractionHelpers.markPageExtractionStarted, {
+                documentId: args.documentId,
+                pageNumber: page.pageNumber,
+                provider: providerName,
               });
 
+              const {
+                merged: result,
+                byVariant,
+                usage,
+              } = await extractPageWithVariants(variants, pdfBase64, page.pageNumber);
+
               console.log(
                 `[${MODEL.id}] Page ${page.pageNumber}: ${result.ingress.length} ingress, ${result.egress.length} egress`,
               );
 
+              await ctx.runMutation(internal.extractionHelpers.recordPageExtractionResult, {
+                documentId: args.documentId,
+                pageNumber: page.pageNumber,
+                status: 'completed',
+                latencyMs: Date.now() - startedAt,
+                ...usage,
+                ingressCount: result.ingress.length,
+                egressCount: result.egress.length,
+              });
+
               return {
                 pageNumber: page.pageNumber,
+                failed: false,
                 ingress: result.ingress,
                 egress: result.egress,
+                byVariant,
               };
             } catch (error) {
               console.error(`[${MODEL.id}] Error processing page ${page.pageNumber}:`, error);
-              // Return empty results for failed pages
-              return { pageNumber: page.pageNumber, ingress: [], egress: [] };
+
+              await ctx.runMutation(internal.extractionHelpers.recordPageExtractionResult, {
+                documentId: args.documentId,
+                pageNumber: page.pageNumber,
+                status: 'failed',
+                errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                latencyMs: Date.now() - startedAt,
+              });
+
+              // Failed pages contribute no rows; they stay visible through their job record
+              return {
+                pageNumber: page.pageNumber,
+                failed: true,
+                ingress: [],
+                egress: [],
+                byVariant: variants.map(() => null),
+              };
             }
           }),
         ),
       );
 
-      // Aggregate results from all pages
-      for (const result of pageResults) {
-        for (const row of result.ingress) {
-          allIngress.push({ ...row, pageNumber: result.pageNumber });
-        }
-        for (const row of result.egress) {
-          allEgress.push({ ...row, pageNumber: result.pageNumber });
-        }
+      const failedPageCount = pageResults.filter((result) => result.failed).length;
+      if (failedPageCount > 0) {
+        console.warn(`[${MODEL.id}] ${failedPageCount} of ${pages.length} pages failed`);
       }
 
-      // Store extraction results
-      await ctx.runMutation(internal.extractionHelpers.storeExtraction, {
-        documentId: args.documentId,
-        model: MODEL.id,
-        ingress: allIngress,
-        egress: allEgress,
-      });
+      // Store each variant's own run (when several ran) and then the result the app works from
+      const records = extractionRecords(variants, pageResults);
+      for (const record of records) {
+        await ctx.runMutation(internal.extractionHelpers.storeExtraction, { documentId: args.documentId, ...record });
+      }
+      const stored = records[records.length - 1];
 
-      console.log(`[${MODEL.id}] Completed: ${allIngress.length} ingress, ${allEgress.length} egress total`);
+      console.log(`[${MODEL.id}] Completed: ${stored.ingress.length} ingress, ${stored.egress.length} egress total`);
 
-      // Update status to completed
+      // Update status to completed (failed pages are reported from their job records)
       await ctx.runMutation(internal.extractionHelpers.updateDocumentStatus, {
         documentId: args.documentId,
         status: 'completed',
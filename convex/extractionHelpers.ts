@@ -1,5 +1,20 @@
 import { v } from 'convex/values';
-import { internalMutation, internalQuery } from './_generated/server';
+import { internalMutation, internalQuery, type MutationCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { diffRows, type DiffRow } from './lib/shared/validationDiff';
+import { pickLatestExtraction } from './lib/latestExtraction';
+import { refreshDocumentAggregate, syncDocumentAggregateStatus } from './lib/documentAggregates';
+import { scheduleDocumentEntitiesRefresh } from './lib/entityRegistry';
+import {
+  bumpPageVersions,
+  deletePageRows,
+  insertOwnerRows,
+  queryOwnerRows,
+  replacePageRows,
+  toPlainRow,
+  type RowOwner,
+} from './lib/rowStore';
+import { emptyTotals } from './lib/rowTotals';
 
 /**
  * Update document status
@@ -26,6 +41,13 @@ export const updateDocumentStatus = internalMutation({
     }
 
     await ctx.db.patch(args.documentId, patch);
+    await syncDocumentAggregateStatus(ctx, args.documentId);
+
+    // A completed run still reports pages that could not be read
+    if (args.status === 'completed' && !args.errorMessage) {
+      await syncFailedPagesMessage(ctx, args.documentId);
+    }
+
     return null;
   },
 });
@@ -36,19 +58,34 @@ export const updateDocumentStatus = internalMutation({
 export const storeExtraction = internalMutation({
   args: {
     documentId: v.id('documents'),
+    provider: v.string(),
     model: v.string(),
     ingress: v.array(v.any()),
     egress: v.array(v.any()),
+    variant: v.optional(v.string()),
+    consensusOf: v.optional(v.array(v.string())),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await ctx.db.insert('extractions', {
+    const extractionId = await ctx.db.insert('extractions', {
       documentId: args.documentId,
+      provider: args.provider,
       model: args.model,
-      ingress: args.ingress,
-      egress: args.egress,
+      totals: emptyTotals(),
       completedAt: Date.now(),
+      variant: args.variant,
+      consensusOf: args.consensusOf,
     });
+    await insertOwnerRows(
+      ctx,
+      { source: 'extraction', documentId: args.documentId, extractionId },
+      { ingress: args.ingress, egress: args.egress },
+    );
+    await refreshDocumentAggregate(ctx, args.documentId);
+    // The individual variant runs never feed the registries
+    if (args.variant === undefined) {
+      await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
+    }
     return null;
   },
 });
@@ -73,6 +110,7 @@ export const updateSummaryStatus = internalMutation({
     };
 
     await ctx.db.patch(args.documentId, patch);
+    await syncDocumentAggregateStatus(ctx, args.documentId);
     return null;
   },
 });
@@ -96,6 +134,7 @@ export const storeSummaryExtraction = internalMutation({
       pageNumber: args.pageNumber,
       completedAt: Date.now(),
     });
+    await refreshDocumentAggregate(ctx, args.documentId);
     return null;
   },
 });
@@ -118,33 +157,21 @@ export const updateExtractionForPage = internalMutation({
       .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
       .collect();
 
-    const latestExtraction = extractions
-      .filter((e) => e.model.startsWith('gemini-3'))
-      .sort((a, b) => b.completedAt - a.completedAt)[0];
+    const latestExtraction = pickLatestExtraction(extractions);
 
     if (!latestExtraction) {
       throw new Error('No extraction found for document');
     }
 
-    // Filter out old page data and add new page data
-    const updatedIngress = [
-      ...(latestExtraction.ingress as Array<{ pageNumber: number }>).filter(
-        (row) => row.pageNumber !== args.pageNumber,
-      ),
-      ...args.ingress,
-    ];
-
-    const updatedEgress = [
-      ...(latestExtraction.egress as Array<{ pageNumber: number }>).filter((row) => row.pageNumber !== args.pageNumber),
-      ...args.egress,
-    ];
-
-    // Update the extraction
-    await ctx.db.patch(latestExtraction._id, {
-      ingress: updatedIngress,
-      egress: updatedEgress,
-      completedAt: Date.now(),
-    });
+    await replacePageRows(
+      ctx,
+      { source: 'extraction', documentId: args.documentId, extractionId: latestExtraction._id },
+      args.pageNumber,
+      { ingress: args.ingress, egress: args.egress },
+    );
+    await ctx.db.patch(latestExtraction._id, { completedAt: Date.now() });
+    await refreshDocumentAggregate(ctx, args.documentId);
+    await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
 
     return null;
   },
@@ -157,6 +184,7 @@ export const deleteValidatedDataForPage = internalMutation({
   args: {
     documentId: v.id('documents'),
     pageNumber: v.number(),
+    requestedBy: v.id('users'),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -169,21 +197,13 @@ export const deleteValidatedDataForPage = internalMutation({
       return null; // No validated data to delete
     }
 
-    // Filter out rows for the specified page
-    const updatedIngress = (validatedData.ingress as Array<{ pageNumber: number }>).filter(
-      (row) => row.pageNumber !== args.pageNumber,
-    );
-
-    const updatedEgress = (validatedData.egress as Array<{ pageNumber: number }>).filter(
-      (row) => row.pageNumber !== args.pageNumber,
-    );
-
-    // Update the validated data
-    await ctx.db.patch(validatedData._id, {
-      ingress: updatedIngress,
-      egress: updatedEgress,
-      validatedAt: Date.now(),
-    });
+    const owner = { source: 'validated' as const, documentId: args.documentId, validatedDataId: validatedData._id };
+    await recordReExtractionEdits(ctx, owner, args.pageNumber, args.requestedBy, { ingress: [], egress: [] });
+    await deletePageRows(ctx, owner, args.pageNumber);
+    await bumpPageVersions(ctx, validatedData._id, [args.pageNumber]);
+    await ctx.db.patch(validatedData._id, { validatedAt: Date.now() });
+    await refreshDocumentAggregate(ctx, args.documentId);
+    await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
 
     return null;
   },
@@ -199,6 +219,7 @@ export const updateValidatedDataForPage = internalMutation({
     pageNumber: v.number(),
     ingress: v.array(v.any()),
     egress: v.array(v.any()),
+    requestedBy: v.id('users'),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -211,31 +232,49 @@ export const updateValidatedDataForPage = internalMutation({
       return null; // No validated data to update
     }
 
-    // Strip unreadableFields from extraction rows (validatedData uses humanUnreadableFields instead)
+    // Strip AI-only fields from extraction rows (validatedData uses humanUnreadableFields instead)
     const stripExtractionFields = <T extends Record<string, unknown>>(rows: T[]): T[] =>
-      rows.map(({ unreadableFields, ...rest }) => rest as T);
-
-    // Filter out old page data and add new page data
-    const updatedIngress = [
-      ...(validatedData.ingress as Array<{ pageNumber: number }>).filter((row) => row.pageNumber !== args.pageNumber),
-      ...stripExtractionFields(args.ingress),
-    ];
-
-    const updatedEgress = [
-      ...(validatedData.egress as Array<{ pageNumber: number }>).filter((row) => row.pageNumber !== args.pageNumber),
-      ...stripExtractionFields(args.egress),
-    ];
-
-    await ctx.db.patch(validatedData._id, {
-      ingress: updatedIngress,
-      egress: updatedEgress,
-      validatedAt: Date.now(),
-    });
+      rows.map(({ unreadableFields, disagreementFields, ...rest }) => rest as T);
+
+    const owner = { source: 'validated' as const, documentId: args.documentId, validatedDataId: validatedData._id };
+    const rows = { ingress: stripExtractionFields(args.ingress), egress: stripExtractionFields(args.egress) };
+    await recordReExtractionEdits(ctx, owner, args.pageNumber, args.requestedBy, rows);
+    await replacePageRows(ctx, owner, args.pageNumber, rows);
+    await bumpPageVersions(ctx, validatedData._id, [args.pageNumber]);
+    await ctx.db.patch(validatedData._id, { validatedAt: Date.now() });
+    await refreshDocumentAggregate(ctx, args.documentId);
+    await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
 
     return null;
   },
 });
 
+/**
+ * Record in the validation audit log every cell a re-extraction changes on a validated page,
+ * attributed to the user who requested it
+ */
+async function recordReExtractionEdits(
+  ctx: MutationCtx,
+  owner: Extract<RowOwner, { source: 'validated' }>,
+  pageNumber: number,
+  requestedBy: Id<'users'>,
+  next: { ingress: DiffRow[]; egress: DiffRow[] },
+) {
+  const editedAt = Date.now();
+  for (const rowType of ['ingress', 'egress'] as const) {
+    const previous = (await queryOwnerRows(ctx, rowType, owner, pageNumber)).map(toPlainRow);
+    for (const change of diffRows(rowType, previous, next[rowType])) {
+      await ctx.db.insert('validationEdits', {
+        documentId: owner.documentId,
+        userId: requestedBy,
+        editedAt,
+        ...change,
+        source: 'reExtraction',
+      });
+    }
+  }
+}
+
 /**
  * Set page re-extraction status (pending/processing)
  */
@@ -279,6 +318,140 @@ export const clearPageReExtractionStatus = internalMutation({
   },
 });
 
+/**
+ * Set the document error message from the number of failed pages (cleared when none failed)
+ */
+async function syncFailedPagesMessage(ctx: MutationCtx, documentId: Id<'documents'>) {
+  const records = await ctx.db
+    .query('pageExtractions')
+    .withIndex('by_document_and_page', (q) => q.eq('documentId', documentId))
+    .collect();
+  const failedPageCount = records.filter((record) => record.status === 'failed').length;
+
+  await ctx.db.patch(documentId, {
+    errorMessage: failedPageCount > 0 ? `${failedPageCount} página(s) no se pudieron extraer` : undefined,
+  });
+}
+
+async function getPageExtraction(ctx: MutationCtx, documentId: Id<'documents'>, pageNumber: number) {
+  return await ctx.db
+    .query('pageExtractions')
+    .withIndex('by_document_and_page', (q) => q.eq('documentId', documentId).eq('pageNumber', pageNumber))
+    .unique();
+}
+
+/**
+ * Reset per-page job records at the start of a full extraction run
+ */
+export const resetPageExtractions = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageCount: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('pageExtractions')
+      .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId))
+      .collect();
+
+    for (const record of existing) {
+      await ctx.db.delete(record._id);
+    }
+
+    for (let pageNumber = 1; pageNumber <= args.pageCount; pageNumber++) {
+      await ctx.db.insert('pageExtractions', {
+        documentId: args.documentId,
+        pageNumber,
+        status: 'pending',
+        attempts: 0,
+        updatedAt: Date.now(),
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Mark a page as being extracted and count the attempt
+ */
+export const markPageExtractionStarted = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    provider: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const record = await getPageExtraction(ctx, args.documentId, args.pageNumber);
+
+    if (!record) {
+      await ctx.db.insert('pageExtractions', {
+        documentId: args.documentId,
+        pageNumber: args.pageNumber,
+        status: 'processing',
+        attempts: 1,
+        provider: args.provider,
+        updatedAt: Date.now(),
+      });
+      return null;
+    }
+
+    await ctx.db.patch(record._id, {
+      status: 'processing',
+      attempts: record.attempts + 1,
+      errorMessage: undefined,
+      provider: args.provider,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Store the outcome of a page extraction (success or failure)
+ */
+export const recordPageExtractionResult = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    status: v.union(v.literal('completed'), v.literal('failed')),
+    errorMessage: v.optional(v.string()),
+    latencyMs: v.number(),
+    promptTokens: v.optional(v.union(v.number(), v.null())),
+    completionTokens: v.optional(v.union(v.number(), v.null())),
+    totalTokens: v.optional(v.union(v.number(), v.null())),
+    ingressCount: v.optional(v.number()),
+    egressCount: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { documentId, pageNumber, ...result } = args;
+    const record = await getPageExtraction(ctx, documentId, pageNumber);
+
+    if (!record) {
+      await ctx.db.insert('pageExtractions', {
+        documentId,
+        pageNumber,
+        attempts: 1,
+        ...result,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.patch(record._id, { ...result, updatedAt: Date.now() });
+    }
+
+    // Keep the document-level warning in sync when single pages are retried after the run
+    const doc = await ctx.db.get(documentId);
+    if (doc?.status === 'completed') {
+      await syncFailedPagesMessage(ctx, documentId);
+    }
+
+    return null;
+  },
+});
+
 /**
  * Internal query to get document (for use in actions)
  */
@@ -5,10 +5,27 @@ import {
   validatedIngressRowValidator,
   validatedEgressRowValidator,
 } from './schema';
-import { authMutation, authQuery } from './lib/withAuth';
+import { authQuery, reviewerMutation } from './lib/withAuth';
+import { pickLatestExtraction } from './lib/latestExtraction';
+import { refreshDocumentAggregate } from './lib/documentAggregates';
+import { scheduleDocumentEntitiesRefresh } from './lib/entityRegistry';
+import { getPageReview, upsertPageReview } from './lib/pageReviews';
+import { diffRows } from './lib/shared/validationDiff';
+import {
+  applyPageRows,
+  bumpPageVersions,
+  emptyVerification,
+  insertOwnerRows,
+  loadOwnerRows,
+  migrateOwnerRows,
+  ownerOf,
+  queryOwnerRows,
+  toPlainRow,
+} from './lib/rowStore';
+import { emptyTotals } from './lib/rowTotals';
 
 /**
- * Get the latest Gemini 3 extraction for a document
+ * Get the latest Gemini 3 extraction for a document (the consensus result when variants were run)
  */
 export const getGemini3Extraction = authQuery({
   args: {
@@ -23,6 +40,8 @@ export const getGemini3Extraction = authQuery({
       ingress: v.array(extractionIngressRowValidator),
       egress: v.array(extractionEgressRowValidator),
       completedAt: v.number(),
+      variant: v.optional(v.string()),
+      consensusOf: v.optional(v.array(v.string())),
     }),
     v.null(),
   ),
@@ -32,11 +51,23 @@ export const getGemini3Extraction = authQuery({
       .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
       .collect();
 
-    const gemini3 = extractions
-      .filter((e) => e.model.startsWith('gemini-3'))
-      .sort((a, b) => b.completedAt - a.completedAt)[0];
+    const extraction = pickLatestExtraction(extractions);
+    if (!extraction) {
+      return null;
+    }
 
-    return gemini3 ?? null;
+    const { ingress, egress } = await loadOwnerRows(ctx, ownerOf(extraction));
+    return {
+      _id: extraction._id,
+      _creationTime: extraction._creationTime,
+      documentId: extraction.documentId,
+      model: extraction.model,
+      ingress,
+      egress,
+      completedAt: extraction.completedAt,
+      variant: extraction.variant,
+      consensusOf: extraction.consensusOf,
+    };
   },
 });
 
@@ -55,51 +86,178 @@ export const getValidatedData = authQuery({
       ingress: v.array(validatedIngressRowValidator),
       egress: v.array(validatedEgressRowValidator),
       validatedAt: v.number(),
+      version: v.number(),
+      pageVersions: v.record(v.string(), v.number()),
     }),
     v.null(),
   ),
   handler: async (ctx, args) => {
-    return await ctx.db
+    const validatedData = await ctx.db
       .query('validatedData')
       .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
       .unique();
+    if (!validatedData) {
+      return null;
+    }
+
+    const { ingress, egress } = await loadOwnerRows(ctx, ownerOf(validatedData));
+    return {
+      _id: validatedData._id,
+      _creationTime: validatedData._creationTime,
+      documentId: validatedData.documentId,
+      ingress,
+      egress,
+      validatedAt: validatedData.validatedAt,
+      version: validatedData.version ?? 0,
+      pageVersions: validatedData.pageVersions ?? {},
+    };
   },
 });
 
 /**
- * Save validated data for a document
+ * Save validated rows for the edited pages of a document.
+ *
+ * Only the pages sent are rewritten, row by row. The first save copies the latest extraction into
+ * the validated rows, so pages nobody touched start out as extracted.
+ *
+ * Each page carries the version it was edited from (0 for never saved). If someone else saved that page since, nothing
+ * is written and the current server rows of the conflicting pages are returned so the editor can merge.
  */
-export const saveValidatedData = authMutation({
+export const saveValidatedData = reviewerMutation({
   args: {
     documentId: v.id('documents'),
-    ingress: v.array(validatedIngressRowValidator),
-    egress: v.array(validatedEgressRowValidator),
+    pages: v.array(
+      v.object({
+        pageNumber: v.number(),
+        baseVersion: v.number(),
+        ingress: v.array(validatedIngressRowValidator),
+        egress: v.array(validatedEgressRowValidator),
+      }),
+    ),
   },
-  returns: v.id('validatedData'),
+  returns: v.union(
+    v.object({
+      status: v.literal('saved'),
+      validatedDataId: v.id('validatedData'),
+      version: v.number(),
+    }),
+    v.object({
+      status: v.literal('conflict'),
+      conflicts: v.array(
+        v.object({
+          pageNumber: v.number(),
+          version: v.number(),
+          updatedByName: v.union(v.string(), v.null()),
+          ingress: v.array(validatedIngressRowValidator),
+          egress: v.array(validatedEgressRowValidator),
+        }),
+      ),
+    }),
+  ),
   handler: async (ctx, args) => {
-    // Check if validated data already exists
-    const existing = await ctx.db
+    let validatedData = await ctx.db
       .query('validatedData')
       .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
       .unique();
 
-    if (existing) {
-      // Update existing record
-      await ctx.db.patch(existing._id, {
-        ingress: args.ingress,
-        egress: args.egress,
+    if (!validatedData) {
+      const validatedDataId = await ctx.db.insert('validatedData', {
+        documentId: args.documentId,
+        totals: emptyTotals(),
+        verification: emptyVerification(),
         validatedAt: Date.now(),
       });
-      return existing._id;
+      const extraction = pickLatestExtraction(
+        await ctx.db
+          .query('extractions')
+          .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
+          .collect(),
+      );
+      if (extraction) {
+        // Validated rows never carry the AI-only fields
+        const { ingress, egress } = await loadOwnerRows(ctx, ownerOf(extraction));
+        await insertOwnerRows(
+          ctx,
+          { source: 'validated', documentId: args.documentId, validatedDataId },
+          {
+            ingress: ingress.map(({ unreadableFields, disagreementFields, ...row }) => row),
+            egress: egress.map(({ unreadableFields, disagreementFields, ...row }) => row),
+          },
+        );
+      }
+      validatedData = (await ctx.db.get(validatedDataId))!;
+    }
+
+    const owner = ownerOf(validatedData);
+    await migrateOwnerRows(ctx, owner);
+
+    // Check every page before writing any, so a conflicting save leaves the document untouched
+    const conflicts = [];
+    for (const page of args.pages) {
+      const version = validatedData.pageVersions?.[String(page.pageNumber)] ?? 0;
+      if (page.baseVersion >= version) continue;
+      const lastEdit = await ctx.db
+        .query('validationEdits')
+        .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId).eq('pageNumber', page.pageNumber))
+        .order('desc')
+        .first();
+      const lastEditor = lastEdit ? await ctx.db.get(lastEdit.userId) : null;
+      conflicts.push({
+        pageNumber: page.pageNumber,
+        version,
+        updatedByName: lastEditor ? (lastEditor.name ?? lastEditor.email ?? null) : null,
+        ingress: (await queryOwnerRows(ctx, 'ingress', owner, page.pageNumber)).map(toPlainRow),
+        egress: (await queryOwnerRows(ctx, 'egress', owner, page.pageNumber)).map(toPlainRow),
+      });
+    }
+    if (conflicts.length > 0) {
+      return { status: 'conflict' as const, conflicts };
+    }
+
+    const editedAt = Date.now();
+
+    for (const page of args.pages) {
+      if ([...page.ingress, ...page.egress].some((row) => row.pageNumber !== page.pageNumber)) {
+        throw new Error(`Rows sent for page ${page.pageNumber} belong to another page`);
+      }
+
+      for (const rowType of ['ingress', 'egress'] as const) {
+        // Record every changed cell before the page is rewritten
+        const previous = (await queryOwnerRows(ctx, rowType, owner, page.pageNumber)).map(toPlainRow);
+        for (const change of diffRows(rowType, previous, page[rowType])) {
+          await ctx.db.insert('validationEdits', {
+            documentId: args.documentId,
+            userId: ctx.userId,
+            editedAt,
+            ...change,
+          });
+        }
+        await applyPageRows(ctx, owner, rowType, page.pageNumber, page[rowType]);
+      }
+
+      // Saving an unreviewed page starts its review, and claims it when nobody is assigned
+      const review = await getPageReview(ctx, args.documentId, page.pageNumber);
+      if (!review || review.state === 'unreviewed') {
+        await upsertPageReview(ctx, ctx.userId, args.documentId, page.pageNumber, {
+          state: 'in_progress',
+          assigneeId: review?.assigneeId ?? ctx.userId,
+        });
+      }
     }
 
-    // Create new record
-    return await ctx.db.insert('validatedData', {
-      documentId: args.documentId,
-      ingress: args.ingress,
-      egress: args.egress,
-      validatedAt: Date.now(),
-    });
+    await bumpPageVersions(
+      ctx,
+      validatedData._id,
+      args.pages.map((page) => page.pageNumber),
+    );
+    await ctx.db.patch(validatedData._id, { validatedAt: editedAt });
+    await refreshDocumentAggregate(ctx, args.documentId);
+    await scheduleDocumentEntitiesRefresh(ctx, args.documentId);
+    return {
+      status: 'saved' as const,
+      validatedDataId: validatedData._id,
+      version: (validatedData.version ?? 0) + 1,
+    };
   },
 });
 
@@ -148,10 +306,12 @@ type EgressRowBase = {
 // Extraction row types (with AI-detected unreadableFields)
 export type ExtractionIngressRow = IngressRowBase & {
   unreadableFields?: string[];
+  disagreementFields?: string[];
 };
 
 export type ExtractionEgressRow = EgressRowBase & {
   unreadableFields?: string[];
+  disagreementFields?: string[];
 };
 
 // Validated row types (with human-marked humanUnreadableFields)
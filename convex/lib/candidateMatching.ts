@@ -0,0 +1,60 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+
+/**
+ * Normalize a PDF file name for matching uploads against the portal's affidavit URLs:
+ * unicode-normalized, without accents or mojibake artifacts, lowercased, single-spaced.
+ */
+export function normalizePdfFileName(fileName: string): string {
+  return fileName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove combining diacritical marks
+    .replace(/[ÃÂ]/g, '') // Remove mojibake artifacts
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Matching key for an affidavit PDF URL (its last path segment, URL-decoded)
+ */
+export function pdfFileKeyFromUrl(pdfUrl: string | null): string | null {
+  if (!pdfUrl) return null;
+
+  // Double decode to handle double-encoded URLs
+  let pdfFilename = pdfUrl.split('/').pop() || '';
+  try {
+    pdfFilename = decodeURIComponent(decodeURIComponent(pdfFilename));
+  } catch {
+    try {
+      pdfFilename = decodeURIComponent(pdfFilename);
+    } catch {
+      // Use as-is if decoding fails
+    }
+  }
+  return normalizePdfFileName(pdfFilename);
+}
+
+/**
+ * Candidate whose affidavit PDF has the same file name as an uploaded document
+ */
+export async function findCandidateForFileName(ctx: QueryCtx, fileName: string): Promise<Id<'candidates'> | null> {
+  const candidate = await ctx.db
+    .query('candidates')
+    .withIndex('by_pdf_file_key', (q) => q.eq('pdfFileKey', normalizePdfFileName(fileName)))
+    .first();
+  return candidate?._id ?? null;
+}
+
+/**
+ * Candidate fields shown next to a document in lists and exports
+ */
+export function candidateSummary(candidate: Doc<'candidates'> | null) {
+  return {
+    candidateName: candidate?.candidateName ?? null,
+    candidatePosition: candidate?.position ?? null,
+    candidateParty: candidate?.party ?? null,
+    candidateProvince: candidate?.province ?? null,
+    candidateDistrict: candidate?.district ?? null,
+  };
+}
@@ -0,0 +1,117 @@
+import { normalizeValueForComparison, rowAlignmentKeys } from './shared/rowKeys';
+
+/**
+ * Merge page rows extracted by several model variants into one consensus set.
+ *
+ * Rows are aligned with `rowAlignmentKeys` (page + receipt/invoice number, or page order for rows
+ * without one). Each merged cell takes the majority value (the primary variant wins ties), and
+ * cells where the variants disagree are listed in `disagreementFields`.
+ * A row that some variant did not return at all has every field flagged.
+ */
+
+type ConsensusRow = Record<string, unknown> & {
+  pageNumber: number;
+  unreadableFields?: string[] | null;
+  disagreementFields?: string[];
+};
+
+type AlignedRow = Parameters<typeof rowAlignmentKeys>[0][number];
+
+// Bookkeeping fields that are never compared between variants
+const IGNORED_FIELDS = new Set(['pageNumber', 'unreadableFields', 'disagreementFields']);
+
+// Amounts closer than half a cent are considered equal
+const AMOUNT_TOLERANCE = 0.005;
+
+function normalizeForConsensus(field: string, value: unknown): unknown {
+  const normalized = normalizeValueForComparison(field, value);
+  if (normalized == null) return null;
+  if (typeof normalized !== 'string') return normalized;
+  const text = normalized.trim().replace(/\s+/g, ' ').toLowerCase();
+  return text === '' ? null : text;
+}
+
+function valuesAgree(field: string, a: unknown, b: unknown): boolean {
+  const left = normalizeForConsensus(field, a);
+  const right = normalizeForConsensus(field, b);
+  if (typeof left === 'number' && typeof right === 'number') {
+    return Math.abs(left - right) < AMOUNT_TOLERANCE;
+  }
+  return left === right;
+}
+
+function mergeAlignedRows<T extends ConsensusRow>(candidates: Array<T | undefined>): T {
+  const present = candidates.filter((row): row is T => row !== undefined);
+  const fields = new Set<string>();
+  for (const row of present) {
+    for (const field of Object.keys(row)) {
+      if (!IGNORED_FIELDS.has(field)) fields.add(field);
+    }
+  }
+
+  const merged: ConsensusRow = { ...present[0] };
+  const disagreementFields: string[] = [];
+  const missingFromSomeVariant = present.length < candidates.length;
+
+  for (const field of fields) {
+    // Group equal values; the first group always holds the first present (highest priority) variant
+    const groups: Array<{ value: unknown; count: number }> = [];
+    for (const row of present) {
+      const group = groups.find((g) => valuesAgree(field, g.value, row[field]));
+      if (group) group.count++;
+      else groups.push({ value: row[field] ?? null, count: 1 });
+    }
+
+    const winner = groups.reduce((best, group) => (group.count > best.count ? group : best), groups[0]);
+    merged[field] = winner.value;
+
+    if (missingFromSomeVariant || groups.length > 1) {
+      disagreementFields.push(field);
+    }
+  }
+
+  const unreadableFields = Array.from(new Set(present.flatMap((row) => row.unreadableFields ?? [])));
+  merged.unreadableFields = unreadableFields;
+  if (disagreementFields.length > 0) {
+    merged.disagreementFields = disagreementFields;
+  } else {
+    delete merged.disagreementFields;
+  }
+
+  return merged as T;
+}
+
+/**
+ * Merge the rows returned by each variant (primary first) into consensus rows
+ */
+export function mergeRowsByConsensus<T extends ConsensusRow>(variantRows: T[][], keyField: string): T[] {
+  if (variantRows.length < 2) {
+    return variantRows[0] ?? [];
+  }
+
+  const keyedVariants = variantRows.map((rows) => {
+    const keys = rowAlignmentKeys(rows as AlignedRow[], keyField);
+    return new Map(keys.map((key, index) => [key, rows[index]]));
+  });
+
+  // Primary order first, then rows only other variants found, in the order they found them
+  const orderedKeys: string[] = [];
+  const seen = new Set<string>();
+  for (const keyed of keyedVariants) {
+    for (const key of keyed.keys()) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        orderedKeys.push(key);
+      }
+    }
+  }
+
+  return orderedKeys.map((key) => mergeAlignedRows(keyedVariants.map((keyed) => keyed.get(key))));
+}
+
+/**
+ * Number of cells flagged for review in a set of merged rows
+ */
+export function countDisagreements(rows: ConsensusRow[]): number {
+  return rows.reduce((count, row) => count + (row.disagreementFields?.length ?? 0), 0);
+}
@@ -0,0 +1,12 @@
+import type { Id } from '../_generated/dataModel';
+import type { ActionCtx } from '../_generated/server';
+
+/**
+ * SHA-256 (hex) of a stored file, or null when the file is missing
+ */
+export async function storedFileSha256(ctx: ActionCtx, fileId: Id<'_storage'>): Promise<string | null> {
+  const blob = await ctx.storage.get(fileId);
+  if (!blob) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,306 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+import { WithoutSystemFields } from 'convex/server';
+import { pickLatestExtraction } from './latestExtraction';
+import { ensureVerification, ownerTotals } from './rowStore';
+import { emptyTotals } from './rowTotals';
+import { countValidatedPages } from './pageReviews';
+
+/**
+ * Materialized per-document figures for the list and discrepancy pages.
+ *
+ * Every mutation that changes a document's status, rows, validated data or summary calls
+ * `refreshDocumentAggregate`, so readers never have to join extractions or rows themselves.
+ */
+
+export type DocumentAggregate = WithoutSystemFields<Doc<'documentAggregates'>>;
+
+type ThreeWayOutlier = NonNullable<DocumentAggregate['ingressOutlier']>;
+
+// Totals closer than this agree (the same threshold the Discrepancias page shows in green)
+const THREE_WAY_TOLERANCE = 10;
+
+/**
+ * Which of the portal total, the summary page total and the row sum is the odd one out
+ */
+function threeWayOutlier(portal: number | null, summary: number | null, rows: number | null): ThreeWayOutlier {
+  if (portal == null || summary == null || rows == null) return 'incomplete';
+
+  const agree = (a: number, b: number) => Math.abs(a - b) < THREE_WAY_TOLERANCE;
+  const portalSummary = agree(portal, summary);
+  const portalRows = agree(portal, rows);
+  const summaryRows = agree(summary, rows);
+
+  if (portalSummary && portalRows && summaryRows) return 'none';
+  if (summaryRows) return 'portal';
+  if (portalRows) return 'summary';
+  if (portalSummary) return 'rows';
+  return 'all';
+}
+
+/**
+ * Recompute the aggregate of one document and store it
+ */
+export async function refreshDocumentAggregate(ctx: MutationCtx, documentId: Id<'documents'>) {
+  const existing = await ctx.db
+    .query('documentAggregates')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+
+  const doc = await ctx.db.get(documentId);
+  if (!doc) {
+    if (existing) await ctx.db.delete(existing._id);
+    return;
+  }
+
+  const aggregate = await computeDocumentAggregate(ctx, doc);
+  if (existing) {
+    await ctx.db.replace(existing._id, aggregate);
+  } else {
+    await ctx.db.insert('documentAggregates', aggregate);
+  }
+}
+
+/**
+ * Copy a document's extraction and summary status into its aggregate (cheaper than a full refresh)
+ */
+export async function syncDocumentAggregateStatus(ctx: MutationCtx, documentId: Id<'documents'>) {
+  const existing = await ctx.db
+    .query('documentAggregates')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  const doc = await ctx.db.get(documentId);
+  if (!existing || !doc) {
+    await refreshDocumentAggregate(ctx, documentId);
+    return;
+  }
+  await ctx.db.patch(existing._id, { status: doc.status, summaryStatus: doc.summaryStatus, updatedAt: Date.now() });
+}
+
+/**
+ * Recompute the verified-only figures after a row is signed (cheaper than a full refresh)
+ */
+export async function syncDocumentAggregateVerification(ctx: MutationCtx, documentId: Id<'documents'>) {
+  const existing = await ctx.db
+    .query('documentAggregates')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  if (!existing) {
+    await refreshDocumentAggregate(ctx, documentId);
+    return;
+  }
+  const validatedData = await ctx.db
+    .query('validatedData')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  const verified = await computeVerifiedFigures(ctx, validatedData, {
+    adjustedSummaryIngresos: existing.adjustedSummaryIngresos,
+    summaryTotalGastos: existing.summaryTotalGastos,
+    portalTotalIngress: existing.portalTotalIngress ?? null,
+    portalTotalEgress: existing.portalTotalEgress ?? null,
+  });
+  await ctx.db.patch(existing._id, {
+    verified,
+    ...verifiedSortKeys(verified, {
+      portalIngressVsSummary: existing.portalIngressVsSummary ?? null,
+      portalEgressVsSummary: existing.portalEgressVsSummary ?? null,
+    }),
+    updatedAt: Date.now(),
+  });
+}
+
+const delta = (a: number | null, b: number | null) => (a != null && b != null ? a - b : null);
+
+const maxAbs = (values: (number | null)[]) => Math.max(...values.map((value) => Math.abs(value ?? 0)));
+
+/**
+ * maxAbsDiscrepancy and maxAbsPortalDiscrepancy over the verified figures
+ */
+function verifiedSortKeys(
+  verified: DocumentAggregate['verified'],
+  portal: { portalIngressVsSummary: number | null; portalEgressVsSummary: number | null },
+): Pick<DocumentAggregate, 'maxAbsVerifiedDiscrepancy' | 'maxAbsVerifiedPortalDiscrepancy'> {
+  if (!verified) return { maxAbsVerifiedDiscrepancy: undefined, maxAbsVerifiedPortalDiscrepancy: undefined };
+  return {
+    maxAbsVerifiedDiscrepancy: maxAbs([verified.ingressDiscrepancyByCategory, verified.egressDiscrepancyByCategory]),
+    maxAbsVerifiedPortalDiscrepancy: maxAbs([
+      portal.portalIngressVsSummary,
+      verified.portalIngressVsRows,
+      portal.portalEgressVsSummary,
+      verified.portalEgressVsRows,
+    ]),
+  };
+}
+
+/**
+ * Sums and discrepancies over the four-eyes verified rows only, from the figures rowStore keeps on
+ * the validated data
+ */
+async function computeVerifiedFigures(
+  ctx: MutationCtx,
+  validatedData: Doc<'validatedData'> | null,
+  declared: {
+    adjustedSummaryIngresos: number | null;
+    summaryTotalGastos: number | null;
+    portalTotalIngress: number | null;
+    portalTotalEgress: number | null;
+  },
+): Promise<DocumentAggregate['verified']> {
+  if (!validatedData) return null;
+
+  const { verifiedTotals: totals, pendingByPage } = await ensureVerification(ctx, validatedData);
+  return {
+    pendingSignatureCount: Object.values(pendingByPage).reduce((sum, count) => sum + count, 0),
+    summedIngresos: totals.ingressTotal,
+    summedGastos: totals.egressTotal,
+    summedIngresosByCategory: totals.ingressCategoryTotal,
+    summedGastosByCategory: totals.egressCategoryTotal,
+    ingressDiscrepancy: delta(declared.adjustedSummaryIngresos, totals.ingressTotal),
+    egressDiscrepancy: delta(declared.summaryTotalGastos, totals.egressTotal),
+    ingressDiscrepancyByCategory: delta(declared.adjustedSummaryIngresos, totals.ingressCategoryTotal),
+    egressDiscrepancyByCategory: delta(declared.summaryTotalGastos, totals.egressCategoryTotal),
+    portalIngressVsRows: delta(declared.portalTotalIngress, totals.ingressCategoryTotal),
+    portalEgressVsRows: delta(declared.portalTotalEgress, totals.egressCategoryTotal),
+    ingressOutlier: threeWayOutlier(
+      declared.portalTotalIngress,
+      declared.adjustedSummaryIngresos,
+      totals.ingressCategoryTotal,
+    ),
+    egressOutlier: threeWayOutlier(declared.portalTotalEgress, declared.summaryTotalGastos, totals.egressCategoryTotal),
+  };
+}
+
+/**
+ * Recount a document's validated pages after a page review changes (cheaper than a full refresh)
+ */
+export async function syncDocumentAggregateReviewProgress(ctx: MutationCtx, documentId: Id<'documents'>) {
+  const existing = await ctx.db
+    .query('documentAggregates')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  if (!existing) {
+    await refreshDocumentAggregate(ctx, documentId);
+    return;
+  }
+  await ctx.db.patch(existing._id, {
+    validatedPageCount: await countValidatedPages(ctx, documentId),
+    updatedAt: Date.now(),
+  });
+}
+
+async function computeDocumentAggregate(ctx: MutationCtx, doc: Doc<'documents'>): Promise<DocumentAggregate> {
+  const documentId = doc._id;
+  const validatedData = await ctx.db
+    .query('validatedData')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  const latestExtraction = pickLatestExtraction(
+    await ctx.db
+      .query('extractions')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .collect(),
+  );
+  const summaryExtraction = await ctx.db
+    .query('summaryExtractions')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .first();
+
+  // Best row data: validated first, then the latest extraction
+  let totals = emptyTotals();
+  let dataSource: DocumentAggregate['dataSource'] = 'none';
+  if (validatedData) {
+    totals = ownerTotals(validatedData);
+    dataSource = 'validated';
+  } else if (latestExtraction) {
+    totals = ownerTotals(latestExtraction);
+    dataSource = 'gemini-3-flash';
+  }
+
+  const summaryTotalIngresos = summaryExtraction?.summary.totalIngresos ?? null;
+  const summaryTotalGastos = summaryExtraction?.summary.totalGastos ?? null;
+  const saldoAnterior = summaryExtraction?.summary.saldoPrimariasRecoleccionFirmas ?? 0;
+
+  // Adjusted summary ingresos: subtract saldo anterior (carry-over from primaries)
+  const adjustedSummaryIngresos = summaryTotalIngresos != null ? summaryTotalIngresos - saldoAnterior : null;
+
+  // Discrepancies against self-reported row totals and against category sums
+  const ingressDiscrepancy = adjustedSummaryIngresos != null ? adjustedSummaryIngresos - totals.ingressTotal : null;
+  const egressDiscrepancy = summaryTotalGastos != null ? summaryTotalGastos - totals.egressTotal : null;
+  const ingressDiscrepancyByCategory =
+    adjustedSummaryIngresos != null ? adjustedSummaryIngresos - totals.ingressCategoryTotal : null;
+  const egressDiscrepancyByCategory =
+    summaryTotalGastos != null ? summaryTotalGastos - totals.egressCategoryTotal : null;
+
+  const candidate = doc.candidateId ? await ctx.db.get(doc.candidateId) : null;
+
+  // Portal-declared totals against the summary page and the category row sums
+  const portalTotalIngress = candidate?.totalIngress ?? null;
+  const portalTotalEgress = candidate?.totalEgress ?? null;
+  const rowsIngress = dataSource !== 'none' ? totals.ingressCategoryTotal : null;
+  const rowsEgress = dataSource !== 'none' ? totals.egressCategoryTotal : null;
+  const portalIngressVsSummary = delta(portalTotalIngress, adjustedSummaryIngresos);
+  const portalIngressVsRows = delta(portalTotalIngress, rowsIngress);
+  const portalEgressVsSummary = delta(portalTotalEgress, summaryTotalGastos);
+  const portalEgressVsRows = delta(portalTotalEgress, rowsEgress);
+  const verified = await computeVerifiedFigures(ctx, validatedData, {
+    adjustedSummaryIngresos,
+    summaryTotalGastos,
+    portalTotalIngress,
+    portalTotalEgress,
+  });
+
+  return {
+    documentId,
+    name: doc.name,
+    displayName: candidate?.candidateName || doc.name,
+    documentCreationTime: doc._creationTime,
+    status: doc.status,
+    summaryStatus: doc.summaryStatus,
+    candidateId: candidate?._id ?? null,
+    candidateName: candidate?.candidateName ?? null,
+    candidatePosition: candidate?.position ?? null,
+    candidateParty: candidate?.party ?? null,
+    candidateProvince: candidate?.province ?? null,
+    dataSource,
+    extractionId: latestExtraction?._id,
+    ingressCount: totals.ingressCount,
+    egressCount: totals.egressCount,
+    ruleIssueCount: totals.ruleIssueCount,
+    summedIngresos: totals.ingressTotal,
+    summedGastos: totals.egressTotal,
+    summedIngresosByCategory: totals.ingressCategoryTotal,
+    summedGastosByCategory: totals.egressCategoryTotal,
+    hasSummary: summaryExtraction !== null,
+    summaryTotalIngresos,
+    summaryTotalGastos,
+    saldoAnterior,
+    adjustedSummaryIngresos,
+    ingressDiscrepancy,
+    egressDiscrepancy,
+    ingressDiscrepancyByCategory,
+    egressDiscrepancyByCategory,
+    // Category-based discrepancies are the more accurate ones, so they drive the sort order
+    maxAbsDiscrepancy: Math.max(
+      Math.abs(ingressDiscrepancyByCategory ?? 0),
+      Math.abs(egressDiscrepancyByCategory ?? 0),
+    ),
+    portalTotalIngress,
+    portalTotalEgress,
+    portalIngressVsSummary,
+    portalIngressVsRows,
+    portalEgressVsSummary,
+    portalEgressVsRows,
+    ingressOutlier: threeWayOutlier(portalTotalIngress, adjustedSummaryIngresos, rowsIngress),
+    egressOutlier: threeWayOutlier(portalTotalEgress, summaryTotalGastos, rowsEgress),
+    maxAbsPortalDiscrepancy: Math.max(
+      ...[portalIngressVsSummary, portalIngressVsRows, portalEgressVsSummary, portalEgressVsRows].map((value) =>
+        Math.abs(value ?? 0),
+      ),
+    ),
+    verified,
+    ...verifiedSortKeys(verified, { portalIngressVsSummary, portalEgressVsSummary }),
+    validatedPageCount: await countValidatedPages(ctx, documentId),
+    isSuperseded: doc.supersededBy !== undefined,
+    updatedAt: Date.now(),
+  };
+}
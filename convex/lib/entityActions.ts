@@ -0,0 +1,15 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx } from '../_generated/server';
+
+/**
+ * Audit trail of the manual decisions in the donor and supplier registries.
+ *
+ * Merges, splits and pins are stored as identity aliases so they outlive re-extraction; this log
+ * records who made each one and what the records looked like at the time.
+ */
+
+export type EntityAction = Omit<Doc<'entityActions'>, '_id' | '_creationTime' | 'userId' | 'createdAt'>;
+
+export async function recordEntityAction(ctx: MutationCtx, userId: Id<'users'>, action: EntityAction) {
+  await ctx.db.insert('entityActions', { ...action, userId, createdAt: Date.now() });
+}
@@ -0,0 +1,646 @@
+import type { PaginationOptions, PaginationResult, WithoutSystemFields } from 'convex/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { loadDocumentRows } from './rowStore';
+import { parsePanamaId, type PanamaId } from './shared/panamaId';
+import { NAME_MATCH_THRESHOLD, nameSimilarity, normalizePartyName } from './nameMatching';
+import { recordEntityAction } from './entityActions';
+
+/**
+ * The donor and supplier registries: who appears on the rows of every document, built from the
+ * ingress rows (donors) or the egress rows (suppliers).
+ *
+ * Each document's rows are grouped by cédula/RUC, or by name for rows without a readable number, and
+ * every group is stored as a link (a donor contribution or a supplier spend) to the matching entity.
+ * Merges, splits and pins made by reviewers are stored as identity aliases, checked before any
+ * automatic matching, so they outlive re-extraction.
+ *
+ * Both registries are queried as the donor tables, whose shape the supplier tables share (they only
+ * add fields, filled in through the registry's hooks).
+ */
+
+// Entities found by the search index that are compared by name similarity
+const NAME_MATCH_CANDIDATES = 10;
+
+type RegistryTables = {
+  donor: { entities: 'donors'; links: 'donorContributions'; aliases: 'donorAliases' };
+  supplier: { entities: 'suppliers'; links: 'supplierSpends'; aliases: 'supplierAliases' };
+};
+
+export type EntityType = keyof RegistryTables;
+
+type EntityTable<T extends EntityType> = RegistryTables[T]['entities'];
+type LinkTable<T extends EntityType> = RegistryTables[T]['links'];
+
+type DocumentRows = Awaited<ReturnType<typeof loadDocumentRows>>;
+
+// What a registry reads from one row
+export type RegistryRow = {
+  name: string | null | undefined;
+  idNumber: string | null | undefined;
+  amount: number;
+  // Amount by spend column (empty when the registry does not break amounts down)
+  categoryAmounts: Record<string, number>;
+};
+
+// The rows of one document that belong to the same identity
+export type RegistryRowGroup = {
+  identityKey: string;
+  id: PanamaId | null;
+  normalizedName: string;
+  name: string;
+  amount: number;
+  rowCount: number;
+  categoryAmounts: Record<string, number>;
+  rawNames: Set<string>;
+  rawIdNumbers: Set<string>;
+};
+
+export type EntityRegistry<T extends EntityType> = {
+  entityType: T;
+  tables: RegistryTables[T];
+  // The field of the links and aliases that points at the entity, and their index on it
+  entityField: `${T}Id`;
+  byEntityIndex: `by_${T}`;
+  // The side of a document's rows the registry is built from
+  extractRows: (rows: DocumentRows) => RegistryRow[];
+  // Fields the registry keeps beyond the shared ones: on a new entity, on each link, and recomputed
+  // from the entity's links
+  newEntityFields?: Partial<WithoutSystemFields<Doc<EntityTable<T>>>>;
+  linkFields?: (group: RegistryRowGroup) => Partial<WithoutSystemFields<Doc<LinkTable<T>>>>;
+  linkTotals?: (
+    ctx: MutationCtx,
+    links: Doc<LinkTable<T>>[],
+  ) => Promise<Partial<WithoutSystemFields<Doc<EntityTable<T>>>>>;
+};
+
+type AnyRegistry = EntityRegistry<EntityType>;
+
+function tablesOf(registry: AnyRegistry) {
+  return {
+    entities: registry.tables.entities as 'donors',
+    links: registry.tables.links as 'donorContributions',
+    aliases: registry.tables.aliases as 'donorAliases',
+    entityField: registry.entityField as 'donorId',
+    byEntity: registry.byEntityIndex as 'by_donor',
+  };
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export function addAmounts(target: Record<string, number>, amounts: Record<string, number>) {
+  for (const [category, amount] of Object.entries(amounts)) {
+    target[category] = (target[category] ?? 0) + amount;
+  }
+}
+
+/**
+ * Group a document's rows by cédula/RUC, or by name for rows without a readable number
+ */
+function groupRows(rows: RegistryRow[]): RegistryRowGroup[] {
+  const groups = new Map<string, RegistryRowGroup>();
+  for (const row of rows) {
+    const id = parsePanamaId(row.idNumber);
+    const normalizedName = normalizePartyName(row.name);
+    if (!id && normalizedName === '') continue;
+
+    const identityKey = id ? `id:${id.canonical}` : `name:${normalizedName}`;
+    let group = groups.get(identityKey);
+    if (!group) {
+      group = {
+        identityKey,
+        id,
+        normalizedName,
+        name: row.name?.trim() || id!.canonical,
+        amount: 0,
+        rowCount: 0,
+        categoryAmounts: {},
+        rawNames: new Set(),
+        rawIdNumbers: new Set(),
+      };
+      groups.set(identityKey, group);
+    }
+    // Keep the first name and DV any of the rows has
+    if (group.normalizedName === '' && normalizedName !== '') {
+      group.normalizedName = normalizedName;
+      group.name = row.name!.trim();
+    }
+    if (id?.dv && !group.id?.dv) group.id = id;
+
+    group.amount += row.amount;
+    addAmounts(group.categoryAmounts, row.categoryAmounts);
+    group.rowCount += 1;
+    if (row.name?.trim()) group.rawNames.add(row.name.trim());
+    if (row.idNumber?.trim()) group.rawIdNumbers.add(row.idNumber.trim());
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * The registered entity with the same name, or the most similar one above NAME_MATCH_THRESHOLD
+ */
+async function findEntityByName(
+  ctx: MutationCtx,
+  registry: AnyRegistry,
+  normalizedName: string,
+): Promise<Id<'donors'> | null> {
+  const { entities } = tablesOf(registry);
+  const exact = await ctx.db
+    .query(entities)
+    .withIndex('by_normalized_name', (q) => q.eq('normalizedName', normalizedName))
+    .first();
+  if (exact) return exact._id;
+
+  const candidates = await ctx.db
+    .query(entities)
+    .withSearchIndex('search_name', (q) => q.search('normalizedName', normalizedName))
+    .take(NAME_MATCH_CANDIDATES);
+  let best: { entityId: Id<'donors'>; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    const similarity = nameSimilarity(normalizedName, candidate.normalizedName);
+    if (similarity >= NAME_MATCH_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { entityId: candidate._id, similarity };
+    }
+  }
+  return best?.entityId ?? null;
+}
+
+async function findOrCreateEntity(
+  ctx: MutationCtx,
+  registry: AnyRegistry,
+  group: RegistryRowGroup,
+): Promise<Id<'donors'>> {
+  const { entities, aliases, entityField } = tablesOf(registry);
+
+  // Merges, splits and pins made by hand win over the automatic matching
+  const alias = await ctx.db
+    .query(aliases)
+    .withIndex('by_identity_key', (q) => q.eq('identityKey', group.identityKey))
+    .first();
+  if (alias && (await ctx.db.get(alias[entityField]))) {
+    return alias[entityField];
+  }
+
+  if (group.id) {
+    const { canonical, kind, dv } = group.id;
+    const byId = await ctx.db
+      .query(entities)
+      .withIndex('by_id_number', (q) => q.eq('idNumber', canonical))
+      .first();
+    if (byId) {
+      if (dv && !byId.dv && !byId.pinned) await ctx.db.patch(byId._id, { dv });
+      return byId._id;
+    }
+
+    // An entity so far only known by name gets the number, unless a reviewer pinned it without one
+    const byName =
+      group.normalizedName !== ''
+        ? await ctx.db
+            .query(entities)
+            .withIndex('by_normalized_name', (q) => q.eq('normalizedName', group.normalizedName))
+            .filter((q) => q.and(q.eq(q.field('idNumber'), null), q.neq(q.field('pinned'), true)))
+            .first()
+        : null;
+    if (byName) {
+      await ctx.db.patch(byName._id, { idNumber: canonical, idKind: kind, dv });
+      return byName._id;
+    }
+  } else {
+    const byName = await findEntityByName(ctx, registry, group.normalizedName);
+    if (byName) return byName;
+  }
+
+  return await insertEntity(ctx, registry, group.id, group.name);
+}
+
+async function insertEntity(
+  ctx: MutationCtx,
+  registry: AnyRegistry,
+  id: PanamaId | null,
+  name: string,
+): Promise<Id<'donors'>> {
+  return await ctx.db.insert(tablesOf(registry).entities, {
+    idNumber: id?.canonical ?? null,
+    idKind: id?.kind ?? null,
+    dv: id?.dv ?? null,
+    name,
+    normalizedName: normalizePartyName(name),
+    totalAmount: 0,
+    rowCount: 0,
+    candidateCount: 0,
+    ...registry.newEntityFields,
+    updatedAt: Date.now(),
+  });
+}
+
+async function loadLinks(ctx: QueryCtx, registry: AnyRegistry, entityId: Id<'donors'>) {
+  const { links, entityField, byEntity } = tablesOf(registry);
+  return await ctx.db
+    .query(links)
+    .withIndex(byEntity, (q) => q.eq(entityField, entityId))
+    .collect();
+}
+
+/**
+ * Recompute an entity's totals from its links; entities left without any are removed
+ */
+async function refreshEntityTotals(ctx: MutationCtx, registry: AnyRegistry, entityId: Id<'donors'>) {
+  const { aliases, entityField, byEntity } = tablesOf(registry);
+  const entity = await ctx.db.get(entityId);
+  if (!entity) return;
+
+  const links = await loadLinks(ctx, registry, entityId);
+  if (links.length === 0) {
+    const alias = await ctx.db
+      .query(aliases)
+      .withIndex(byEntity, (q) => q.eq(entityField, entityId))
+      .first();
+    // Keep the entity while a manual decision points at it; its rows may come back after re-extraction
+    if (!alias && !entity.pinned) {
+      await ctx.db.delete(entityId);
+      return;
+    }
+  }
+
+  await ctx.db.patch(entityId, {
+    totalAmount: links.reduce((sum, link) => sum + link.amount, 0),
+    rowCount: links.reduce((sum, link) => sum + link.rowCount, 0),
+    candidateCount: new Set(links.map((link) => link.candidateId).filter(Boolean)).size,
+    ...(registry.linkTotals ? await registry.linkTotals(ctx, links as Doc<LinkTable<EntityType>>[]) : {}),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Point identities at an entity, replacing whatever alias they had
+ */
+async function setAliases(
+  ctx: MutationCtx,
+  registry: AnyRegistry,
+  identityKeys: Iterable<string>,
+  entityId: Id<'donors'>,
+) {
+  const { aliases, entityField } = tablesOf(registry);
+  for (const identityKey of identityKeys) {
+    const existing = await ctx.db
+      .query(aliases)
+      .withIndex('by_identity_key', (q) => q.eq('identityKey', identityKey))
+      .collect();
+    for (const alias of existing) {
+      await ctx.db.delete(alias._id);
+    }
+    await ctx.db.insert(aliases, { identityKey, [entityField]: entityId } as WithoutSystemFields<Doc<'donorAliases'>>);
+  }
+}
+
+/**
+ * Every identity whose rows currently land on an entity, or that a manual decision points at it
+ */
+async function entityIdentityKeys(ctx: MutationCtx, registry: AnyRegistry, entityId: Id<'donors'>) {
+  const { aliases, entityField, byEntity } = tablesOf(registry);
+  const links = await loadLinks(ctx, registry, entityId);
+  const entityAliases = await ctx.db
+    .query(aliases)
+    .withIndex(byEntity, (q) => q.eq(entityField, entityId))
+    .collect();
+  return new Set([
+    ...links.flatMap((link) => (link.identityKey ? [link.identityKey] : [])),
+    ...entityAliases.map((alias) => alias.identityKey),
+  ]);
+}
+
+/**
+ * Schedule the rebuild of one document's links in the donor and supplier registries. Called by
+ * every mutation that changes what the links are built from: the document's current rows, its
+ * candidate or whether it is superseded.
+ */
+export async function scheduleDocumentEntitiesRefresh(ctx: MutationCtx, documentId: Id<'documents'>) {
+  await ctx.scheduler.runAfter(0, internal.donors.refreshDocumentDonors, { documentId });
+  await ctx.scheduler.runAfter(0, internal.suppliers.refreshDocumentSuppliers, { documentId });
+}
+
+/**
+ * Rebuild the links of one document from its current rows (validated, otherwise extracted)
+ */
+export async function refreshDocumentEntities<T extends EntityType>(
+  ctx: MutationCtx,
+  registry: EntityRegistry<T>,
+  documentId: Id<'documents'>,
+) {
+  const anyRegistry = registry as unknown as AnyRegistry;
+  const { links, entityField } = tablesOf(anyRegistry);
+  const affected = new Set<Id<'donors'>>();
+  const previous = await ctx.db
+    .query(links)
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .collect();
+  for (const link of previous) {
+    affected.add(link[entityField]);
+    await ctx.db.delete(link._id);
+  }
+
+  // Superseded versions of a filing do not count
+  const doc = await ctx.db.get(documentId);
+  if (doc && doc.supersededBy === undefined) {
+    const rows = registry.extractRows(await loadDocumentRows(ctx, documentId));
+    for (const group of groupRows(rows)) {
+      const entityId = await findOrCreateEntity(ctx, anyRegistry, group);
+      await ctx.db.insert(links, {
+        [entityField]: entityId,
+        documentId,
+        candidateId: doc.candidateId ?? null,
+        identityKey: group.identityKey,
+        amount: group.amount,
+        rowCount: group.rowCount,
+        ...registry.linkFields?.(group),
+        rawNames: Array.from(group.rawNames),
+        rawIdNumbers: Array.from(group.rawIdNumbers),
+      } as WithoutSystemFields<Doc<'donorContributions'>>);
+      affected.add(entityId);
+    }
+  }
+
+  for (const entityId of affected) {
+    await refreshEntityTotals(ctx, anyRegistry, entityId);
+  }
+}
+
+/**
+ * Entities matching a cédula/RUC or a name; null without a search
+ */
+export async function searchEntities<T extends EntityType>(
+  ctx: QueryCtx,
+  registry: EntityRegistry<T>,
+  search: string,
+  paginationOpts: PaginationOptions,
+): Promise<PaginationResult<Doc<EntityTable<T>>> | null> {
+  const { entities } = tablesOf(registry as unknown as AnyRegistry);
+  const id = parsePanamaId(search);
+  let results: PaginationResult<Doc<'donors'>> | null = null;
+  if (id) {
+    results = await ctx.db
+      .query(entities)
+      .withIndex('by_id_number', (q) => q.eq('idNumber', id.canonical))
+      .paginate(paginationOpts);
+  } else if (search !== '') {
+    results = await ctx.db
+      .query(entities)
+      .withSearchIndex('search_name', (q) => q.search('normalizedName', normalizePartyName(search) || search))
+      .paginate(paginationOpts);
+  }
+  return results as PaginationResult<Doc<EntityTable<T>>> | null;
+}
+
+/**
+ * An entity with every candidate it appears for, their totals and the documents the rows are in,
+ * and the identities (cédula/RUC or name) its rows were matched under, for splitting
+ */
+export async function getEntityDetail<T extends EntityType>(
+  ctx: QueryCtx,
+  registry: EntityRegistry<T>,
+  entityId: Id<EntityTable<T>>,
+) {
+  const anyRegistry = registry as unknown as AnyRegistry;
+  const entity = await ctx.db.get(entityId);
+  if (!entity) {
+    return null;
+  }
+
+  const links = await loadLinks(ctx, anyRegistry, entityId as Id<'donors'>);
+
+  const byCandidate = new Map<
+    string,
+    {
+      candidateId: Id<'candidates'> | null;
+      candidateName: string | null;
+      position: string | null;
+      party: string | null;
+      totalAmount: number;
+      rowCount: number;
+      documents: Array<{ documentId: Id<'documents'>; name: string; amount: number; rowCount: number }>;
+    }
+  >();
+  const byIdentity = new Map<
+    string,
+    { identityKey: string; rawNames: Set<string>; rawIdNumbers: Set<string>; amount: number; rowCount: number }
+  >();
+
+  for (const link of links) {
+    const key = link.candidateId ?? 'unlinked';
+    let entry = byCandidate.get(key);
+    if (!entry) {
+      const candidate: Doc<'candidates'> | null = link.candidateId ? await ctx.db.get(link.candidateId) : null;
+      entry = {
+        candidateId: link.candidateId,
+        candidateName: candidate?.candidateName ?? null,
+        position: candidate?.position ?? null,
+        party: candidate?.party ?? null,
+        totalAmount: 0,
+        rowCount: 0,
+        documents: [],
+      };
+      byCandidate.set(key, entry);
+    }
+    const doc = await ctx.db.get(link.documentId);
+    entry.totalAmount += link.amount;
+    entry.rowCount += link.rowCount;
+    entry.documents.push({
+      documentId: link.documentId,
+      name: doc?.name ?? '',
+      amount: link.amount,
+      rowCount: link.rowCount,
+    });
+
+    if (!link.identityKey) continue;
+    let identity = byIdentity.get(link.identityKey);
+    if (!identity) {
+      identity = {
+        identityKey: link.identityKey,
+        rawNames: new Set(),
+        rawIdNumbers: new Set(),
+        amount: 0,
+        rowCount: 0,
+      };
+      byIdentity.set(link.identityKey, identity);
+    }
+    link.rawNames.forEach((name) => identity.rawNames.add(name));
+    link.rawIdNumbers.forEach((idNumber) => identity.rawIdNumbers.add(idNumber));
+    identity.amount += link.amount;
+    identity.rowCount += link.rowCount;
+  }
+
+  return {
+    ...entity,
+    rawNames: Array.from(new Set(links.flatMap((link) => link.rawNames))).sort(),
+    rawIdNumbers: Array.from(new Set(links.flatMap((link) => link.rawIdNumbers))).sort(),
+    candidates: Array.from(byCandidate.values()).sort((a, b) => b.totalAmount - a.totalAmount),
+    identities: Array.from(byIdentity.values(), (identity) => ({
+      ...identity,
+      rawNames: Array.from(identity.rawNames).sort(),
+      rawIdNumbers: Array.from(identity.rawIdNumbers).sort(),
+    })).sort((a, b) => b.amount - a.amount),
+  };
+}
+
+/**
+ * Merge one entity into another. Every identity of the merged entity keeps pointing at the target,
+ * so documents extracted or validated later land there too.
+ */
+export async function mergeEntities<T extends EntityType>(
+  ctx: MutationCtx,
+  registry: EntityRegistry<T>,
+  userId: Id<'users'>,
+  sourceId: Id<EntityTable<T>>,
+  targetId: Id<EntityTable<T>>,
+) {
+  const anyRegistry = registry as unknown as AnyRegistry;
+  const { links, entityField } = tablesOf(anyRegistry);
+  if (sourceId === targetId) {
+    throw new Error(`Cannot merge a ${registry.entityType} into itself`);
+  }
+  const [source, target] = await Promise.all([
+    ctx.db.get(sourceId as Id<'donors'>),
+    ctx.db.get(targetId as Id<'donors'>),
+  ]);
+  if (!source || !target) {
+    throw new Error(`${capitalize(registry.entityType)} not found`);
+  }
+
+  const identityKeys = await entityIdentityKeys(ctx, anyRegistry, source._id);
+  if (source.idNumber) identityKeys.add(`id:${source.idNumber}`);
+  await setAliases(ctx, anyRegistry, identityKeys, target._id);
+
+  for (const link of await loadLinks(ctx, anyRegistry, source._id)) {
+    await ctx.db.patch(link._id, { [entityField]: target._id } as Partial<Doc<typeof links>>);
+  }
+  if (!target.idNumber && source.idNumber && !target.pinned) {
+    await ctx.db.patch(target._id, { idNumber: source.idNumber, idKind: source.idKind, dv: source.dv });
+  }
+  await ctx.db.delete(source._id);
+  await refreshEntityTotals(ctx, anyRegistry, target._id);
+
+  await recordEntityAction(ctx, userId, {
+    entityType: registry.entityType,
+    action: 'merge',
+    entityId: target._id,
+    entityName: target.name,
+    otherEntityId: source._id,
+    otherEntityName: source.name,
+    identityKeys: Array.from(identityKeys),
+  });
+}
+
+/**
+ * Move some identities of an entity (and their links) into a new entity
+ */
+export async function splitEntity<T extends EntityType>(
+  ctx: MutationCtx,
+  registry: EntityRegistry<T>,
+  userId: Id<'users'>,
+  entityId: Id<EntityTable<T>>,
+  identityKeys: string[],
+): Promise<Id<EntityTable<T>>> {
+  const anyRegistry = registry as unknown as AnyRegistry;
+  const { links, entityField } = tablesOf(anyRegistry);
+  const entity = await ctx.db.get(entityId as Id<'donors'>);
+  if (!entity) {
+    throw new Error(`${capitalize(registry.entityType)} not found`);
+  }
+
+  const entityLinks = await loadLinks(ctx, anyRegistry, entity._id);
+  const splitKeys = new Set(identityKeys);
+  const moved = entityLinks.filter((link) => link.identityKey !== undefined && splitKeys.has(link.identityKey));
+  if (moved.length === 0) {
+    throw new Error(`None of the identities belong to this ${registry.entityType}`);
+  }
+  if (moved.length === entityLinks.length) {
+    throw new Error(`Cannot split off every identity of a ${registry.entityType}`);
+  }
+
+  // The new entity takes the number of the first identity that has one
+  const idKey = identityKeys.find((key) => key.startsWith('id:'));
+  const id = idKey ? parsePanamaId(idKey.slice('id:'.length)) : null;
+  const newEntityId = await insertEntity(ctx, anyRegistry, id, moved[0].rawNames[0] ?? id?.canonical ?? entity.name);
+  if (id && entity.idNumber === id.canonical) {
+    await ctx.db.patch(entity._id, { idNumber: null, idKind: null, dv: null });
+  }
+
+  await setAliases(ctx, anyRegistry, splitKeys, newEntityId);
+  for (const link of moved) {
+    await ctx.db.patch(link._id, { [entityField]: newEntityId } as Partial<Doc<typeof links>>);
+  }
+  await refreshEntityTotals(ctx, anyRegistry, entity._id);
+  await refreshEntityTotals(ctx, anyRegistry, newEntityId);
+
+  const newEntity = await ctx.db.get(newEntityId);
+  await recordEntityAction(ctx, userId, {
+    entityType: registry.entityType,
+    action: 'split',
+    entityId: entity._id,
+    entityName: entity.name,
+    otherEntityId: newEntityId,
+    otherEntityName: newEntity?.name,
+    identityKeys: Array.from(splitKeys),
+  });
+  return newEntityId as Id<EntityTable<T>>;
+}
+
+/**
+ * Set an entity's canonical name and cédula/RUC by hand. The entity keeps every identity it has now,
+ * and automatic matching stops renaming it or giving it another number.
+ */
+export async function pinEntity<T extends EntityType>(
+  ctx: MutationCtx,
+  registry: EntityRegistry<T>,
+  userId: Id<'users'>,
+  entityId: Id<EntityTable<T>>,
+  pin: { name: string; idNumber: string | null },
+) {
+  const anyRegistry = registry as unknown as AnyRegistry;
+  const { entities } = tablesOf(anyRegistry);
+  const entity = await ctx.db.get(entityId as Id<'donors'>);
+  if (!entity) {
+    throw new Error(`${capitalize(registry.entityType)} not found`);
+  }
+  const name = pin.name.trim();
+  if (name === '') {
+    throw new Error('Name is required');
+  }
+  const id = pin.idNumber?.trim() ? parsePanamaId(pin.idNumber) : null;
+  if (pin.idNumber?.trim() && !id) {
+    throw new Error('Invalid cédula/RUC');
+  }
+  if (id) {
+    const other = await ctx.db
+      .query(entities)
+      .withIndex('by_id_number', (q) => q.eq('idNumber', id.canonical))
+      .first();
+    if (other && other._id !== entity._id) {
+      throw new Error(`Another ${registry.entityType} already has this cédula/RUC; merge it into this one instead`);
+    }
+  }
+
+  const identityKeys = await entityIdentityKeys(ctx, anyRegistry, entity._id);
+  if (id) identityKeys.add(`id:${id.canonical}`);
+  await setAliases(ctx, anyRegistry, identityKeys, entity._id);
+
+  await ctx.db.patch(entity._id, {
+    name,
+    normalizedName: normalizePartyName(name),
+    idNumber: id?.canonical ?? null,
+    idKind: id?.kind ?? null,
+    dv: id?.dv ?? null,
+    pinned: true,
+    updatedAt: Date.now(),
+  });
+
+  await recordEntityAction(ctx, userId, {
+    entityType: registry.entityType,
+    action: 'pin',
+    entityId: entity._id,
+    entityName: name,
+    before: { name: entity.name, idNumber: entity.idNumber },
+    after: { name, idNumber: id?.canonical ?? null },
+  });
+}
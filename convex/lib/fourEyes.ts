@@ -0,0 +1,120 @@
+import type { Id } from '../_generated/dataModel';
+import type { QueryCtx } from '../_generated/server';
+import { rowContribution } from './rowTotals';
+import type { DiffRow, RowType } from './shared/validationDiff';
+
+/**
+ * Two-person (four-eyes) verification of validated rows.
+ *
+ * Rows worth at least FOUR_EYES_MIN_AMOUNT, or failing an arithmetic rule, only count as verified
+ * once two different reviewers have signed them. A signature covers the row's values when it was
+ * given (its fingerprint), so a row edited after signing needs new signatures.
+ *
+ * rowStore keeps the verified totals and the pending rows of each page on the validated data as rows
+ * are written and signed; after changing FOUR_EYES_MIN_AMOUNT run migrations:recomputeVerification.
+ */
+
+export const REQUIRED_SIGNATURES = 2;
+
+export type SignatureReason = 'amount' | 'rules';
+
+export function fourEyesMinAmount(): number {
+  return Number(process.env.FOUR_EYES_MIN_AMOUNT ?? 5000);
+}
+
+/**
+ * The larger of a row's self-reported total and its category sum
+ */
+export function rowAmount(rowType: RowType, row: DiffRow): number {
+  const totals = rowContribution(rowType, row);
+  return rowType === 'ingress'
+    ? Math.max(Math.abs(totals.ingressTotal), Math.abs(totals.ingressCategoryTotal))
+    : Math.max(Math.abs(totals.egressTotal), Math.abs(totals.egressCategoryTotal));
+}
+
+/**
+ * Why a row needs a second signature (empty when one reviewer is enough)
+ */
+export function signatureReasons(rowType: RowType, row: DiffRow, minAmount: number): SignatureReason[] {
+  const reasons: SignatureReason[] = [];
+  if (rowAmount(rowType, row) >= minAmount) reasons.push('amount');
+  if (rowContribution(rowType, row).ruleIssueCount > 0) reasons.push('rules');
+  return reasons;
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * The row's non-empty cells in a stable order
+ */
+export function rowFingerprint(row: DiffRow): string {
+  return JSON.stringify(
+    Object.keys(row)
+      .filter((field) => !isEmpty(row[field]))
+      .sort()
+      .map((field) => [field, row[field]]),
+  );
+}
+
+export type RowVerification<T> = {
+  row: T;
+  fingerprint: string;
+  reasons: SignatureReason[];
+  signerIds: Id<'users'>[];
+  verified: boolean;
+};
+
+const signatureKey = (rowType: RowType, pageNumber: number, fingerprint: string) =>
+  `${rowType}:${pageNumber}:${fingerprint}`;
+
+// Who signed each row value, by row type, page and fingerprint
+export type RowSigners = Map<string, Id<'users'>[]>;
+
+/**
+ * Signatures on a document's rows (optionally a single page)
+ */
+export async function loadRowSigners(
+  ctx: QueryCtx,
+  documentId: Id<'documents'>,
+  pageNumber?: number,
+): Promise<RowSigners> {
+  const signatures = await ctx.db
+    .query('rowSignatures')
+    .withIndex('by_document_and_page', (q) =>
+      pageNumber === undefined
+        ? q.eq('documentId', documentId)
+        : q.eq('documentId', documentId).eq('pageNumber', pageNumber),
+    )
+    .collect();
+
+  const signersByKey: RowSigners = new Map();
+  for (const signature of signatures) {
+    const key = signatureKey(signature.rowType, signature.pageNumber, signature.fingerprint);
+    const signers = signersByKey.get(key) ?? [];
+    if (!signers.includes(signature.userId)) signers.push(signature.userId);
+    signersByKey.set(key, signers);
+  }
+  return signersByKey;
+}
+
+/**
+ * Whether a row needs a second signature, who signed its current values, and whether it counts as verified
+ */
+export function verifyRow<T extends DiffRow>(
+  rowType: RowType,
+  row: T,
+  signers: RowSigners,
+  minAmount: number,
+): RowVerification<T> {
+  const fingerprint = rowFingerprint(row);
+  const reasons = signatureReasons(rowType, row, minAmount);
+  const signerIds = signers.get(signatureKey(rowType, row.pageNumber, fingerprint)) ?? [];
+  return {
+    row,
+    fingerprint,
+    reasons,
+    signerIds,
+    verified: reasons.length === 0 || signerIds.length >= REQUIRED_SIGNATURES,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * The extraction the app works from: the latest real-model run, skipping the individual
+ * variant runs that feed a consensus extraction and any run that used the mock provider.
+ * Runs stored before the provider was recorded only count when they came from Gemini 3.
+ */
+export function pickLatestExtraction<
+  T extends { model: string; provider?: string; completedAt: number; variant?: string },
+>(extractions: T[]): T | undefined {
+  return extractions
+    .filter((e) => e.variant === undefined && isRealModelRun(e))
+    .sort((a, b) => b.completedAt - a.completedAt)[0];
+}
+
+function isRealModelRun(extraction: { model: string; provider?: string }): boolean {
+  if (extraction.provider === undefined) return extraction.model.startsWith('gemini-3');
+  return !extraction.provider.split(',').includes('mock');
+}
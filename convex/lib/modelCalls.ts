@@ -0,0 +1,57 @@
+import { internal } from '../_generated/api';
+import type { ActionCtx } from '../_generated/server';
+import {
+  resolveExtractionProvider,
+  resolveExtractionVariants,
+  withRateLimit,
+  withRetries,
+  type ExtractionProvider,
+  type ExtractionVariant,
+} from '../../extraction-providers';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait for a slot in the global model-call limiter
+ */
+async function acquireModelCallSlot(ctx: ActionCtx): Promise<void> {
+  while (true) {
+    const { ok, retryAt } = await ctx.runMutation(internal.rateLimits.reserveModelCall, {});
+    if (retryAt !== undefined) {
+      await sleep(Math.max(0, retryAt - Date.now()));
+    }
+    // Reserved slots are ours once retryAt passes; otherwise the queue was full, so ask again
+    if (ok) return;
+  }
+}
+
+function limitProvider(ctx: ActionCtx, provider: ExtractionProvider, label: string): ExtractionProvider {
+  return withRetries(
+    withRateLimit(provider, () => acquireModelCallSlot(ctx)),
+    {
+      onRetry: (error, attempt, delayMs) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `[${provider.name}] ${label}: attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms (${message})`,
+        );
+      },
+    },
+  );
+}
+
+/**
+ * The configured provider, rate limited across all actions and retried on transient failures
+ */
+export function getModelProvider(ctx: ActionCtx, label: string): ExtractionProvider {
+  return limitProvider(ctx, resolveExtractionProvider(), label);
+}
+
+/**
+ * The configured page extraction variants, each rate limited and retried like getModelProvider
+ */
+export function getModelVariants(ctx: ActionCtx, label: string): ExtractionVariant[] {
+  return resolveExtractionVariants().map((variant) => ({
+    ...variant,
+    provider: limitProvider(ctx, variant.provider, `${label} (${variant.label})`),
+  }));
+}
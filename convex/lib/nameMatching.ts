@@ -0,0 +1,71 @@
+/**
+ * Normalization and fuzzy comparison of person and company names typed on the affidavit rows.
+ *
+ * Names are compared as accent-free, upper-case token sets without connectors or company suffixes,
+ * so "Pérez, Juan" matches "JUAN PEREZ" and "Impresora Istmo, S.A." matches "IMPRESORA ISTMO".
+ * Typos are tolerated through the similarity of character bigrams.
+ */
+
+// Connectors and legal-form suffixes that say nothing about who the party is
+const IGNORED_TOKENS = new Set([
+  'DE',
+  'DEL',
+  'LA',
+  'LAS',
+  'LOS',
+  'EL',
+  'Y',
+  'S',
+  'A',
+  'SA',
+  'INC',
+  'CORP',
+  'CORPORACION',
+  'LTD',
+  'LTDA',
+  'SRL',
+  'CIA',
+]);
+
+// Names at least this similar belong to the same party
+export const NAME_MATCH_THRESHOLD = 0.85;
+
+/**
+ * Canonical form of a name: sorted significant tokens, or '' when nothing is left
+ */
+export function normalizePartyName(name: string | null | undefined): string {
+  if (name == null) return '';
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token !== '' && !IGNORED_TOKENS.has(token))
+    .sort()
+    .join(' ');
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice similarity (0–1) between two names already passed through normalizePartyName
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return a === '' ? 0 : 1;
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let shared = 0;
+  for (const [bigram, count] of aBigrams) {
+    shared += Math.min(count, bBigrams.get(bigram) ?? 0);
+  }
+  const total = a.length - 1 + (b.length - 1);
+  return total > 0 ? (2 * shared) / total : 0;
+}
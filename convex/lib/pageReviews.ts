@@ -0,0 +1,57 @@
+import { v } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { PageReviewState } from './shared/pageReviewStates';
+
+export const pageReviewStateValidator = v.union(
+  v.literal('unreviewed'),
+  v.literal('in_progress'),
+  v.literal('validated'),
+  v.literal('needs_second_review'),
+  v.literal('disputed'),
+);
+
+export async function getPageReview(ctx: QueryCtx, documentId: Id<'documents'>, pageNumber: number) {
+  return await ctx.db
+    .query('pageReviews')
+    .withIndex('by_document_and_page', (q) => q.eq('documentId', documentId).eq('pageNumber', pageNumber))
+    .unique();
+}
+
+/**
+ * Number of validated pages of a document, for the completion percentage
+ */
+export async function countValidatedPages(ctx: QueryCtx, documentId: Id<'documents'>): Promise<number> {
+  const reviews = await ctx.db
+    .query('pageReviews')
+    .withIndex('by_document_and_page', (q) => q.eq('documentId', documentId))
+    .collect();
+  return reviews.filter((review) => review.state === 'validated').length;
+}
+
+/**
+ * Create or update the review record of a page
+ */
+export async function upsertPageReview(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  documentId: Id<'documents'>,
+  pageNumber: number,
+  changes: { state?: PageReviewState; assigneeId?: Id<'users'> | null },
+) {
+  const existing = await getPageReview(ctx, documentId, pageNumber);
+  const assigneeId = changes.assigneeId === undefined ? existing?.assigneeId : (changes.assigneeId ?? undefined);
+  const review = {
+    documentId,
+    pageNumber,
+    state: changes.state ?? existing?.state ?? 'unreviewed',
+    assigneeId,
+    updatedBy: userId,
+    updatedAt: Date.now(),
+  };
+  if (existing) {
+    await ctx.db.replace(existing._id, review);
+  } else {
+    await ctx.db.insert('pageReviews', review);
+  }
+}
@@ -0,0 +1,170 @@
+import type { Doc } from '../_generated/dataModel';
+import type { StoredEgressRow, StoredIngressRow } from './rowStore';
+
+/**
+ * Line-by-line reconciliation of PDF rows against the records the Tribunal Electoral portal
+ * publishes for the same affidavit.
+ *
+ * Rows are paired greedily in three passes, strictest first: same receipt number and amount,
+ * then same amount and date, then same receipt number alone. Whatever is left over exists only
+ * in the PDF or only in the portal.
+ */
+
+export type ReconciledField = 'fecha' | 'documentNumber' | 'counterpartyName' | 'amount';
+
+export type PdfRowSummary = {
+  pageNumber: number;
+  fecha: string | null;
+  documentNumber: string | null;
+  counterpartyName: string | null;
+  amount: number | null;
+};
+
+export type PortalRecordSummary = {
+  _id: Doc<'portalRecords'>['_id'];
+  fecha: string | null;
+  documentNumber: string | null;
+  counterpartyName: string | null;
+  description: string | null;
+  amount: number | null;
+};
+
+export type Reconciliation = {
+  matched: Array<{ pdfRow: PdfRowSummary; portalRecord: PortalRecordSummary; differences: ReconciledField[] }>;
+  pdfOnly: PdfRowSummary[];
+  portalOnly: PortalRecordSummary[];
+};
+
+// Amounts closer than this are the same amount (rounding in the PDF)
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Normalize a date to YYYY-MM-DD. Accepts ISO timestamps and the day-first dates of the PDFs
+ * (DD/MM/YYYY, DD-MM-YY, DD.MM.YYYY).
+ */
+export function normalizeIsoDate(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(trimmed);
+  if (dayFirst) {
+    const year = dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3];
+    return `${year}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+function normalizeDocumentNumber(value: string | null): string | null {
+  if (!value) return null;
+  const normalized = value
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/^0+/, '');
+  return normalized || null;
+}
+
+function normalizeName(value: string | null): string | null {
+  if (!value) return null;
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function sameAmount(a: number | null, b: number | null): boolean {
+  return a != null && b != null && Math.abs(a - b) < AMOUNT_TOLERANCE;
+}
+
+export function summarizeIngressRow(row: StoredIngressRow): PdfRowSummary {
+  return {
+    pageNumber: row.pageNumber,
+    fecha: normalizeIsoDate(row.fecha),
+    documentNumber: row.reciboNumero ?? null,
+    counterpartyName: row.contribuyenteNombre ?? null,
+    amount: row.total ?? null,
+  };
+}
+
+export function summarizeEgressRow(row: StoredEgressRow): PdfRowSummary {
+  return {
+    pageNumber: row.pageNumber,
+    fecha: normalizeIsoDate(row.fecha),
+    documentNumber: row.numeroFacturaRecibo ?? null,
+    counterpartyName: row.proveedorNombre ?? null,
+    amount: row.totalDeGastosDePropagandaYCampania ?? null,
+  };
+}
+
+export function summarizePortalRecord(record: Doc<'portalRecords'>): PortalRecordSummary {
+  const { _id, fecha, documentNumber, counterpartyName, description, amount } = record;
+  return { _id, fecha, documentNumber, counterpartyName, description, amount };
+}
+
+function differences(pdfRow: PdfRowSummary, portalRecord: PortalRecordSummary): ReconciledField[] {
+  const fields: ReconciledField[] = [];
+  if (pdfRow.fecha !== portalRecord.fecha) fields.push('fecha');
+  if (normalizeDocumentNumber(pdfRow.documentNumber) !== normalizeDocumentNumber(portalRecord.documentNumber)) {
+    fields.push('documentNumber');
+  }
+  if (normalizeName(pdfRow.counterpartyName) !== normalizeName(portalRecord.counterpartyName)) {
+    fields.push('counterpartyName');
+  }
+  if (!sameAmount(pdfRow.amount, portalRecord.amount)) fields.push('amount');
+  return fields;
+}
+
+/**
+ * Pair PDF rows with portal records of the same type
+ */
+export function reconcile(pdfRows: PdfRowSummary[], portalRecords: PortalRecordSummary[]): Reconciliation {
+  const remainingPdf = new Set(pdfRows.map((_, index) => index));
+  const remainingPortal = new Set(portalRecords.map((_, index) => index));
+  const matched: Reconciliation['matched'] = [];
+
+  const cents = (amount: number | null) => (amount != null ? Math.round(amount * 100) : null);
+  // Matching keys per pass (null when the row lacks the fields to match on)
+  const passes: Array<(row: PdfRowSummary | PortalRecordSummary) => string | null> = [
+    (row) => {
+      const documentNumber = normalizeDocumentNumber(row.documentNumber);
+      return documentNumber && row.amount != null ? `${documentNumber}|${cents(row.amount)}` : null;
+    },
+    (row) => (row.fecha && row.amount != null ? `${row.fecha}|${cents(row.amount)}` : null),
+    (row) => normalizeDocumentNumber(row.documentNumber),
+  ];
+
+  for (const keyOf of passes) {
+    const portalByKey = new Map<string, number[]>();
+    for (const portalIndex of remainingPortal) {
+      const key = keyOf(portalRecords[portalIndex]);
+      if (key === null) continue;
+      const bucket = portalByKey.get(key);
+      if (bucket) bucket.push(portalIndex);
+      else portalByKey.set(key, [portalIndex]);
+    }
+
+    for (const pdfIndex of remainingPdf) {
+      const key = keyOf(pdfRows[pdfIndex]);
+      const portalIndex = key !== null ? portalByKey.get(key)?.shift() : undefined;
+      if (portalIndex === undefined) continue;
+
+      matched.push({
+        pdfRow: pdfRows[pdfIndex],
+        portalRecord: portalRecords[portalIndex],
+        differences: differences(pdfRows[pdfIndex], portalRecords[portalIndex]),
+      });
+      remainingPdf.delete(pdfIndex);
+      remainingPortal.delete(portalIndex);
+    }
+  }
+
+  return {
+    matched: matched.sort((a, b) => a.pdfRow.pageNumber - b.pdfRow.pageNumber),
+    pdfOnly: Array.from(remainingPdf, (index) => pdfRows[index]),
+    portalOnly: Array.from(remainingPortal, (index) => portalRecords[index]),
+  };
+}
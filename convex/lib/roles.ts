@@ -0,0 +1,10 @@
+import { v } from 'convex/values';
+import type { Doc } from '../_generated/dataModel';
+import type { Role } from './shared/roles';
+
+export const roleValidator = v.union(v.literal('viewer'), v.literal('reviewer'), v.literal('admin'));
+
+// Users without a role (new sign-ups, or older accounts until migrations.assignMissingRoles ran) only get read access
+export function userRole(user: Doc<'users'> | null): Role {
+  return user?.role ?? 'viewer';
+}
@@ -0,0 +1,462 @@
+import type { Doc, Id } from '../_generated/dataModel';
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import { WithoutSystemFields } from 'convex/server';
+import { diffRowPair, pairRows, type DiffRow, type RowType } from './shared/validationDiff';
+import { pickLatestExtraction } from './latestExtraction';
+import { addTotals, emptyTotals, rowContribution, totalsForRows, type RowTotals } from './rowTotals';
+import { fourEyesMinAmount, loadRowSigners, verifyRow, type RowSigners, type RowVerification } from './fourEyes';
+
+/**
+ * Storage for extraction and validated rows in the ingressRows/egressRows tables.
+ *
+ * Rows belong to an owner (an extraction run or a document's validated data). Every write goes
+ * through these helpers so the owner's running `totals` stay in sync without rescanning rows.
+ * Validated data also keeps its four-eyes `verification` figures the same way (see lib/fourEyes.ts).
+ */
+
+export type RowOwner =
+  | { source: 'extraction'; documentId: Id<'documents'>; extractionId: Id<'extractions'> }
+  | { source: 'validated'; documentId: Id<'documents'>; validatedDataId: Id<'validatedData'> };
+
+type StoredRow = Doc<'ingressRows'> | Doc<'egressRows'>;
+
+export type StoredIngressRow = Omit<Doc<'ingressRows'>, StoredRowField>;
+export type StoredEgressRow = Omit<Doc<'egressRows'>, StoredRowField>;
+
+// Fields the row tables add on top of the row itself
+type StoredRowField = '_id' | '_creationTime' | 'documentId' | 'source' | 'extractionId' | 'rowIndex';
+
+const ROW_TABLES = { ingress: 'ingressRows', egress: 'egressRows' } as const;
+
+// Totals over the four-eyes verified rows, and the rows still waiting for a second signature by page
+export type VerificationTotals = NonNullable<Doc<'validatedData'>['verification']>;
+
+export function emptyVerification(): VerificationTotals {
+  return { verifiedTotals: emptyTotals(), pendingByPage: {} };
+}
+
+function addVerification(a: VerificationTotals, b: VerificationTotals, sign: 1 | -1 = 1): VerificationTotals {
+  const pendingByPage = { ...a.pendingByPage };
+  for (const [pageNumber, count] of Object.entries(b.pendingByPage)) {
+    const pending = (pendingByPage[pageNumber] ?? 0) + sign * count;
+    if (pending === 0) delete pendingByPage[pageNumber];
+    else pendingByPage[pageNumber] = pending;
+  }
+  return { verifiedTotals: addTotals(a.verifiedTotals, b.verifiedTotals, sign), pendingByPage };
+}
+
+/**
+ * What one validated row adds to the four-eyes figures
+ */
+function rowVerificationTotals(rowType: RowType, verification: RowVerification<DiffRow>): VerificationTotals {
+  return verification.verified
+    ? { verifiedTotals: rowContribution(rowType, verification.row), pendingByPage: {} }
+    : { verifiedTotals: emptyTotals(), pendingByPage: { [String(verification.row.pageNumber)]: 1 } };
+}
+
+/**
+ * What a write adds to its owner's running figures. For validated rows this needs the signatures
+ * of each page written, loaded once per page.
+ */
+type OwnerDelta = {
+  totals: RowTotals;
+  verification: VerificationTotals;
+  signersByPage: Map<number, RowSigners>;
+};
+
+function emptyDelta(): OwnerDelta {
+  return { totals: emptyTotals(), verification: emptyVerification(), signersByPage: new Map() };
+}
+
+async function addRowToDelta(
+  ctx: QueryCtx,
+  owner: RowOwner,
+  delta: OwnerDelta,
+  rowType: RowType,
+  row: DiffRow,
+  sign: 1 | -1 = 1,
+) {
+  delta.totals = addTotals(delta.totals, rowContribution(rowType, row), sign);
+  if (owner.source !== 'validated') return;
+
+  let signers = delta.signersByPage.get(row.pageNumber);
+  if (!signers) {
+    signers = await loadRowSigners(ctx, owner.documentId, row.pageNumber);
+    delta.signersByPage.set(row.pageNumber, signers);
+  }
+  const verification = verifyRow(rowType, row, signers, fourEyesMinAmount());
+  delta.verification = addVerification(delta.verification, rowVerificationTotals(rowType, verification), sign);
+}
+
+export function toPlainRow<T extends StoredRow>(row: T): Omit<T, StoredRowField> {
+  const { _id, _creationTime, documentId, source, extractionId, rowIndex, ...rest } = row;
+  return rest;
+}
+
+/**
+ * Stored rows of one type for an owner (optionally a single page), ordered by page and position
+ */
+export async function queryOwnerRows(
+  ctx: QueryCtx,
+  rowType: RowType,
+  owner: RowOwner,
+  pageNumber?: number,
+): Promise<StoredRow[]> {
+  // Both row tables share the owner fields and indexes
+  const table = ROW_TABLES[rowType] as 'ingressRows';
+
+  if (owner.source === 'extraction') {
+    return await ctx.db
+      .query(table)
+      .withIndex('by_extraction_and_page', (q) =>
+        pageNumber === undefined
+          ? q.eq('extractionId', owner.extractionId)
+          : q.eq('extractionId', owner.extractionId).eq('pageNumber', pageNumber),
+      )
+      .collect();
+  }
+
+  return await ctx.db
+    .query(table)
+    .withIndex('by_document_source_and_page', (q) =>
+      pageNumber === undefined
+        ? q.eq('documentId', owner.documentId).eq('source', 'validated')
+        : q.eq('documentId', owner.documentId).eq('source', 'validated').eq('pageNumber', pageNumber),
+    )
+    .collect();
+}
+
+type OwnerHeader = Doc<'extractions'> | Doc<'validatedData'>;
+
+async function getOwnerHeader(ctx: QueryCtx, owner: RowOwner): Promise<OwnerHeader | null> {
+  return owner.source === 'extraction' ? await ctx.db.get(owner.extractionId) : await ctx.db.get(owner.validatedDataId);
+}
+
+/**
+ * Owner of the rows of an extraction or validated data record
+ */
+export function ownerOf(header: OwnerHeader): RowOwner {
+  return 'validatedAt' in header
+    ? { source: 'validated', documentId: header.documentId, validatedDataId: header._id }
+    : { source: 'extraction', documentId: header.documentId, extractionId: header._id };
+}
+
+/**
+ * Running totals of a record (computed from the legacy arrays until it is migrated)
+ */
+export function ownerTotals(header: OwnerHeader): RowTotals {
+  if (header.ingress !== undefined || header.egress !== undefined) {
+    return totalsForRows({ ingress: header.ingress ?? [], egress: header.egress ?? [] });
+  }
+  return header.totals ?? emptyTotals();
+}
+
+/**
+ * All rows of an owner (optionally a single page) as plain row objects
+ */
+export async function loadOwnerRows(
+  ctx: QueryCtx,
+  owner: RowOwner,
+  pageNumber?: number,
+): Promise<{ ingress: StoredIngressRow[]; egress: StoredEgressRow[] }> {
+  // Records not migrated yet still hold their rows inline
+  const header = await getOwnerHeader(ctx, owner);
+  if (header && (header.ingress !== undefined || header.egress !== undefined)) {
+    const onPage = <T extends { pageNumber: number }>(rows: T[]) =>
+      pageNumber === undefined ? rows : rows.filter((row) => row.pageNumber === pageNumber);
+    return { ingress: onPage(header.ingress ?? []), egress: onPage(header.egress ?? []) };
+  }
+
+  const [ingress, egress] = await Promise.all([
+    queryOwnerRows(ctx, 'ingress', owner, pageNumber),
+    queryOwnerRows(ctx, 'egress', owner, pageNumber),
+  ]);
+  return {
+    ingress: (ingress as Doc<'ingressRows'>[]).map(toPlainRow),
+    egress: (egress as Doc<'egressRows'>[]).map(toPlainRow),
+  };
+}
+
+/**
+ * Rows the app reports for a document: its validated rows, otherwise the latest extraction's
+ */
+export async function loadDocumentRows(
+  ctx: QueryCtx,
+  documentId: Id<'documents'>,
+): Promise<{ source: 'validated' | 'extraction' | 'none'; ingress: StoredIngressRow[]; egress: StoredEgressRow[] }> {
+  const validatedData = await ctx.db
+    .query('validatedData')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  if (validatedData) {
+    return { source: 'validated', ...(await loadOwnerRows(ctx, ownerOf(validatedData))) };
+  }
+
+  const extraction = pickLatestExtraction(
+    await ctx.db
+      .query('extractions')
+      .withIndex('by_document', (q) => q.eq('documentId', documentId))
+      .collect(),
+  );
+  if (extraction) {
+    return { source: 'extraction', ...(await loadOwnerRows(ctx, ownerOf(extraction))) };
+  }
+  return { source: 'none', ingress: [], egress: [] };
+}
+
+/**
+ * Validated rows of a document (optionally a single page) with their four-eyes signatures, or null
+ * when nothing was validated yet
+ */
+export async function loadRowVerifications(
+  ctx: QueryCtx,
+  documentId: Id<'documents'>,
+  pageNumber?: number,
+): Promise<{
+  ingress: RowVerification<StoredIngressRow>[];
+  egress: RowVerification<StoredEgressRow>[];
+} | null> {
+  const validatedData = await ctx.db
+    .query('validatedData')
+    .withIndex('by_document', (q) => q.eq('documentId', documentId))
+    .unique();
+  if (!validatedData) return null;
+
+  const rows = await loadOwnerRows(ctx, ownerOf(validatedData), pageNumber);
+  const signers = await loadRowSigners(ctx, documentId, pageNumber);
+  const minAmount = fourEyesMinAmount();
+  return {
+    ingress: rows.ingress.map((row) => verifyRow('ingress', row, signers, minAmount)),
+    egress: rows.egress.map((row) => verifyRow('egress', row, signers, minAmount)),
+  };
+}
+
+/**
+ * Validated rows that need no second signature or already have it (reads every row; for exports)
+ */
+export async function loadVerifiedRows(
+  ctx: QueryCtx,
+  documentId: Id<'documents'>,
+): Promise<{ ingress: StoredIngressRow[]; egress: StoredEgressRow[] } | null> {
+  const verifications = await loadRowVerifications(ctx, documentId);
+  if (!verifications) return null;
+  return {
+    ingress: verifications.ingress.filter((item) => item.verified).map((item) => item.row),
+    egress: verifications.egress.filter((item) => item.verified).map((item) => item.row),
+  };
+}
+
+/**
+ * Four-eyes figures of a document's validated rows, from scratch. Only for records that do not keep
+ * them yet, or after FOUR_EYES_MIN_AMOUNT changed; writes keep them up to date incrementally.
+ */
+export async function computeVerification(ctx: QueryCtx, documentId: Id<'documents'>): Promise<VerificationTotals> {
+  const verifications = await loadRowVerifications(ctx, documentId);
+  let totals = emptyVerification();
+  for (const rowType of ['ingress', 'egress'] as const) {
+    for (const item of verifications?.[rowType] ?? []) {
+      totals = addVerification(totals, rowVerificationTotals(rowType, item));
+    }
+  }
+  return totals;
+}
+
+/**
+ * The four-eyes figures of a validated data record, computed and stored once for records from before
+ * they were kept
+ */
+export async function ensureVerification(
+  ctx: MutationCtx,
+  validatedData: Doc<'validatedData'>,
+): Promise<VerificationTotals> {
+  if (validatedData.verification) return validatedData.verification;
+  const verification = await computeVerification(ctx, validatedData.documentId);
+  await ctx.db.patch(validatedData._id, { verification });
+  return verification;
+}
+
+/**
+ * Count rows towards the verified figures once a new signature made them verified
+ */
+export async function recordRowsVerified(
+  ctx: MutationCtx,
+  validatedDataId: Id<'validatedData'>,
+  rowType: RowType,
+  rows: DiffRow[],
+) {
+  const validatedData = await ctx.db.get(validatedDataId);
+  if (!validatedData) return;
+  if (!validatedData.verification) {
+    await ctx.db.patch(validatedDataId, { verification: await computeVerification(ctx, validatedData.documentId) });
+    return;
+  }
+
+  let verification = validatedData.verification;
+  for (const row of rows) {
+    const pending: VerificationTotals = {
+      verifiedTotals: emptyTotals(),
+      pendingByPage: { [String(row.pageNumber)]: 1 },
+    };
+    verification = addVerification(verification, pending, -1);
+    verification = addVerification(verification, { verifiedTotals: rowContribution(rowType, row), pendingByPage: {} });
+  }
+  await ctx.db.patch(validatedDataId, { verification });
+}
+
+/**
+ * Move a record's legacy row arrays into the row tables (no-op once migrated)
+ */
+export async function migrateOwnerRows(ctx: MutationCtx, owner: RowOwner): Promise<boolean> {
+  const header = await getOwnerHeader(ctx, owner);
+  if (!header || (header.ingress === undefined && header.egress === undefined)) return false;
+
+  const rows = { ingress: header.ingress ?? [], egress: header.egress ?? [] };
+  await ctx.db.patch(header._id, { ingress: undefined, egress: undefined, totals: emptyTotals() });
+  if (owner.source === 'validated') {
+    await ctx.db.patch(owner.validatedDataId, { verification: emptyVerification() });
+  }
+  await insertOwnerRows(ctx, owner, rows);
+  return true;
+}
+
+async function adjustTotals(ctx: MutationCtx, owner: RowOwner, delta: OwnerDelta) {
+  if (owner.source === 'extraction') {
+    const extraction = await ctx.db.get(owner.extractionId);
+    if (!extraction) return;
+    await ctx.db.patch(owner.extractionId, { totals: addTotals(extraction.totals ?? emptyTotals(), delta.totals) });
+  } else {
+    const validatedData = await ctx.db.get(owner.validatedDataId);
+    if (!validatedData) return;
+    await ctx.db.patch(owner.validatedDataId, {
+      totals: addTotals(validatedData.totals ?? emptyTotals(), delta.totals),
+      // Records from before the four-eyes figures were kept get them computed once, after this write
+      verification: validatedData.verification
+        ? addVerification(validatedData.verification, delta.verification)
+        : await computeVerification(ctx, owner.documentId),
+    });
+  }
+}
+
+/**
+ * Bump the version of a document's validated data, and of the given pages, after they were rewritten
+ */
+export async function bumpPageVersions(ctx: MutationCtx, validatedDataId: Id<'validatedData'>, pageNumbers: number[]) {
+  const validatedData = await ctx.db.get(validatedDataId);
+  if (!validatedData) return;
+  const version = (validatedData.version ?? 0) + 1;
+  const pageVersions = { ...validatedData.pageVersions };
+  for (const pageNumber of pageNumbers) {
+    pageVersions[String(pageNumber)] = version;
+  }
+  await ctx.db.patch(validatedDataId, { version, pageVersions });
+}
+
+function storedFields(owner: RowOwner, row: DiffRow, rowIndex: number) {
+  // Typed as an ingress row because both tables share the owner fields; the row itself comes from the caller
+  return {
+    ...row,
+    documentId: owner.documentId,
+    source: owner.source,
+    extractionId: owner.source === 'extraction' ? owner.extractionId : undefined,
+    rowIndex,
+  } as WithoutSystemFields<Doc<'ingressRows'>>;
+}
+
+/**
+ * Insert rows for an owner; positions are assigned per page in the order given
+ */
+export async function insertOwnerRows(
+  ctx: MutationCtx,
+  owner: RowOwner,
+  rows: { ingress: DiffRow[]; egress: DiffRow[] },
+) {
+  const delta = emptyDelta();
+  for (const rowType of ['ingress', 'egress'] as const) {
+    const nextIndexByPage = new Map<number, number>();
+    for (const row of rows[rowType]) {
+      const rowIndex = nextIndexByPage.get(row.pageNumber) ?? 0;
+      nextIndexByPage.set(row.pageNumber, rowIndex + 1);
+      await ctx.db.insert(ROW_TABLES[rowType] as 'ingressRows', storedFields(owner, row, rowIndex));
+      await addRowToDelta(ctx, owner, delta, rowType, row);
+    }
+  }
+
+  await adjustTotals(ctx, owner, delta);
+}
+
+/**
+ * Replace every row of one page (used when a page is re-extracted)
+ */
+export async function replacePageRows(
+  ctx: MutationCtx,
+  owner: RowOwner,
+  pageNumber: number,
+  rows: { ingress: DiffRow[]; egress: DiffRow[] },
+) {
+  await migrateOwnerRows(ctx, owner);
+
+  const delta = emptyDelta();
+  for (const rowType of ['ingress', 'egress'] as const) {
+    const existing = await queryOwnerRows(ctx, rowType, owner, pageNumber);
+    for (const row of existing) {
+      await addRowToDelta(ctx, owner, delta, rowType, toPlainRow(row), -1);
+      await ctx.db.delete(row._id);
+    }
+    for (const [rowIndex, row] of rows[rowType].entries()) {
+      await ctx.db.insert(ROW_TABLES[rowType] as 'ingressRows', storedFields(owner, row, rowIndex));
+      await addRowToDelta(ctx, owner, delta, rowType, row);
+    }
+  }
+  await adjustTotals(ctx, owner, delta);
+}
+
+/**
+ * Delete every row of one page
+ */
+export async function deletePageRows(ctx: MutationCtx, owner: RowOwner, pageNumber: number) {
+  await replacePageRows(ctx, owner, pageNumber, { ingress: [], egress: [] });
+}
+
+/**
+ * Bring one page of rows to `nextRows`, writing only the rows that changed
+ */
+export async function applyPageRows(
+  ctx: MutationCtx,
+  owner: RowOwner,
+  rowType: RowType,
+  pageNumber: number,
+  nextRows: DiffRow[],
+) {
+  await migrateOwnerRows(ctx, owner);
+
+  const existing = await queryOwnerRows(ctx, rowType, owner, pageNumber);
+  const existingPlain = existing.map((row) => ({ ...toPlainRow(row), __stored: row }));
+  const indexed = nextRows.map((row, rowIndex) => ({ ...row, __rowIndex: rowIndex }));
+  const { pairs, added, removed } = pairRows(rowType, existingPlain, indexed);
+
+  const delta = emptyDelta();
+
+  for (const { rowKey, before, after } of pairs) {
+    const { __stored: stored, ...beforeRow } = before;
+    const { __rowIndex: rowIndex, ...afterRow } = after;
+    const unchanged = diffRowPair(rowType, rowKey, beforeRow, afterRow).length === 0;
+    if (unchanged && stored.rowIndex === rowIndex) continue;
+    await ctx.db.replace(stored._id, storedFields(owner, afterRow, rowIndex));
+    await addRowToDelta(ctx, owner, delta, rowType, beforeRow, -1);
+    await addRowToDelta(ctx, owner, delta, rowType, afterRow);
+  }
+
+  for (const { row } of added) {
+    const { __rowIndex: rowIndex, ...afterRow } = row;
+    await ctx.db.insert(ROW_TABLES[rowType] as 'ingressRows', storedFields(owner, afterRow, rowIndex));
+    await addRowToDelta(ctx, owner, delta, rowType, afterRow);
+  }
+
+  for (const { row } of removed) {
+    const { __stored: stored, ...beforeRow } = row;
+    await ctx.db.delete(stored._id);
+    await addRowToDelta(ctx, owner, delta, rowType, beforeRow, -1);
+  }
+
+  await adjustTotals(ctx, owner, delta);
+}
@@ -0,0 +1,84 @@
+import {
+  EGRESS_CAMPAIGN_FIELDS,
+  EGRESS_PROPAGANDA_FIELDS,
+  INGRESS_AMOUNT_FIELDS,
+  checkEgressRow,
+  checkIngressRow,
+} from './shared/validationRules';
+import type { EgressRow, IngressRow } from './shared/rows';
+import type { DiffRow, RowType } from './shared/validationDiff';
+
+/**
+ * Running totals of a set of rows: counts, sums and rule issues, kept by rowStore for every row owner
+ */
+
+export type RowTotals = {
+  ingressCount: number;
+  egressCount: number;
+  ingressTotal: number;
+  egressTotal: number;
+  ingressCategoryTotal: number;
+  egressCategoryTotal: number;
+  ruleIssueCount: number;
+};
+
+export function emptyTotals(): RowTotals {
+  return {
+    ingressCount: 0,
+    egressCount: 0,
+    ingressTotal: 0,
+    egressTotal: 0,
+    ingressCategoryTotal: 0,
+    egressCategoryTotal: 0,
+    ruleIssueCount: 0,
+  };
+}
+
+export function addTotals(a: RowTotals, b: RowTotals, sign: 1 | -1 = 1): RowTotals {
+  return {
+    ingressCount: a.ingressCount + sign * b.ingressCount,
+    egressCount: a.egressCount + sign * b.egressCount,
+    ingressTotal: a.ingressTotal + sign * b.ingressTotal,
+    egressTotal: a.egressTotal + sign * b.egressTotal,
+    ingressCategoryTotal: a.ingressCategoryTotal + sign * b.ingressCategoryTotal,
+    egressCategoryTotal: a.egressCategoryTotal + sign * b.egressCategoryTotal,
+    ruleIssueCount: a.ruleIssueCount + sign * b.ruleIssueCount,
+  };
+}
+
+const sumFields = (row: Record<string, unknown>, fields: readonly string[]) =>
+  fields.reduce((sum, field) => sum + (typeof row[field] === 'number' ? (row[field] as number) : 0), 0);
+
+/**
+ * What a single row adds to its owner's totals
+ */
+export function rowContribution(rowType: RowType, row: DiffRow): RowTotals {
+  const totals = emptyTotals();
+  if (rowType === 'ingress') {
+    const ingress = row as IngressRow;
+    totals.ingressCount = 1;
+    totals.ingressTotal = ingress.total ?? 0;
+    totals.ingressCategoryTotal = sumFields(row, INGRESS_AMOUNT_FIELDS);
+    totals.ruleIssueCount = checkIngressRow(ingress).length > 0 ? 1 : 0;
+  } else {
+    const egress = row as EgressRow;
+    totals.egressCount = 1;
+    totals.egressTotal = egress.totalDeGastosDePropagandaYCampania ?? 0;
+    const categorySum = sumFields(row, [...EGRESS_CAMPAIGN_FIELDS, ...EGRESS_PROPAGANDA_FIELDS]);
+    // Rows with only subtotals filled in still count towards the category total
+    totals.egressCategoryTotal =
+      categorySum !== 0 ? categorySum : (egress.totalGastosCampania ?? 0) + (egress.totalGastosPropaganda ?? 0);
+    totals.ruleIssueCount = checkEgressRow(egress).length > 0 ? 1 : 0;
+  }
+  return totals;
+}
+
+/**
+ * Totals for a full set of rows (used when building an owner from scratch)
+ */
+export function totalsForRows(rows: { ingress: DiffRow[]; egress: DiffRow[] }): RowTotals {
+  let totals = emptyTotals();
+  for (const row of rows.ingress) totals = addTotals(totals, rowContribution('ingress', row));
+  for (const row of rows.egress) totals = addTotals(totals, rowContribution('egress', row));
+  return totals;
+}
@@ -0,0 +1,13 @@
+/**
+ * Review states of a document page. Pages without a review record are unreviewed; a page counts
+ * towards the document's completion once it is validated.
+ */
+export const PAGE_REVIEW_STATES = [
+  'unreviewed',
+  'in_progress',
+  'validated',
+  'needs_second_review',
+  'disputed',
+] as const;
+
+export type PageReviewState = (typeof PAGE_REVIEW_STATES)[number];
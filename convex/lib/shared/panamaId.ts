@@ -0,0 +1,69 @@
+/**
+ * Parsing of Panamanian cédulas and RUCs as they are written on the affidavit rows.
+ *
+ * A cédula is `<prefix>-<tomo>-<asiento>`. The prefix is a province number (1–13), optionally followed
+ * by AV (issued under the old system) or PI (indigenous population), or one of PE (born abroad),
+ * E (foreigner) and N (naturalized). People use their cédula as RUC; companies have a
+ * `<folio>-<rollo>-<asiento>` RUC. Either may end with the DV check digits, e.g. `155612345-2-2015 DV 45`.
+ */
+
+export type PanamaId = {
+  kind: 'cedula' | 'ruc';
+  // Dash-separated, without leading zeros or DV: the identity key of the registries
+  canonical: string;
+  dv: string | null;
+};
+
+const MAX_PROVINCE = 13;
+
+const DV_PATTERN = /\s*D\.?\s*V\.?\s*[:#-]?\s*(\d{1,2})\s*$/;
+const CEDULA_PATTERN = /^(?:(\d{1,2})-?(AV|PI)?|(PE|E|N))-(\d{1,4})-(\d{1,6})$/;
+const RUC_PATTERN = /^(\d{1,12})-(\d{1,4})-(\d{1,7})$/;
+
+const withoutLeadingZeros = (part: string) => String(Number(part));
+
+/**
+ * Parse a cédula or RUC; null when the value does not look like either
+ */
+export function parsePanamaId(raw: string | null | undefined): PanamaId | null {
+  if (raw == null) return null;
+
+  let value = raw
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .trim();
+  const dvMatch = DV_PATTERN.exec(value);
+  const dv = dvMatch ? withoutLeadingZeros(dvMatch[1]) : null;
+  if (dvMatch) value = value.slice(0, dvMatch.index);
+
+  // Dots, spaces and slashes are used as separators as often as dashes
+  value = value.replace(/[\s./_\u2013\u2014-]+/g, '-').replace(/^-|-$/g, '');
+
+  const cedula = CEDULA_PATTERN.exec(value);
+  if (cedula) {
+    const [, province, suffix, letters, tomo, asiento] = cedula;
+    const provinceNumber = Number(province);
+    if (letters || (provinceNumber >= 1 && provinceNumber <= MAX_PROVINCE)) {
+      const prefix = letters ?? (suffix ? `${provinceNumber}-${suffix}` : String(provinceNumber));
+      return {
+        kind: 'cedula',
+        canonical: `${prefix}-${withoutLeadingZeros(tomo)}-${withoutLeadingZeros(asiento)}`,
+        dv,
+      };
+    }
+  }
+
+  const ruc = RUC_PATTERN.exec(value);
+  if (ruc) {
+    return { kind: 'ruc', canonical: ruc.slice(1).map(withoutLeadingZeros).join('-'), dv };
+  }
+  return null;
+}
+
+/**
+ * A parsed id the way it is shown on the registry pages
+ */
+export function formatPanamaId(id: Pick<PanamaId, 'canonical' | 'dv'>): string {
+  return id.dv ? `${id.canonical} DV ${id.dv}` : id.canonical;
+}
@@ -0,0 +1,11 @@
+/**
+ * User roles, least privileged first: viewers read validated data and exports, reviewers also
+ * upload, validate and curate the registries, admins also run bulk operations and manage users.
+ */
+export const ROLES = ['viewer', 'reviewer', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
@@ -0,0 +1,70 @@
+/**
+ * Pure modules shared by the Convex functions and the frontend (imported there as `@shared/*`).
+ * Nothing in lib/shared may import Convex server code or anything under src/.
+ *
+ * This one holds the row shapes of the affidavit tables and the field that identifies a row.
+ */
+
+export type IngressRow = {
+  pageNumber: number;
+  fecha?: string | null;
+  reciboNumero?: string | null;
+  contribuyenteNombre?: string | null;
+  representanteLegal?: string | null;
+  cedulaRuc?: string | null;
+  direccion?: string | null;
+  telefono?: string | null;
+  correoElectronico?: string | null;
+  donacionesPrivadasEfectivo?: number | null;
+  donacionesPrivadasChequeAch?: number | null;
+  donacionesPrivadasEspecie?: number | null;
+  recursosPropiosEfectivoCheque?: number | null;
+  recursosPropiosEspecie?: number | null;
+  total?: number | null;
+  // AI-detected unreadable fields (from extractions)
+  unreadableFields?: string[];
+  // Fields where consensus extraction variants disagreed (from extractions)
+  disagreementFields?: string[];
+  // Human-marked unreadable fields (for validations)
+  humanUnreadableFields?: string[];
+  // Internal UI-only fields (must be stripped before saving)
+  __rowKey?: string;
+  __stableRowKey?: string;
+  __sourceModel?: string;
+};
+
+export type EgressRow = {
+  pageNumber: number;
+  fecha?: string | null;
+  numeroFacturaRecibo?: string | null;
+  cedulaRuc?: string | null;
+  proveedorNombre?: string | null;
+  detalleGasto?: string | null;
+  pagoTipo?: 'Efectivo' | 'Especie' | 'Cheque' | null;
+  movilizacion?: number | null;
+  combustible?: number | null;
+  hospedaje?: number | null;
+  activistas?: number | null;
+  caravanaConcentraciones?: number | null;
+  comidaBrindis?: number | null;
+  alquilerLocalServiciosBasicos?: number | null;
+  cargosBancarios?: number | null;
+  totalGastosCampania?: number | null;
+  personalizacionArticulosPromocionales?: number | null;
+  propagandaElectoral?: number | null;
+  totalGastosPropaganda?: number | null;
+  totalDeGastosDePropagandaYCampania?: number | null;
+  // AI-detected unreadable fields (from extractions)
+  unreadableFields?: string[];
+  // Fields where consensus extraction variants disagreed (from extractions)
+  disagreementFields?: string[];
+  // Human-marked unreadable fields (for validations)
+  humanUnreadableFields?: string[];
+  // Internal UI-only fields (must be stripped before saving)
+  __rowKey?: string;
+  __stableRowKey?: string;
+  __sourceModel?: string;
+};
+
+export const INGRESS_KEY_FIELD = 'reciboNumero' as const;
+export const EGRESS_KEY_FIELD = 'numeroFacturaRecibo' as const;
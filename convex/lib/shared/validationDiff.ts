@@ -0,0 +1,142 @@
+import { rowAlignmentKeys } from './rowKeys';
+import { EGRESS_KEY_FIELD, INGRESS_KEY_FIELD } from './rows';
+
+/**
+ * Cell-level diff between two versions of a document's rows, used for the validation audit log.
+ *
+ * Rows are matched with `rowAlignmentKeys`; rows left unmatched on the same page are paired in
+ * order (so correcting a receipt number shows up as an edit, not a delete plus an add). Anything
+ * still unmatched is reported as an added or removed row, one entry per non-empty cell.
+ */
+
+export type RowType = 'ingress' | 'egress';
+
+export type EditValue = string | number | boolean | string[] | null;
+
+export type CellChange = {
+  rowType: RowType;
+  pageNumber: number;
+  rowKey: string;
+  change: 'added' | 'removed' | 'updated';
+  field: string;
+  oldValue: EditValue;
+  newValue: EditValue;
+};
+
+export type DiffRow = Record<string, unknown> & { pageNumber: number };
+
+type AlignedRow = Parameters<typeof rowAlignmentKeys>[0][number];
+
+// Extraction-only and positional fields that are not edited as cells
+const IGNORED_FIELDS = new Set(['pageNumber', 'unreadableFields', 'disagreementFields']);
+
+function toEditValue(value: unknown): EditValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) {
+    return value.length === 0 ? null : value.map(String).sort();
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toEditValue(a)) === JSON.stringify(toEditValue(b));
+}
+
+function cellFields(rows: DiffRow[]): string[] {
+  const fields = new Set<string>();
+  for (const row of rows) {
+    for (const field of Object.keys(row)) {
+      if (!IGNORED_FIELDS.has(field)) fields.add(field);
+    }
+  }
+  return Array.from(fields);
+}
+
+function rowCells(rowType: RowType, row: DiffRow, rowKey: string, change: 'added' | 'removed'): CellChange[] {
+  return cellFields([row])
+    .filter((field) => toEditValue(row[field]) !== null)
+    .map((field) => ({
+      rowType,
+      pageNumber: row.pageNumber,
+      rowKey,
+      change,
+      field,
+      oldValue: change === 'removed' ? toEditValue(row[field]) : null,
+      newValue: change === 'added' ? toEditValue(row[field]) : null,
+    }));
+}
+
+/**
+ * Match previous rows to next rows: by alignment key first, then leftovers on the same page in order
+ */
+export function pairRows<T extends DiffRow, U extends DiffRow>(
+  rowType: RowType,
+  previous: T[],
+  next: U[],
+): {
+  pairs: Array<{ rowKey: string; before: T; after: U }>;
+  added: Array<{ rowKey: string; row: U }>;
+  removed: Array<{ rowKey: string; row: T }>;
+} {
+  const keyField = rowType === 'ingress' ? INGRESS_KEY_FIELD : EGRESS_KEY_FIELD;
+  const previousKeys = rowAlignmentKeys(previous as AlignedRow[], keyField);
+  const nextKeys = rowAlignmentKeys(next as AlignedRow[], keyField);
+  const previousByKey = new Map(previousKeys.map((key, index) => [key, previous[index]]));
+  const nextKeySet = new Set(nextKeys);
+
+  const pairs: Array<{ rowKey: string; before: T; after: U }> = [];
+  const unmatchedNext: Array<{ rowKey: string; row: U }> = [];
+
+  nextKeys.forEach((key, index) => {
+    const before = previousByKey.get(key);
+    if (before) pairs.push({ rowKey: key, before, after: next[index] });
+    else unmatchedNext.push({ rowKey: key, row: next[index] });
+  });
+
+  const removed = previousKeys
+    .map((key, index) => ({ rowKey: key, row: previous[index] }))
+    .filter(({ rowKey }) => !nextKeySet.has(rowKey));
+
+  const added: Array<{ rowKey: string; row: U }> = [];
+  for (const candidate of unmatchedNext) {
+    const removedIndex = removed.findIndex(({ row }) => row.pageNumber === candidate.row.pageNumber);
+    if (removedIndex === -1) {
+      added.push(candidate);
+      continue;
+    }
+    const [match] = removed.splice(removedIndex, 1);
+    pairs.push({ rowKey: candidate.rowKey, before: match.row, after: candidate.row });
+  }
+
+  return { pairs, added, removed };
+}
+
+/**
+ * Cell changes between two rows matched by pairRows
+ */
+export function diffRowPair(rowType: RowType, rowKey: string, before: DiffRow, after: DiffRow): CellChange[] {
+  return cellFields([before, after])
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({
+      rowType,
+      pageNumber: after.pageNumber,
+      rowKey,
+      change: 'updated' as const,
+      field,
+      oldValue: toEditValue(before[field]),
+      newValue: toEditValue(after[field]),
+    }));
+}
+
+/**
+ * All cell changes between the previous and next rows of one type
+ */
+export function diffRows(rowType: RowType, previous: DiffRow[], next: DiffRow[]): CellChange[] {
+  const { pairs, added, removed } = pairRows(rowType, previous, next);
+  return [
+    ...added.flatMap(({ rowKey, row }) => rowCells(rowType, row, rowKey, 'added')),
+    ...removed.flatMap(({ rowKey, row }) => rowCells(rowType, row, rowKey, 'removed')),
+    ...pairs.flatMap(({ rowKey, before, after }) => diffRowPair(rowType, rowKey, before, after)),
+  ];
+}
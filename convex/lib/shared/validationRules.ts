@@ -0,0 +1,162 @@
+import type { EgressRow, IngressRow } from './rows';
+
+/**
+ * Deterministic arithmetic checks for extracted and validated rows.
+ *
+ * Shared by the validation tables and by the backend (per-document counts), so it only
+ * depends on plain row objects.
+ */
+
+export type RuleId =
+  | 'ingress-total'
+  | 'egress-campaign-total'
+  | 'egress-propaganda-total'
+  | 'egress-grand-total'
+  | 'pago-tipo'
+  | 'negative-amount';
+
+export type RuleIssue = {
+  rule: RuleId;
+  // Fields involved in the failed check
+  fields: string[];
+  message: string;
+};
+
+// Sums may differ by rounding on the printed form
+const SUM_TOLERANCE = 0.01;
+
+export const INGRESS_AMOUNT_FIELDS = [
+  'donacionesPrivadasEfectivo',
+  'donacionesPrivadasChequeAch',
+  'donacionesPrivadasEspecie',
+  'recursosPropiosEfectivoCheque',
+  'recursosPropiosEspecie',
+] as const;
+
+export const EGRESS_CAMPAIGN_FIELDS = [
+  'movilizacion',
+  'combustible',
+  'hospedaje',
+  'activistas',
+  'caravanaConcentraciones',
+  'comidaBrindis',
+  'alquilerLocalServiciosBasicos',
+  'cargosBancarios',
+] as const;
+
+export const EGRESS_PROPAGANDA_FIELDS = ['personalizacionArticulosPromocionales', 'propagandaElectoral'] as const;
+
+const INGRESS_NUMBER_FIELDS = [...INGRESS_AMOUNT_FIELDS, 'total'] as const;
+
+const EGRESS_NUMBER_FIELDS = [
+  ...EGRESS_CAMPAIGN_FIELDS,
+  'totalGastosCampania',
+  ...EGRESS_PROPAGANDA_FIELDS,
+  'totalGastosPropaganda',
+  'totalDeGastosDePropagandaYCampania',
+] as const;
+
+const formatAmount = (value: number) => value.toLocaleString('es-PA', { minimumFractionDigits: 2 });
+
+function amountOf(row: Record<string, unknown>, field: string): number | null {
+  const value = row[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Check that `totalField` equals the sum of `parts`. Rows where every cell is empty are skipped.
+ */
+function checkSum(
+  row: Record<string, unknown>,
+  rule: RuleId,
+  parts: readonly string[],
+  totalField: string,
+  label: string,
+): RuleIssue | null {
+  const values = parts.map((field) => amountOf(row, field));
+  const total = amountOf(row, totalField);
+  if (total === null && values.every((value) => value === null)) return null;
+
+  const sum = values.reduce<number>((acc, value) => acc + (value ?? 0), 0);
+  if (total !== null && Math.abs(sum - total) <= SUM_TOLERANCE) return null;
+
+  return {
+    rule,
+    fields: [...parts.filter((_, index) => values[index] !== null), totalField],
+    message:
+      total === null
+        ? `${label} vacío, la suma es ${formatAmount(sum)}`
+        : `${label} es ${formatAmount(total)} pero la suma es ${formatAmount(sum)}`,
+  };
+}
+
+function checkNegatives(row: Record<string, unknown>, fields: readonly string[]): RuleIssue | null {
+  const negativeFields = fields.filter((field) => (amountOf(row, field) ?? 0) < 0);
+  if (negativeFields.length === 0) return null;
+  return {
+    rule: 'negative-amount',
+    fields: negativeFields,
+    message: `Montos negativos en ${negativeFields.length} campo(s)`,
+  };
+}
+
+function checkPagoTipo(row: EgressRow): RuleIssue | null {
+  const hasAmounts = EGRESS_NUMBER_FIELDS.some((field) => (amountOf(row, field) ?? 0) !== 0);
+
+  if (row.pagoTipo == null) {
+    return hasAmounts ? { rule: 'pago-tipo', fields: ['pagoTipo'], message: 'Falta el tipo de pago' } : null;
+  }
+  if (!hasAmounts) {
+    return { rule: 'pago-tipo', fields: ['pagoTipo'], message: `Pago en ${row.pagoTipo} sin montos` };
+  }
+  // In-kind contributions never go through a bank
+  if (row.pagoTipo === 'Especie' && (row.cargosBancarios ?? 0) > 0) {
+    return {
+      rule: 'pago-tipo',
+      fields: ['pagoTipo', 'cargosBancarios'],
+      message: 'Pago en Especie con cargos bancarios',
+    };
+  }
+  return null;
+}
+
+/**
+ * Run every ingress rule on a row
+ */
+export function checkIngressRow(row: IngressRow): RuleIssue[] {
+  const record = row as Record<string, unknown>;
+  return [
+    checkSum(record, 'ingress-total', INGRESS_AMOUNT_FIELDS, 'total', 'Total'),
+    checkNegatives(record, INGRESS_NUMBER_FIELDS),
+  ].filter((issue): issue is RuleIssue => issue !== null);
+}
+
+/**
+ * Run every egress rule on a row
+ */
+export function checkEgressRow(row: EgressRow): RuleIssue[] {
+  const record = row as Record<string, unknown>;
+  return [
+    checkSum(record, 'egress-campaign-total', EGRESS_CAMPAIGN_FIELDS, 'totalGastosCampania', 'Total campaña'),
+    checkSum(record, 'egress-propaganda-total', EGRESS_PROPAGANDA_FIELDS, 'totalGastosPropaganda', 'Total propaganda'),
+    checkSum(
+      record,
+      'egress-grand-total',
+      ['totalGastosCampania', 'totalGastosPropaganda'],
+      'totalDeGastosDePropagandaYCampania',
+      'Total general',
+    ),
+    checkPagoTipo(row),
+    checkNegatives(record, EGRESS_NUMBER_FIELDS),
+  ].filter((issue): issue is RuleIssue => issue !== null);
+}
+
+/**
+ * Number of rows in a document that fail at least one rule
+ */
+export function countRowsWithIssues(ingress: IngressRow[], egress: EgressRow[]): number {
+  return (
+    ingress.filter((row) => checkIngressRow(row).length > 0).length +
+    egress.filter((row) => checkEgressRow(row).length > 0).length
+  );
+}
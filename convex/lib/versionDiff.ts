@@ -0,0 +1,109 @@
+import { EGRESS_KEY_FIELD, INGRESS_KEY_FIELD } from './shared/rows';
+import { diffRowPair, type DiffRow, type EditValue, type RowType } from './shared/validationDiff';
+
+/**
+ * Row diff between two filings (versions) of the same affidavit.
+ *
+ * Amended filings are often re-paginated, so unlike validationDiff the alignment ignores page
+ * numbers: rows match by receipt number first (with an occurrence suffix for repeated numbers),
+ * then rows left over match when every cell is identical (ignoring the page). Anything still unmatched was added or
+ * removed by the newer filing.
+ */
+
+export type FieldChange = {
+  field: string;
+  oldValue: EditValue;
+  newValue: EditValue;
+};
+
+export type VersionRowDiff<T extends DiffRow> = {
+  added: T[];
+  removed: T[];
+  changed: Array<{ before: T; after: T; changes: FieldChange[] }>;
+  unchangedCount: number;
+};
+
+function receiptKeys(rows: DiffRow[], keyField: string): Array<string | null> {
+  const occurrences = new Map<string, number>();
+  return rows.map((row) => {
+    const value = row[keyField];
+    const receipt = value == null ? '' : String(value).trim();
+    if (receipt === '') return null;
+    const occurrence = occurrences.get(receipt) ?? 0;
+    occurrences.set(receipt, occurrence + 1);
+    return `${receipt}::${occurrence}`;
+  });
+}
+
+/**
+ * Rows added, removed and changed from the base version to the compared version
+ */
+export function diffVersionRows<T extends DiffRow>(rowType: RowType, base: T[], compare: T[]): VersionRowDiff<T> {
+  const keyField = rowType === 'ingress' ? INGRESS_KEY_FIELD : EGRESS_KEY_FIELD;
+  const baseKeys = receiptKeys(base, keyField);
+  const compareKeys = receiptKeys(compare, keyField);
+
+  const baseByKey = new Map<string, T>();
+  baseKeys.forEach((key, index) => {
+    if (key !== null) baseByKey.set(key, base[index]);
+  });
+
+  const pairs: Array<{ before: T; after: T }> = [];
+  const matchedBase = new Set<T>();
+  const unmatchedCompare: T[] = [];
+  compareKeys.forEach((key, index) => {
+    const before = key !== null ? baseByKey.get(key) : undefined;
+    if (before) {
+      pairs.push({ before, after: compare[index] });
+      matchedBase.add(before);
+    } else {
+      unmatchedCompare.push(compare[index]);
+    }
+  });
+
+  // Leftovers (unkeyed rows, or rows whose receipt number changed) match only on identical cells
+  const leftoverBase = base.filter((row) => !matchedBase.has(row));
+  const added: T[] = [];
+  for (const row of unmatchedCompare) {
+    const index = leftoverBase.findIndex((before) => diffRowPair(rowType, '', before, row).length === 0);
+    if (index === -1) {
+      added.push(row);
+      continue;
+    }
+    const [before] = leftoverBase.splice(index, 1);
+    pairs.push({ before, after: row });
+  }
+
+  const changed: VersionRowDiff<T>['changed'] = [];
+  for (const { before, after } of pairs) {
+    const changes = diffRowPair(rowType, '', before, after).map(({ field, oldValue, newValue }) => ({
+      field,
+      oldValue,
+      newValue,
+    }));
+    if (changes.length > 0) changed.push({ before, after, changes });
+  }
+
+  return {
+    added,
+    removed: leftoverBase,
+    changed,
+    unchangedCount: pairs.length - changed.length,
+  };
+}
+
+/**
+ * The same diff with every row converted, e.g. to the short summaries the versions page lists
+ */
+export function mapVersionRowDiff<T extends DiffRow, S>(diff: VersionRowDiff<T>, mapRow: (row: T) => S) {
+  return {
+    added: diff.added.map(mapRow),
+    removed: diff.removed.map(mapRow),
+    changed: diff.changed.map(({ before, after, changes }) => ({
+      before: mapRow(before),
+      after: mapRow(after),
+      changes,
+    })),
+    unchangedCount: diff.unchangedCount,
+  };
+}
@@ -1,6 +1,54 @@
 import { customQuery, customMutation, customAction } from 'convex-helpers/server/customFunctions';
-import { query, mutation, action } from '../_generated/server';
+import { query, mutation, action, type ActionCtx, type QueryCtx } from '../_generated/server';
+import { internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
 import { getAuthUserId } from '@convex-dev/auth/server';
+import { userRole } from './roles';
+import { hasRole, type Role } from './shared/roles';
+
+/**
+ * The logged-in user, unless an admin deactivated the account
+ */
+async function requireActiveUser(ctx: QueryCtx) {
+  const user = await ctx.auth.getUserIdentity();
+  const userId = await getAuthUserId(ctx);
+  if (!user || !userId) {
+    throw new Error('Unauthorized');
+  }
+  const account = await ctx.db.get(userId);
+  if (account?.deactivatedAt !== undefined) {
+    throw new Error('Account deactivated');
+  }
+  return { user, userId, account };
+}
+
+/**
+ * The logged-in user, if their role is at least `required`
+ */
+async function requireRole(ctx: QueryCtx, required: Role) {
+  const { user, userId, account } = await requireActiveUser(ctx);
+  const role = userRole(account);
+  if (!hasRole(role, required)) {
+    throw new Error('Forbidden');
+  }
+  return { user, userId, role };
+}
+
+// Annotated because the lookup goes through `internal`, whose type includes every action using these wrappers
+async function requireActiveActionUser(ctx: ActionCtx, required: Role): Promise<{ userId: Id<'users'>; role: Role }> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error('Unauthorized');
+  }
+  const access: { role: Role; isActive: boolean } = await ctx.runQuery(internal.users.getUserAccess, { userId });
+  if (!access.isActive) {
+    throw new Error('Account deactivated');
+  }
+  if (!hasRole(access.role, required)) {
+    throw new Error('Forbidden');
+  }
+  return { userId, role: access.role };
+}
 
 /**
  * Authenticated query - ensures user is logged in before executing
@@ -8,11 +56,8 @@ import { getAuthUserId } from '@convex-dev/auth/server';
 export const authQuery = customQuery(query, {
   args: {},
   input: async (ctx) => {
-    const user = await ctx.auth.getUserIdentity();
-    if (!user) {
-      throw new Error('Unauthorized');
-    }
-    return { ctx: { user }, args: {} };
+    const { user, userId } = await requireActiveUser(ctx);
+    return { ctx: { user, userId }, args: {} };
   },
 });
 
@@ -22,11 +67,8 @@ export const authQuery = customQuery(query, {
 export const authMutation = customMutation(mutation, {
   args: {},
   input: async (ctx) => {
-    const user = await ctx.auth.getUserIdentity();
-    if (!user) {
-      throw new Error('Unauthorized');
-    }
-    return { ctx: { user }, args: {} };
+    const { user, userId } = await requireActiveUser(ctx);
+    return { ctx: { user, userId }, args: {} };
   },
 });
 
@@ -35,11 +77,58 @@ export const authMutation = customMutation(mutation, {
  */
 export const authAction = customAction(action, {
   args: {},
-  input: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error('Unauthorized');
-    }
+  input: async (ctx): Promise<{ ctx: { userId: Id<'users'> }; args: Record<string, never> }> => {
+    const { userId } = await requireActiveActionUser(ctx, 'viewer');
     return { ctx: { userId }, args: {} };
   },
 });
+
+/**
+ * Reviewer mutation - uploads, validation and registry curation; viewers cannot run it
+ */
+export const reviewerMutation = customMutation(mutation, {
+  args: {},
+  input: async (ctx) => {
+    return { ctx: await requireRole(ctx, 'reviewer'), args: {} };
+  },
+});
+
+/**
+ * Reviewer action - uploads that need to read the stored file; viewers cannot run it
+ */
+export const reviewerAction = customAction(action, {
+  args: {},
+  input: async (ctx): Promise<{ ctx: { userId: Id<'users'>; role: Role }; args: Record<string, never> }> => {
+    return { ctx: await requireActiveActionUser(ctx, 'reviewer'), args: {} };
+  },
+});
+
+/**
+ * Admin query - ensures the user is an admin before executing
+ */
+export const adminQuery = customQuery(query, {
+  args: {},
+  input: async (ctx) => {
+    return { ctx: await requireRole(ctx, 'admin'), args: {} };
+  },
+});
+
+/**
+ * Admin mutation - bulk operations and user management
+ */
+export const adminMutation = customMutation(mutation, {
+  args: {},
+  input: async (ctx) => {
+    return { ctx: await requireRole(ctx, 'admin'), args: {} };
+  },
+});
+
+/**
+ * Admin action - ensures the user is an admin before executing
+ */
+export const adminAction = customAction(action, {
+  args: {},
+  input: async (ctx): Promise<{ ctx: { userId: Id<'users'>; role: Role }; args: Record<string, never> }> => {
+    return { ctx: await requireActiveActionUser(ctx, 'admin'), args: {} };
+  },
+});
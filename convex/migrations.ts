@@ -0,0 +1,196 @@
+import { v } from 'convex/values';
+import { internal } from './_generated/api';
+import { internalAction, internalMutation, internalQuery } from './_generated/server';
+import { computeVerification, migrateOwnerRows, ownerOf } from './lib/rowStore';
+import { refreshDocumentAggregate, syncDocumentAggregateVerification } from './lib/documentAggregates';
+import { scheduleDocumentEntitiesRefresh } from './lib/entityRegistry';
+import { storedFileSha256 } from './lib/contentHash';
+
+/**
+ * Move the legacy `ingress`/`egress` arrays of extractions and validated data into the row tables.
+ *
+ * Processes one record per run and schedules itself for the next, starting with extractions and
+ * then validatedData. Safe to re-run: migrated records are skipped.
+ *
+ *   npx convex run migrations:migrateRowArrays
+ */
+export const migrateRowArrays = internalMutation({
+  args: {
+    table: v.optional(v.union(v.literal('extractions'), v.literal('validatedData'))),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const table = args.table ?? 'extractions';
+    const page =
+      table === 'extractions'
+        ? await ctx.db.query('extractions').paginate({ cursor: args.cursor ?? null, numItems: 1 })
+        : await ctx.db.query('validatedData').paginate({ cursor: args.cursor ?? null, numItems: 1 });
+
+    for (const record of page.page) {
+      if (await migrateOwnerRows(ctx, ownerOf(record))) {
+        console.log(`Migrated rows of ${table} ${record._id}`);
+        await refreshDocumentAggregate(ctx, record.documentId);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.migrateRowArrays, { table, cursor: page.continueCursor });
+    } else if (table === 'extractions') {
+      await ctx.scheduler.runAfter(0, internal.migrations.migrateRowArrays, { table: 'validatedData' });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Build the documentAggregates record of every document (one document per run, like migrateRowArrays).
+ * Also rebuilds each document's links in the donor and supplier registries.
+ *
+ *   npx convex run migrations:backfillDocumentAggregates
+ */
+export const backfillDocumentAggregates = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query('documents').paginate({ cursor: args.cursor ?? null, numItems: 1 });
+
+    for (const doc of page.page) {
+      await refreshDocumentAggregate(ctx, doc._id);
+      await scheduleDocumentEntitiesRefresh(ctx, doc._id);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillDocumentAggregates, { cursor: page.continueCursor });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Recompute the four-eyes figures kept on every validated data record and its document's aggregate
+ * (one record per run, like migrateRowArrays). Needed after FOUR_EYES_MIN_AMOUNT changes.
+ *
+ *   npx convex run migrations:recomputeVerification
+ */
+export const recomputeVerification = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query('validatedData').paginate({ cursor: args.cursor ?? null, numItems: 1 });
+
+    for (const validatedData of page.page) {
+      await ctx.db.patch(validatedData._id, {
+        verification: await computeVerification(ctx, validatedData.documentId),
+      });
+      await syncDocumentAggregateVerification(ctx, validatedData.documentId);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.recomputeVerification, { cursor: page.continueCursor });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Store the SHA-256 of every document uploaded before uploads were deduplicated
+ * (one document per run, like migrateRowArrays).
+ *
+ *   npx convex run migrations:backfillContentHashes
+ */
+export const backfillContentHashes = internalAction({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.runQuery(internal.migrations.getDocumentFilePage, { cursor: args.cursor ?? null });
+
+    for (const doc of page.page) {
+      if (doc.contentHash) continue;
+      const contentHash = await storedFileSha256(ctx, doc.fileId);
+      if (!contentHash) {
+        console.warn(`File of document ${doc._id} is missing`);
+        continue;
+      }
+      await ctx.runMutation(internal.migrations.setContentHash, { documentId: doc._id, contentHash });
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillContentHashes, { cursor: page.continueCursor });
+    }
+
+    return null;
+  },
+});
+
+export const getDocumentFilePage = internalQuery({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  returns: v.object({
+    page: v.array(v.object({ _id: v.id('documents'), fileId: v.id('_storage'), contentHash: v.optional(v.string()) })),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const result = await ctx.db.query('documents').paginate({ cursor: args.cursor, numItems: 1 });
+    return {
+      page: result.page.map(({ _id, fileId, contentHash }) => ({ _id, fileId, contentHash })),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+    };
+  },
+});
+
+export const setContentHash = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+    contentHash: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.documentId, { contentHash: args.contentHash });
+    return null;
+  },
+});
+
+// Users are small records, so many fit in one run
+const ROLE_BATCH_SIZE = 100;
+
+/**
+ * Give every user created before roles existed the reviewer role, so the accounts that validated
+ * documents until now keep doing so instead of dropping to viewers. Run it once when deploying
+ * roles: accounts signed up afterwards have no role on purpose and stay viewers.
+ *
+ *   npx convex run migrations:assignMissingRoles
+ */
+export const assignMissingRoles = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query('users').paginate({ cursor: args.cursor ?? null, numItems: ROLE_BATCH_SIZE });
+
+    for (const user of page.page) {
+      if (user.role === undefined) {
+        await ctx.db.patch(user._id, { role: 'reviewer' });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.assignMissingRoles, { cursor: page.continueCursor });
+    }
+
+    return null;
+  },
+});
@@ -0,0 +1,143 @@
+import { v } from 'convex/values';
+import { internal } from './_generated/api';
+import type { Id } from './_generated/dataModel';
+import { adminQuery, authQuery, reviewerMutation } from './lib/withAuth';
+
+const pageExtractionValidator = v.object({
+  _id: v.id('pageExtractions'),
+  _creationTime: v.number(),
+  documentId: v.id('documents'),
+  pageNumber: v.number(),
+  status: v.union(v.literal('pending'), v.literal('processing'), v.literal('completed'), v.literal('failed')),
+  attempts: v.number(),
+  errorMessage: v.optional(v.string()),
+  latencyMs: v.optional(v.number()),
+  promptTokens: v.optional(v.union(v.number(), v.null())),
+  completionTokens: v.optional(v.union(v.number(), v.null())),
+  totalTokens: v.optional(v.union(v.number(), v.null())),
+  provider: v.optional(v.string()),
+  ingressCount: v.optional(v.number()),
+  egressCount: v.optional(v.number()),
+  updatedAt: v.number(),
+});
+
+/**
+ * Get the per-page extraction job records for a document
+ */
+export const getPageExtractions = authQuery({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.array(pageExtractionValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('pageExtractions')
+      .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId))
+      .collect();
+  },
+});
+
+// Failed page records read for the admin panel; the rest show up as these get retried
+const MAX_FAILED_PAGES = 500;
+
+/**
+ * List documents that have failed pages (for the admin panel). `truncated` is set when there are
+ * more failed pages than were read.
+ */
+export const listDocumentsWithFailedPages = adminQuery({
+  args: {},
+  returns: v.object({
+    truncated: v.boolean(),
+    documents: v.array(
+      v.object({
+        documentId: v.id('documents'),
+        name: v.string(),
+        failedPages: v.array(
+          v.object({
+            pageNumber: v.number(),
+            attempts: v.number(),
+            errorMessage: v.optional(v.string()),
+          }),
+        ),
+      }),
+    ),
+  }),
+  handler: async (ctx) => {
+    const failed = await ctx.db
+      .query('pageExtractions')
+      .withIndex('by_status', (q) => q.eq('status', 'failed'))
+      .take(MAX_FAILED_PAGES + 1);
+    const truncated = failed.length > MAX_FAILED_PAGES;
+    if (truncated) failed.pop();
+
+    const byDocument = new Map<Id<'documents'>, typeof failed>();
+    for (const record of failed) {
+      const records = byDocument.get(record.documentId) ?? [];
+      records.push(record);
+      byDocument.set(record.documentId, records);
+    }
+
+    const results = await Promise.all(
+      Array.from(byDocument.entries()).map(async ([documentId, records]) => {
+        const doc = await ctx.db.get(documentId);
+        if (!doc) return null;
+        return {
+          documentId,
+          name: doc.name,
+          failedPages: records
+            .sort((a, b) => a.pageNumber - b.pageNumber)
+            .map((record) => ({
+              pageNumber: record.pageNumber,
+              attempts: record.attempts,
+              errorMessage: record.errorMessage,
+            })),
+        };
+      }),
+    );
+
+    return {
+      truncated,
+      documents: results
+        .filter((r): r is NonNullable<typeof r> => r !== null)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+/**
+ * Re-extract only the pages whose last extraction failed
+ */
+export const retryFailedPages = reviewerMutation({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.object({ queued: v.number() }),
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+
+    const records = await ctx.db
+      .query('pageExtractions')
+      .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId))
+      .collect();
+    const failedPages = records.filter((record) => record.status === 'failed').map((record) => record.pageNumber);
+
+    const pageReExtractionStatus = { ...(doc.pageReExtractionStatus ?? {}) };
+    for (const pageNumber of failedPages) {
+      pageReExtractionStatus[String(pageNumber)] = 'pending' as const;
+    }
+    await ctx.db.patch(args.documentId, { pageReExtractionStatus });
+
+    for (const pageNumber of failedPages) {
+      await ctx.scheduler.runAfter(0, internal.extraction.reExtractPage, {
+        documentId: args.documentId,
+        pageNumber,
+        requestedBy: ctx.userId,
+      });
+    }
+
+    return { queued: failedPages.length };
+  },
+});
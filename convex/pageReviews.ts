@@ -0,0 +1,173 @@
+import { v } from 'convex/values';
+import type { Id } from './_generated/dataModel';
+import type { QueryCtx } from './_generated/server';
+import { authQuery, reviewerMutation } from './lib/withAuth';
+import { userRole } from './lib/roles';
+import { hasRole } from './lib/shared/roles';
+import { pageReviewStateValidator, upsertPageReview } from './lib/pageReviews';
+import { PAGE_REVIEW_STATES } from './lib/shared/pageReviewStates';
+import { syncDocumentAggregateReviewProgress } from './lib/documentAggregates';
+import { loadRowVerifications } from './lib/rowStore';
+
+async function userName(ctx: QueryCtx, userId: Id<'users'>, cache: Map<string, string>) {
+  let name = cache.get(userId);
+  if (name === undefined) {
+    const user = await ctx.db.get(userId);
+    name = user?.name ?? user?.email ?? 'Usuario eliminado';
+    cache.set(userId, name);
+  }
+  return name;
+}
+
+async function requirePage(ctx: QueryCtx, documentId: Id<'documents'>, pageNumber: number) {
+  const doc = await ctx.db.get(documentId);
+  if (!doc) {
+    throw new Error('Document not found');
+  }
+  if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > doc.pageCount) {
+    throw new Error(`Page ${pageNumber} does not exist`);
+  }
+  return doc;
+}
+
+/**
+ * Review state and assignee of every page of a document that has a review record
+ */
+export const getDocumentPageReviews = authQuery({
+  args: {
+    documentId: v.id('documents'),
+  },
+  handler: async (ctx, args) => {
+    const reviews = await ctx.db
+      .query('pageReviews')
+      .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId))
+      .collect();
+
+    const names = new Map<string, string>();
+    return await Promise.all(
+      reviews.map(async (review) => ({
+        pageNumber: review.pageNumber,
+        state: review.state,
+        assigneeId: review.assigneeId ?? null,
+        assigneeName: review.assigneeId ? await userName(ctx, review.assigneeId, names) : null,
+        updatedAt: review.updatedAt,
+        updatedByName: await userName(ctx, review.updatedBy, names),
+      })),
+    );
+  },
+});
+
+/**
+ * Active reviewers and admins, who can be assigned pages
+ */
+export const listAssignableUsers = authQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query('users').collect();
+    return users
+      .filter((user) => user.deactivatedAt === undefined && hasRole(userRole(user), 'reviewer'))
+      .map((user) => ({ _id: user._id, name: user.name ?? user.email ?? user._id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Move a page to another review state
+ */
+export const setPageReviewState = reviewerMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    state: pageReviewStateValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requirePage(ctx, args.documentId, args.pageNumber);
+    if (args.state === 'validated') {
+      // Four-eyes rows count as validated only once a second reviewer signed them
+      const verifications = await loadRowVerifications(ctx, args.documentId, args.pageNumber);
+      const pending = [...(verifications?.ingress ?? []), ...(verifications?.egress ?? [])].filter(
+        (item) => !item.verified,
+      );
+      if (pending.length > 0) {
+        throw new Error(
+          `${pending.length} row(s) on page ${args.pageNumber} still need a second signature; mark the page as needing a second review instead`,
+        );
+      }
+    }
+    await upsertPageReview(ctx, ctx.userId, args.documentId, args.pageNumber, { state: args.state });
+    await syncDocumentAggregateReviewProgress(ctx, args.documentId);
+    return null;
+  },
+});
+
+/**
+ * Assign pages of a document to a reviewer, or unassign them with `assigneeId: null`
+ */
+export const assignPages = reviewerMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageNumbers: v.array(v.number()),
+    assigneeId: v.union(v.id('users'), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (args.assigneeId !== null) {
+      const assignee = await ctx.db.get(args.assigneeId);
+      if (!assignee || assignee.deactivatedAt !== undefined || !hasRole(userRole(assignee), 'reviewer')) {
+        throw new Error('Pages can only be assigned to active reviewers');
+      }
+    }
+    for (const pageNumber of args.pageNumbers) {
+      await requirePage(ctx, args.documentId, pageNumber);
+      await upsertPageReview(ctx, ctx.userId, args.documentId, pageNumber, { assigneeId: args.assigneeId });
+    }
+    return null;
+  },
+});
+
+/**
+ * Pages assigned to the current user that are not validated yet, grouped by document
+ */
+export const listMyQueue = authQuery({
+  args: {},
+  handler: async (ctx) => {
+    const openStates = PAGE_REVIEW_STATES.filter((state) => state !== 'validated');
+    const reviews = (
+      await Promise.all(
+        openStates.map((state) =>
+          ctx.db
+            .query('pageReviews')
+            .withIndex('by_assignee', (q) => q.eq('assigneeId', ctx.userId).eq('state', state))
+            .collect(),
+        ),
+      )
+    ).flat();
+
+    const byDocument = new Map<Id<'documents'>, typeof reviews>();
+    for (const review of reviews) {
+      byDocument.set(review.documentId, [...(byDocument.get(review.documentId) ?? []), review]);
+    }
+
+    const documents = await Promise.all(
+      [...byDocument.entries()].map(async ([documentId, documentReviews]) => {
+        const doc = await ctx.db.get(documentId);
+        // Superseded versions are no longer worked on
+        if (!doc || doc.supersededBy !== undefined) return null;
+        const candidate = doc.candidateId ? await ctx.db.get(doc.candidateId) : null;
+        return {
+          documentId,
+          name: candidate?.candidateName || doc.name,
+          pageCount: doc.pageCount,
+          pages: documentReviews
+            .map((review) => ({ pageNumber: review.pageNumber, state: review.state, updatedAt: review.updatedAt }))
+            .sort((a, b) => a.pageNumber - b.pageNumber),
+        };
+      }),
+    );
+
+    return documents
+      .filter((doc): doc is NonNullable<typeof doc> => doc !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
@@ -0,0 +1,147 @@
+import { v } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import { authQuery } from './lib/withAuth';
+import { loadDocumentRows } from './lib/rowStore';
+import { reconcile, summarizeEgressRow, summarizeIngressRow, summarizePortalRecord } from './lib/portalReconciliation';
+
+const recordTypeValidator = v.union(v.literal('ingress'), v.literal('egress'), v.literal('donation'));
+
+// A portal record normalized by scripts/import-portal-records.ts
+const portalRecordInputValidator = v.object({
+  externalId: v.string(),
+  fecha: v.union(v.string(), v.null()),
+  documentNumber: v.union(v.string(), v.null()),
+  counterpartyName: v.union(v.string(), v.null()),
+  counterpartyIdNumber: v.union(v.string(), v.null()),
+  description: v.union(v.string(), v.null()),
+  amount: v.union(v.number(), v.null()),
+  raw: v.any(),
+});
+
+const pdfRowSummaryValidator = v.object({
+  pageNumber: v.number(),
+  fecha: v.union(v.string(), v.null()),
+  documentNumber: v.union(v.string(), v.null()),
+  counterpartyName: v.union(v.string(), v.null()),
+  amount: v.union(v.number(), v.null()),
+});
+
+const portalRecordSummaryValidator = v.object({
+  _id: v.id('portalRecords'),
+  fecha: v.union(v.string(), v.null()),
+  documentNumber: v.union(v.string(), v.null()),
+  counterpartyName: v.union(v.string(), v.null()),
+  description: v.union(v.string(), v.null()),
+  amount: v.union(v.number(), v.null()),
+});
+
+const reconciliationValidator = v.object({
+  matched: v.array(
+    v.object({
+      pdfRow: pdfRowSummaryValidator,
+      portalRecord: portalRecordSummaryValidator,
+      differences: v.array(
+        v.union(v.literal('fecha'), v.literal('documentNumber'), v.literal('counterpartyName'), v.literal('amount')),
+      ),
+    }),
+  ),
+  pdfOnly: v.array(pdfRowSummaryValidator),
+  portalOnly: v.array(portalRecordSummaryValidator),
+});
+
+/**
+ * Store one batch of portal records for an affidavit. The first batch of each record type
+ * (`reset`) clears what a previous import stored, so re-running the import replaces the records.
+ */
+export const importPortalRecords = internalMutation({
+  args: {
+    affidavitId: v.string(),
+    recordType: recordTypeValidator,
+    reset: v.boolean(),
+    records: v.array(portalRecordInputValidator),
+  },
+  returns: v.object({ candidateFound: v.boolean(), inserted: v.number() }),
+  handler: async (ctx, args) => {
+    const candidate = await ctx.db
+      .query('candidates')
+      .withIndex('by_external_id', (q) => q.eq('externalId', args.affidavitId))
+      .unique();
+    if (!candidate) {
+      return { candidateFound: false, inserted: 0 };
+    }
+
+    if (args.reset) {
+      const existing = await ctx.db
+        .query('portalRecords')
+        .withIndex('by_candidate_and_type', (q) => q.eq('candidateId', candidate._id).eq('recordType', args.recordType))
+        .collect();
+      for (const record of existing) {
+        await ctx.db.delete(record._id);
+      }
+    }
+
+    const importedAt = Date.now();
+    for (const record of args.records) {
+      await ctx.db.insert('portalRecords', {
+        ...record,
+        candidateId: candidate._id,
+        recordType: args.recordType,
+        importedAt,
+      });
+    }
+    return { candidateFound: true, inserted: args.records.length };
+  },
+});
+
+/**
+ * PDF rows of a document (validated, otherwise extracted) reconciled against the portal records
+ * of its candidate. Null when the document is not linked to a candidate.
+ */
+export const getPortalReconciliation = authQuery({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.union(
+    v.object({
+      documentName: v.string(),
+      candidateName: v.string(),
+      dataSource: v.union(v.literal('validated'), v.literal('extraction'), v.literal('none')),
+      donationCount: v.number(),
+      ingress: reconciliationValidator,
+      egress: reconciliationValidator,
+    }),
+    v.null(),
+  ),
+  handler: async (ctx, args) => {
+    const doc = await ctx.db.get(args.documentId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+    const candidate = doc.candidateId ? await ctx.db.get(doc.candidateId) : null;
+    if (!candidate) {
+      return null;
+    }
+
+    const portalRecordsOfType = (recordType: 'ingress' | 'egress' | 'donation') =>
+      ctx.db
+        .query('portalRecords')
+        .withIndex('by_candidate_and_type', (q) => q.eq('candidateId', candidate._id).eq('recordType', recordType))
+        .collect();
+
+    const [rows, portalIngress, portalEgress, donations] = await Promise.all([
+      loadDocumentRows(ctx, args.documentId),
+      portalRecordsOfType('ingress'),
+      portalRecordsOfType('egress'),
+      portalRecordsOfType('donation'),
+    ]);
+
+    return {
+      documentName: doc.name,
+      candidateName: candidate.candidateName,
+      dataSource: rows.source,
+      donationCount: donations.length,
+      ingress: reconcile(rows.ingress.map(summarizeIngressRow), portalIngress.map(summarizePortalRecord)),
+      egress: reconcile(rows.egress.map(summarizeEgressRow), portalEgress.map(summarizePortalRecord)),
+    };
+  },
+});
@@ -0,0 +1,96 @@
+import { v } from 'convex/values';
+import { authMutation, authQuery } from './lib/withAuth';
+import { userRole } from './lib/roles';
+import { hasRole } from './lib/shared/roles';
+
+// The validation page sends a heartbeat every 20 seconds; an entry older than this belongs to a closed tab
+export const PRESENCE_TIMEOUT_MS = 60_000;
+
+/**
+ * Record that the current user has a document open on a page, holding soft locks on the pages they
+ * have unsaved edits on. Only reviewers can edit, so viewers never hold locks. Also clears out the
+ * document's stale entries.
+ */
+export const updatePresence = authMutation({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    lockedPages: v.array(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const canEdit = hasRole(userRole(await ctx.db.get(ctx.userId)), 'reviewer');
+    const existing = await ctx.db
+      .query('documentPresence')
+      .withIndex('by_document_and_user', (q) => q.eq('documentId', args.documentId).eq('userId', ctx.userId))
+      .unique();
+    const entry = { pageNumber: args.pageNumber, lockedPages: canEdit ? args.lockedPages : [], lastSeenAt: now };
+    if (existing) {
+      await ctx.db.patch(existing._id, entry);
+    } else {
+      await ctx.db.insert('documentPresence', { documentId: args.documentId, userId: ctx.userId, ...entry });
+    }
+
+    const stale = await ctx.db
+      .query('documentPresence')
+      .withIndex('by_document', (q) => q.eq('documentId', args.documentId).lt('lastSeenAt', now - PRESENCE_TIMEOUT_MS))
+      .collect();
+    for (const entry of stale) {
+      await ctx.db.delete(entry._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Remove the current user's presence when they leave the document
+ */
+export const leaveDocument = authMutation({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('documentPresence')
+      .withIndex('by_document_and_user', (q) => q.eq('documentId', args.documentId).eq('userId', ctx.userId))
+      .unique();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Who else has the document open, on which page, and which pages they have unsaved edits on
+ */
+export const listPresence = authQuery({
+  args: {
+    documentId: v.id('documents'),
+  },
+  handler: async (ctx, args) => {
+    const entries = await ctx.db
+      .query('documentPresence')
+      .withIndex('by_document', (q) =>
+        q.eq('documentId', args.documentId).gte('lastSeenAt', Date.now() - PRESENCE_TIMEOUT_MS),
+      )
+      .collect();
+
+    return await Promise.all(
+      entries
+        .filter((entry) => entry.userId !== ctx.userId)
+        .map(async (entry) => {
+          const user = await ctx.db.get(entry.userId);
+          return {
+            userId: entry.userId,
+            name: user?.name ?? user?.email ?? 'Usuario eliminado',
+            pageNumber: entry.pageNumber,
+            lockedPages: entry.lockedPages,
+            lastSeenAt: entry.lastSeenAt,
+          };
+        }),
+    );
+  },
+});
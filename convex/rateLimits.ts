@@ -0,0 +1,41 @@
+import { v } from 'convex/values';
+import { rateLimit, type RateLimitConfig } from 'convex-helpers/server/rateLimit';
+import { internalMutation } from './_generated/server';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Global token bucket for model calls, shared by every running extraction action.
+ * Tune with the MODEL_CALLS_PER_MINUTE and MODEL_CALLS_BURST environment variables.
+ */
+function modelCallsConfig(): RateLimitConfig {
+  const rate = Number(process.env.MODEL_CALLS_PER_MINUTE ?? 300);
+  const capacity = Number(process.env.MODEL_CALLS_BURST ?? 50);
+  return {
+    kind: 'token bucket',
+    rate,
+    period: MINUTE,
+    capacity,
+    // Callers queue up to ~10 minutes of calls instead of being rejected
+    maxReserved: rate * 10,
+  };
+}
+
+/**
+ * Reserve a slot for one model call. `retryAt` is when the caller may make the call.
+ */
+export const reserveModelCall = internalMutation({
+  args: {},
+  returns: v.object({
+    ok: v.boolean(),
+    retryAt: v.optional(v.number()),
+  }),
+  handler: async (ctx) => {
+    const { ok, retryAt } = await rateLimit(ctx, {
+      name: 'modelCalls',
+      config: modelCallsConfig(),
+      reserve: true,
+    });
+    return { ok, retryAt };
+  },
+});
@@ -0,0 +1,122 @@
+import { v } from 'convex/values';
+import type { Id } from './_generated/dataModel';
+import { authQuery, reviewerMutation } from './lib/withAuth';
+import { syncDocumentAggregateVerification } from './lib/documentAggregates';
+import { REQUIRED_SIGNATURES, fourEyesMinAmount, rowAmount, type RowVerification } from './lib/fourEyes';
+import { computeVerification, loadRowVerifications, recordRowsVerified } from './lib/rowStore';
+import type { DiffRow, RowType } from './lib/shared/validationDiff';
+
+/**
+ * Validated rows on a page that need two signatures, with who signed them so far, and how many rows
+ * still wait for a second signature on each page of the document
+ */
+export const getRowVerifications = authQuery({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const minAmount = fourEyesMinAmount();
+    const validatedData = await ctx.db
+      .query('validatedData')
+      .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
+      .unique();
+    const verifications = await loadRowVerifications(ctx, args.documentId, args.pageNumber);
+    if (!validatedData || !verifications) {
+      return { minAmount, requiredSignatures: REQUIRED_SIGNATURES, pendingPages: [], rows: [] };
+    }
+
+    const { pendingByPage } = validatedData.verification ?? (await computeVerification(ctx, args.documentId));
+    const pendingPages = Object.entries(pendingByPage)
+      .map(([pageNumber, count]) => ({ pageNumber: Number(pageNumber), count }))
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+
+    const userNames = new Map<string, string>();
+    const signerName = async (userId: Id<'users'>) => {
+      if (!userNames.has(userId)) {
+        const user = await ctx.db.get(userId);
+        userNames.set(userId, user?.name ?? user?.email ?? 'Usuario eliminado');
+      }
+      return userNames.get(userId)!;
+    };
+
+    const describe = async (rowType: RowType, item: RowVerification<DiffRow>, receipt: unknown, name: unknown) => ({
+      rowType,
+      pageNumber: item.row.pageNumber,
+      fingerprint: item.fingerprint,
+      receipt: typeof receipt === 'string' && receipt !== '' ? receipt : null,
+      name: typeof name === 'string' && name !== '' ? name : null,
+      amount: rowAmount(rowType, item.row),
+      reasons: item.reasons,
+      signers: await Promise.all(item.signerIds.map(async (userId) => ({ userId, name: await signerName(userId) }))),
+      verified: item.verified,
+    });
+
+    const rows = await Promise.all([
+      ...verifications.ingress
+        .filter((item) => item.reasons.length > 0)
+        .map((item) => describe('ingress', item, item.row.reciboNumero, item.row.contribuyenteNombre)),
+      ...verifications.egress
+        .filter((item) => item.reasons.length > 0)
+        .map((item) => describe('egress', item, item.row.numeroFacturaRecibo, item.row.proveedorNombre)),
+    ]);
+
+    return { minAmount, requiredSignatures: REQUIRED_SIGNATURES, pendingPages, rows };
+  },
+});
+
+/**
+ * Sign a validated row as checked against the PDF. The row counts as verified once two different
+ * reviewers signed the same values.
+ */
+export const signRow = reviewerMutation({
+  args: {
+    documentId: v.id('documents'),
+    rowType: v.union(v.literal('ingress'), v.literal('egress')),
+    pageNumber: v.number(),
+    fingerprint: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const verifications = await loadRowVerifications(ctx, args.documentId, args.pageNumber);
+    const matching = (verifications?.[args.rowType] ?? []).filter(
+      (candidate: RowVerification<DiffRow>) => candidate.fingerprint === args.fingerprint,
+    );
+    const item = matching[0];
+    if (!item) {
+      throw new Error('Row not found; it may have been edited since the page was loaded');
+    }
+    if (item.reasons.length === 0) {
+      throw new Error('This row does not need a second signature');
+    }
+    if (item.signerIds.includes(ctx.userId)) {
+      throw new Error('You already signed this row; another reviewer has to confirm it');
+    }
+
+    await ctx.db.insert('rowSignatures', {
+      documentId: args.documentId,
+      rowType: args.rowType,
+      pageNumber: args.pageNumber,
+      fingerprint: args.fingerprint,
+      userId: ctx.userId,
+      signedAt: Date.now(),
+    });
+    // Identical rows on the page share the signature
+    if (!item.verified && item.signerIds.length + 1 >= REQUIRED_SIGNATURES) {
+      const validatedData = await ctx.db
+        .query('validatedData')
+        .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
+        .unique();
+      if (validatedData) {
+        await recordRowsVerified(
+          ctx,
+          validatedData._id,
+          args.rowType,
+          matching.map((candidate) => candidate.row),
+        );
+      }
+    }
+    await syncDocumentAggregateVerification(ctx, args.documentId);
+    return null;
+  },
+});
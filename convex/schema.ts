@@ -1,6 +1,9 @@
 import { defineSchema, defineTable } from 'convex/server';
 import { authTables } from '@convex-dev/auth/server';
 import { v } from 'convex/values';
+import { rateLimitTables } from 'convex-helpers/server/rateLimit';
+import { roleValidator } from './lib/roles';
+import { pageReviewStateValidator } from './lib/pageReviews';
 
 // Base ingress row fields (shared between extraction and validated data)
 const ingressRowBaseFields = {
@@ -51,11 +54,15 @@ const egressRowBaseFields = {
 const extractionIngressRowValidator = v.object({
   ...ingressRowBaseFields,
   unreadableFields: v.optional(v.array(v.string())),
+  // Fields where consensus variants disagreed (needs review)
+  disagreementFields: v.optional(v.array(v.string())),
 });
 
 const extractionEgressRowValidator = v.object({
   ...egressRowBaseFields,
   unreadableFields: v.optional(v.array(v.string())),
+  // Fields where consensus variants disagreed (needs review)
+  disagreementFields: v.optional(v.array(v.string())),
 });
 
 // Validated row validators (with human-marked humanUnreadableFields)
@@ -71,6 +78,43 @@ const validatedEgressRowValidator = v.object({
   humanUnreadableFields: v.optional(v.array(v.string())),
 });
 
+// Running totals over a set of rows, updated incrementally on every row write
+const rowTotalsValidator = v.object({
+  ingressCount: v.number(),
+  egressCount: v.number(),
+  // Sums of the rows' self-reported totals
+  ingressTotal: v.number(),
+  egressTotal: v.number(),
+  // Sums of the category columns
+  ingressCategoryTotal: v.number(),
+  egressCategoryTotal: v.number(),
+  // Rows failing at least one arithmetic validation rule
+  ruleIssueCount: v.number(),
+});
+
+// Owner of a stored row: an extraction run or the document's validated data
+const rowOwnerFields = {
+  documentId: v.id('documents'),
+  source: v.union(v.literal('extraction'), v.literal('validated')),
+  extractionId: v.optional(v.id('extractions')),
+  // Position of the row within its page
+  rowIndex: v.number(),
+};
+
+// Cell value recorded in the validation audit log
+export const editValueValidator = v.union(v.string(), v.number(), v.boolean(), v.array(v.string()), v.null());
+
+// Which of portal, summary page and row sums disagrees with the other two: 'none' when all agree,
+// 'all' when no two agree, 'incomplete' when one of the three is missing
+const threeWayOutlierValidator = v.union(
+  v.literal('none'),
+  v.literal('portal'),
+  v.literal('summary'),
+  v.literal('rows'),
+  v.literal('all'),
+  v.literal('incomplete'),
+);
+
 // Summary extraction (Resumen de Ingresos y Gastos from page ~5)
 const summaryExtractionValidator = v.object({
   // Ingresos summary
@@ -111,6 +155,25 @@ export default defineSchema({
   // Convex Auth tables
   ...authTables,
 
+  // Convex Auth users with the role that gates every mutation (see lib/withAuth)
+  users: defineTable({
+    name: v.optional(v.string()),
+    image: v.optional(v.string()),
+    email: v.optional(v.string()),
+    emailVerificationTime: v.optional(v.number()),
+    phone: v.optional(v.string()),
+    phoneVerificationTime: v.optional(v.number()),
+    isAnonymous: v.optional(v.boolean()),
+    role: v.optional(roleValidator),
+    // Set while an admin has deactivated the account; every wrapper in lib/withAuth rejects the user
+    deactivatedAt: v.optional(v.number()),
+  })
+    .index('email', ['email'])
+    .index('phone', ['phone']),
+
+  // Token buckets for the global model-call limiter (see rateLimits.ts)
+  ...rateLimitTables,
+
   // PDF documents metadata
   documents: defineTable({
     fileId: v.id('_storage'),
@@ -131,15 +194,203 @@ export default defineSchema({
     pageReExtractionStatus: v.optional(
       v.record(v.string(), v.union(v.literal('pending'), v.literal('processing'), v.literal('failed'))),
     ),
-  }).index('by_status', ['status']),
+    // Candidate whose affidavit this is; matched by file name at upload, fixable from /admin
+    candidateId: v.optional(v.id('candidates')),
+    // SHA-256 (hex) of the PDF, used to skip files that were already ingested
+    contentHash: v.optional(v.string()),
+    // Audit reports are published next to the affidavit itself (audit_*.pdf in the scraper output)
+    kind: v.optional(v.union(v.literal('affidavit'), v.literal('audit'))),
+    // Amended filings: every version is a document of its own, grouped under the id of the first
+    // filing. Documents without a group are version 1 of a group of one.
+    versionGroupId: v.optional(v.id('documents')),
+    version: v.optional(v.number()),
+    // The newer version that replaced this one; superseded versions are left out of lists and exports
+    supersededBy: v.optional(v.id('documents')),
+  })
+    .index('by_status', ['status'])
+    .index('by_candidate', ['candidateId'])
+    .index('by_content_hash', ['contentHash'])
+    .index('by_version_group', ['versionGroupId', 'version']),
+
+  // Candidates and their affidavits, seeded from scripts/generate-documents-index.ts output
+  // (see scripts/seed-candidates.ts)
+  candidates: defineTable({
+    // Affidavit id on the Tribunal Electoral portal
+    externalId: v.string(),
+    candidateName: v.string(),
+    cedula: v.string(),
+    position: v.string(),
+    party: v.string(),
+    province: v.union(v.string(), v.null()),
+    district: v.union(v.string(), v.null()),
+    township: v.union(v.string(), v.null()),
+    status: v.string(),
+    isProclaimed: v.boolean(),
+    dateSent: v.union(v.string(), v.null()),
+    totalIngress: v.number(),
+    totalEgress: v.number(),
+    pdfUrl: v.union(v.string(), v.null()),
+    // Normalized file name of the affidavit PDF, used to link uploaded documents
+    pdfFileKey: v.union(v.string(), v.null()),
+  })
+    .index('by_external_id', ['externalId'])
+    .index('by_pdf_file_key', ['pdfFileKey'])
+    .searchIndex('search_name', { searchField: 'candidateName' }),
+
+  // Ingress, egress and donation records published on the Tribunal Electoral portal for each
+  // affidavit (see scripts/import-portal-records.ts)
+  portalRecords: defineTable({
+    candidateId: v.id('candidates'),
+    recordType: v.union(v.literal('ingress'), v.literal('egress'), v.literal('donation')),
+    // Record id on the portal
+    externalId: v.string(),
+    // ISO date (YYYY-MM-DD)
+    fecha: v.union(v.string(), v.null()),
+    // Receipt or invoice number
+    documentNumber: v.union(v.string(), v.null()),
+    // Contributor, supplier or donor
+    counterpartyName: v.union(v.string(), v.null()),
+    counterpartyIdNumber: v.union(v.string(), v.null()),
+    description: v.union(v.string(), v.null()),
+    amount: v.union(v.number(), v.null()),
+    // The record as returned by the portal API
+    raw: v.any(),
+    importedAt: v.number(),
+  }).index('by_candidate_and_type', ['candidateId', 'recordType']),
+
+  // Donors across all documents, built from the ingress rows by donors.refreshDocumentDonors:
+  // rows with the same cédula/RUC, or failing that a matching name, are the same donor;
+  // donorAliases keep merges and splits made by hand
+  donors: defineTable({
+    // Canonical cédula or RUC (see lib/shared/panamaId); null when none of the rows carries a readable one
+    idNumber: v.union(v.string(), v.null()),
+    idKind: v.union(v.literal('cedula'), v.literal('ruc'), v.null()),
+    dv: v.union(v.string(), v.null()),
+    name: v.string(),
+    // See lib/nameMatching
+    normalizedName: v.string(),
+    // Sums over the donor's donorContributions
+    totalAmount: v.number(),
+    rowCount: v.number(),
+    candidateCount: v.number(),
+    // Name and cédula/RUC set by a reviewer; automatic matching no longer changes them
+    pinned: v.optional(v.boolean()),
+    updatedAt: v.number(),
+  })
+    .index('by_id_number', ['idNumber'])
+    .index('by_normalized_name', ['normalizedName'])
+    .index('by_total_amount', ['totalAmount'])
+    .searchIndex('search_name', { searchField: 'normalizedName' }),
+
+  // What one donor gave in one document (the latest version of a filing only)
+  donorContributions: defineTable({
+    donorId: v.id('donors'),
+    documentId: v.id('documents'),
+    candidateId: v.union(v.id('candidates'), v.null()),
+    // 'id:<canonical cédula/RUC>' or 'name:<normalized name>'; missing on contributions built before
+    // donor aliases existed (migrations.backfillDocumentAggregates rebuilds them)
+    identityKey: v.optional(v.string()),
+    amount: v.number(),
+    rowCount: v.number(),
+    // As written on the rows, to review how they were matched
+    rawNames: v.array(v.string()),
+    rawIdNumbers: v.array(v.string()),
+  })
+    .index('by_donor', ['donorId'])
+    .index('by_document', ['documentId']),
+
+  // Identity -> donor decided by a merge, split or pin, checked before any automatic matching
+  donorAliases: defineTable({
+    identityKey: v.string(),
+    donorId: v.id('donors'),
+  })
+    .index('by_identity_key', ['identityKey'])
+    .index('by_donor', ['donorId']),
+
+  // Suppliers across all documents, built from the egress rows by suppliers.refreshDocumentSuppliers
+  // the same way as donors; supplierAliases keep merges and splits made by hand
+  suppliers: defineTable({
+    idNumber: v.union(v.string(), v.null()),
+    idKind: v.union(v.literal('cedula'), v.literal('ruc'), v.null()),
+    dv: v.union(v.string(), v.null()),
+    name: v.string(),
+    normalizedName: v.string(),
+    // Sums over the supplier's supplierSpends
+    totalAmount: v.number(),
+    rowCount: v.number(),
+    candidateCount: v.number(),
+    // Distinct parties of the candidates that paid the supplier
+    parties: v.array(v.string()),
+    // Egress spend column -> amount
+    categoryAmounts: v.record(v.string(), v.number()),
+    // Name and cédula/RUC set by a reviewer; automatic matching no longer changes them
+    pinned: v.optional(v.boolean()),
+    updatedAt: v.number(),
+  })
+    .index('by_id_number', ['idNumber'])
+    .index('by_normalized_name', ['normalizedName'])
+    .index('by_total_amount', ['totalAmount'])
+    .index('by_candidate_count', ['candidateCount', 'totalAmount'])
+    .searchIndex('search_name', { searchField: 'normalizedName' }),
 
-  // Raw extraction results from each model (with AI-detected unreadableFields)
+  // What one document paid to one supplier under one identity (cédula/RUC or name)
+  supplierSpends: defineTable({
+    supplierId: v.id('suppliers'),
+    documentId: v.id('documents'),
+    candidateId: v.union(v.id('candidates'), v.null()),
+    // 'id:<canonical cédula/RUC>' or 'name:<normalized name>'
+    identityKey: v.string(),
+    amount: v.number(),
+    rowCount: v.number(),
+    categoryAmounts: v.record(v.string(), v.number()),
+    rawNames: v.array(v.string()),
+    rawIdNumbers: v.array(v.string()),
+  })
+    .index('by_supplier', ['supplierId'])
+    .index('by_document', ['documentId']),
+
+  // Identity -> supplier decided by a merge, split or pin, checked before any automatic matching
+  supplierAliases: defineTable({
+    identityKey: v.string(),
+    supplierId: v.id('suppliers'),
+  })
+    .index('by_identity_key', ['identityKey'])
+    .index('by_supplier', ['supplierId']),
+
+  // Append-only log of the merges, splits and pins reviewers make in the donor and supplier registries
+  entityActions: defineTable({
+    entityType: v.union(v.literal('donor'), v.literal('supplier')),
+    action: v.union(v.literal('merge'), v.literal('split'), v.literal('pin')),
+    // The record merged into, split from or pinned (a donors or suppliers id)
+    entityId: v.string(),
+    entityName: v.string(),
+    // merge: the record merged away; split: the record created
+    otherEntityId: v.optional(v.string()),
+    otherEntityName: v.optional(v.string()),
+    // split: the identities moved to the new record
+    identityKeys: v.optional(v.array(v.string())),
+    // pin: name and cédula/RUC before and after
+    before: v.optional(v.object({ name: v.string(), idNumber: v.union(v.string(), v.null()) })),
+    after: v.optional(v.object({ name: v.string(), idNumber: v.union(v.string(), v.null()) })),
+    userId: v.id('users'),
+    createdAt: v.number(),
+  }).index('by_entity_type', ['entityType', 'createdAt']),
+
+  // Raw extraction results from each model (rows live in ingressRows/egressRows)
   extractions: defineTable({
     documentId: v.id('documents'),
-    model: v.string(), // e.g., "gemini-3-flash"
-    ingress: v.array(extractionIngressRowValidator),
-    egress: v.array(extractionEgressRowValidator),
+    model: v.string(), // Model id the provider ran, e.g. "gemini-3-flash-preview"
+    // Provider that ran it ("gemini", "openrouter", "mock"); missing on runs stored before providers were recorded
+    provider: v.optional(v.string()),
+    // Legacy row arrays, moved into the row tables by migrations.migrateRowArrays
+    ingress: v.optional(v.array(extractionIngressRowValidator)),
+    egress: v.optional(v.array(extractionEgressRowValidator)),
+    totals: v.optional(rowTotalsValidator),
     completedAt: v.number(),
+    // Set on the individual runs of a consensus extraction, e.g. "gemini@medium"
+    variant: v.optional(v.string()),
+    // Set on a consensus extraction: the variants it was merged from (primary first)
+    consensusOf: v.optional(v.array(v.string())),
   }).index('by_document', ['documentId']),
 
   // Summary extraction results (Resumen de Ingresos y Gastos)
@@ -151,13 +402,214 @@ export default defineSchema({
     completedAt: v.number(),
   }).index('by_document', ['documentId']),
 
-  // User-validated final data (with human-marked humanUnreadableFields)
+  // Per-page extraction job records (one per document page, latest run)
+  pageExtractions: defineTable({
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    status: v.union(v.literal('pending'), v.literal('processing'), v.literal('completed'), v.literal('failed')),
+    attempts: v.number(),
+    errorMessage: v.optional(v.string()),
+    // Duration of the last model call in milliseconds
+    latencyMs: v.optional(v.number()),
+    promptTokens: v.optional(v.union(v.number(), v.null())),
+    completionTokens: v.optional(v.union(v.number(), v.null())),
+    totalTokens: v.optional(v.union(v.number(), v.null())),
+    provider: v.optional(v.string()),
+    ingressCount: v.optional(v.number()),
+    egressCount: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index('by_document_and_page', ['documentId', 'pageNumber'])
+    .index('by_status', ['status']),
+
+  // User-validated final data (rows live in ingressRows/egressRows)
   validatedData: defineTable({
     documentId: v.id('documents'),
-    ingress: v.array(validatedIngressRowValidator),
-    egress: v.array(validatedEgressRowValidator),
+    // Legacy row arrays, moved into the row tables by migrations.migrateRowArrays
+    ingress: v.optional(v.array(validatedIngressRowValidator)),
+    egress: v.optional(v.array(validatedEgressRowValidator)),
+    totals: v.optional(rowTotalsValidator),
     validatedAt: v.number(),
+    // Optimistic concurrency: bumped on every write; pageVersions holds the version that last changed each page
+    version: v.optional(v.number()),
+    pageVersions: v.optional(v.record(v.string(), v.number())),
+    // Running four-eyes figures, kept by lib/rowStore.ts like `totals` (filled in on the next write or
+    // by migrations.recomputeVerification for older records)
+    verification: v.optional(
+      v.object({
+        verifiedTotals: rowTotalsValidator,
+        // Rows still waiting for a second signature, by page number
+        pendingByPage: v.record(v.string(), v.number()),
+      }),
+    ),
   }).index('by_document', ['documentId']),
+
+  // Who has a document open, on which page, and which pages they hold soft locks on (pages with
+  // unsaved edits). Refreshed by a heartbeat from the validation page; stale entries are ignored.
+  documentPresence: defineTable({
+    documentId: v.id('documents'),
+    userId: v.id('users'),
+    pageNumber: v.number(),
+    lockedPages: v.array(v.number()),
+    lastSeenAt: v.number(),
+  })
+    .index('by_document', ['documentId', 'lastSeenAt'])
+    .index('by_document_and_user', ['documentId', 'userId']),
+
+  // Review state and assignee of each document page; pages without a record are unreviewed
+  pageReviews: defineTable({
+    documentId: v.id('documents'),
+    pageNumber: v.number(),
+    state: pageReviewStateValidator,
+    assigneeId: v.optional(v.id('users')),
+    updatedBy: v.id('users'),
+    updatedAt: v.number(),
+  })
+    .index('by_document_and_page', ['documentId', 'pageNumber'])
+    .index('by_assignee', ['assigneeId', 'state']),
+
+  // Ingress rows of extraction runs and validated data, one document per row
+  ingressRows: defineTable({
+    ...rowOwnerFields,
+    ...ingressRowBaseFields,
+    unreadableFields: v.optional(v.array(v.string())),
+    disagreementFields: v.optional(v.array(v.string())),
+    humanUnreadableFields: v.optional(v.array(v.string())),
+  })
+    .index('by_extraction_and_page', ['extractionId', 'pageNumber', 'rowIndex'])
+    .index('by_document_source_and_page', ['documentId', 'source', 'pageNumber', 'rowIndex']),
+
+  // Egress rows of extraction runs and validated data, one document per row
+  egressRows: defineTable({
+    ...rowOwnerFields,
+    ...egressRowBaseFields,
+    unreadableFields: v.optional(v.array(v.string())),
+    disagreementFields: v.optional(v.array(v.string())),
+    humanUnreadableFields: v.optional(v.array(v.string())),
+  })
+    .index('by_extraction_and_page', ['extractionId', 'pageNumber', 'rowIndex'])
+    .index('by_document_source_and_page', ['documentId', 'source', 'pageNumber', 'rowIndex']),
+
+  // Four-eyes signatures on validated rows; a signature only covers the row values it fingerprints
+  // (see lib/fourEyes.ts)
+  rowSignatures: defineTable({
+    documentId: v.id('documents'),
+    rowType: v.union(v.literal('ingress'), v.literal('egress')),
+    pageNumber: v.number(),
+    fingerprint: v.string(),
+    userId: v.id('users'),
+    signedAt: v.number(),
+  }).index('by_document_and_page', ['documentId', 'pageNumber']),
+
+  // Per-document row counts, sums and discrepancies, refreshed whenever rows or summaries change
+  // (see lib/documentAggregates.ts)
+  documentAggregates: defineTable({
+    documentId: v.id('documents'),
+    // Copied from the document and its candidate so the list can filter and sort on this table alone
+    name: v.string(),
+    displayName: v.string(),
+    documentCreationTime: v.number(),
+    status: v.union(v.literal('pending'), v.literal('processing'), v.literal('completed'), v.literal('failed')),
+    summaryStatus: v.optional(
+      v.union(v.literal('pending'), v.literal('processing'), v.literal('completed'), v.literal('failed')),
+    ),
+    candidateId: v.union(v.id('candidates'), v.null()),
+    candidateName: v.union(v.string(), v.null()),
+    candidatePosition: v.union(v.string(), v.null()),
+    candidateParty: v.union(v.string(), v.null()),
+    candidateProvince: v.union(v.string(), v.null()),
+    // Where the row figures come from: validated data when present, otherwise the latest extraction
+    dataSource: v.union(v.literal('validated'), v.literal('gemini-3-flash'), v.literal('none')),
+    extractionId: v.optional(v.id('extractions')),
+    ingressCount: v.number(),
+    egressCount: v.number(),
+    ruleIssueCount: v.number(),
+    summedIngresos: v.number(),
+    summedGastos: v.number(),
+    summedIngresosByCategory: v.number(),
+    summedGastosByCategory: v.number(),
+    hasSummary: v.boolean(),
+    summaryTotalIngresos: v.union(v.number(), v.null()),
+    summaryTotalGastos: v.union(v.number(), v.null()),
+    saldoAnterior: v.number(),
+    adjustedSummaryIngresos: v.union(v.number(), v.null()),
+    ingressDiscrepancy: v.union(v.number(), v.null()),
+    egressDiscrepancy: v.union(v.number(), v.null()),
+    ingressDiscrepancyByCategory: v.union(v.number(), v.null()),
+    egressDiscrepancyByCategory: v.union(v.number(), v.null()),
+    maxAbsDiscrepancy: v.number(),
+    // Three-way comparison against the totals the candidate declared on the portal
+    // (optional until migrations.backfillDocumentAggregates refreshes older aggregates)
+    portalTotalIngress: v.optional(v.union(v.number(), v.null())),
+    portalTotalEgress: v.optional(v.union(v.number(), v.null())),
+    portalIngressVsSummary: v.optional(v.union(v.number(), v.null())),
+    portalIngressVsRows: v.optional(v.union(v.number(), v.null())),
+    portalEgressVsSummary: v.optional(v.union(v.number(), v.null())),
+    portalEgressVsRows: v.optional(v.union(v.number(), v.null())),
+    ingressOutlier: v.optional(threeWayOutlierValidator),
+    egressOutlier: v.optional(threeWayOutlierValidator),
+    maxAbsPortalDiscrepancy: v.optional(v.number()),
+    // The row figures again, counting only four-eyes verified validated rows; null without validated data
+    // (optional until migrations.backfillDocumentAggregates refreshes older aggregates)
+    verified: v.optional(
+      v.union(
+        v.object({
+          pendingSignatureCount: v.number(),
+          summedIngresos: v.number(),
+          summedGastos: v.number(),
+          summedIngresosByCategory: v.number(),
+          summedGastosByCategory: v.number(),
+          ingressDiscrepancy: v.union(v.number(), v.null()),
+          egressDiscrepancy: v.union(v.number(), v.null()),
+          ingressDiscrepancyByCategory: v.union(v.number(), v.null()),
+          egressDiscrepancyByCategory: v.union(v.number(), v.null()),
+          portalIngressVsRows: v.union(v.number(), v.null()),
+          portalEgressVsRows: v.union(v.number(), v.null()),
+          ingressOutlier: threeWayOutlierValidator,
+          egressOutlier: threeWayOutlierValidator,
+        }),
+        v.null(),
+      ),
+    ),
+    // The sort keys above over the verified figures, for the Discrepancias page's verified-only mode; unset
+    // without validated data (and until migrations.backfillDocumentAggregates refreshes older aggregates)
+    maxAbsVerifiedDiscrepancy: v.optional(v.number()),
+    maxAbsVerifiedPortalDiscrepancy: v.optional(v.number()),
+    // Page review progress (optional until migrations.backfillDocumentAggregates refreshes older aggregates)
+    validatedPageCount: v.optional(v.number()),
+    // Copied from the document: a newer version of the filing exists
+    isSuperseded: v.optional(v.boolean()),
+    updatedAt: v.number(),
+  })
+    .index('by_document', ['documentId'])
+    .index('by_summary_and_discrepancy', ['hasSummary', 'maxAbsDiscrepancy'])
+    .index('by_summary_and_portal_discrepancy', ['hasSummary', 'maxAbsPortalDiscrepancy'])
+    .index('by_summary_and_verified_discrepancy', ['hasSummary', 'maxAbsVerifiedDiscrepancy'])
+    .index('by_summary_and_verified_portal_discrepancy', ['hasSummary', 'maxAbsVerifiedPortalDiscrepancy'])
+    .index('by_creation_time', ['documentCreationTime'])
+    .index('by_display_name', ['displayName'])
+    .index('by_summary_ingresos', ['summaryTotalIngresos'])
+    .index('by_summary_gastos', ['summaryTotalGastos']),
+
+  // Append-only audit log of cell changes made when saving validated data
+  validationEdits: defineTable({
+    documentId: v.id('documents'),
+    userId: v.id('users'),
+    editedAt: v.number(),
+    pageNumber: v.number(),
+    rowType: v.union(v.literal('ingress'), v.literal('egress')),
+    // Row alignment key (page::receipt number::occurrence)
+    rowKey: v.string(),
+    change: v.union(v.literal('added'), v.literal('removed'), v.literal('updated')),
+    field: v.string(),
+    oldValue: editValueValidator,
+    newValue: editValueValidator,
+    // Set when a page re-extraction rewrote the cell; userId is then the user who requested it
+    source: v.optional(v.literal('reExtraction')),
+  })
+    .index('by_document', ['documentId', 'editedAt'])
+    .index('by_document_and_page', ['documentId', 'pageNumber', 'editedAt'])
+    .index('by_user', ['userId', 'editedAt']),
 });
 
 // Export validators for use in other files
@@ -167,4 +619,5 @@ export {
   validatedIngressRowValidator,
   validatedEgressRowValidator,
   summaryExtractionValidator,
+  rowTotalsValidator,
 };
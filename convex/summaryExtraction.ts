@@ -5,7 +5,8 @@ import { internalAction } from './_generated/server';
 import { internal } from './_generated/api';
 import { PDFDocument } from 'pdf-lib';
 import { z } from 'zod';
-import { MODEL, callGeminiDirect } from '../pdf-extraction';
+import { MODEL } from '../pdf-extraction';
+import { getModelProvider } from './lib/modelCalls';
 
 const SUMMARY_EXTRACTION_PROMPT = `This PDF contains the first pages of a financial report from Panama's Electoral Tribunal. One of these pages should be a "Resumen de Ingresos y Gastos" (Income and Expense Summary).
 
@@ -169,10 +170,12 @@ export const startSummaryExtraction = internalAction({
 
       const pdfBase64 = Buffer.from(firstPagesPdf).toString('base64');
 
-      console.log(`[Summary] Processing with ${MODEL.id}...`);
+      const provider = getModelProvider(ctx, 'summary');
+      console.log(`[Summary] Processing with ${MODEL.id} via ${provider.name}...`);
 
       try {
-        const { parsed: summary } = await callGeminiDirect(pdfBase64, process.env.GEMINI_API_KEY!, {
+        const { parsed: summary } = await provider.extract(pdfBase64, {
+          task: 'summary',
           prompt: SUMMARY_EXTRACTION_PROMPT,
           schema: SummarySchema,
           jsonSchema: RESPONSE_JSON_SCHEMA,
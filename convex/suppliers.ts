@@ -0,0 +1,163 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import type { Doc } from './_generated/dataModel';
+import { internalMutation } from './_generated/server';
+import { authQuery, reviewerMutation } from './lib/withAuth';
+import {
+  addAmounts,
+  getEntityDetail,
+  mergeEntities,
+  pinEntity,
+  refreshDocumentEntities,
+  searchEntities,
+  splitEntity,
+  type EntityRegistry,
+} from './lib/entityRegistry';
+import { EGRESS_CAMPAIGN_FIELDS, EGRESS_PROPAGANDA_FIELDS } from './lib/shared/validationRules';
+
+// Egress spend columns broken down per supplier
+const SPEND_CATEGORY_FIELDS = [...EGRESS_CAMPAIGN_FIELDS, ...EGRESS_PROPAGANDA_FIELDS];
+
+// Suppliers are built from the egress rows, one spend per document and identity, and also keep the
+// parties that paid them and their spend by column
+const SUPPLIER_REGISTRY: EntityRegistry<'supplier'> = {
+  entityType: 'supplier',
+  tables: { entities: 'suppliers', links: 'supplierSpends', aliases: 'supplierAliases' },
+  entityField: 'supplierId',
+  byEntityIndex: 'by_supplier',
+  extractRows: ({ egress }) =>
+    egress.map((row) => {
+      const categoryAmounts: Record<string, number> = {};
+      for (const field of SPEND_CATEGORY_FIELDS) {
+        const amount = row[field];
+        if (amount) categoryAmounts[field] = amount;
+      }
+      return {
+        name: row.proveedorNombre,
+        idNumber: row.cedulaRuc,
+        amount:
+          row.totalDeGastosDePropagandaYCampania ??
+          Object.values(categoryAmounts).reduce((sum, value) => sum + value, 0),
+        categoryAmounts,
+      };
+    }),
+  newEntityFields: { parties: [], categoryAmounts: {} },
+  linkFields: (group) => ({ categoryAmounts: group.categoryAmounts }),
+  linkTotals: async (ctx, spends) => {
+    const candidateIds = new Set(spends.map((spend) => spend.candidateId).filter((id) => id !== null));
+    const candidates: (Doc<'candidates'> | null)[] = await Promise.all(
+      Array.from(candidateIds, (candidateId) => ctx.db.get(candidateId)),
+    );
+    const categoryAmounts: Record<string, number> = {};
+    for (const spend of spends) {
+      addAmounts(categoryAmounts, spend.categoryAmounts);
+    }
+    return {
+      parties: Array.from(new Set(candidates.flatMap((candidate) => (candidate ? [candidate.party] : [])))).sort(),
+      categoryAmounts,
+    };
+  },
+};
+
+/**
+ * Rebuild the spends of one document from its current rows (validated, otherwise extracted).
+ * Scheduled through scheduleDocumentEntitiesRefresh, like donors.refreshDocumentDonors.
+ */
+export const refreshDocumentSuppliers = internalMutation({
+  args: {
+    documentId: v.id('documents'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await refreshDocumentEntities(ctx, SUPPLIER_REGISTRY, args.documentId);
+    return null;
+  },
+});
+
+/**
+ * Suppliers by total spend, by number of candidates that paid them ('shared'), or matching a
+ * name or cédula/RUC
+ */
+export const listSuppliers = authQuery({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    search: v.optional(v.string()),
+    // 'shared': only suppliers paid by more than one candidate, most shared first
+    sortBy: v.optional(v.union(v.literal('amount'), v.literal('shared'))),
+  },
+  handler: async (ctx, args) => {
+    const found = await searchEntities(ctx, SUPPLIER_REGISTRY, args.search?.trim() ?? '', args.paginationOpts);
+    if (found) return found;
+    if (args.sortBy === 'shared') {
+      return await ctx.db
+        .query('suppliers')
+        .withIndex('by_candidate_count', (q) => q.gte('candidateCount', 2))
+        .order('desc')
+        .paginate(args.paginationOpts);
+    }
+    return await ctx.db.query('suppliers').withIndex('by_total_amount').order('desc').paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * A supplier with every candidate that paid it, and the identities (cédula/RUC or name) its rows
+ * were matched under, for splitting
+ */
+export const getSupplier = authQuery({
+  args: {
+    supplierId: v.id('suppliers'),
+  },
+  handler: async (ctx, args) => {
+    return await getEntityDetail(ctx, SUPPLIER_REGISTRY, args.supplierId);
+  },
+});
+
+/**
+ * Merge one supplier into another. Every identity of the merged supplier keeps pointing at the
+ * target, so documents extracted or validated later land there too.
+ */
+export const mergeSuppliers = reviewerMutation({
+  args: {
+    sourceId: v.id('suppliers'),
+    targetId: v.id('suppliers'),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await mergeEntities(ctx, SUPPLIER_REGISTRY, ctx.userId, args.sourceId, args.targetId);
+    return null;
+  },
+});
+
+/**
+ * Move some identities of a supplier (and their spends) into a new supplier
+ */
+export const splitSupplier = reviewerMutation({
+  args: {
+    supplierId: v.id('suppliers'),
+    identityKeys: v.array(v.string()),
+  },
+  returns: v.id('suppliers'),
+  handler: async (ctx, args) => {
+    return await splitEntity(ctx, SUPPLIER_REGISTRY, ctx.userId, args.supplierId, args.identityKeys);
+  },
+});
+
+/**
+ * Set a supplier's canonical name and cédula/RUC by hand. The supplier keeps every identity it has
+ * now, and automatic matching stops renaming it or giving it another number.
+ */
+export const pinSupplier = reviewerMutation({
+  args: {
+    supplierId: v.id('suppliers'),
+    name: v.string(),
+    idNumber: v.union(v.string(), v.null()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await pinEntity(ctx, SUPPLIER_REGISTRY, ctx.userId, args.supplierId, {
+      name: args.name,
+      idNumber: args.idNumber,
+    });
+    return null;
+  },
+});
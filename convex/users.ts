@@ -0,0 +1,188 @@
+import { v } from 'convex/values';
+import { internalMutation, internalQuery } from './_generated/server';
+import { adminMutation, adminQuery, authQuery } from './lib/withAuth';
+import { roleValidator, userRole } from './lib/roles';
+import type { Role } from './lib/shared/roles';
+
+/**
+ * The logged-in user and their role, for showing only the controls the role allows
+ */
+export const getCurrentUser = authQuery({
+  args: {},
+  returns: v.union(
+    v.object({
+      _id: v.id('users'),
+      name: v.union(v.string(), v.null()),
+      email: v.union(v.string(), v.null()),
+      role: roleValidator,
+    }),
+    v.null(),
+  ),
+  handler: async (ctx) => {
+    const user = await ctx.db.get(ctx.userId);
+    if (!user) {
+      return null;
+    }
+    return { _id: user._id, name: user.name ?? null, email: user.email ?? null, role: userRole(user) };
+  },
+});
+
+/**
+ * Role and deactivation check for actions, which cannot read the database themselves
+ */
+export const getUserAccess = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  returns: v.object({ role: roleValidator, isActive: v.boolean() }),
+  handler: async (ctx, args): Promise<{ role: Role; isActive: boolean }> => {
+    const user = await ctx.db.get(args.userId);
+    return { role: userRole(user), isActive: user?.deactivatedAt === undefined };
+  },
+});
+
+/**
+ * Email of a password account, for resetting its password
+ */
+export const getUserEmail = internalQuery({
+  args: {
+    userId: v.id('users'),
+  },
+  returns: v.union(v.string(), v.null()),
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    return user?.email ?? null;
+  },
+});
+
+// Validation edits read per user for the activity column; older ones are not counted
+const ACTIVITY_EDIT_LIMIT = 1000;
+
+/**
+ * Every account with its role, last login and validation activity (admin only)
+ */
+export const listUsers = adminQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query('users').collect();
+
+    const rows = await Promise.all(
+      users.map(async (user) => {
+        // Password sign-in has no hook, so the newest session stands in for the last login
+        const lastSession = await ctx.db
+          .query('authSessions')
+          .withIndex('userId', (q) => q.eq('userId', user._id))
+          .order('desc')
+          .first();
+        const edits = await ctx.db
+          .query('validationEdits')
+          .withIndex('by_user', (q) => q.eq('userId', user._id))
+          .order('desc')
+          .take(ACTIVITY_EDIT_LIMIT);
+
+        return {
+          _id: user._id,
+          _creationTime: user._creationTime,
+          email: user.email ?? null,
+          name: user.name ?? null,
+          role: userRole(user),
+          deactivatedAt: user.deactivatedAt ?? null,
+          lastLoginAt: lastSession?._creationTime ?? null,
+          editCount: edits.length,
+          editCountCapped: edits.length === ACTIVITY_EDIT_LIMIT,
+          documentsEdited: new Set(edits.map((edit) => edit.documentId)).size,
+          lastEditAt: edits[0]?.editedAt ?? null,
+        };
+      }),
+    );
+
+    return rows.sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''));
+  },
+});
+
+/**
+ * Change another user's role (admin only)
+ */
+export const setUserRole = adminMutation({
+  args: {
+    userId: v.id('users'),
+    role: roleValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (args.userId === ctx.userId) {
+      throw new Error('You cannot change your own role');
+    }
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    await ctx.db.patch(args.userId, { role: args.role });
+    return null;
+  },
+});
+
+/**
+ * Deactivate or reactivate another user (admin only). Deactivating also signs them out everywhere.
+ */
+export const setUserActive = adminMutation({
+  args: {
+    userId: v.id('users'),
+    active: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    if (args.userId === ctx.userId) {
+      throw new Error('You cannot deactivate your own account');
+    }
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (args.active) {
+      await ctx.db.patch(args.userId, { deactivatedAt: undefined });
+      return null;
+    }
+
+    await ctx.db.patch(args.userId, { deactivatedAt: Date.now() });
+    const sessions = await ctx.db
+      .query('authSessions')
+      .withIndex('userId', (q) => q.eq('userId', args.userId))
+      .collect();
+    for (const session of sessions) {
+      const refreshTokens = await ctx.db
+        .query('authRefreshTokens')
+        .withIndex('sessionId', (q) => q.eq('sessionId', session._id))
+        .collect();
+      for (const token of refreshTokens) {
+        await ctx.db.delete(token._id);
+      }
+      await ctx.db.delete(session._id);
+    }
+    return null;
+  },
+});
+
+/**
+ * Set a user's role by email. Meant for granting the first admin from the CLI:
+ * `npx convex run users:setRoleByEmail '{"email": "...", "role": "admin"}'`
+ */
+export const setRoleByEmail = internalMutation({
+  args: {
+    email: v.string(),
+    role: roleValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query('users')
+      .withIndex('email', (q) => q.eq('email', args.email))
+      .first();
+    if (!user) {
+      throw new Error(`No user with email ${args.email}`);
+    }
+    await ctx.db.patch(user._id, { role: args.role });
+    return null;
+  },
+});
@@ -0,0 +1,67 @@
+import { v } from 'convex/values';
+import { authQuery } from './lib/withAuth';
+import { editValueValidator } from './schema';
+
+// The history drawer only needs recent changes
+const MAX_EDITS = 500;
+
+/**
+ * Get the validation audit log for a document (optionally one page), newest first
+ */
+export const getValidationEdits = authQuery({
+  args: {
+    documentId: v.id('documents'),
+    pageNumber: v.optional(v.number()),
+  },
+  returns: v.array(
+    v.object({
+      _id: v.id('validationEdits'),
+      editedAt: v.number(),
+      userName: v.string(),
+      pageNumber: v.number(),
+      rowType: v.union(v.literal('ingress'), v.literal('egress')),
+      rowKey: v.string(),
+      change: v.union(v.literal('added'), v.literal('removed'), v.literal('updated')),
+      field: v.string(),
+      oldValue: editValueValidator,
+      newValue: editValueValidator,
+      source: v.optional(v.literal('reExtraction')),
+    }),
+  ),
+  handler: async (ctx, args) => {
+    const pageNumber = args.pageNumber;
+    const edits =
+      pageNumber === undefined
+        ? await ctx.db
+            .query('validationEdits')
+            .withIndex('by_document', (q) => q.eq('documentId', args.documentId))
+            .order('desc')
+            .take(MAX_EDITS)
+        : await ctx.db
+            .query('validationEdits')
+            .withIndex('by_document_and_page', (q) => q.eq('documentId', args.documentId).eq('pageNumber', pageNumber))
+            .order('desc')
+            .take(MAX_EDITS);
+
+    const userNames = new Map<string, string>();
+    for (const edit of edits) {
+      if (userNames.has(edit.userId)) continue;
+      const user = await ctx.db.get(edit.userId);
+      userNames.set(edit.userId, user?.name ?? user?.email ?? 'Usuario eliminado');
+    }
+
+    return edits.map((edit) => ({
+      _id: edit._id,
+      editedAt: edit.editedAt,
+      userName: userNames.get(edit.userId) ?? 'Usuario eliminado',
+      pageNumber: edit.pageNumber,
+      rowType: edit.rowType,
+      rowKey: edit.rowKey,
+      change: edit.change,
+      field: edit.field,
+      oldValue: edit.oldValue,
+      newValue: edit.newValue,
+      source: edit.source,
+    }));
+  },
+});
@@ -0,0 +1,338 @@
+import { z } from 'zod';
+import {
+  MODEL,
+  callGeminiDirect,
+  callOpenRouter,
+  withRetry,
+  type MediaResolution,
+  type RetryPolicy,
+} from './pdf-extraction';
+
+/**
+ * Provider layer for model calls.
+ *
+ * The provider is picked with the `EXTRACTION_PROVIDER` environment variable:
+ * - `gemini` (default): Gemini API directly, requires `GEMINI_API_KEY`
+ * - `openrouter`: same model through OpenRouter, requires `OPENROUTER_API_KEY`
+ * - `mock`: deterministic fixtures, no network access. `MOCK_EXTRACTION_FIXTURES`
+ *   can hold a JSON `{ pages, summary }` object to override the built-in fixtures.
+ *
+ * Page extraction can run several variants per page and merge them by consensus.
+ * `EXTRACTION_CONSENSUS_VARIANTS` is a comma-separated list of `provider[:modelId][@resolution]`
+ * entries, e.g. `gemini@high,gemini@medium` or `gemini,openrouter`. The first entry is the primary.
+ */
+
+export type ExtractionProviderName = 'gemini' | 'openrouter' | 'mock';
+
+export type ExtractionTask = 'pages' | 'summary';
+
+export interface ExtractionRequest<T> {
+  task: ExtractionTask;
+  prompt: string;
+  schema: z.ZodType<T>;
+  jsonSchema: Record<string, unknown>;
+  mediaResolution?: MediaResolution;
+}
+
+export interface ExtractionUsage {
+  promptTokens: number | null;
+  completionTokens: number | null;
+  totalTokens: number | null;
+}
+
+export interface ExtractionResult<T> {
+  raw: unknown;
+  parsed: T;
+  usage: ExtractionUsage;
+}
+
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  // Vendor-specific model id sent with each request
+  modelId: string;
+  extract<T>(pdfBase64: string, request: ExtractionRequest<T>): Promise<ExtractionResult<T>>;
+}
+
+export function createGeminiProvider(apiKey: string, modelId: string = MODEL.geminiId): ExtractionProvider {
+  return {
+    name: 'gemini',
+    modelId,
+    async extract(pdfBase64, request) {
+      const { raw, parsed } = await callGeminiDirect(pdfBase64, apiKey, {
+        prompt: request.prompt,
+        schema: request.schema,
+        jsonSchema: request.jsonSchema,
+        modelId,
+        mediaResolution: request.mediaResolution,
+      });
+
+      return {
+        raw,
+        parsed,
+        usage: {
+          promptTokens: raw.usageMetadata?.promptTokenCount ?? null,
+          completionTokens: raw.usageMetadata?.candidatesTokenCount ?? null,
+          totalTokens: raw.usageMetadata?.totalTokenCount ?? null,
+        },
+      };
+    },
+  };
+}
+
+export function createOpenRouterProvider(apiKey: string, modelId: string = MODEL.openrouterId): ExtractionProvider {
+  return {
+    name: 'openrouter',
+    modelId,
+    // OpenRouter has no media resolution setting, so it is ignored here
+    async extract(pdfBase64, request) {
+      const { raw, parsed } = await callOpenRouter(pdfBase64, apiKey, {
+        prompt: request.prompt,
+        schema: request.schema,
+        jsonSchema: request.jsonSchema,
+        modelId,
+      });
+
+      return {
+        raw,
+        parsed,
+        usage: {
+          promptTokens: raw.usage?.prompt_tokens ?? null,
+          completionTokens: raw.usage?.completion_tokens ?? null,
+          totalTokens: raw.usage?.total_tokens ?? null,
+        },
+      };
+    },
+  };
+}
+
+export type MockFixtures = {
+  // One response per page fixture; each page PDF is mapped to one of them by content hash
+  pages: unknown[];
+  summary: unknown;
+};
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  pages: [
+    {
+      ingress: [
+        {
+          fecha: '01-03-2024',
+          reciboNumero: '0001',
+          contribuyenteNombre: 'Contribuyente de Prueba',
+          representanteLegal: null,
+          cedulaRuc: '8-123-456',
+          direccion: null,
+          telefono: null,
+          correoElectronico: null,
+          donacionesPrivadasEfectivo: 500,
+          donacionesPrivadasChequeAch: null,
+          donacionesPrivadasEspecie: null,
+          recursosPropiosEfectivoCheque: null,
+          recursosPropiosEspecie: null,
+          total: 500,
+          unreadableFields: [],
+        },
+      ],
+      egress: [],
+    },
+    {
+      ingress: [],
+      egress: [
+        {
+          fecha: '05-03-2024',
+          numeroFacturaRecibo: 'F-100',
+          cedulaRuc: '155-123-456',
+          proveedorNombre: 'Proveedor de Prueba, S.A.',
+          detalleGasto: 'Impresión de volantes',
+          pagoTipo: 'Efectivo',
+          movilizacion: null,
+          combustible: null,
+          hospedaje: null,
+          activistas: null,
+          caravanaConcentraciones: null,
+          comidaBrindis: null,
+          alquilerLocalServiciosBasicos: null,
+          cargosBancarios: null,
+          totalGastosCampania: null,
+          personalizacionArticulosPromocionales: null,
+          propagandaElectoral: 250,
+          totalGastosPropaganda: 250,
+          totalDeGastosDePropagandaYCampania: 250,
+          unreadableFields: [],
+        },
+      ],
+    },
+  ],
+  summary: {
+    saldoPrimariasRecoleccionFirmas: 0,
+    donacionesRecibidasEfectivoChequeAch: 500,
+    donacionesEnEspecie: 0,
+    aporteRecursosPropios: 0,
+    totalIngresos: 500,
+    gastosComprasEfectuadas: 250,
+    gastosDonatcionEnEspecie: 0,
+    cargosBancarios: 0,
+    totalGastos: 250,
+    totalResultado: 250,
+    formType: 'Pre-15',
+    candidatoNombre: 'Candidato de Prueba',
+    candidatoCedula: '8-000-000',
+    unreadableFields: [],
+    pageNumber: 1,
+  },
+};
+
+/**
+ * Small FNV-1a hash so the same page always maps to the same fixture
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createMockProvider(fixtures: MockFixtures = DEFAULT_MOCK_FIXTURES): ExtractionProvider {
+  return {
+    name: 'mock',
+    modelId: 'mock-fixtures',
+    async extract(pdfBase64, request) {
+      let fixture: unknown;
+      if (request.task === 'summary') {
+        fixture = fixtures.summary;
+      } else {
+        if (fixtures.pages.length === 0) {
+          throw new Error('Mock provider has no page fixtures');
+        }
+        fixture = fixtures.pages[hashString(pdfBase64) % fixtures.pages.length];
+      }
+
+      // Run fixtures through the same schema as real responses
+      const parsed = request.schema.parse(structuredClone(fixture));
+
+      return {
+        raw: fixture,
+        parsed,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      };
+    },
+  };
+}
+
+/**
+ * Retry retryable failures (429, 5xx, network) with jittered backoff that honors Retry-After
+ */
+export function withRetries(
+  provider: ExtractionProvider,
+  options: {
+    policy?: RetryPolicy;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  } = {},
+): ExtractionProvider {
+  return {
+    ...provider,
+    extract: (pdfBase64, request) => withRetry(() => provider.extract(pdfBase64, request), options),
+  };
+}
+
+/**
+ * Wait for `acquire` to hand out a slot before every call (including each retry)
+ */
+export function withRateLimit(provider: ExtractionProvider, acquire: () => Promise<void>): ExtractionProvider {
+  return {
+    ...provider,
+    extract: async (pdfBase64, request) => {
+      await acquire();
+      return provider.extract(pdfBase64, request);
+    },
+  };
+}
+
+/**
+ * Build the provider selected by environment configuration
+ */
+export function resolveExtractionProvider(env: Record<string, string | undefined> = process.env): ExtractionProvider {
+  return createProviderByName(env.EXTRACTION_PROVIDER ?? 'gemini', env);
+}
+
+function createProviderByName(
+  providerName: string,
+  env: Record<string, string | undefined>,
+  modelId?: string,
+): ExtractionProvider {
+  const name = providerName.trim().toLowerCase();
+
+  switch (name) {
+    case 'gemini': {
+      if (!env.GEMINI_API_KEY) {
+        throw new Error('GEMINI_API_KEY is not set');
+      }
+      return createGeminiProvider(env.GEMINI_API_KEY, modelId);
+    }
+    case 'openrouter': {
+      if (!env.OPENROUTER_API_KEY) {
+        throw new Error('OPENROUTER_API_KEY is not set');
+      }
+      return createOpenRouterProvider(env.OPENROUTER_API_KEY, modelId);
+    }
+    case 'mock': {
+      const fixtures = env.MOCK_EXTRACTION_FIXTURES
+        ? (JSON.parse(env.MOCK_EXTRACTION_FIXTURES) as MockFixtures)
+        : DEFAULT_MOCK_FIXTURES;
+      return createMockProvider(fixtures);
+    }
+    default:
+      throw new Error(`Unknown EXTRACTION_PROVIDER: ${name}`);
+  }
+}
+
+export interface ExtractionVariant {
+  // Short label stored with the variant's extraction, e.g. `gemini@high`
+  label: string;
+  provider: ExtractionProvider;
+  mediaResolution: MediaResolution;
+}
+
+const MEDIA_RESOLUTIONS: Record<string, MediaResolution> = {
+  low: 'MEDIA_RESOLUTION_LOW',
+  medium: 'MEDIA_RESOLUTION_MEDIUM',
+  high: 'MEDIA_RESOLUTION_HIGH',
+  ultra_high: 'MEDIA_RESOLUTION_ULTRA_HIGH',
+};
+
+/**
+ * Page extraction variants to run and merge. Without consensus configuration this is the
+ * single configured provider at high resolution.
+ */
+export function resolveExtractionVariants(env: Record<string, string | undefined> = process.env): ExtractionVariant[] {
+  const spec = env.EXTRACTION_CONSENSUS_VARIANTS?.trim();
+  if (!spec) {
+    const provider = resolveExtractionProvider(env);
+    return [{ label: `${provider.name}@high`, provider, mediaResolution: 'MEDIA_RESOLUTION_HIGH' }];
+  }
+
+  return spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [target, resolutionName = 'high'] = entry.split('@');
+      const separator = target.indexOf(':');
+      const providerName = separator === -1 ? target : target.slice(0, separator);
+      const modelId = separator === -1 ? undefined : target.slice(separator + 1);
+
+      const mediaResolution = MEDIA_RESOLUTIONS[resolutionName.trim().toLowerCase()];
+      if (!mediaResolution) {
+        throw new Error(`Unknown media resolution in EXTRACTION_CONSENSUS_VARIANTS: ${entry}`);
+      }
+
+      const provider = createProviderByName(providerName, env, modelId || undefined);
+      return {
+        label: `${provider.name}${modelId ? `:${modelId}` : ''}@${resolutionName.trim().toLowerCase()}`,
+        provider,
+        mediaResolution,
+      };
+    });
+}
@@ -139,6 +139,93 @@ export const RESPONSE_JSON_SCHEMA = {
   required: ['ingress', 'egress'],
 };
 
+/**
+ * Error returned by a model API, with the HTTP status and any server-requested retry delay
+ */
+export class ModelApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = 'ModelApiError';
+  }
+}
+
+/**
+ * Read the retry delay from a `Retry-After` header (seconds or HTTP date) or,
+ * for Gemini, from the `retryDelay` field of the error body
+ */
+export function parseRetryAfter(header: string | null, body?: string): number | null {
+  if (header) {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const retryDelay = body?.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Number(retryDelay[1]) * 1000;
+
+  return null;
+}
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Rate limits, server errors and network failures are worth retrying; bad responses are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ModelApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch() rejects with a TypeError on network failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Delay before the next attempt: full jitter exponential backoff, never shorter than Retry-After
+ */
+export function retryDelayMs(error: unknown, attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const backoff = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const retryAfter = error instanceof ModelApiError ? (error.retryAfterMs ?? 0) : 0;
+  return Math.max(backoff, retryAfter);
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: {
+    policy?: RetryPolicy;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  } = {},
+): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = retryDelayMs(error, attempt, policy);
+      options.onRetry?.(error, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
 export interface OpenRouterRawResponse {
   choices?: { message?: { content?: string } }[];
   usage?: {
@@ -148,11 +235,18 @@ export interface OpenRouterRawResponse {
   };
 }
 
-export async function callOpenRouter(
+export async function callOpenRouter<T>(
   pdfBase64: string,
   apiKey: string,
-  modelId: string = MODEL.openrouterId,
-): Promise<{ raw: OpenRouterRawResponse; parsed: ExtractionResponse }> {
+  options: {
+    prompt: string;
+    schema: z.ZodType<T>;
+    jsonSchema: Record<string, unknown>;
+    modelId?: string;
+  },
+): Promise<{ raw: OpenRouterRawResponse; parsed: T }> {
+  const modelId = options.modelId ?? MODEL.openrouterId;
+
   const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
     method: 'POST',
     headers: {
@@ -165,7 +259,7 @@ export async function callOpenRouter(
         {
           role: 'user',
           content: [
-            { type: 'text', text: EXTRACTION_PROMPT },
+            { type: 'text', text: options.prompt },
             {
               type: 'image_url',
               image_url: {
@@ -180,7 +274,7 @@ export async function callOpenRouter(
         json_schema: {
           name: 'extraction_response',
           strict: true,
-          schema: RESPONSE_JSON_SCHEMA,
+          schema: options.jsonSchema,
         },
       },
       provider: {
@@ -192,7 +286,11 @@ export async function callOpenRouter(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${error}`);
+    throw new ModelApiError(
+      `OpenRouter API error: ${response.status} - ${error}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'), error),
+    );
   }
 
   const result = (await response.json()) as OpenRouterRawResponse;
@@ -203,7 +301,7 @@ export async function callOpenRouter(
   }
 
   const parsed = JSON.parse(content);
-  const validated = ResponseSchema.parse(parsed);
+  const validated = options.schema.parse(parsed);
 
   return {
     raw: result,
@@ -279,13 +377,20 @@ export async function callGeminiDirect<T>(
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${error}`);
+    throw new ModelApiError(
+      `Gemini API error: ${response.status} - ${error}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'), error),
+    );
   }
 
   const result = (await response.json()) as GeminiRawResponse;
 
   if (result.error) {
-    throw new Error(`Gemini API error: ${result.error.code} - ${result.error.message}`);
+    throw new ModelApiError(
+      `Gemini API error: ${result.error.code} - ${result.error.message}`,
+      result.error.code ?? 500,
+    );
   }
 
   const content = result.candidates?.[0]?.content?.parts?.[0]?.text;
@@ -0,0 +1,149 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+
+/**
+ * Which affidavits scraper.ts downloads.
+ *
+ * Settings come from the defaults below (the 2022–2024 general election: every presidential
+ * candidate plus the proclaimed deputies and mayors), then an optional JSON config file, then
+ * command-line options:
+ *
+ *   bun run scraper.ts [--config scraper.config.json] [--dry-run]
+ *     [--event-category <name|any>] [--start-year <year|any>] [--end-year <year|any>]
+ *     [--position <name>[:proclaimed] ...] [--all-positions] [--proclaimed-only]
+ *     [--party <name> ...] [--province <name> ...]
+ *
+ * Names are compared case- and accent-insensitively. `--position` replaces the configured
+ * positions; `:proclaimed` limits that position to proclaimed candidates.
+ */
+
+const PositionFilterSchema = z.object({
+  name: z.string(),
+  proclaimedOnly: z.boolean().default(false),
+});
+
+const ScraperConfigSchema = z.object({
+  // null matches any event category / year
+  eventCategory: z.string().nullable().default('Elección General'),
+  startYear: z.number().nullable().default(2022),
+  endYear: z.number().nullable().default(2024),
+  // Empty matches every position
+  positions: z.array(PositionFilterSchema).default([
+    // All presidential candidates (including the president)
+    { name: 'presidente', proclaimedOnly: false },
+    // 71 elected deputies
+    { name: 'diputado(a)', proclaimedOnly: true },
+    // 81 elected mayors
+    { name: 'alcalde', proclaimedOnly: true },
+  ]),
+  proclaimedOnly: z.boolean().default(false),
+  // Empty matches every party / province
+  parties: z.array(z.string()).default([]),
+  provinces: z.array(z.string()).default([]),
+});
+
+export type ScraperConfig = z.infer<typeof ScraperConfigSchema>;
+
+// The listing fields the filters look at
+export type FilterableEntry = {
+  isProclaimed: boolean;
+  Party?: { name: string } | null;
+  Postulation: {
+    Event: { Period: { startYear: number; endYear: number }; EventCategory: { name: string } };
+    Position: { name: string };
+    Province?: { name: string } | null;
+  };
+};
+
+function normalizeName(value: string | null | undefined): string {
+  return (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function parseYear(value: string): number | null {
+  if (value === 'any') return null;
+  const year = Number(value);
+  if (!Number.isInteger(year)) {
+    throw new Error(`Invalid year: ${value}`);
+  }
+  return year;
+}
+
+/**
+ * Resolve the scraper settings from the command line (and the config file it points to)
+ */
+export async function loadScraperConfig(argv: string[]): Promise<{ config: ScraperConfig; dryRun: boolean }> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      'config': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'event-category': { type: 'string' },
+      'start-year': { type: 'string' },
+      'end-year': { type: 'string' },
+      'position': { type: 'string', multiple: true },
+      'all-positions': { type: 'boolean', default: false },
+      'proclaimed-only': { type: 'boolean', default: false },
+      'party': { type: 'string', multiple: true },
+      'province': { type: 'string', multiple: true },
+    },
+  });
+
+  const fileConfig = values.config ? JSON.parse(await readFile(values.config, 'utf8')) : {};
+  const config = ScraperConfigSchema.parse(fileConfig);
+
+  if (values['event-category'] !== undefined) {
+    config.eventCategory = values['event-category'] === 'any' ? null : values['event-category'];
+  }
+  if (values['start-year'] !== undefined) config.startYear = parseYear(values['start-year']);
+  if (values['end-year'] !== undefined) config.endYear = parseYear(values['end-year']);
+  if (values['all-positions']) config.positions = [];
+  if (values.position) {
+    config.positions = values.position.map((position) => {
+      const [name, modifier] = position.split(':');
+      return { name, proclaimedOnly: modifier === 'proclaimed' };
+    });
+  }
+  if (values['proclaimed-only']) config.proclaimedOnly = true;
+  if (values.party) config.parties = values.party;
+  if (values.province) config.provinces = values.province;
+
+  return { config, dryRun: values['dry-run'] };
+}
+
+/**
+ * Whether an affidavit from the listing matches the configured filters
+ */
+export function matchesConfig(entry: FilterableEntry, config: ScraperConfig): boolean {
+  const { Event, Position, Province } = entry.Postulation;
+
+  if (
+    config.eventCategory !== null &&
+    normalizeName(Event.EventCategory.name) !== normalizeName(config.eventCategory)
+  ) {
+    return false;
+  }
+  if (config.startYear !== null && Event.Period.startYear !== config.startYear) return false;
+  if (config.endYear !== null && Event.Period.endYear !== config.endYear) return false;
+  if (config.proclaimedOnly && !entry.isProclaimed) return false;
+
+  if (config.positions.length > 0) {
+    const position = config.positions.find((filter) => normalizeName(filter.name) === normalizeName(Position.name));
+    if (!position) return false;
+    if (position.proclaimedOnly && !entry.isProclaimed) return false;
+  }
+
+  if (config.parties.length > 0) {
+    const party = normalizeName(entry.Party?.name);
+    if (!config.parties.some((filter) => normalizeName(filter) === party)) return false;
+  }
+  if (config.provinces.length > 0) {
+    const province = normalizeName(Province?.name);
+    if (!config.provinces.some((filter) => normalizeName(filter) === province)) return false;
+  }
+  return true;
+}
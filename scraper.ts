@@ -1,14 +1,17 @@
-import { readFile, mkdir, writeFile } from "fs/promises";
+import { readFile, mkdir, writeFile, rename, appendFile } from "fs/promises";
 import { existsSync } from "fs";
+import { createHash } from "crypto";
 import { join } from "path";
 import { z } from "zod";
 import pMap from "p-map";
+import { loadScraperConfig, matchesConfig } from "./scraper-config";
 
 // Disable SSL verification for this government site with certificate issues
 process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
 
 const BASE_URL = "https://ingresosygastos.te.gob.pa/api/public";
 const DATA_DIR = "./data";
+const CHANGELOG_DIR = join(DATA_DIR, "changelog");
 
 // Zod schemas with passthrough() to keep unknown keys
 
@@ -27,6 +30,8 @@ const AffidavitSummarySchema = z
     candidateId: z.string(),
     status: z.string(),
     isProclaimed: z.boolean(),
+    updatedAt: z.string().optional(),
+    Party: z.object({ name: z.string() }).passthrough().nullish(),
     Candidate: z
       .object({
         firstName: z.string().nullable(),
@@ -56,6 +61,7 @@ const AffidavitSummarySchema = z
             name: z.string(),
           })
           .passthrough(),
+        Province: z.object({ name: z.string() }).passthrough().nullish(),
       })
       .passthrough(),
   })
@@ -130,48 +136,171 @@ async function fetchAllPages<T>(
   return all;
 }
 
-async function downloadPdf(url: string, destPath: string): Promise<void> {
+// One downloaded copy of a PDF
+type PdfVersion = {
+  version: number;
+  key: string;
+  url: string;
+  // Relative to the entry directory
+  path: string;
+  sha256: string;
+  downloadedAt: string;
+};
+
+// What has been scraped for an entry (data/entries/<id>/manifest.json)
+type EntryManifest = {
+  affidavitId: string;
+  // Affidavit updatedAt when it was last scraped completely
+  updatedAt: string | null;
+  scrapedAt: string;
+  // Versions of each PDF by file name, oldest first; the last one is the file in pdfs/
+  pdfs: Record<string, PdfVersion[]>;
+};
+
+type EntryChange = {
+  id: string;
+  candidateName: string;
+  status: "new" | "changed";
+  changes: string[];
+};
+
+type AffidavitDocument = z.infer<typeof AffidavitDocumentSchema>;
+
+function sha256(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+async function downloadPdf(url: string): Promise<Buffer> {
   const res = await fetch(url);
   if (!res.ok) {
     throw new Error(`Failed to download PDF: ${res.status}`);
   }
-  const buffer = await res.arrayBuffer();
-  await writeFile(destPath, Buffer.from(buffer));
+  return Buffer.from(await res.arrayBuffer());
 }
 
-async function isEntryComplete(entryDir: string): Promise<boolean> {
-  const metaPath = join(entryDir, "_complete.json");
-  return existsSync(metaPath);
+function candidateName(entry: AffidavitSummary): string {
+  return (
+    [entry.Candidate.firstName, entry.Candidate.lastName]
+      .filter(Boolean)
+      .join(" ") || entry.id
+  );
 }
 
-async function markEntryComplete(entryDir: string): Promise<void> {
-  const metaPath = join(entryDir, "_complete.json");
+// PDFs of an affidavit by the file name they are saved under
+function pdfDocuments(detail: {
+  AffidavitDocument: AffidavitDocument[];
+  AffidavitDocumentAudit: AffidavitDocument[];
+}): Array<{ fileName: string; doc: AffidavitDocument }> {
+  const fileNameOf = (doc: AffidavitDocument) =>
+    doc.key.split("/").pop() || `${doc.id}.pdf`;
+  const isPdf = (doc: AffidavitDocument) =>
+    Boolean(doc.url) && doc.mimeType === "application/pdf";
+
+  return [
+    ...(detail.AffidavitDocument || [])
+      .filter(isPdf)
+      .map((doc) => ({ fileName: fileNameOf(doc), doc })),
+    ...(detail.AffidavitDocumentAudit || [])
+      .filter(isPdf)
+      .map((doc) => ({ fileName: `audit_${fileNameOf(doc)}`, doc })),
+  ];
+}
+
+async function writeManifest(
+  entryDir: string,
+  manifest: EntryManifest
+): Promise<void> {
   await writeFile(
-    metaPath,
-    JSON.stringify({ completedAt: new Date().toISOString() })
+    join(entryDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2)
   );
 }
 
-async function scrapeEntry(id: string): Promise<void> {
-  const entryDir = join(DATA_DIR, "entries", id);
+/**
+ * Manifest of an entry, or null if it was never scraped. Entries scraped before manifests
+ * existed (marked with _complete.json) get one built from the files on disk.
+ */
+async function readManifest(
+  id: string,
+  entryDir: string
+): Promise<EntryManifest | null> {
+  const manifestPath = join(entryDir, "manifest.json");
+  if (existsSync(manifestPath)) {
+    return JSON.parse(await readFile(manifestPath, "utf8"));
+  }
 
-  // Check if already downloaded
-  if (await isEntryComplete(entryDir)) {
-    console.log(`Skipping ${id} - already complete`);
-    return;
+  const detailPath = join(entryDir, "detail.json");
+  if (!existsSync(join(entryDir, "_complete.json")) || !existsSync(detailPath)) {
+    return null;
   }
 
-  await mkdir(entryDir, { recursive: true });
+  const detail = AffidavitDetailSchema.parse(
+    JSON.parse(await readFile(detailPath, "utf8"))
+  );
+  const manifest: EntryManifest = {
+    affidavitId: id,
+    updatedAt: detail.updatedAt,
+    scrapedAt: new Date().toISOString(),
+    pdfs: {},
+  };
+  for (const { fileName, doc } of pdfDocuments(detail)) {
+    const path = join("pdfs", fileName);
+    if (!existsSync(join(entryDir, path))) continue;
+    manifest.pdfs[fileName] = [
+      {
+        version: 1,
+        key: doc.key,
+        url: doc.url,
+        path,
+        sha256: sha256(await readFile(join(entryDir, path))),
+        downloadedAt: manifest.scrapedAt,
+      },
+    ];
+  }
+  await writeManifest(entryDir, manifest);
+  return manifest;
+}
+
+/**
+ * Scrape an entry, re-downloading only what changed since the last run.
+ * Returns what changed, or null when nothing did.
+ */
+async function scrapeEntry(entry: AffidavitSummary): Promise<EntryChange | null> {
+  const id = entry.id;
+  const entryDir = join(DATA_DIR, "entries", id);
   const pdfsDir = join(entryDir, "pdfs");
-  await mkdir(pdfsDir, { recursive: true });
+  const previous = await readManifest(id, entryDir);
 
-  console.log(`Scraping entry ${id}...`);
+  // The listing carries updatedAt, so unchanged entries cost no extra request
+  if (previous && entry.updatedAt && entry.updatedAt === previous.updatedAt) {
+    return null;
+  }
+
+  await mkdir(join(pdfsDir, "versions"), { recursive: true });
 
   // 1. Fetch main entry details
   const detail = await fetchJson(
     `${BASE_URL}/affidavit/${id}`,
     AffidavitDetailSchema
   );
+  const documents = pdfDocuments(detail);
+  const knownKeys = new Set(
+    Object.values(previous?.pdfs ?? {}).map((versions) => versions.at(-1)!.key)
+  );
+  if (
+    previous &&
+    detail.updatedAt === previous.updatedAt &&
+    documents.every(({ doc }) => knownKeys.has(doc.key))
+  ) {
+    return null;
+  }
+
+  console.log(`Scraping entry ${id}...`);
+  const changes: string[] = [];
+  if (previous && previous.updatedAt !== detail.updatedAt) {
+    changes.push(`updatedAt ${previous.updatedAt} -> ${detail.updatedAt}`);
+  }
+
   await writeFile(
     join(entryDir, "detail.json"),
     JSON.stringify(detail, null, 2)
@@ -211,49 +340,133 @@ async function scrapeEntry(id: string): Promise<void> {
   );
   console.log(`  - Saved donations.json (${donations.length} records)`);
 
-  // 5. Download PDFs
-  for (const doc of detail.AffidavitDocument || []) {
-    if (doc.url && doc.mimeType === "application/pdf") {
-      const filename = doc.key.split("/").pop() || `${doc.id}.pdf`;
-      const pdfPath = join(pdfsDir, filename);
-      try {
-        console.log(`  - Downloading PDF: ${filename}`);
-        await downloadPdf(doc.url, pdfPath);
-      } catch (err) {
-        console.error(`  - Failed to download PDF ${filename}:`, err);
-      }
+  // 5. Download new or replaced PDFs (including audit documents), keeping older versions
+  const manifest: EntryManifest = {
+    affidavitId: id,
+    updatedAt: detail.updatedAt,
+    scrapedAt: new Date().toISOString(),
+    pdfs: structuredClone(previous?.pdfs ?? {}),
+  };
+  let allDownloaded = true;
+
+  for (const { fileName, doc } of documents) {
+    const versions = (manifest.pdfs[fileName] ??= []);
+    const current = versions.at(-1);
+    if (current?.key === doc.key) continue;
+
+    let buffer: Buffer;
+    try {
+      console.log(`  - Downloading PDF: ${fileName}`);
+      buffer = await downloadPdf(doc.url);
+    } catch (err) {
+      console.error(`  - Failed to download PDF ${fileName}:`, err);
+      allDownloaded = false;
+      continue;
+    }
+
+    const hash = sha256(buffer);
+    if (current?.sha256 === hash) {
+      // Same file re-uploaded under a new key
+      current.key = doc.key;
+      current.url = doc.url;
+      continue;
+    }
+
+    const path = join("pdfs", fileName);
+    if (current) {
+      const archivedPath = join(
+        "pdfs",
+        "versions",
+        `${fileName.replace(/\.pdf$/i, "")}.v${current.version}.pdf`
+      );
+      await rename(join(entryDir, path), join(entryDir, archivedPath));
+      current.path = archivedPath;
     }
+    await writeFile(join(entryDir, path), buffer);
+
+    versions.push({
+      version: (current?.version ?? 0) + 1,
+      key: doc.key,
+      url: doc.url,
+      path,
+      sha256: hash,
+      downloadedAt: new Date().toISOString(),
+    });
+    changes.push(
+      current
+        ? `${fileName} replaced (v${current.version + 1})`
+        : `${fileName} added`
+    );
   }
 
-  // 6. Download audit documents if any
-  for (const doc of detail.AffidavitDocumentAudit || []) {
-    if (doc.url && doc.mimeType === "application/pdf") {
-      const filename = `audit_${doc.key.split("/").pop() || `${doc.id}.pdf`}`;
-      const pdfPath = join(pdfsDir, filename);
-      try {
-        console.log(`  - Downloading audit PDF: ${filename}`);
-        await downloadPdf(doc.url, pdfPath);
-      } catch (err) {
-        console.error(`  - Failed to download audit PDF ${filename}:`, err);
-      }
+  for (const fileName of Object.keys(previous?.pdfs ?? {})) {
+    if (!documents.some((document) => document.fileName === fileName)) {
+      changes.push(`${fileName} no longer listed on the portal`);
     }
   }
 
-  // Mark as complete
-  await markEntryComplete(entryDir);
-  console.log(`  - Entry ${id} complete!`);
+  // A failed download leaves the old updatedAt so the next run retries the entry
+  if (!allDownloaded) {
+    manifest.updatedAt = previous?.updatedAt ?? null;
+  }
+  await writeManifest(entryDir, manifest);
+  console.log(`  - Entry ${id} ${allDownloaded ? "complete!" : "incomplete"}`);
+
+  return {
+    id,
+    candidateName: candidateName(entry),
+    status: previous ? "changed" : "new",
+    changes,
+  };
+}
+
+async function writeChangelog(
+  runAt: string,
+  changed: EntryChange[],
+  failed: string[]
+): Promise<void> {
+  const newEntries = changed.filter((entry) => entry.status === "new");
+  const changedEntries = changed.filter((entry) => entry.status === "changed");
+
+  await mkdir(CHANGELOG_DIR, { recursive: true });
+  await writeFile(
+    join(CHANGELOG_DIR, `${runAt.replace(/[:.]/g, "-")}.json`),
+    JSON.stringify(
+      { runAt, new: newEntries, changed: changedEntries, failed },
+      null,
+      2
+    )
+  );
+
+  const lines = [
+    `## ${runAt}`,
+    "",
+    `New affidavits: ${newEntries.length}`,
+    ...newEntries.map((entry) => `- ${entry.candidateName} (${entry.id})`),
+    "",
+    `Changed affidavits: ${changedEntries.length}`,
+    ...changedEntries.map(
+      (entry) =>
+        `- ${entry.candidateName} (${entry.id}): ${entry.changes.join("; ")}`
+    ),
+    "",
+    ...(failed.length > 0
+      ? [`Failed: ${failed.length}`, ...failed.map((id) => `- ${id}`), ""]
+      : []),
+  ];
+  await appendFile(join(DATA_DIR, "CHANGELOG.md"), lines.join("\n") + "\n");
 }
 
+const { config, dryRun } = await loadScraperConfig(process.argv.slice(2));
+
 await mkdir(join(DATA_DIR, "entries"), { recursive: true });
 
 console.log("Fetching list of all entries...");
 
+// Refetched every run so new affidavits and updatedAt changes show up; the cached copy is only
+// a fallback when the portal is unreachable
 let allEntries: AffidavitSummary[];
-if (existsSync(join(DATA_DIR, "all_entries.json"))) {
-  allEntries = JSON.parse(
-    await readFile(join(DATA_DIR, "all_entries.json"), "utf8")
-  );
-} else {
+try {
   allEntries = await fetchAllPages(
     `${BASE_URL}/affidavit?sortKey=Candidate.firstName|Candidate.lastName&sortOrder=asc`,
     AffidavitSummarySchema
@@ -262,47 +475,66 @@ if (existsSync(join(DATA_DIR, "all_entries.json"))) {
     join(DATA_DIR, "all_entries.json"),
     JSON.stringify(allEntries)
   );
+} catch (err) {
+  if (!existsSync(join(DATA_DIR, "all_entries.json"))) throw err;
+  console.warn("Failed to fetch the entry list, using the cached copy:", err);
+  allEntries = JSON.parse(
+    await readFile(join(DATA_DIR, "all_entries.json"), "utf8")
+  );
 }
 
-const entries = allEntries.filter((entry) => {
-  const proclaimed = entry.isProclaimed;
-  const position = entry.Postulation?.Position?.name.toLowerCase();
-
-  if (entry.Postulation.Event.EventCategory.name !== "Elección General")
-    return false;
-  if (entry.Postulation.Event.Period.startYear !== 2022) return false;
-  if (entry.Postulation.Event.Period.endYear !== 2024) return false;
-
-  // Include: 71 elected deputies, 81 elected mayors, 8 presidential candidates
-  if (position === "presidente") {
-    // All presidential candidates (including the president)
-    return true;
-  }
-  if (position === "diputado(a)" && proclaimed) {
-    // 71 elected deputies
-    return true;
-  }
-  if (position === "alcalde" && proclaimed) {
-    // 81 elected mayors
-    return true;
-  }
-  return false;
-});
+const entries = allEntries.filter((entry) => matchesConfig(entry, config));
 
 console.log(
   `Found ${allEntries.length} total entries, ${entries.length} to scrape`
 );
 
+if (dryRun) {
+  const countBy = (key: (entry: AffidavitSummary) => string) => {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      counts.set(key(entry), (counts.get(key(entry)) ?? 0) + 1);
+    }
+    return Object.fromEntries(
+      [...counts].sort(([a], [b]) => a.localeCompare(b))
+    );
+  };
+
+  console.log("Filters:", JSON.stringify(config, null, 2));
+  console.log("By position:");
+  console.table(
+    countBy(
+      (entry) =>
+        `${entry.Postulation.Position.name}${entry.isProclaimed ? " (proclaimed)" : ""}`
+    )
+  );
+  console.log("By party:");
+  console.table(countBy((entry) => entry.Party?.name ?? "—"));
+  console.log("By province:");
+  console.table(countBy((entry) => entry.Postulation.Province?.name ?? "—"));
+  process.exit(0);
+}
+
+const runAt = new Date().toISOString();
+const changed: EntryChange[] = [];
+const failed: string[] = [];
+
 await pMap(
   entries,
   async (entry) => {
     try {
-      await scrapeEntry(entry.id);
+      const change = await scrapeEntry(entry);
+      if (change) changed.push(change);
     } catch (err) {
       console.error(`Failed to scrape entry ${entry.id}:`, err);
+      failed.push(entry.id);
     }
   },
   { concurrency: 30 }
 );
 
-console.log("Done!");
+await writeChangelog(runAt, changed, failed);
+
+console.log(
+  `Done! ${changed.length} new or changed, ${failed.length} failed (see ${join(DATA_DIR, "CHANGELOG.md")})`
+);
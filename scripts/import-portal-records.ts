@@ -0,0 +1,133 @@
+/**
+ * Loads the ingress, egress and donation records saved by scraper.ts (data/entries/<id>/*.json)
+ * into the Convex `portalRecords` table. Candidates must be seeded first (scripts/seed-candidates.ts).
+ *   bun run scripts/import-portal-records.ts [path-to-entries-dir] [--prod]
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+
+// Keeps each `convex run` argument well under the command-line length limit
+const BATCH_SIZE = 50;
+
+const RECORD_FILES = {
+  ingress: 'ingress.json',
+  egress: 'egress.json',
+  donation: 'donations.json',
+} as const;
+
+type RecordType = keyof typeof RECORD_FILES;
+type PortalRecord = Record<string, unknown>;
+
+const args = Bun.argv.slice(2);
+const prod = args.includes('--prod');
+const entriesDir = args.find((arg) => !arg.startsWith('--')) ?? join(import.meta.dirname, '..', 'data', 'entries');
+
+// The portal API is not documented, so each field is read from the first key that holds a value
+function pick(record: PortalRecord, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = key.split('.').reduce<unknown>((obj, part) => (obj as PortalRecord | null)?.[part], record);
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return null;
+}
+
+function pickString(record: PortalRecord, keys: string[]): string | null {
+  const value = pick(record, keys);
+  return value === null ? null : String(value).trim();
+}
+
+function pickNumber(record: PortalRecord, keys: string[]): number | null {
+  const value = pick(record, keys);
+  const amount = typeof value === 'number' ? value : Number(value);
+  return value === null || Number.isNaN(amount) ? null : amount;
+}
+
+function personName(record: PortalRecord, prefix: string): string | null {
+  const name = pickString(record, [`${prefix}.name`, `${prefix}.fullName`]);
+  if (name) return name;
+  const parts = ['firstName', 'middleName', 'lastName', 'secondLastName'].map((part) =>
+    pickString(record, [`${prefix}.${part}`]),
+  );
+  return parts.filter(Boolean).join(' ') || null;
+}
+
+function normalizeRecord(record: PortalRecord) {
+  const rawDate = pickString(record, ['date', 'fecha']);
+  return {
+    externalId: String(record.id),
+    fecha: rawDate ? rawDate.slice(0, 10) : null,
+    documentNumber: pickString(record, ['receiptNumber', 'invoiceNumber', 'documentNumber', 'number', 'reference']),
+    counterpartyName:
+      pickString(record, ['name', 'fullName', 'providerName', 'donorName']) ??
+      personName(record, 'Donor') ??
+      personName(record, 'Provider') ??
+      personName(record, 'Contributor'),
+    counterpartyIdNumber: pickString(record, [
+      'documentId',
+      'ruc',
+      'Donor.documentId',
+      'Provider.documentId',
+      'Provider.ruc',
+      'Contributor.documentId',
+    ]),
+    description: pickString(record, ['description', 'detail', 'concept', 'Category.name', 'category']),
+    amount: pickNumber(record, ['amount', 'total', 'value']),
+    raw: record,
+  };
+}
+
+function convexRun(recordType: RecordType, affidavitId: string, reset: boolean, records: PortalRecord[]) {
+  const result = Bun.spawnSync(
+    [
+      'npx',
+      'convex',
+      'run',
+      ...(prod ? ['--prod'] : []),
+      'portalRecords:importPortalRecords',
+      JSON.stringify({ affidavitId, recordType, reset, records: records.map(normalizeRecord) }),
+    ],
+    { stderr: 'inherit' },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`Import of ${recordType} records for ${affidavitId} failed`);
+  }
+  return JSON.parse(result.stdout.toString()) as { candidateFound: boolean; inserted: number };
+}
+
+const entryIds = await readdir(entriesDir);
+console.log(`Importing portal records for ${entryIds.length} entries from ${entriesDir}${prod ? ' (prod)' : ''}`);
+
+const totals = { ingress: 0, egress: 0, donation: 0 };
+const missingCandidates: string[] = [];
+
+for (const affidavitId of entryIds) {
+  for (const [recordType, fileName] of Object.entries(RECORD_FILES) as Array<[RecordType, string]>) {
+    const filePath = join(entriesDir, affidavitId, fileName);
+    if (!existsSync(filePath)) continue;
+
+    const records = JSON.parse(await readFile(filePath, 'utf-8')) as PortalRecord[];
+    let candidateFound = true;
+    // Always send the first batch, even when empty, so stale records get cleared
+    for (let i = 0; i === 0 || i < records.length; i += BATCH_SIZE) {
+      const result = convexRun(recordType, affidavitId, i === 0, records.slice(i, i + BATCH_SIZE));
+      if (!result.candidateFound) {
+        candidateFound = false;
+        break;
+      }
+      totals[recordType] += result.inserted;
+    }
+
+    if (!candidateFound) {
+      missingCandidates.push(affidavitId);
+      break;
+    }
+  }
+}
+
+console.log(`Imported ${totals.ingress} ingress, ${totals.egress} egress and ${totals.donation} donation records`);
+if (missingCandidates.length > 0) {
+  console.warn(`No candidate for ${missingCandidates.length} entries (run seed-candidates first):`);
+  console.warn(missingCandidates.join('\n'));
+}
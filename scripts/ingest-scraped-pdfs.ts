@@ -0,0 +1,112 @@
+/**
+ * Uploads the PDFs downloaded by scraper.ts (data/entries/<id>/pdfs/*.pdf, including audit_*.pdf)
+ * into Convex and starts their extraction. Files whose content was already ingested are skipped,
+ * so it is safe to run after every scrape. Seed candidates first so documents get linked.
+ *   bun run scripts/ingest-scraped-pdfs.ts [path-to-entries-dir] [--prod] [--dry-run]
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { join } from 'node:path';
+import { PDFDocument } from 'pdf-lib';
+
+// Content hashes checked per `convex run`
+const HASH_BATCH_SIZE = 100;
+
+type ScrapedPdf = {
+  affidavitId: string;
+  fileName: string;
+  path: string;
+  contentHash: string;
+};
+
+const args = Bun.argv.slice(2);
+const prod = args.includes('--prod');
+const dryRun = args.includes('--dry-run');
+const entriesDir = args.find((arg) => !arg.startsWith('--')) ?? join(import.meta.dirname, '..', 'data', 'entries');
+
+function convexRun<T>(functionName: string, functionArgs: Record<string, unknown>): T {
+  const result = Bun.spawnSync(
+    ['npx', 'convex', 'run', ...(prod ? ['--prod'] : []), functionName, JSON.stringify(functionArgs)],
+    { stderr: 'inherit' },
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`${functionName} failed`);
+  }
+  return JSON.parse(result.stdout.toString()) as T;
+}
+
+// Current PDFs of every entry (older versions in pdfs/versions are not ingested)
+const pdfs: ScrapedPdf[] = [];
+for (const affidavitId of await readdir(entriesDir)) {
+  const pdfsDir = join(entriesDir, affidavitId, 'pdfs');
+  if (!existsSync(pdfsDir)) continue;
+
+  for (const fileName of await readdir(pdfsDir)) {
+    if (!fileName.toLowerCase().endsWith('.pdf')) continue;
+    const path = join(pdfsDir, fileName);
+    const contentHash = createHash('sha256')
+      .update(await readFile(path))
+      .digest('hex');
+    pdfs.push({ affidavitId, fileName, path, contentHash });
+  }
+}
+
+const newHashes = new Set<string>();
+for (let i = 0; i < pdfs.length; i += HASH_BATCH_SIZE) {
+  const contentHashes = pdfs.slice(i, i + HASH_BATCH_SIZE).map((pdf) => pdf.contentHash);
+  for (const hash of convexRun<string[]>('documents:filterNewContentHashes', { contentHashes })) {
+    newHashes.add(hash);
+  }
+}
+
+// The same file can sit in more than one entry; ingest it once
+const seen = new Set<string>();
+const toIngest = pdfs.filter((pdf) => {
+  if (!newHashes.has(pdf.contentHash) || seen.has(pdf.contentHash)) return false;
+  seen.add(pdf.contentHash);
+  return true;
+});
+
+console.log(`Found ${pdfs.length} PDFs in ${entriesDir}, ${toIngest.length} not ingested yet${prod ? ' (prod)' : ''}`);
+if (dryRun) {
+  for (const pdf of toIngest) console.log(`  ${pdf.affidavitId}/${pdf.fileName}`);
+  process.exit(0);
+}
+
+let created = 0;
+let failed = 0;
+for (const [index, pdf] of toIngest.entries()) {
+  try {
+    const bytes = await readFile(pdf.path);
+    const pageCount = (await PDFDocument.load(bytes, { ignoreEncryption: true })).getPageCount();
+
+    const uploadUrl = convexRun<string>('documents:generateIngestUploadUrl', {});
+    const response = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/pdf' },
+      body: bytes,
+    });
+    if (!response.ok) {
+      throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+    }
+    const { storageId } = (await response.json()) as { storageId: string };
+
+    const result = convexRun<{ documentId: string; created: boolean }>('documents:ingestScrapedDocument', {
+      fileId: storageId,
+      name: pdf.fileName,
+      pageCount,
+      contentHash: pdf.contentHash,
+      affidavitId: pdf.affidavitId,
+      kind: pdf.fileName.startsWith('audit_') ? 'audit' : 'affidavit',
+    });
+    if (result.created) created++;
+    console.log(`${index + 1}/${toIngest.length} ${pdf.affidavitId}/${pdf.fileName} -> ${result.documentId}`);
+  } catch (err) {
+    failed++;
+    console.error(`Failed to ingest ${pdf.affidavitId}/${pdf.fileName}:`, err);
+  }
+}
+
+console.log(`Created ${created} documents, ${failed} failed`);
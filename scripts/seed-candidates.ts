@@ -0,0 +1,70 @@
+/**
+ * Loads the documents index into the Convex `candidates` table, then starts linking matching documents.
+ *
+ * Defaults to the snapshot committed at src/data/documents-index.json. To seed from fresh scraper
+ * output, run scripts/generate-documents-index.ts (it writes data/documents-index.json) and pass that path:
+ *   bun run scripts/seed-candidates.ts [path-to-documents-index.json] [--prod]
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// Keeps each `convex run` argument well under the command-line length limit
+const BATCH_SIZE = 50;
+
+const args = Bun.argv.slice(2);
+const prod = args.includes('--prod');
+const indexPath =
+  args.find((arg) => !arg.startsWith('--')) ?? join(import.meta.dirname, '..', 'src', 'data', 'documents-index.json');
+
+if (!existsSync(indexPath)) {
+  console.error(
+    `Documents index not found at ${indexPath}. Generate one with scripts/generate-documents-index.ts ` +
+      '(needs the scraper output) and pass its path.',
+  );
+  process.exit(1);
+}
+
+const candidates = JSON.parse(await readFile(indexPath, 'utf-8')) as unknown[];
+console.log(`Seeding ${candidates.length} candidates from ${indexPath}${prod ? ' (prod)' : ''}`);
+
+const totals = { inserted: 0, updated: 0 };
+
+for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+  const batch = candidates.slice(i, i + BATCH_SIZE);
+  const result = Bun.spawnSync(
+    [
+      'npx',
+      'convex',
+      'run',
+      ...(prod ? ['--prod'] : []),
+      'candidates:importCandidates',
+      JSON.stringify({ candidates: batch }),
+    ],
+    { stderr: 'inherit' },
+  );
+
+  if (result.exitCode !== 0) {
+    console.error(`Batch starting at ${i} failed`);
+    process.exit(1);
+  }
+
+  const counts = JSON.parse(result.stdout.toString()) as typeof totals;
+  totals.inserted += counts.inserted;
+  totals.updated += counts.updated;
+  console.log(`${Math.min(i + BATCH_SIZE, candidates.length)}/${candidates.length}`);
+}
+
+console.log(`Inserted ${totals.inserted}, updated ${totals.updated}`);
+
+// Linking walks every unlinked document in scheduled batches; this only starts it
+const link = Bun.spawnSync(
+  ['npx', 'convex', 'run', ...(prod ? ['--prod'] : []), 'candidates:linkUnmatchedDocuments', '{}'],
+  { stderr: 'inherit' },
+);
+if (link.exitCode !== 0) {
+  console.error('Failed to start linking documents');
+  process.exit(1);
+}
+console.log('Started linking documents by file name');
@@ -1,12 +1,6 @@
 import { readFile } from 'fs/promises';
-import {
-  extractSinglePage,
-  callGeminiDirect,
-  EXTRACTION_PROMPT,
-  ResponseSchema,
-  RESPONSE_JSON_SCHEMA,
-  MODEL,
-} from '../pdf-extraction';
+import { extractSinglePage, EXTRACTION_PROMPT, ResponseSchema, RESPONSE_JSON_SCHEMA, MODEL } from '../pdf-extraction';
+import { resolveExtractionProvider, withRetries } from '../extraction-providers';
 
 const [pdfPath, pageNumberStr] = Bun.argv.slice(2);
 
@@ -20,9 +14,14 @@ const pdfBytes = await readFile(pdfPath);
 const pageBytes = await extractSinglePage(pdfBytes.buffer, pageNumber);
 const pdfBase64 = Buffer.from(pageBytes).toString('base64');
 
-console.log(`[${MODEL.id}] Extracting page ${pageNumber} from ${pdfPath}...`);
+const provider = withRetries(resolveExtractionProvider(), {
+  onRetry: (error, attempt, delayMs) =>
+    console.warn(`Attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`, error),
+});
+console.log(`[${MODEL.id} via ${provider.name}] Extracting page ${pageNumber} from ${pdfPath}...`);
 
-const { parsed } = await callGeminiDirect(pdfBase64, process.env.GEMINI_API_KEY!, {
+const { parsed } = await provider.extract(pdfBase64, {
+  task: 'pages',
   prompt: EXTRACTION_PROMPT,
   schema: ResponseSchema,
   jsonSchema: RESPONSE_JSON_SCHEMA,
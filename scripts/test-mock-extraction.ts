@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { createMockProvider, resolveExtractionVariants, type ExtractionVariant } from '../extraction-providers';
+import { extractionRecords, extractPageWithVariants } from '../convex/extraction';
+import { pickLatestExtraction } from '../convex/lib/latestExtraction';
+import { EXTRACTION_PROMPT, RESPONSE_JSON_SCHEMA, ResponseSchema } from '../pdf-extraction';
+
+// Offline check of the extraction pipeline: runs pages through the mock provider and checks
+// the records startExtraction would store. Usage: bun scripts/test-mock-extraction.ts
+
+const PAGES = ['page-one', 'page-two', 'page-three'].map((text, index) => ({
+  pageNumber: index + 1,
+  pdfBase64: Buffer.from(text).toString('base64'),
+}));
+
+async function runPages(variants: ExtractionVariant[]) {
+  return Promise.all(
+    PAGES.map(async (page) => {
+      const { merged, byVariant } = await extractPageWithVariants(variants, page.pdfBase64, page.pageNumber);
+      return { ...merged, byVariant };
+    }),
+  );
+}
+
+async function expectedRows() {
+  const mock = createMockProvider();
+  const ingress: Array<Record<string, unknown>> = [];
+  const egress: Array<Record<string, unknown>> = [];
+  for (const page of PAGES) {
+    const { parsed } = await mock.extract(page.pdfBase64, {
+      task: 'pages',
+      prompt: EXTRACTION_PROMPT,
+      schema: ResponseSchema,
+      jsonSchema: RESPONSE_JSON_SCHEMA,
+    });
+    ingress.push(...parsed.ingress.map((row) => ({ ...row, pageNumber: page.pageNumber })));
+    egress.push(...parsed.egress.map((row) => ({ ...row, pageNumber: page.pageNumber })));
+  }
+  return { ingress, egress };
+}
+
+const expected = await expectedRows();
+assert.ok(expected.ingress.length > 0 && expected.egress.length > 0, 'pages should cover both fixtures');
+
+// Single mock variant: one record, tagged with the mock provider and model
+{
+  const variants = resolveExtractionVariants({ EXTRACTION_PROVIDER: 'mock' });
+  const records = extractionRecords(variants, await runPages(variants));
+  assert.equal(records.length, 1);
+  const [record] = records;
+  assert.equal(record.provider, 'mock');
+  assert.equal(record.model, 'mock-fixtures');
+  assert.equal(record.consensusOf, undefined);
+  assert.deepEqual(record.ingress, expected.ingress);
+  assert.deepEqual(record.egress, expected.egress);
+  console.log(`single variant: ${record.ingress.length} ingress, ${record.egress.length} egress`);
+}
+
+// Consensus of two mock variants: one record per variant, then the merged one without disagreements
+{
+  const variants = resolveExtractionVariants({ EXTRACTION_CONSENSUS_VARIANTS: 'mock@medium,mock@high' });
+  const records = extractionRecords(variants, await runPages(variants));
+  assert.deepEqual(
+    records.map((record) => record.variant),
+    ['mock@medium', 'mock@high', undefined],
+  );
+  for (const record of records) {
+    assert.equal(record.provider, 'mock');
+    assert.equal(record.ingress.length, expected.ingress.length);
+    assert.equal(record.egress.length, expected.egress.length);
+  }
+  const merged = records[records.length - 1];
+  assert.deepEqual(merged.consensusOf, ['mock@medium', 'mock@high']);
+  assert.ok([...merged.ingress, ...merged.egress].every((row) => !row.disagreementFields?.length));
+  console.log(`consensus: ${records.length} records, merged rows agree`);
+}
+
+// A failing variant leaves the page to the others; its own record is empty
+{
+  const [working] = resolveExtractionVariants({ EXTRACTION_PROVIDER: 'mock' });
+  const failing: ExtractionVariant = {
+    ...working,
+    label: 'mock@failing',
+    provider: {
+      ...working.provider,
+      extract: async () => {
+        throw new Error('mock failure');
+      },
+    },
+  };
+  const records = extractionRecords([working, failing], await runPages([working, failing]));
+  assert.equal(records[1].ingress.length + records[1].egress.length, 0);
+  assert.deepEqual(records[2].ingress, expected.ingress);
+  assert.deepEqual(records[2].egress, expected.egress);
+
+  await assert.rejects(extractPageWithVariants([failing], PAGES[0].pdfBase64, 1), /mock failure/);
+  console.log('failing variant: page kept from the working variant');
+}
+
+// Mock runs never become the extraction the app works from
+{
+  const stored = [
+    { model: 'gemini-3-flash', completedAt: 1 },
+    { provider: 'gemini', model: 'gemini-3-flash-preview', completedAt: 2 },
+    { provider: 'mock', model: 'mock-fixtures', completedAt: 3 },
+    { provider: 'gemini,mock', model: 'gemini-3-flash-preview,mock-fixtures', completedAt: 4 },
+    { provider: 'gemini', model: 'gemini-3-flash-preview', variant: 'gemini@high', completedAt: 5 },
+  ];
+  assert.equal(pickLatestExtraction(stored)?.completedAt, 2);
+  console.log('latest extraction skips mock and variant runs');
+}
+
+console.log('Mock extraction checks passed');
@@ -12,6 +12,10 @@ type Props = {
   hasIngressOnPage: boolean;
   hasEgressOnPage: boolean;
   pagesWithUnreadables: number[];
+  pagesNeedingReview: number[];
+  failedPages: number[];
+  currentPageExtractionError: string | null;
+  onRetryFailedPages: () => void;
   goToPage: (pageNumber: number) => void;
   ingressRows: IngressRow[];
   egressRows: EgressRow[];
@@ -27,6 +31,8 @@ type Props = {
   onAddEgress: () => void;
   onAutoCalculateEgressTotals: () => void;
   isReExtracting?: boolean;
+  // Viewers can browse the rows but not change them
+  readOnly?: boolean;
 };
 
 export function DataPanel({
@@ -34,6 +40,10 @@ export function DataPanel({
   hasIngressOnPage,
   hasEgressOnPage,
   pagesWithUnreadables,
+  pagesNeedingReview,
+  failedPages,
+  currentPageExtractionError,
+  onRetryFailedPages,
   goToPage,
   ingressRows,
   egressRows,
@@ -49,6 +59,7 @@ export function DataPanel({
   onAddEgress,
   onAutoCalculateEgressTotals,
   isReExtracting,
+  readOnly = false,
 }: Props) {
   const [activeTab, setActiveTab] = useState('data');
 
@@ -68,17 +79,46 @@ export function DataPanel({
             )}
             {hasIngressOnPage && !hasEgressOnPage && <span className="ml-2 text-xs text-slate-500">— Ingresos</span>}
             {!hasIngressOnPage && hasEgressOnPage && <span className="ml-2 text-xs text-slate-500">— Gastos</span>}
-            <Button
-              onClick={onAutoCalculateEgressTotals}
-              size="sm"
-              className="h-5 text-[10px] ml-4"
-              title="Calcular Total General = Tot. Campaña + Tot. Propaganda para filas sin total"
-            >
-              Σ Totales
-            </Button>
+            {!readOnly && (
+              <Button
+                onClick={onAutoCalculateEgressTotals}
+                size="sm"
+                className="h-5 text-[10px] ml-4"
+                title="Calcular Total General = Tot. Campaña + Tot. Propaganda para filas sin total"
+              >
+                Σ Totales
+              </Button>
+            )}
           </h2>
         </div>
 
+        {failedPages.length > 0 && (
+          <div className="px-2 py-1 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 flex items-center gap-1 overflow-x-auto">
+            <span className="text-xs text-red-700 dark:text-red-400 whitespace-nowrap">Extracción fallida:</span>
+            {failedPages.slice(0, 15).map((pageNum) => (
+              <Button
+                key={pageNum}
+                onClick={() => goToPage(pageNum)}
+                variant={pageNum === currentPage ? 'default' : 'outline'}
+                size="sm"
+                className={`text-xs h-6 px-2 ${
+                  pageNum === currentPage
+                    ? 'bg-red-400 dark:bg-red-600 text-red-900 dark:text-red-100 hover:bg-red-500'
+                    : 'bg-red-200 dark:bg-red-800 text-red-800 dark:text-red-200 hover:bg-red-300'
+                }`}
+              >
+                {pageNum}
+              </Button>
+            ))}
+            {failedPages.length > 15 && <span className="text-xs text-red-600">+{failedPages.length - 15} más</span>}
+            {!readOnly && (
+              <Button onClick={onRetryFailedPages} size="sm" variant="outline" className="text-xs h-6 px-2 ml-auto">
+                Reintentar fallidas
+              </Button>
+            )}
+          </div>
+        )}
+
         {pagesWithUnreadables.length > 0 && (
           <div className="px-2 py-1 bg-orange-50 dark:bg-orange-900/20 border-b border-orange-200 dark:border-orange-800 flex items-center gap-1 overflow-x-auto">
             <span className="text-xs text-orange-700 dark:text-orange-400 whitespace-nowrap">IA detectó ilegible:</span>
@@ -103,6 +143,32 @@ export function DataPanel({
           </div>
         )}
 
+        {pagesNeedingReview.length > 0 && (
+          <div className="px-2 py-1 bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800 flex items-center gap-1 overflow-x-auto">
+            <span className="text-xs text-yellow-700 dark:text-yellow-400 whitespace-nowrap">
+              Modelos no coinciden:
+            </span>
+            {pagesNeedingReview.slice(0, 15).map((pageNum) => (
+              <Button
+                key={pageNum}
+                onClick={() => goToPage(pageNum)}
+                variant={pageNum === currentPage ? 'default' : 'outline'}
+                size="sm"
+                className={`text-xs h-6 px-2 ${
+                  pageNum === currentPage
+                    ? 'bg-yellow-400 dark:bg-yellow-600 text-yellow-900 dark:text-yellow-100 hover:bg-yellow-500'
+                    : 'bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200 hover:bg-yellow-300'
+                }`}
+              >
+                {pageNum}
+              </Button>
+            ))}
+            {pagesNeedingReview.length > 15 && (
+              <span className="text-xs text-yellow-600">+{pagesNeedingReview.length - 15} más</span>
+            )}
+          </div>
+        )}
+
         <div className="flex-1 overflow-auto">
           {isReExtracting ? (
             <div className="flex flex-col items-center justify-center h-full gap-3">
@@ -117,9 +183,16 @@ export function DataPanel({
               <span className="text-sm text-slate-500">Re-extrayendo página...</span>
             </div>
           ) : ingressRows.length === 0 && egressRows.length === 0 ? (
-            <div className="flex items-center justify-center h-full text-slate-400 text-sm">
-              No hay datos extraídos en esta página
-            </div>
+            currentPageExtractionError ? (
+              <div className="flex flex-col items-center justify-center h-full gap-1 px-4 text-center">
+                <span className="text-sm text-red-600 dark:text-red-400">La extracción de esta página falló</span>
+                <span className="text-xs text-slate-400 break-all">{currentPageExtractionError}</span>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full text-slate-400 text-sm">
+                No hay datos extraídos en esta página
+              </div>
+            )
           ) : (
             <div className="space-y-4">
               {ingressRows.length > 0 && (
@@ -135,6 +208,7 @@ export function DataPanel({
                     onEdit={onEditIngress}
                     onDelete={onDeleteIngress}
                     onToggleUnreadable={onToggleUnreadableIngress}
+                    readOnly={readOnly}
                   />
                 </div>
               )}
@@ -152,6 +226,7 @@ export function DataPanel({
                     onEdit={onEditEgress}
                     onDelete={onDeleteEgress}
                     onToggleUnreadable={onToggleUnreadableEgress}
+                    readOnly={readOnly}
                   />
                 </div>
               )}
@@ -159,18 +234,20 @@ export function DataPanel({
           )}
         </div>
 
-        <div className="px-2 py-1 border-t border-slate-200 dark:border-slate-700 flex gap-2">
-          {(hasIngressOnPage || (!hasIngressOnPage && !hasEgressOnPage)) && (
-            <Button onClick={onAddIngress} variant="outline" size="sm" className="flex-1 border-dashed">
-              + Agregar ingreso
-            </Button>
-          )}
-          {(hasEgressOnPage || (!hasIngressOnPage && !hasEgressOnPage)) && (
-            <Button onClick={onAddEgress} variant="outline" size="sm" className="flex-1 border-dashed">
-              + Agregar gasto
-            </Button>
-          )}
-        </div>
+        {!readOnly && (
+          <div className="px-2 py-1 border-t border-slate-200 dark:border-slate-700 flex gap-2">
+            {(hasIngressOnPage || (!hasIngressOnPage && !hasEgressOnPage)) && (
+              <Button onClick={onAddIngress} variant="outline" size="sm" className="flex-1 border-dashed">
+                + Agregar ingreso
+              </Button>
+            )}
+            {(hasEgressOnPage || (!hasIngressOnPage && !hasEgressOnPage)) && (
+              <Button onClick={onAddEgress} variant="outline" size="sm" className="flex-1 border-dashed">
+                + Agregar gasto
+              </Button>
+            )}
+          </div>
+        )}
       </TabsContent>
 
       <TabsContent value="chart" className="overflow-auto">
@@ -2,25 +2,42 @@ import { Link } from '@tanstack/react-router';
 import { Button } from '@/components/ui/button';
 
 type Props = {
+  documentId: string;
   documentName: string;
   documentStatus: string;
+  documentVersion: number;
+  isSuperseded: boolean;
   isValidated: boolean;
+  pageCount: number;
+  validatedPageCount: number;
   pagesWithUnreadables: number[];
+  failedPageCount: number;
   isSaving: boolean;
   hasEdits: boolean;
   onSave: () => void;
   onRerunExtraction: () => void;
+  onOpenHistory: () => void;
+  // Viewers cannot re-extract or save
+  readOnly: boolean;
 };
 
 export function DocumentHeader({
+  documentId,
   documentName,
   documentStatus,
+  documentVersion,
+  isSuperseded,
   isValidated,
+  pageCount,
+  validatedPageCount,
   pagesWithUnreadables,
+  failedPageCount,
   isSaving,
   hasEdits,
   onSave,
   onRerunExtraction,
+  onOpenHistory,
+  readOnly,
 }: Props) {
   const isProcessing = documentStatus === 'processing' || documentStatus === 'pending';
 
@@ -34,10 +51,35 @@ export function DocumentHeader({
           <h1 className="text-lg font-semibold text-slate-900 dark:text-slate-100 truncate max-w-md">
             {documentName}
           </h1>
-          {isValidated && (
+          {documentVersion > 1 && (
+            <span className="px-2 py-1 bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300 rounded-full text-xs">
+              v{documentVersion}
+            </span>
+          )}
+          {isSuperseded && (
+            <Link
+              to="/documents/$documentId/versiones"
+              params={{ documentId }}
+              className="px-2 py-1 bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300 rounded-full text-xs"
+            >
+              Versión reemplazada
+            </Link>
+          )}
+          {validatedPageCount === pageCount ? (
             <span className="px-2 py-1 bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300 rounded-full text-xs">
               Validado
             </span>
+          ) : (
+            (isValidated || validatedPageCount > 0) && (
+              <span className="px-2 py-1 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 rounded-full text-xs">
+                {validatedPageCount}/{pageCount} páginas validadas
+              </span>
+            )
+          )}
+          {readOnly && (
+            <span className="px-2 py-1 bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300 rounded-full text-xs">
+              Solo lectura
+            </span>
           )}
         </div>
 
@@ -52,66 +94,89 @@ export function DocumentHeader({
               Error
             </span>
           )}
+          {failedPageCount > 0 && (
+            <span className="text-sm text-red-600 dark:text-red-400">✕ {failedPageCount} páginas sin extraer</span>
+          )}
           {pagesWithUnreadables.length > 0 && (
             <span className="text-sm text-orange-600 dark:text-orange-400">
               ? {pagesWithUnreadables.length} páginas con campos ilegibles
             </span>
           )}
 
-          <Button
-            onClick={onRerunExtraction}
-            disabled={isProcessing}
-            variant="outline"
-            className="text-amber-600 border-amber-300 hover:bg-amber-50 dark:text-amber-400 dark:border-amber-700 dark:hover:bg-amber-900/20"
-          >
-            {isProcessing ? (
-              <>
-                <svg
-                  className="animate-spin -ml-1 mr-2 h-4 w-4"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
+          {!readOnly && (
+            <Button
+              onClick={onRerunExtraction}
+              disabled={isProcessing}
+              variant="outline"
+              className="text-amber-600 border-amber-300 hover:bg-amber-50 dark:text-amber-400 dark:border-amber-700 dark:hover:bg-amber-900/20"
+            >
+              {isProcessing ? (
+                <>
+                  <svg
+                    className="animate-spin -ml-1 mr-2 h-4 w-4"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  Extrayendo...
+                </>
+              ) : (
+                <>
+                  <svg
+                    className="mr-2 h-4 w-4"
+                    fill="none"
                     stroke="currentColor"
-                    strokeWidth="4"
-                  ></circle>
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  ></path>
-                </svg>
-                Extrayendo...
-              </>
-            ) : (
-              <>
-                <svg
-                  className="mr-2 h-4 w-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                  xmlns="http://www.w3.org/2000/svg"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                  />
-                </svg>
-                Re-extraer
-              </>
-            )}
+                    viewBox="0 0 24 24"
+                    xmlns="http://www.w3.org/2000/svg"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                    />
+                  </svg>
+                  Re-extraer
+                </>
+              )}
+            </Button>
+          )}
+
+          <Button onClick={onOpenHistory} variant="outline">
+            Historial
+          </Button>
+
+          <Button asChild variant="outline">
+            <Link to="/documents/$documentId/versiones" params={{ documentId }}>
+              Versiones
+            </Link>
           </Button>
 
-          <Button onClick={onSave} disabled={!hasEdits || isSaving} variant={hasEdits ? 'default' : 'outline'}>
-            {isSaving ? 'Guardando...' : 'Guardar Validación'}
+          <Button asChild variant="outline">
+            <Link to="/documents/$documentId/conciliacion" params={{ documentId }}>
+              Conciliación
+            </Link>
           </Button>
+
+          {!readOnly && (
+            <Button onClick={onSave} disabled={!hasEdits || isSaving} variant={hasEdits ? 'default' : 'outline'}>
+              {isSaving ? 'Guardando...' : 'Guardar Validación'}
+            </Button>
+          )}
         </div>
       </div>
     </header>
@@ -14,11 +14,15 @@ type Props = {
   onEdit: (value: string | number | null) => void;
   isHumanUnreadable: boolean;
   isAiUnreadable: boolean;
+  // Consensus variants disagreed on this cell
+  needsReview?: boolean;
   onToggleUnreadable: () => void;
   variant?: EditableCellVariant;
   compact?: boolean;
   showToggleOnHover?: boolean;
   formatValue?: FormatValue;
+  // Viewers see the cell but cannot edit it or toggle its unreadable mark
+  readOnly?: boolean;
 };
 
 const DEFAULT_FORMAT: FormatValue = (field, value) => normalizeValueForDisplay(field, value);
@@ -33,11 +37,13 @@ export function EditableCell({
   onEdit,
   isHumanUnreadable,
   isAiUnreadable,
+  needsReview = false,
   onToggleUnreadable,
   variant = 'table',
   compact = false,
   showToggleOnHover = false,
   formatValue = DEFAULT_FORMAT,
+  readOnly = false,
 }: Props) {
   const isEmpty = value == null || value === '';
   const formattedValue = formatValue(field, value, type);
@@ -47,16 +53,19 @@ export function EditableCell({
       ? {
           human: 'bg-red-100/50 dark:bg-red-900/30',
           ai: 'bg-orange-100/50 dark:bg-orange-900/30',
+          review: 'bg-yellow-100/60 dark:bg-yellow-900/30',
         }
       : {
           human: 'bg-red-50 dark:bg-red-900/20',
           ai: 'bg-orange-50 dark:bg-orange-900/20',
+          review: 'bg-yellow-50 dark:bg-yellow-900/20',
         };
 
   return (
     <div className={`relative ${compact ? 'text-[10px]' : ''}`}>
       <button
         type="button"
+        disabled={readOnly}
         onClick={(e) => {
           e.stopPropagation();
           onToggleUnreadable();
@@ -83,7 +92,7 @@ export function EditableCell({
         ?
       </button>
 
-      {isEditing ? (
+      {isEditing && !readOnly ? (
         <div
           contentEditable
           suppressContentEditableWarning
@@ -119,10 +128,13 @@ export function EditableCell({
         />
       ) : (
         <div
-          onClick={onStartEdit}
-          className={`cursor-text min-h-[14px] pr-4 ${
+          onClick={readOnly ? undefined : onStartEdit}
+          className={`${readOnly ? '' : 'cursor-text'} min-h-[14px] pr-4 ${
             isHumanUnreadable ? unreadableClassName.human : ''
-          } ${isAiUnreadable && !isHumanUnreadable ? unreadableClassName.ai : ''}`}
+          } ${isAiUnreadable && !isHumanUnreadable ? unreadableClassName.ai : ''} ${
+            needsReview && !isAiUnreadable && !isHumanUnreadable ? unreadableClassName.review : ''
+          }`}
+          title={needsReview ? 'Los modelos no coinciden - revisar' : undefined}
         >
           <span className={isEmpty ? 'text-slate-400 italic' : ''}>{formattedValue}</span>
         </div>
@@ -9,6 +9,7 @@ import {
   type EgressRow,
 } from './types';
 import { normalizeValueForDisplay } from './utils';
+import { checkEgressRow } from '@shared/validationRules';
 
 type EgressColumnMeta = {
   group: 'info' | 'spend1' | 'spend2' | 'total';
@@ -22,6 +23,7 @@ type Props = {
   onEdit: (rowIndex: number, field: string, value: string | number | null) => void;
   onDelete: (rowIndex: number) => void;
   onToggleUnreadable: (rowIndex: number, field: string) => void;
+  readOnly?: boolean;
 };
 
 const columnHelper = createColumnHelper<EgressRow>();
@@ -39,6 +41,7 @@ export function EgressTable({
   onEdit,
   onDelete,
   onToggleUnreadable,
+  readOnly = false,
 }: Props) {
   const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null);
 
@@ -95,6 +98,7 @@ export function EgressTable({
     <div className="w-full text-xs">
       {table.getRowModel().rows.map((row) => {
         const actualIndex = allRows.indexOf(row.original);
+        const issues = checkEgressRow(row.original);
 
         return (
           <div
@@ -108,11 +112,14 @@ export function EgressTable({
                 const isEditing = editingCell?.row === row.index && editingCell?.col === field;
                 const isHumanUnreadable = row.original.humanUnreadableFields?.includes(field) ?? false;
                 const isAiUnreadable = row.original.unreadableFields?.includes(field) ?? false;
+                const needsReview = row.original.disagreementFields?.includes(field) ?? false;
                 const unreadableClassName = isHumanUnreadable
                   ? 'bg-red-100/50 dark:bg-red-900/30'
                   : isAiUnreadable
                     ? 'bg-orange-100/50 dark:bg-orange-900/30'
-                    : '';
+                    : needsReview
+                      ? 'bg-yellow-100/60 dark:bg-yellow-900/30'
+                      : '';
 
                 return (
                   <div
@@ -127,11 +134,13 @@ export function EgressTable({
                       value={value}
                       type={(col.columnDef.meta as EgressColumnMeta | undefined)?.type ?? 'string'}
                       isEditing={isEditing}
+                      readOnly={readOnly}
                       onStartEdit={() => setEditingCell({ row: row.index, col: field })}
                       onStopEdit={() => setEditingCell(null)}
                       onEdit={(next) => onEdit(actualIndex, field, next)}
                       isHumanUnreadable={isHumanUnreadable}
                       isAiUnreadable={isAiUnreadable}
+                      needsReview={needsReview}
                       onToggleUnreadable={() => onToggleUnreadable(actualIndex, field)}
                       formatValue={formatEgressValue}
                       compact={false}
@@ -143,15 +152,17 @@ export function EgressTable({
               })}
 
               <div className="flex items-center">
-                <Button
-                  onClick={() => onDelete(actualIndex)}
-                  variant="ghost"
-                  size="icon-sm"
-                  className="text-red-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity h-5 w-5"
-                  title="Eliminar fila"
-                >
-                  ×
-                </Button>
+                {!readOnly && (
+                  <Button
+                    onClick={() => onDelete(actualIndex)}
+                    variant="ghost"
+                    size="icon-sm"
+                    className="text-red-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity h-5 w-5"
+                    title="Eliminar fila"
+                  >
+                    ×
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -164,11 +175,14 @@ export function EgressTable({
                     const isEditing = editingCell?.row === row.index && editingCell?.col === field;
                     const isHumanUnreadable = row.original.humanUnreadableFields?.includes(field) ?? false;
                     const isAiUnreadable = row.original.unreadableFields?.includes(field) ?? false;
+                    const needsReview = row.original.disagreementFields?.includes(field) ?? false;
                     const unreadableClassName = isHumanUnreadable
                       ? 'bg-red-100/50 dark:bg-red-900/30'
                       : isAiUnreadable
                         ? 'bg-orange-100/50 dark:bg-orange-900/30'
-                        : '';
+                        : needsReview
+                          ? 'bg-yellow-100/60 dark:bg-yellow-900/30'
+                          : '';
 
                     return (
                       <div
@@ -188,11 +202,13 @@ export function EgressTable({
                           value={value}
                           type="number"
                           isEditing={isEditing}
+                          readOnly={readOnly}
                           onStartEdit={() => setEditingCell({ row: row.index, col: field })}
                           onStopEdit={() => setEditingCell(null)}
                           onEdit={(next) => onEdit(actualIndex, field, next)}
                           isHumanUnreadable={isHumanUnreadable}
                           isAiUnreadable={isAiUnreadable}
+                          needsReview={needsReview}
                           onToggleUnreadable={() => onToggleUnreadable(actualIndex, field)}
                           formatValue={formatEgressValue}
                           compact
@@ -211,12 +227,15 @@ export function EgressTable({
                     const isEditing = editingCell?.row === row.index && editingCell?.col === field;
                     const isHumanUnreadable = row.original.humanUnreadableFields?.includes(field) ?? false;
                     const isAiUnreadable = row.original.unreadableFields?.includes(field) ?? false;
+                    const needsReview = row.original.disagreementFields?.includes(field) ?? false;
                     const isTotal = field.startsWith('total');
                     const unreadableClassName = isHumanUnreadable
                       ? 'bg-red-100/50 dark:bg-red-900/30'
                       : isAiUnreadable
                         ? 'bg-orange-100/50 dark:bg-orange-900/30'
-                        : '';
+                        : needsReview
+                          ? 'bg-yellow-100/60 dark:bg-yellow-900/30'
+                          : '';
 
                     return (
                       <div
@@ -242,11 +261,13 @@ export function EgressTable({
                           value={value}
                           type="number"
                           isEditing={isEditing}
+                          readOnly={readOnly}
                           onStartEdit={() => setEditingCell({ row: row.index, col: field })}
                           onStopEdit={() => setEditingCell(null)}
                           onEdit={(next) => onEdit(actualIndex, field, next)}
                           isHumanUnreadable={isHumanUnreadable}
                           isAiUnreadable={isAiUnreadable}
+                          needsReview={needsReview}
                           onToggleUnreadable={() => onToggleUnreadable(actualIndex, field)}
                           formatValue={formatEgressValue}
                           compact
@@ -275,11 +296,13 @@ export function EgressTable({
                             value={row.getValue(totalColumn.id)}
                             type="number"
                             isEditing={editingCell?.row === row.index && editingCell?.col === totalColumn.id}
+                            readOnly={readOnly}
                             onStartEdit={() => setEditingCell({ row: row.index, col: totalColumn.id })}
                             onStopEdit={() => setEditingCell(null)}
                             onEdit={(next) => onEdit(actualIndex, totalColumn.id, next)}
                             isHumanUnreadable={row.original.humanUnreadableFields?.includes(totalColumn.id) ?? false}
                             isAiUnreadable={row.original.unreadableFields?.includes(totalColumn.id) ?? false}
+                            needsReview={row.original.disagreementFields?.includes(totalColumn.id) ?? false}
                             onToggleUnreadable={() => onToggleUnreadable(actualIndex, totalColumn.id)}
                             formatValue={formatEgressValue}
                             variant="compact"
@@ -291,6 +314,14 @@ export function EgressTable({
                   </div>
                 )}
               </div>
+
+              {issues.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-[10px] text-amber-700 dark:text-amber-400">
+                  {issues.map((issue) => (
+                    <li key={issue.rule}>⚠ {issue.message}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
         );
@@ -7,6 +7,7 @@ import {
   type IngressRow,
 } from './types';
 import { normalizeValueForDisplay } from './utils';
+import { checkIngressRow } from '@shared/validationRules';
 
 type Props = {
   rows: IngressRow[];
@@ -14,6 +15,7 @@ type Props = {
   onEdit: (rowIndex: number, field: string, value: string | number | null) => void;
   onDelete: (rowIndex: number) => void;
   onToggleUnreadable: (rowIndex: number, field: string) => void;
+  readOnly?: boolean;
 };
 
 const columnHelper = createColumnHelper<IngressRow>();
@@ -24,6 +26,7 @@ export function IngressTable({
   onEdit,
   onDelete,
   onToggleUnreadable,
+  readOnly = false,
 }: Props) {
   const [editingCell, setEditingCell] = useState<{ row: number; col: string } | null>(null);
 
@@ -38,6 +41,7 @@ export function IngressTable({
           const isEditing = editingCell?.row === info.row.index && editingCell?.col === col.key;
           const isHumanUnreadable = row.humanUnreadableFields?.includes(col.key) ?? false;
           const isAiUnreadable = row.unreadableFields?.includes(col.key) ?? false;
+          const needsReview = row.disagreementFields?.includes(col.key) ?? false;
 
           return (
             <EditableCell
@@ -45,11 +49,13 @@ export function IngressTable({
               value={info.getValue()}
               type={col.type}
               isEditing={isEditing}
+              readOnly={readOnly}
               onStartEdit={() => setEditingCell({ row: info.row.index, col: col.key })}
               onStopEdit={() => setEditingCell(null)}
               onEdit={(value) => onEdit(actualIndex, col.key, value)}
               isHumanUnreadable={isHumanUnreadable}
               isAiUnreadable={isAiUnreadable}
+              needsReview={needsReview}
               onToggleUnreadable={() => onToggleUnreadable(actualIndex, col.key)}
               formatValue={(field, value, _type) => normalizeValueForDisplay(field, value)}
               variant="table"
@@ -61,9 +67,25 @@ export function IngressTable({
 
     return [
       ...dataColumns,
+      columnHelper.display({
+        id: 'checks',
+        cell: (info) => {
+          const issues = checkIngressRow(info.row.original);
+          if (issues.length === 0) return null;
+          return (
+            <span
+              className="text-amber-600 dark:text-amber-400 font-medium cursor-help"
+              title={issues.map((issue) => issue.message).join('\n')}
+            >
+              ⚠{issues.length > 1 ? ` ${issues.length}` : ''}
+            </span>
+          );
+        },
+      }),
       columnHelper.display({
         id: 'actions',
         cell: (info) => {
+          if (readOnly) return null;
           const row = info.row.original;
           const actualIndex = allRows.indexOf(row);
           return (
@@ -80,7 +102,7 @@ export function IngressTable({
         },
       }),
     ];
-  }, [allRows, editingCell, onDelete, onEdit, onToggleUnreadable]);
+  }, [allRows, editingCell, onDelete, onEdit, onToggleUnreadable, readOnly]);
 
   const table = useReactTable({
     data: rows,
@@ -122,6 +144,7 @@ export function IngressTable({
                 const isFirst = colId === firstColumnId;
                 const isHumanUnreadable = row.original.humanUnreadableFields?.includes(colId) ?? false;
                 const isAiUnreadable = row.original.unreadableFields?.includes(colId) ?? false;
+                const needsReview = row.original.disagreementFields?.includes(colId) ?? false;
 
                 return (
                   <td
@@ -130,6 +153,8 @@ export function IngressTable({
                       isHumanUnreadable ? 'bg-red-50 dark:bg-red-900/20' : ''
                     } ${
                       isAiUnreadable && !isHumanUnreadable ? 'bg-orange-50 dark:bg-orange-900/20' : ''
+                    } ${
+                      needsReview && !isAiUnreadable && !isHumanUnreadable ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
                     }`}
                   >
                     {flexRender(cell.column.columnDef.cell, cell.getContext())}
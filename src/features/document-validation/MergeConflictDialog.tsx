@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { diffRows, type DiffRow } from '@shared/validationDiff';
+import { stripUnreadableFields, type ConflictChoice, type PageConflict } from './useDocumentValidationData';
+import { FIELD_LABELS, formatEditValue, rowLabel } from './ValidationHistoryDrawer';
+import type { EgressRow, IngressRow } from './types';
+
+type Props = {
+  conflicts: PageConflict[];
+  // This editor's unsaved rows, all pages
+  ingress: IngressRow[];
+  egress: EgressRow[];
+  isSaving: boolean;
+  onResolve: (choices: Record<number, ConflictChoice>) => void;
+  onCancel: () => void;
+};
+
+/**
+ * Pages another reviewer saved while they were being edited here: for each one, the cells where the
+ * unsaved rows differ from the saved ones, and a choice between keeping these edits or taking theirs
+ */
+export function MergeConflictDialog({ conflicts, ingress, egress, isSaving, onResolve, onCancel }: Props) {
+  const [choices, setChoices] = useState<Record<number, ConflictChoice>>(() =>
+    Object.fromEntries(conflicts.map((conflict) => [conflict.pageNumber, 'mine' as const])),
+  );
+
+  const pageDiff = (conflict: PageConflict) => {
+    const mine = (rows: DiffRow[]) =>
+      stripUnreadableFields(rows.filter((row) => row.pageNumber === conflict.pageNumber));
+    return [
+      ...diffRows('ingress', conflict.ingress, mine(ingress)),
+      ...diffRows('egress', conflict.egress, mine(egress)),
+    ];
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-slate-900/40" />
+      <div className="relative w-full max-w-3xl max-h-[85vh] bg-white dark:bg-slate-900 rounded-xl shadow-xl flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-800">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Conflicto al guardar</h2>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Otro revisor guardó estas páginas mientras las editabas. Elige qué versión conservar en cada una; las demás
+            páginas se guardan sin cambios.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto divide-y divide-slate-100 dark:divide-slate-800">
+          {conflicts.map((conflict) => {
+            const changes = pageDiff(conflict);
+            return (
+              <div key={conflict.pageNumber} className="px-6 py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-slate-900 dark:text-slate-100">Página {conflict.pageNumber}</div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      Guardada por {conflict.updatedByName ?? 'otro revisor'}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['mine', 'theirs'] as const).map((choice) => (
+                      <Button
+                        key={choice}
+                        onClick={() => setChoices({ ...choices, [conflict.pageNumber]: choice })}
+                        variant={choices[conflict.pageNumber] === choice ? 'default' : 'outline'}
+                        size="sm"
+                      >
+                        {choice === 'mine' ? 'Mantener mis cambios' : 'Usar versión del servidor'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                {changes.length === 0 ? (
+                  <div className="mt-2 text-xs text-slate-500">Ambas versiones tienen los mismos valores.</div>
+                ) : (
+                  <ul className="mt-2 flex flex-col gap-1 text-xs">
+                    {changes.map((change, index) => (
+                      <li key={index}>
+                        <span className="text-slate-500 dark:text-slate-400">
+                          {rowLabel(change.rowType, change.rowKey)} ·{' '}
+                        </span>
+                        <span className="font-medium">{FIELD_LABELS[change.field] ?? change.field}</span>:{' '}
+                        <span className="text-sky-700 dark:text-sky-400">
+                          servidor {formatEditValue(change.field, change.oldValue)}
+                        </span>{' '}
+                        ·{' '}
+                        <span className="text-emerald-700 dark:text-emerald-400">
+                          tuyo {formatEditValue(change.field, change.newValue)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-800 flex justify-end gap-2">
+          <Button onClick={onCancel} variant="outline" disabled={isSaving}>
+            Seguir editando
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={isSaving}>
+            {isSaving ? 'Guardando...' : 'Aplicar y guardar'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '@convex/api';
+import type { Id } from '@convex/dataModel';
+import { Button } from '@/components/ui/button';
+import { PAGE_REVIEW_STATES, type PageReviewState } from '@shared/pageReviewStates';
+import { PAGE_REVIEW_STATE_CLASSES, PAGE_REVIEW_STATE_LABELS } from './types';
+
+type Props = {
+  documentId: string;
+  pageCount: number;
+  currentPage: number;
+  currentUserId: string | null;
+  goToPage: (pageNumber: number) => void;
+  // Viewers see the states but cannot change them
+  readOnly: boolean;
+};
+
+const selectClass =
+  'h-7 rounded-md border border-slate-200 bg-white px-2 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100 disabled:opacity-50';
+
+/**
+ * Review state and assignee of the current page, plus a strip with the state of every page
+ */
+export function PageReviewBar({ documentId, pageCount, currentPage, currentUserId, goToPage, readOnly }: Props) {
+  const reviews = useQuery(api.pageReviews.getDocumentPageReviews, { documentId: documentId as Id<'documents'> });
+  const assignableUsers = useQuery(api.pageReviews.listAssignableUsers, readOnly ? 'skip' : {});
+  const setPageReviewState = useMutation(api.pageReviews.setPageReviewState);
+  const assignPages = useMutation(api.pageReviews.assignPages);
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  const [rangeAssignee, setRangeAssignee] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const reviewByPage = new Map((reviews ?? []).map((review) => [review.pageNumber, review]));
+  const current = reviewByPage.get(currentPage);
+  const currentState: PageReviewState = current?.state ?? 'unreviewed';
+  const pages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const run = async (operation: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo actualizar la revisión');
+    }
+  };
+
+  const assign = (pageNumbers: number[], assigneeId: string) =>
+    run(() =>
+      assignPages({
+        documentId: documentId as Id<'documents'>,
+        pageNumbers,
+        assigneeId: assigneeId === '' ? null : (assigneeId as Id<'users'>),
+      }),
+    );
+
+  const handleAssignRange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const from = Math.max(1, parseInt(rangeFrom, 10) || 1);
+    const to = Math.min(pageCount, parseInt(rangeTo, 10) || pageCount);
+    if (from > to) return;
+    await assign(
+      Array.from({ length: to - from + 1 }, (_, i) => from + i),
+      rangeAssignee,
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 px-4 py-2 flex flex-col gap-2 shrink-0">
+      <div className="flex flex-wrap items-center gap-3 text-xs">
+        <span className="font-medium text-slate-700 dark:text-slate-300">Página {currentPage}</span>
+        {readOnly ? (
+          <>
+            <span className={`px-2 py-0.5 rounded-full ${PAGE_REVIEW_STATE_CLASSES[currentState]}`}>
+              {PAGE_REVIEW_STATE_LABELS[currentState]}
+            </span>
+            <span className="text-slate-500">Asignada a {current?.assigneeName ?? 'nadie'}</span>
+          </>
+        ) : (
+          <>
+            <select
+              value={currentState}
+              onChange={(e) =>
+                void run(() =>
+                  setPageReviewState({
+                    documentId: documentId as Id<'documents'>,
+                    pageNumber: currentPage,
+                    state: e.target.value as PageReviewState,
+                  }),
+                )
+              }
+              className={selectClass}
+            >
+              {PAGE_REVIEW_STATES.map((state) => (
+                <option key={state} value={state}>
+                  {PAGE_REVIEW_STATE_LABELS[state]}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-slate-500">
+              Asignada a
+              <select
+                value={current?.assigneeId ?? ''}
+                onChange={(e) => void assign([currentPage], e.target.value)}
+                className={selectClass}
+              >
+                <option value="">Nadie</option>
+                {assignableUsers?.map((user) => (
+                  <option key={user._id} value={user._id}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {currentUserId && current?.assigneeId !== currentUserId && (
+              <Button
+                onClick={() => void assign([currentPage], currentUserId)}
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+              >
+                Asignarme
+              </Button>
+            )}
+            <form onSubmit={handleAssignRange} className="ml-auto flex items-center gap-1 text-slate-500">
+              Asignar páginas
+              <input
+                value={rangeFrom}
+                onChange={(e) => setRangeFrom(e.target.value)}
+                placeholder="1"
+                inputMode="numeric"
+                className={`${selectClass} w-12`}
+              />
+              a
+              <input
+                value={rangeTo}
+                onChange={(e) => setRangeTo(e.target.value)}
+                placeholder={String(pageCount)}
+                inputMode="numeric"
+                className={`${selectClass} w-12`}
+              />
+              <select value={rangeAssignee} onChange={(e) => setRangeAssignee(e.target.value)} className={selectClass}>
+                <option value="">Nadie</option>
+                {assignableUsers?.map((user) => (
+                  <option key={user._id} value={user._id}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+              <Button type="submit" variant="outline" size="sm" className="h-7 text-xs">
+                Asignar
+              </Button>
+            </form>
+          </>
+        )}
+        {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+
+      <div className="flex flex-wrap gap-0.5">
+        {pages.map((pageNumber) => {
+          const review = reviewByPage.get(pageNumber);
+          const state = review?.state ?? 'unreviewed';
+          return (
+            <button
+              key={pageNumber}
+              onClick={() => goToPage(pageNumber)}
+              title={`Página ${pageNumber}: ${PAGE_REVIEW_STATE_LABELS[state]}${
+                review?.assigneeName ? ` · ${review.assigneeName}` : ''
+              }`}
+              className={`h-5 min-w-5 px-1 rounded text-[10px] font-mono ${PAGE_REVIEW_STATE_CLASSES[state]} ${
+                pageNumber === currentPage ? 'ring-2 ring-indigo-500' : ''
+              }`}
+            >
+              {pageNumber}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -38,9 +38,11 @@ type Props = {
   onReExtractPage: () => void;
   isReExtracting?: boolean;
   reExtractionFailed?: boolean;
+  // Viewers cannot rotate (rotation is saved) or re-extract pages
+  readOnly?: boolean;
 };
 
-export function PdfPanel({ fileUrl, currentPage, pageCount, rotation, onPrev, onNext, onRotate, onReExtractPage, isReExtracting, reExtractionFailed }: Props) {
+export function PdfPanel({ fileUrl, currentPage, pageCount, rotation, onPrev, onNext, onRotate, onReExtractPage, isReExtracting, reExtractionFailed, readOnly = false }: Props) {
   return (
     <div className="h-full border-r border-slate-200 dark:border-slate-800 bg-slate-100 dark:bg-slate-900 flex flex-col overflow-hidden">
       <div className="p-3 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 flex items-center justify-center gap-4">
@@ -53,48 +55,52 @@ export function PdfPanel({ fileUrl, currentPage, pageCount, rotation, onPrev, on
         <Button onClick={onNext} disabled={currentPage >= pageCount} variant="outline" size="sm">
           →
         </Button>
-        <div className="w-px h-6 bg-slate-300 dark:bg-slate-600" />
-        <Button onClick={onRotate} variant="outline" size="sm" title="Rotar página 90°">
-          <svg
-            className="w-4 h-4"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-            xmlns="http://www.w3.org/2000/svg"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-            />
-          </svg>
-          Rotar
-        </Button>
-        <Button onClick={onReExtractPage} variant="outline" size="sm" title="Re-extraer esta página" disabled={isReExtracting}>
-          {isReExtracting ? (
-            <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-            </svg>
-          ) : (
-            <svg
-              className="w-4 h-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-              xmlns="http://www.w3.org/2000/svg"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-              />
-            </svg>
-          )}
-          {isReExtracting ? 'Extrayendo...' : 'Re-extraer'}
-        </Button>
+        {!readOnly && (
+          <>
+            <div className="w-px h-6 bg-slate-300 dark:bg-slate-600" />
+            <Button onClick={onRotate} variant="outline" size="sm" title="Rotar página 90°">
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                />
+              </svg>
+              Rotar
+            </Button>
+            <Button onClick={onReExtractPage} variant="outline" size="sm" title="Re-extraer esta página" disabled={isReExtracting}>
+              {isReExtracting ? (
+                <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+              ) : (
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                  />
+                </svg>
+              )}
+              {isReExtracting ? 'Extrayendo...' : 'Re-extraer'}
+            </Button>
+          </>
+        )}
         {reExtractionFailed && (
           <span className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
             <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -0,0 +1,88 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '@convex/api';
+import type { Id } from '@convex/dataModel';
+
+type Props = {
+  documentId: string;
+  currentPage: number;
+  // Pages with unsaved edits here; other reviewers see them as locked until they are saved
+  lockedPages: number[];
+  goToPage: (pageNumber: number) => void;
+};
+
+const HEARTBEAT_MS = 20_000;
+
+/**
+ * Who else has the document open and on which page, with a warning when someone else has unsaved
+ * edits on a page being viewed or edited here. Locks are soft: editing is still allowed, and a
+ * clash is caught when saving.
+ */
+export function PresenceBar({ documentId, currentPage, lockedPages, goToPage }: Props) {
+  const presence = useQuery(api.presence.listPresence, { documentId: documentId as Id<'documents'> });
+  const updatePresence = useMutation(api.presence.updatePresence);
+  const leaveDocument = useMutation(api.presence.leaveDocument);
+  const lockedKey = lockedPages.join(',');
+
+  useEffect(() => {
+    const beat = () =>
+      void updatePresence({
+        documentId: documentId as Id<'documents'>,
+        pageNumber: currentPage,
+        lockedPages: lockedKey === '' ? [] : lockedKey.split(',').map(Number),
+      }).catch((error) => console.error('Presence update failed:', error));
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [currentPage, documentId, lockedKey, updatePresence]);
+
+  useEffect(() => {
+    return () => void leaveDocument({ documentId: documentId as Id<'documents'> }).catch(() => {});
+  }, [documentId, leaveDocument]);
+
+  if (!presence || presence.length === 0) return null;
+
+  const lockHolders = (pageNumber: number) =>
+    presence.filter((entry) => entry.lockedPages.includes(pageNumber)).map((entry) => entry.name);
+  const currentPageHolders = lockHolders(currentPage);
+  const clashingPages = lockedPages.filter((pageNumber) => lockHolders(pageNumber).length > 0);
+
+  return (
+    <div className="bg-sky-50 dark:bg-sky-950/30 border-b border-sky-200 dark:border-sky-900 px-4 py-2 flex flex-col gap-1 shrink-0 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-sky-800 dark:text-sky-300 font-medium whitespace-nowrap">También en el documento:</span>
+        {presence.map((entry) => (
+          <button
+            key={entry.userId}
+            onClick={() => goToPage(entry.pageNumber)}
+            title={
+              entry.lockedPages.length > 0
+                ? `Cambios sin guardar en págs. ${entry.lockedPages.join(', ')}`
+                : 'Sin cambios pendientes'
+            }
+            className={`px-2 py-0.5 rounded-full border ${
+              entry.pageNumber === currentPage
+                ? 'border-sky-500 bg-sky-100 text-sky-900 dark:bg-sky-900 dark:text-sky-100'
+                : 'border-sky-200 bg-white text-sky-800 dark:border-sky-800 dark:bg-slate-900 dark:text-sky-300'
+            }`}
+          >
+            {entry.name} · pág. {entry.pageNumber}
+            {entry.lockedPages.length > 0 && ' ✎'}
+          </button>
+        ))}
+      </div>
+      {currentPageHolders.length > 0 && (
+        <div className="text-amber-700 dark:text-amber-400">
+          {currentPageHolders.join(', ')} tiene cambios sin guardar en esta página. Si también la editas, al guardar
+          tendrás que combinar ambas versiones.
+        </div>
+      )}
+      {clashingPages.some((pageNumber) => pageNumber !== currentPage) && (
+        <div className="text-amber-700 dark:text-amber-400">
+          Otros revisores también están editando las págs.{' '}
+          {clashingPages.filter((pageNumber) => pageNumber !== currentPage).join(', ')} que tienes sin guardar.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '@convex/api';
+import type { Id } from '@convex/dataModel';
+import { Button } from '@/components/ui/button';
+
+type Props = {
+  documentId: string;
+  currentPage: number;
+  currentUserId: string | null;
+  goToPage: (pageNumber: number) => void;
+  // Signatures cover the saved values, so unsaved edits have to be saved first
+  hasEdits: boolean;
+  readOnly: boolean;
+};
+
+const REASON_LABELS = {
+  amount: 'Monto alto',
+  rules: 'Error aritmético',
+} as const;
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+/**
+ * Validated rows that need a second reviewer's signature: pages with rows waiting, and the rows of the current page
+ */
+export function RowSignaturesBar({ documentId, currentPage, currentUserId, goToPage, hasEdits, readOnly }: Props) {
+  const verifications = useQuery(api.rowVerifications.getRowVerifications, {
+    documentId: documentId as Id<'documents'>,
+    pageNumber: currentPage,
+  });
+  const signRow = useMutation(api.rowVerifications.signRow);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!verifications || (verifications.pendingPages.length === 0 && verifications.rows.length === 0)) return null;
+
+  const pendingCount = verifications.pendingPages.reduce((sum, page) => sum + page.count, 0);
+  const pageRows = verifications.rows;
+
+  const handleSign = async (row: (typeof pageRows)[number]) => {
+    setError(null);
+    try {
+      await signRow({
+        documentId: documentId as Id<'documents'>,
+        rowType: row.rowType,
+        pageNumber: row.pageNumber,
+        fingerprint: row.fingerprint,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo firmar la fila');
+    }
+  };
+
+  return (
+    <div className="bg-violet-50 dark:bg-violet-950/30 border-b border-violet-200 dark:border-violet-900 px-4 py-2 flex flex-col gap-1 shrink-0 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-violet-800 dark:text-violet-300 font-medium whitespace-nowrap">
+          {pendingCount === 0
+            ? 'Todas las filas de doble firma están verificadas'
+            : `${pendingCount} filas esperan segunda firma`}
+        </span>
+        <span className="text-violet-600 dark:text-violet-400 whitespace-nowrap">
+          (desde {formatCurrency(verifications.minAmount)} o con errores aritméticos)
+        </span>
+        {verifications.pendingPages.map(({ pageNumber }) => (
+          <Button
+            key={pageNumber}
+            onClick={() => goToPage(pageNumber)}
+            variant="outline"
+            size="sm"
+            className={`text-xs h-6 px-2 ${
+              pageNumber === currentPage
+                ? 'bg-violet-400 dark:bg-violet-600 text-violet-900 dark:text-violet-100 hover:bg-violet-500'
+                : 'bg-violet-200 dark:bg-violet-800 text-violet-800 dark:text-violet-200 hover:bg-violet-300'
+            }`}
+          >
+            {pageNumber}
+          </Button>
+        ))}
+        {error && <span className="ml-2 text-red-600 dark:text-red-400">{error}</span>}
+      </div>
+
+      {pageRows.length > 0 && (
+        <table className="w-full">
+          <tbody>
+            {pageRows.map((row) => {
+              const signedByMe = row.signers.some((signer) => signer.userId === currentUserId);
+              return (
+                <tr
+                  key={`${row.rowType}:${row.fingerprint}`}
+                  className="border-t border-violet-100 dark:border-violet-900"
+                >
+                  <td className="py-1 pr-2 whitespace-nowrap">{row.rowType === 'ingress' ? 'Ingreso' : 'Egreso'}</td>
+                  <td className="py-1 pr-2 font-mono whitespace-nowrap">{row.receipt ?? 'sin número'}</td>
+                  <td className="py-1 pr-2 truncate max-w-48">{row.name ?? '—'}</td>
+                  <td className="py-1 pr-2 text-right font-mono whitespace-nowrap">{formatCurrency(row.amount)}</td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    {row.reasons.map((reason) => REASON_LABELS[reason]).join(' · ')}
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    <span
+                      className={
+                        row.verified ? 'text-emerald-700 dark:text-emerald-400' : 'text-amber-700 dark:text-amber-400'
+                      }
+                    >
+                      {row.verified
+                        ? '✓ Verificada'
+                        : `${row.signers.length}/${verifications.requiredSignatures} firmas`}
+                    </span>
+                    {row.signers.length > 0 && (
+                      <span className="ml-1 text-slate-500">
+                        ({row.signers.map((signer) => signer.name).join(', ')})
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1 text-right">
+                    {!readOnly && !row.verified && (
+                      <Button
+                        onClick={() => void handleSign(row)}
+                        disabled={signedByMe || hasEdits}
+                        title={
+                          signedByMe
+                            ? 'Ya firmaste esta fila; otro revisor debe confirmarla'
+                            : hasEdits
+                              ? 'Guarda los cambios antes de firmar'
+                              : 'Confirmo que los valores coinciden con el PDF'
+                        }
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-xs"
+                      >
+                        Firmar
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@convex/api';
+import type { Id } from '@convex/dataModel';
+import { Button } from '@/components/ui/button';
+import { EGRESS_INFO_COLUMNS, EGRESS_SPEND_COLUMNS, EGRESS_TOTAL_COLUMN, INGRESS_COLUMNS } from './types';
+import { normalizeValueForDisplay } from './utils';
+
+type Props = {
+  documentId: string;
+  currentPage: number;
+  onClose: () => void;
+};
+
+export const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(
+    [...INGRESS_COLUMNS, ...EGRESS_INFO_COLUMNS, ...EGRESS_SPEND_COLUMNS, EGRESS_TOTAL_COLUMN].map((col) => [
+      col.key,
+      col.label,
+    ]),
+  ),
+  humanUnreadableFields: 'Ilegibles',
+  failedToRead: 'No se pudo leer',
+};
+
+const CHANGE_LABELS = {
+  added: 'Fila agregada',
+  removed: 'Fila eliminada',
+  updated: 'Editado',
+} as const;
+
+export function formatEditValue(field: string, value: unknown): string {
+  if (Array.isArray(value)) return value.map((item) => FIELD_LABELS[item] ?? item).join(', ');
+  return normalizeValueForDisplay(field, value);
+}
+
+export function rowLabel(rowType: 'ingress' | 'egress', rowKey: string): string {
+  const [, key] = rowKey.split('::');
+  const type = rowType === 'ingress' ? 'Ingreso' : 'Egreso';
+  return key === '#unkeyed' ? `${type} sin número` : `${type} ${key}`;
+}
+
+export function ValidationHistoryDrawer({ documentId, currentPage, onClose }: Props) {
+  const [allPages, setAllPages] = useState(false);
+  const edits = useQuery(api.validationEdits.getValidationEdits, {
+    documentId: documentId as Id<'documents'>,
+    pageNumber: allPages ? undefined : currentPage,
+  });
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end" onClick={onClose}>
+      <div className="absolute inset-0 bg-slate-900/20" />
+      <aside
+        className="relative w-full max-w-md h-full bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900 dark:text-slate-100">Historial de cambios</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {allPages ? 'Todas las páginas' : `Página ${currentPage}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button onClick={() => setAllPages(!allPages)} variant="outline" size="sm" className="text-xs h-7">
+              {allPages ? 'Solo esta página' : 'Todas las páginas'}
+            </Button>
+            <Button onClick={onClose} variant="ghost" size="sm" className="h-7 w-7 p-0" title="Cerrar">
+              ×
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          {edits === undefined ? (
+            <div className="p-4 text-sm text-slate-500">Cargando historial...</div>
+          ) : edits.length === 0 ? (
+            <div className="p-4 text-sm text-slate-500">No hay cambios registrados.</div>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+              {edits.map((edit) => (
+                <li key={edit._id} className="px-4 py-2 text-xs">
+                  <div className="flex items-center justify-between gap-2 text-slate-500 dark:text-slate-400">
+                    <span>
+                      Pág {edit.pageNumber} · {rowLabel(edit.rowType, edit.rowKey)}
+                    </span>
+                    <span>
+                      {new Date(edit.editedAt).toLocaleString('es-PA', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                  <div className="mt-0.5 text-slate-900 dark:text-slate-100">
+                    <span className="font-medium">{FIELD_LABELS[edit.field] ?? edit.field}</span>
+                    {edit.change !== 'updated' && (
+                      <span className="ml-1 text-slate-500 dark:text-slate-400">({CHANGE_LABELS[edit.change]})</span>
+                    )}
+                    :{' '}
+                    <span className="line-through text-red-600 dark:text-red-400">
+                      {formatEditValue(edit.field, edit.oldValue)}
+                    </span>{' '}
+                    →{' '}
+                    <span className="text-emerald-700 dark:text-emerald-400">
+                      {formatEditValue(edit.field, edit.newValue)}
+                    </span>
+                  </div>
+                  <div className="mt-0.5 text-slate-500 dark:text-slate-400">
+                    {edit.source === 'reExtraction'
+                      ? `re-extracción pedida por ${edit.userName}`
+                      : `por ${edit.userName}`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -1,62 +1,8 @@
-export type IngressRow = {
-  pageNumber: number;
-  fecha?: string | null;
-  reciboNumero?: string | null;
-  contribuyenteNombre?: string | null;
-  representanteLegal?: string | null;
-  cedulaRuc?: string | null;
-  direccion?: string | null;
-  telefono?: string | null;
-  correoElectronico?: string | null;
-  donacionesPrivadasEfectivo?: number | null;
-  donacionesPrivadasChequeAch?: number | null;
-  donacionesPrivadasEspecie?: number | null;
-  recursosPropiosEfectivoCheque?: number | null;
-  recursosPropiosEspecie?: number | null;
-  total?: number | null;
-  // AI-detected unreadable fields (from extractions)
-  unreadableFields?: string[];
-  // Human-marked unreadable fields (for validations)
-  humanUnreadableFields?: string[];
-  // Internal UI-only fields (must be stripped before saving)
-  __rowKey?: string;
-  __stableRowKey?: string;
-  __sourceModel?: string;
-};
-
-export type EgressRow = {
-  pageNumber: number;
-  fecha?: string | null;
-  numeroFacturaRecibo?: string | null;
-  cedulaRuc?: string | null;
-  proveedorNombre?: string | null;
-  detalleGasto?: string | null;
-  pagoTipo?: 'Efectivo' | 'Especie' | 'Cheque' | null;
-  movilizacion?: number | null;
-  combustible?: number | null;
-  hospedaje?: number | null;
-  activistas?: number | null;
-  caravanaConcentraciones?: number | null;
-  comidaBrindis?: number | null;
-  alquilerLocalServiciosBasicos?: number | null;
-  cargosBancarios?: number | null;
-  totalGastosCampania?: number | null;
-  personalizacionArticulosPromocionales?: number | null;
-  propagandaElectoral?: number | null;
-  totalGastosPropaganda?: number | null;
-  totalDeGastosDePropagandaYCampania?: number | null;
-  // AI-detected unreadable fields (from extractions)
-  unreadableFields?: string[];
-  // Human-marked unreadable fields (for validations)
-  humanUnreadableFields?: string[];
-  // Internal UI-only fields (must be stripped before saving)
-  __rowKey?: string;
-  __stableRowKey?: string;
-  __sourceModel?: string;
-};
+import type { EgressRow, IngressRow } from '@shared/rows';
+import type { PageReviewState } from '@shared/pageReviewStates';
 
-export const INGRESS_KEY_FIELD = 'reciboNumero' as const;
-export const EGRESS_KEY_FIELD = 'numeroFacturaRecibo' as const;
+export type { EgressRow, IngressRow } from '@shared/rows';
+export { EGRESS_KEY_FIELD, INGRESS_KEY_FIELD } from '@shared/rows';
 
 export const INGRESS_COLUMNS: { key: keyof IngressRow; label: string; type: 'string' | 'number' }[] = [
   { key: 'pageNumber', label: 'Pág', type: 'number' },
@@ -147,3 +93,19 @@ export function createEgressRow(pageNumber: number): EgressRow {
     totalDeGastosDePropagandaYCampania: null,
   };
 }
+
+export const PAGE_REVIEW_STATE_LABELS: Record<PageReviewState, string> = {
+  unreviewed: 'Sin revisar',
+  in_progress: 'En revisión',
+  validated: 'Validada',
+  needs_second_review: 'Requiere segunda revisión',
+  disputed: 'En disputa',
+};
+
+export const PAGE_REVIEW_STATE_CLASSES: Record<PageReviewState, string> = {
+  unreviewed: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+  in_progress: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
+  validated: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300',
+  needs_second_review: 'bg-amber-100 text-amber-700 dark:bg-amber-900 dark:text-amber-300',
+  disputed: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+};
@@ -1,47 +1,90 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery } from 'convex/react';
+import type { FunctionArgs, FunctionReturnType } from 'convex/server';
 import { api } from '@convex/api';
 import type { Id } from '@convex/dataModel';
-import {
-  createEgressRow,
-  createIngressRow,
-  type EgressRow,
-  type IngressRow,
-} from './types';
+import { createEgressRow, createIngressRow, type EgressRow, type IngressRow } from './types';
 
 type RowType = 'ingress' | 'egress';
 
+// A page someone else saved after this editor started changing it, with the rows now on the server
+export type PageConflict = Extract<
+  FunctionReturnType<typeof api.extractions.saveValidatedData>,
+  { status: 'conflict' }
+>['conflicts'][number];
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+type SavedPage = FunctionArgs<typeof api.extractions.saveValidatedData>['pages'][number];
+
+// The saved rows and page versions the current edits started from
+type EditBase = {
+  ingress: IngressRow[];
+  egress: EgressRow[];
+  pageVersions: Record<string, number>;
+};
+
+export const stripUnreadableFields = <T extends Record<string, unknown>>(rows: T[]): T[] =>
+  rows.map(({ unreadableFields, disagreementFields, __rowKey, __stableRowKey, __sourceModel, ...rest }) => rest as T);
+
+const rowsOnPage = <T extends { pageNumber: number }>(rows: T[], pageNumber: number) =>
+  rows.filter((row) => row.pageNumber === pageNumber);
+
+/**
+ * Pages whose rows differ from the rows the edits started from
+ */
+function changedPages(ingress: IngressRow[], egress: EgressRow[], base: EditBase): number[] {
+  const edited = [stripUnreadableFields(ingress), stripUnreadableFields(egress)] as const;
+  const saved = [stripUnreadableFields(base.ingress), stripUnreadableFields(base.egress)] as const;
+  const pageNumbers = new Set([...edited, ...saved].flat().map((row) => row.pageNumber));
+  return Array.from(pageNumbers)
+    .filter(
+      (pageNumber) =>
+        JSON.stringify(edited.map((rows) => rowsOnPage<{ pageNumber: number }>(rows, pageNumber))) !==
+        JSON.stringify(saved.map((rows) => rowsOnPage<{ pageNumber: number }>(rows, pageNumber))),
+    )
+    .sort((a, b) => a - b);
+}
+
 type DocumentValidationState = {
   document: any;
   extraction: any;
   validatedData: any;
   isSaving: boolean;
   hasEdits: boolean;
+  editedPages: number[];
+  conflicts: PageConflict[] | null;
   currentPage: number;
   currentPageIngressRows: IngressRow[];
   currentPageEgressRows: EgressRow[];
   currentIngress: IngressRow[];
   currentEgress: EgressRow[];
   pagesWithUnreadables: number[];
+  pagesNeedingReview: number[];
   hasIngressOnPage: boolean;
   hasEgressOnPage: boolean;
   isCurrentPageReExtracting: boolean;
   currentPageReExtractionFailed: boolean;
+  failedPages: number[];
+  currentPageExtractionError: string | null;
   handleCellEdit: (type: RowType, rowIndex: number, field: string, value: string | number | null) => void;
   handleAddRow: (type: RowType) => void;
   handleDeleteRow: (type: RowType, rowIndex: number) => void;
   handleToggleUnreadable: (type: RowType, rowIndex: number, field: string) => void;
   handleAutoCalculateEgressTotals: () => void;
   handleSave: () => Promise<void>;
+  resolveConflicts: (choices: Record<number, ConflictChoice>) => Promise<void>;
+  dismissConflicts: () => void;
   handleRerunExtraction: () => Promise<void>;
   handleReExtractPage: () => Promise<void>;
+  handleRetryFailedPages: () => Promise<void>;
   goToPage: (pageNumber: number) => void;
   handleRotate: () => void;
   getCurrentRotation: () => number;
   setCurrentPage: (pageNumber: number) => void;
 };
 
-export function useDocumentValidationData(documentId: string): DocumentValidationState {
+export function useDocumentValidationData(documentId: string, initialPage?: number): DocumentValidationState {
   const document = useQuery(api.documents.getDocument, {
     documentId: documentId as Id<'documents'>,
   });
@@ -51,10 +94,14 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
   const validatedData = useQuery(api.extractions.getValidatedData, {
     documentId: documentId as Id<'documents'>,
   });
+  const pageExtractions = useQuery(api.pageExtractions.getPageExtractions, {
+    documentId: documentId as Id<'documents'>,
+  });
 
   const saveValidatedData = useMutation(api.extractions.saveValidatedData);
   const retryExtraction = useMutation(api.documents.retryExtraction);
   const reExtractPageMutation = useMutation(api.documents.reExtractPage);
+  const retryFailedPagesMutation = useMutation(api.pageExtractions.retryFailedPages);
 
   const setPageRotation = useMutation(api.documents.setPageRotation).withOptimisticUpdate((localStore, args) => {
     const currentDoc = localStore.getQuery(api.documents.getDocument, {
@@ -80,6 +127,7 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
 
   const storageKey = `document-page-${documentId}`;
   const [currentPage, setCurrentPage] = useState(() => {
+    if (initialPage !== undefined) return initialPage;
     if (typeof window === 'undefined') return 1;
     const saved = localStorage.getItem(storageKey);
     return saved ? parseInt(saved, 10) : 1;
@@ -91,6 +139,8 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
 
   const [editedIngress, setEditedIngress] = useState<IngressRow[] | null>(null);
   const [editedEgress, setEditedEgress] = useState<EgressRow[] | null>(null);
+  const [editBase, setEditBase] = useState<EditBase | null>(null);
+  const [conflicts, setConflicts] = useState<PageConflict[] | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   const computedIngress = useMemo(() => {
@@ -108,6 +158,19 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
   const currentIngress = editedIngress ?? computedIngress;
   const currentEgress = editedEgress ?? computedEgress;
 
+  // The first edit freezes both row sets and the page versions they were saved at, so the save can tell
+  // the pages changed here apart from pages other reviewers saved meanwhile
+  const startEditing = useCallback(() => {
+    if (editBase) return;
+    setEditBase({
+      ingress: computedIngress,
+      egress: computedEgress,
+      pageVersions: validatedData?.pageVersions ?? {},
+    });
+    setEditedIngress(computedIngress);
+    setEditedEgress(computedEgress);
+  }, [computedEgress, computedIngress, editBase, validatedData?.pageVersions]);
+
   const handleCellEdit = useCallback(
     (type: RowType, rowIndex: number, field: string, value: string | number | null) => {
       if (type === 'ingress') {
@@ -115,29 +178,33 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
         const row = { ...rows[rowIndex] } as IngressRow;
         (row as Record<string, unknown>)[field] = value;
         rows[rowIndex] = row;
+        startEditing();
         setEditedIngress(rows);
       } else {
         const rows = [...(editedEgress || computedEgress)];
         const row = { ...rows[rowIndex] } as EgressRow;
         (row as Record<string, unknown>)[field] = value;
         rows[rowIndex] = row;
+        startEditing();
         setEditedEgress(rows);
       }
     },
-    [computedEgress, computedIngress, editedEgress, editedIngress],
+    [computedEgress, computedIngress, editedEgress, editedIngress, startEditing],
   );
 
   const handleAddRow = useCallback(
     (type: RowType) => {
       if (type === 'ingress') {
         const rows = editedIngress || [...computedIngress];
+        startEditing();
         setEditedIngress([...rows, createIngressRow(currentPage)]);
       } else {
         const rows = editedEgress || [...computedEgress];
+        startEditing();
         setEditedEgress([...rows, createEgressRow(currentPage)]);
       }
     },
-    [computedEgress, computedIngress, currentPage, editedEgress, editedIngress],
+    [computedEgress, computedIngress, currentPage, editedEgress, editedIngress, startEditing],
   );
 
   const handleDeleteRow = useCallback(
@@ -145,14 +212,16 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
       if (type === 'ingress') {
         const rows = [...(editedIngress || computedIngress)];
         rows.splice(rowIndex, 1);
+        startEditing();
         setEditedIngress(rows);
       } else {
         const rows = [...(editedEgress || computedEgress)];
         rows.splice(rowIndex, 1);
+        startEditing();
         setEditedEgress(rows);
       }
     },
-    [computedEgress, computedIngress, editedEgress, editedIngress],
+    [computedEgress, computedIngress, editedEgress, editedIngress, startEditing],
   );
 
   const handleToggleUnreadable = useCallback(
@@ -166,6 +235,7 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
         else unreadableFields.splice(fieldIndex, 1);
         row.humanUnreadableFields = unreadableFields;
         rows[rowIndex] = row;
+        startEditing();
         setEditedIngress(rows);
       } else {
         const rows = [...(editedEgress || computedEgress)];
@@ -176,10 +246,11 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
         else unreadableFields.splice(fieldIndex, 1);
         row.humanUnreadableFields = unreadableFields;
         rows[rowIndex] = row;
+        startEditing();
         setEditedEgress(rows);
       }
     },
-    [computedEgress, computedIngress, editedEgress, editedIngress],
+    [computedEgress, computedIngress, editedEgress, editedIngress, startEditing],
   );
 
   const handleAutoCalculateEgressTotals = useCallback(() => {
@@ -199,30 +270,90 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
     }
 
     if (updatedCount > 0) {
+      startEditing();
       setEditedEgress(rows);
     }
-  }, [computedEgress, editedEgress]);
+  }, [computedEgress, editedEgress, startEditing]);
+
+  const editedPages = useMemo(
+    () => (editBase && editedIngress && editedEgress ? changedPages(editedIngress, editedEgress, editBase) : []),
+    [editBase, editedEgress, editedIngress],
+  );
+
+  const savePages = useCallback(
+    async (ingress: IngressRow[], egress: EgressRow[], base: EditBase) => {
+      setIsSaving(true);
+      try {
+        // Only pages changed since the edits started are sent, each with the version it was edited from
+        const pages = changedPages(ingress, egress, base).map(
+          (pageNumber): SavedPage => ({
+            pageNumber,
+            baseVersion: base.pageVersions[String(pageNumber)] ?? 0,
+            ingress: stripUnreadableFields(rowsOnPage(ingress, pageNumber)),
+            egress: stripUnreadableFields(rowsOnPage(egress, pageNumber)),
+          }),
+        );
+
+        const result = await saveValidatedData({
+          documentId: documentId as Id<'documents'>,
+          pages,
+        });
+        if (result.status === 'conflict') {
+          setConflicts(result.conflicts);
+          return;
+        }
+        setEditedIngress(null);
+        setEditedEgress(null);
+        setEditBase(null);
+        setConflicts(null);
+      } catch (error) {
+        console.error('Save failed:', error);
+        alert(`Error al guardar: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [documentId, saveValidatedData],
+  );
 
   const handleSave = useCallback(async () => {
-    setIsSaving(true);
-    try {
-      const stripUnreadableFields = <T extends Record<string, unknown>>(rows: T[]): T[] =>
-        rows.map(({ unreadableFields, __rowKey, __stableRowKey, __sourceModel, ...rest }) => rest as T);
+    if (!editBase || !editedIngress || !editedEgress) return;
+    await savePages(editedIngress, editedEgress, editBase);
+  }, [editBase, editedEgress, editedIngress, savePages]);
+
+  // Keep this editor's rows or take the server's for each conflicting page, then save again. Either way
+  // the page now counts as edited from the server version, so the retry does not conflict on it again.
+  const resolveConflicts = useCallback(
+    async (choices: Record<number, ConflictChoice>) => {
+      if (!conflicts || !editBase || !editedIngress || !editedEgress) return;
+      let ingress = editedIngress;
+      let egress = editedEgress;
+      let base = { ...editBase, pageVersions: { ...editBase.pageVersions } };
+      for (const conflict of conflicts) {
+        const serverIngress = conflict.ingress as unknown as IngressRow[];
+        const serverEgress = conflict.egress as unknown as EgressRow[];
+        const otherPages = <T extends { pageNumber: number }>(rows: T[]) =>
+          rows.filter((row) => row.pageNumber !== conflict.pageNumber);
+        if (choices[conflict.pageNumber] === 'theirs') {
+          ingress = [...otherPages(ingress), ...serverIngress];
+          egress = [...otherPages(egress), ...serverEgress];
+        }
+        base = {
+          ingress: [...otherPages(base.ingress), ...serverIngress],
+          egress: [...otherPages(base.egress), ...serverEgress],
+          pageVersions: { ...base.pageVersions, [String(conflict.pageNumber)]: conflict.version },
+        };
+      }
+      setEditedIngress(ingress);
+      setEditedEgress(egress);
+      setEditBase(base);
+      setConflicts(null);
+      await savePages(ingress, egress, base);
+    },
+    [conflicts, editBase, editedEgress, editedIngress, savePages],
+  );
 
-      await saveValidatedData({
-        documentId: documentId as Id<'documents'>,
-        ingress: stripUnreadableFields(editedIngress || computedIngress) as any,
-        egress: stripUnreadableFields(editedEgress || computedEgress) as any,
-      });
-      setEditedIngress(null);
-      setEditedEgress(null);
-    } catch (error) {
-      console.error('Save failed:', error);
-      alert(`Error al guardar: ${error instanceof Error ? error.message : 'Error desconocido'}`);
-    } finally {
-      setIsSaving(false);
-    }
-  }, [computedEgress, computedIngress, documentId, editedEgress, editedIngress, saveValidatedData]);
+  const dismissConflicts = useCallback(() => setConflicts(null), []);
 
   const handleRerunExtraction = useCallback(async () => {
     if (
@@ -260,6 +391,22 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
     }
   }, [currentPage, documentId, reExtractPageMutation]);
 
+  const handleRetryFailedPages = useCallback(async () => {
+    if (
+      !confirm('¿Re-extraer todas las páginas que fallaron? Los datos validados de esas páginas serán reemplazados.')
+    ) {
+      return;
+    }
+    try {
+      await retryFailedPagesMutation({
+        documentId: documentId as Id<'documents'>,
+      });
+    } catch (error) {
+      console.error('Retry failed pages failed:', error);
+      alert(`Error al re-extraer: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }, [documentId, retryFailedPagesMutation]);
+
   const goToPage = useCallback((pageNumber: number) => {
     setCurrentPage(pageNumber);
   }, []);
@@ -292,6 +439,20 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
     return Array.from(pageSet).sort((a, b) => a - b);
   }, [currentIngress, currentEgress]);
 
+  const pagesNeedingReview = useMemo(() => {
+    const pageSet = new Set<number>();
+
+    for (const row of currentIngress) {
+      if (row.disagreementFields && row.disagreementFields.length > 0) pageSet.add(row.pageNumber);
+    }
+
+    for (const row of currentEgress) {
+      if (row.disagreementFields && row.disagreementFields.length > 0) pageSet.add(row.pageNumber);
+    }
+
+    return Array.from(pageSet).sort((a, b) => a - b);
+  }, [currentIngress, currentEgress]);
+
   const currentPageIngressRows = useMemo(() => {
     return currentIngress.filter((row) => row.pageNumber === currentPage);
   }, [currentIngress, currentPage]);
@@ -313,7 +474,20 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
     return status === 'failed';
   }, [document?.pageReExtractionStatus, currentPage]);
 
-  const hasEdits = editedIngress !== null || editedEgress !== null;
+  const failedPages = useMemo(() => {
+    return (pageExtractions ?? [])
+      .filter((record) => record.status === 'failed')
+      .map((record) => record.pageNumber)
+      .sort((a, b) => a - b);
+  }, [pageExtractions]);
+
+  const currentPageExtractionError = useMemo(() => {
+    const record = pageExtractions?.find((r) => r.pageNumber === currentPage);
+    if (record?.status !== 'failed') return null;
+    return record.errorMessage ?? 'Error desconocido';
+  }, [pageExtractions, currentPage]);
+
+  const hasEdits = editedPages.length > 0;
 
   return {
     document,
@@ -321,24 +495,32 @@ export function useDocumentValidationData(documentId: string): DocumentValidatio
     validatedData,
     isSaving,
     hasEdits,
+    editedPages,
+    conflicts,
     currentPage,
     currentPageIngressRows,
     currentPageEgressRows,
     currentIngress,
     currentEgress,
     pagesWithUnreadables,
+    pagesNeedingReview,
     hasIngressOnPage,
     hasEgressOnPage,
     isCurrentPageReExtracting,
     currentPageReExtractionFailed,
+    failedPages,
+    currentPageExtractionError,
     handleCellEdit,
     handleAddRow,
     handleDeleteRow,
     handleToggleUnreadable,
     handleAutoCalculateEgressTotals,
     handleSave,
+    resolveConflicts,
+    dismissConflicts,
     handleRerunExtraction,
     handleReExtractPage,
+    handleRetryFailedPages,
     goToPage,
     handleRotate,
     getCurrentRotation,
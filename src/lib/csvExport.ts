@@ -15,6 +15,7 @@ type CsvIngressRow = {
   recursosPropiosEspecie?: number | null;
   total?: number | null;
   unreadableFields?: string[];
+  disagreementFields?: string[];
   humanUnreadableFields?: string[];
 };
 
@@ -40,6 +41,7 @@ type CsvEgressRow = {
   totalGastosPropaganda?: number | null;
   totalDeGastosDePropagandaYCampania?: number | null;
   unreadableFields?: string[];
+  disagreementFields?: string[];
   humanUnreadableFields?: string[];
 };
 
@@ -50,7 +52,8 @@ export type CsvExportDocument = {
   pageCount: number;
   status: string;
   errorMessage?: string;
-  source: 'validated' | 'gemini-3' | 'none';
+  // 'verified': only the validated rows that passed four-eyes verification
+  source: 'validated' | 'verified' | 'gemini-3' | 'none';
   sourceModel: string | null;
   sourceCompletedAt: number | null;
   ingress: CsvIngressRow[];
@@ -99,6 +102,7 @@ const INGRESS_CSV_COLUMNS = [
   'recursosPropiosEspecie',
   'total',
   'unreadableFields',
+  'disagreementFields',
   'humanUnreadableFields',
 ];
 
@@ -123,6 +127,7 @@ const EGRESS_CSV_COLUMNS = [
   'totalGastosPropaganda',
   'totalDeGastosDePropagandaYCampania',
   'unreadableFields',
+  'disagreementFields',
   'humanUnreadableFields',
 ];
 
@@ -0,0 +1,15 @@
+import { PDFDocument } from 'pdf-lib';
+
+async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Page count and SHA-256 (hex) of a PDF picked for upload
+ */
+export async function readPdfFile(file: File): Promise<{ pageCount: number; contentHash: string }> {
+  const arrayBuffer = await file.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(arrayBuffer);
+  return { pageCount: pdfDoc.getPageCount(), contentHash: await sha256Hex(arrayBuffer) };
+}
@@ -0,0 +1,12 @@
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { hasRole, type Role } from '@shared/roles';
+
+/**
+ * Whether the logged-in user's role allows `required`; false while the user is loading.
+ * Only hides controls, the mutations check the role themselves.
+ */
+export function useHasRole(required: Role): boolean {
+  const user = useQuery(api.users.getCurrentUser);
+  return user ? hasRole(user.role, required) : false;
+}
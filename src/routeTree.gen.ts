@@ -15,8 +15,16 @@ import { Route as AuthenticatedRouteImport } from './routes/_authenticated'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as DocumentsIndexRouteImport } from './routes/documents/index'
 import { Route as DocumentsDocumentIdRouteImport } from './routes/documents_.$documentId'
+import { Route as DocumentsProveedoresRouteImport } from './routes/documents/proveedores'
+import { Route as DocumentsDonantesRouteImport } from './routes/documents/donantes'
 import { Route as DocumentsDiscrepanciasRouteImport } from './routes/documents/discrepancias'
+import { Route as DocumentsColaRouteImport } from './routes/documents/cola'
+import { Route as AdminEntitiesRouteImport } from './routes/admin_.entities'
 import { Route as AuthenticatedAuthenticatedRouteImport } from './routes/_authenticated/authenticated'
+import { Route as DocumentsProveedoresSupplierIdRouteImport } from './routes/documents_.proveedores.$supplierId'
+import { Route as DocumentsDonantesDonorIdRouteImport } from './routes/documents_.donantes.$donorId'
+import { Route as DocumentsDocumentIdVersionesRouteImport } from './routes/documents_.$documentId_.versiones'
+import { Route as DocumentsDocumentIdConciliacionRouteImport } from './routes/documents_.$documentId_.conciliacion'
 
 const DocumentsRoute = DocumentsRouteImport.update({
   id: '/documents',
@@ -47,34 +55,94 @@ const DocumentsDocumentIdRoute = DocumentsDocumentIdRouteImport.update({
   path: '/documents/$documentId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DocumentsProveedoresRoute = DocumentsProveedoresRouteImport.update({
+  id: '/proveedores',
+  path: '/proveedores',
+  getParentRoute: () => DocumentsRoute,
+} as any)
+const DocumentsDonantesRoute = DocumentsDonantesRouteImport.update({
+  id: '/donantes',
+  path: '/donantes',
+  getParentRoute: () => DocumentsRoute,
+} as any)
 const DocumentsDiscrepanciasRoute = DocumentsDiscrepanciasRouteImport.update({
   id: '/discrepancias',
   path: '/discrepancias',
   getParentRoute: () => DocumentsRoute,
 } as any)
+const DocumentsColaRoute = DocumentsColaRouteImport.update({
+  id: '/cola',
+  path: '/cola',
+  getParentRoute: () => DocumentsRoute,
+} as any)
+const AdminEntitiesRoute = AdminEntitiesRouteImport.update({
+  id: '/admin_/entities',
+  path: '/admin/entities',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AuthenticatedAuthenticatedRoute =
   AuthenticatedAuthenticatedRouteImport.update({
     id: '/authenticated',
     path: '/authenticated',
     getParentRoute: () => AuthenticatedRoute,
   } as any)
+const DocumentsProveedoresSupplierIdRoute =
+  DocumentsProveedoresSupplierIdRouteImport.update({
+    id: '/documents_/proveedores/$supplierId',
+    path: '/documents/proveedores/$supplierId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const DocumentsDonantesDonorIdRoute =
+  DocumentsDonantesDonorIdRouteImport.update({
+    id: '/documents_/donantes/$donorId',
+    path: '/documents/donantes/$donorId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const DocumentsDocumentIdVersionesRoute =
+  DocumentsDocumentIdVersionesRouteImport.update({
+    id: '/documents_/$documentId_/versiones',
+    path: '/documents/$documentId/versiones',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const DocumentsDocumentIdConciliacionRoute =
+  DocumentsDocumentIdConciliacionRouteImport.update({
+    id: '/documents_/$documentId_/conciliacion',
+    path: '/documents/$documentId/conciliacion',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/admin': typeof AdminRoute
   '/documents': typeof DocumentsRouteWithChildren
   '/authenticated': typeof AuthenticatedAuthenticatedRoute
+  '/admin/entities': typeof AdminEntitiesRoute
+  '/documents/cola': typeof DocumentsColaRoute
   '/documents/discrepancias': typeof DocumentsDiscrepanciasRoute
+  '/documents/donantes': typeof DocumentsDonantesRoute
+  '/documents/proveedores': typeof DocumentsProveedoresRoute
   '/documents/$documentId': typeof DocumentsDocumentIdRoute
   '/documents/': typeof DocumentsIndexRoute
+  '/documents/$documentId/conciliacion': typeof DocumentsDocumentIdConciliacionRoute
+  '/documents/$documentId/versiones': typeof DocumentsDocumentIdVersionesRoute
+  '/documents/donantes/$donorId': typeof DocumentsDonantesDonorIdRoute
+  '/documents/proveedores/$supplierId': typeof DocumentsProveedoresSupplierIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/admin': typeof AdminRoute
   '/authenticated': typeof AuthenticatedAuthenticatedRoute
+  '/admin/entities': typeof AdminEntitiesRoute
+  '/documents/cola': typeof DocumentsColaRoute
   '/documents/discrepancias': typeof DocumentsDiscrepanciasRoute
+  '/documents/donantes': typeof DocumentsDonantesRoute
+  '/documents/proveedores': typeof DocumentsProveedoresRoute
   '/documents/$documentId': typeof DocumentsDocumentIdRoute
   '/documents': typeof DocumentsIndexRoute
+  '/documents/$documentId/conciliacion': typeof DocumentsDocumentIdConciliacionRoute
+  '/documents/$documentId/versiones': typeof DocumentsDocumentIdVersionesRoute
+  '/documents/donantes/$donorId': typeof DocumentsDonantesDonorIdRoute
+  '/documents/proveedores/$supplierId': typeof DocumentsProveedoresSupplierIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -83,9 +151,17 @@ export interface FileRoutesById {
   '/admin': typeof AdminRoute
   '/documents': typeof DocumentsRouteWithChildren
   '/_authenticated/authenticated': typeof AuthenticatedAuthenticatedRoute
+  '/admin_/entities': typeof AdminEntitiesRoute
+  '/documents/cola': typeof DocumentsColaRoute
   '/documents/discrepancias': typeof DocumentsDiscrepanciasRoute
+  '/documents/donantes': typeof DocumentsDonantesRoute
+  '/documents/proveedores': typeof DocumentsProveedoresRoute
   '/documents_/$documentId': typeof DocumentsDocumentIdRoute
   '/documents/': typeof DocumentsIndexRoute
+  '/documents_/$documentId_/conciliacion': typeof DocumentsDocumentIdConciliacionRoute
+  '/documents_/$documentId_/versiones': typeof DocumentsDocumentIdVersionesRoute
+  '/documents_/donantes/$donorId': typeof DocumentsDonantesDonorIdRoute
+  '/documents_/proveedores/$supplierId': typeof DocumentsProveedoresSupplierIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
@@ -94,17 +170,33 @@ export interface FileRouteTypes {
     | '/admin'
     | '/documents'
     | '/authenticated'
+    | '/admin/entities'
+    | '/documents/cola'
     | '/documents/discrepancias'
+    | '/documents/donantes'
+    | '/documents/proveedores'
     | '/documents/$documentId'
     | '/documents/'
+    | '/documents/$documentId/conciliacion'
+    | '/documents/$documentId/versiones'
+    | '/documents/donantes/$donorId'
+    | '/documents/proveedores/$supplierId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
     | '/admin'
     | '/authenticated'
+    | '/admin/entities'
+    | '/documents/cola'
     | '/documents/discrepancias'
+    | '/documents/donantes'
+    | '/documents/proveedores'
     | '/documents/$documentId'
     | '/documents'
+    | '/documents/$documentId/conciliacion'
+    | '/documents/$documentId/versiones'
+    | '/documents/donantes/$donorId'
+    | '/documents/proveedores/$supplierId'
   id:
     | '__root__'
     | '/'
@@ -112,9 +204,17 @@ export interface FileRouteTypes {
     | '/admin'
     | '/documents'
     | '/_authenticated/authenticated'
+    | '/admin_/entities'
+    | '/documents/cola'
     | '/documents/discrepancias'
+    | '/documents/donantes'
+    | '/documents/proveedores'
     | '/documents_/$documentId'
     | '/documents/'
+    | '/documents_/$documentId_/conciliacion'
+    | '/documents_/$documentId_/versiones'
+    | '/documents_/donantes/$donorId'
+    | '/documents_/proveedores/$supplierId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -122,7 +222,12 @@ export interface RootRouteChildren {
   AuthenticatedRoute: typeof AuthenticatedRouteWithChildren
   AdminRoute: typeof AdminRoute
   DocumentsRoute: typeof DocumentsRouteWithChildren
+  AdminEntitiesRoute: typeof AdminEntitiesRoute
   DocumentsDocumentIdRoute: typeof DocumentsDocumentIdRoute
+  DocumentsDocumentIdConciliacionRoute: typeof DocumentsDocumentIdConciliacionRoute
+  DocumentsDocumentIdVersionesRoute: typeof DocumentsDocumentIdVersionesRoute
+  DocumentsDonantesDonorIdRoute: typeof DocumentsDonantesDonorIdRoute
+  DocumentsProveedoresSupplierIdRoute: typeof DocumentsProveedoresSupplierIdRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -169,6 +274,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DocumentsDocumentIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/documents/proveedores': {
+      id: '/documents/proveedores'
+      path: '/proveedores'
+      fullPath: '/documents/proveedores'
+      preLoaderRoute: typeof DocumentsProveedoresRouteImport
+      parentRoute: typeof DocumentsRoute
+    }
+    '/documents/donantes': {
+      id: '/documents/donantes'
+      path: '/donantes'
+      fullPath: '/documents/donantes'
+      preLoaderRoute: typeof DocumentsDonantesRouteImport
+      parentRoute: typeof DocumentsRoute
+    }
     '/documents/discrepancias': {
       id: '/documents/discrepancias'
       path: '/discrepancias'
@@ -176,6 +295,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DocumentsDiscrepanciasRouteImport
       parentRoute: typeof DocumentsRoute
     }
+    '/documents/cola': {
+      id: '/documents/cola'
+      path: '/cola'
+      fullPath: '/documents/cola'
+      preLoaderRoute: typeof DocumentsColaRouteImport
+      parentRoute: typeof DocumentsRoute
+    }
+    '/admin_/entities': {
+      id: '/admin_/entities'
+      path: '/admin/entities'
+      fullPath: '/admin/entities'
+      preLoaderRoute: typeof AdminEntitiesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_authenticated/authenticated': {
       id: '/_authenticated/authenticated'
       path: '/authenticated'
@@ -183,6 +316,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedAuthenticatedRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/documents_/proveedores/$supplierId': {
+      id: '/documents_/proveedores/$supplierId'
+      path: '/documents/proveedores/$supplierId'
+      fullPath: '/documents/proveedores/$supplierId'
+      preLoaderRoute: typeof DocumentsProveedoresSupplierIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/documents_/donantes/$donorId': {
+      id: '/documents_/donantes/$donorId'
+      path: '/documents/donantes/$donorId'
+      fullPath: '/documents/donantes/$donorId'
+      preLoaderRoute: typeof DocumentsDonantesDonorIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/documents_/$documentId_/versiones': {
+      id: '/documents_/$documentId_/versiones'
+      path: '/documents/$documentId/versiones'
+      fullPath: '/documents/$documentId/versiones'
+      preLoaderRoute: typeof DocumentsDocumentIdVersionesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/documents_/$documentId_/conciliacion': {
+      id: '/documents_/$documentId_/conciliacion'
+      path: '/documents/$documentId/conciliacion'
+      fullPath: '/documents/$documentId/conciliacion'
+      preLoaderRoute: typeof DocumentsDocumentIdConciliacionRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -199,12 +360,18 @@ const AuthenticatedRouteWithChildren = AuthenticatedRoute._addFileChildren(
 )
 
 interface DocumentsRouteChildren {
+  DocumentsColaRoute: typeof DocumentsColaRoute
   DocumentsDiscrepanciasRoute: typeof DocumentsDiscrepanciasRoute
+  DocumentsDonantesRoute: typeof DocumentsDonantesRoute
+  DocumentsProveedoresRoute: typeof DocumentsProveedoresRoute
   DocumentsIndexRoute: typeof DocumentsIndexRoute
 }
 
 const DocumentsRouteChildren: DocumentsRouteChildren = {
+  DocumentsColaRoute: DocumentsColaRoute,
   DocumentsDiscrepanciasRoute: DocumentsDiscrepanciasRoute,
+  DocumentsDonantesRoute: DocumentsDonantesRoute,
+  DocumentsProveedoresRoute: DocumentsProveedoresRoute,
   DocumentsIndexRoute: DocumentsIndexRoute,
 }
 
@@ -217,7 +384,12 @@ const rootRouteChildren: RootRouteChildren = {
   AuthenticatedRoute: AuthenticatedRouteWithChildren,
   AdminRoute: AdminRoute,
   DocumentsRoute: DocumentsRouteWithChildren,
+  AdminEntitiesRoute: AdminEntitiesRoute,
   DocumentsDocumentIdRoute: DocumentsDocumentIdRoute,
+  DocumentsDocumentIdConciliacionRoute: DocumentsDocumentIdConciliacionRoute,
+  DocumentsDocumentIdVersionesRoute: DocumentsDocumentIdVersionesRoute,
+  DocumentsDonantesDonorIdRoute: DocumentsDonantesDonorIdRoute,
+  DocumentsProveedoresSupplierIdRoute: DocumentsProveedoresSupplierIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
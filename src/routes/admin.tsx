@@ -1,9 +1,12 @@
 import { createFileRoute, Link } from '@tanstack/react-router';
 import { Authenticated, Unauthenticated, useConvexAuth } from 'convex/react';
-import { useAction, useMutation, useQuery } from 'convex/react';
+import { useAction, useMutation, usePaginatedQuery, useQuery } from 'convex/react';
 import { useAuthActions } from '@convex-dev/auth/react';
 import { useState } from 'react';
 import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { ROLES, type Role } from '@shared/roles';
+import { useHasRole } from '../lib/useHasRole';
 
 export const Route = createFileRoute('/admin')({
   component: AdminPage,
@@ -83,10 +86,7 @@ function AdminPage() {
       </header>
       <main className="p-8 flex flex-col gap-8">
         <Authenticated>
-          <DocumentStats />
-          <ReprocessStuckDocuments />
-          <ProcessAllSummaries />
-          <CreateUserForm />
+          <AdminSections />
         </Authenticated>
         <Unauthenticated>
           <div className="text-center">
@@ -103,6 +103,27 @@ function AdminPage() {
   );
 }
 
+/**
+ * Only the sections the user's role can use; the mutations enforce the same roles
+ */
+function AdminSections() {
+  const isReviewer = useHasRole('reviewer');
+  const isAdmin = useHasRole('admin');
+
+  return (
+    <>
+      <DocumentStats />
+      {isAdmin && <ReprocessStuckDocuments />}
+      {isAdmin && <FailedPages />}
+      {isReviewer && <CandidateLinks canRelink={isAdmin} />}
+      {isReviewer && <EntityReview />}
+      {isAdmin && <ProcessAllSummaries />}
+      {isAdmin && <CreateUserForm />}
+      {isAdmin && <UserManagement />}
+    </>
+  );
+}
+
 function ReprocessStuckDocuments() {
   const reprocess = useMutation(api.documents.reprocessStuckDocuments);
   const [isLoading, setIsLoading] = useState(false);
@@ -155,6 +176,244 @@ function ReprocessStuckDocuments() {
   );
 }
 
+function FailedPages() {
+  const failedPages = useQuery(api.pageExtractions.listDocumentsWithFailedPages);
+  const documents = failedPages?.documents;
+  const retryFailedPages = useMutation(api.pageExtractions.retryFailedPages);
+  const [retrying, setRetrying] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async (documentId: Id<'documents'>) => {
+    setError(null);
+    setRetrying((prev) => new Set(prev).add(documentId));
+    try {
+      await retryFailedPages({ documentId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry pages');
+    } finally {
+      setRetrying((prev) => {
+        const next = new Set(prev);
+        next.delete(documentId);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-2">Failed Pages</h2>
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Pages whose extraction failed in the last run. Retrying only re-extracts these pages.
+        </p>
+      </div>
+
+      {error && <div className="text-red-500 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-md">{error}</div>}
+
+      {failedPages?.truncated && (
+        <div className="text-center text-xs text-slate-500">
+          Showing only part of the failed pages; the rest appear as these are retried.
+        </div>
+      )}
+
+      {documents === undefined ? (
+        <div className="text-center text-slate-500">Loading failed pages...</div>
+      ) : documents.length === 0 ? (
+        <div className="text-center text-sm text-emerald-700 dark:text-emerald-300">No failed pages</div>
+      ) : (
+        <table className="w-full text-sm border border-slate-300 dark:border-slate-700">
+          <tbody>
+            {documents.map((doc) => (
+              <tr key={doc.documentId} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                <td className="p-2">
+                  <Link
+                    to="/documents/$documentId"
+                    params={{ documentId: doc.documentId }}
+                    className="text-blue-500 hover:underline"
+                  >
+                    {doc.name}
+                  </Link>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {doc.failedPages.map((page) => (
+                      <div key={page.pageNumber} className="truncate" title={page.errorMessage}>
+                        Page {page.pageNumber} ({page.attempts} attempts): {page.errorMessage ?? 'Unknown error'}
+                      </div>
+                    ))}
+                  </div>
+                </td>
+                <td className="p-2 text-right">
+                  <button
+                    onClick={() => handleRetry(doc.documentId)}
+                    disabled={retrying.has(doc.documentId)}
+                    className="bg-amber-600 text-white px-3 py-1 rounded-md text-xs font-medium hover:bg-amber-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+                  >
+                    {retrying.has(doc.documentId) ? 'Retrying...' : `Retry ${doc.failedPages.length} page(s)`}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// Unlinked documents shown per page in the candidate links panel
+const UNLINKED_PAGE_SIZE = 100;
+
+function CandidateLinks({ canRelink }: { canRelink: boolean }) {
+  const {
+    results: documents,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.candidates.listUnlinkedDocuments, {}, { initialNumItems: UNLINKED_PAGE_SIZE });
+  const relink = useMutation(api.candidates.relinkUnmatchedDocuments);
+  const [isRelinking, setIsRelinking] = useState(false);
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRelink = async () => {
+    setIsRelinking(true);
+    setError(null);
+    setIsScheduled(false);
+    try {
+      await relink();
+      setIsScheduled(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to relink documents');
+    } finally {
+      setIsRelinking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-2">Candidate Links</h2>
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Documents whose file name did not match any candidate's affidavit. Search for the candidate to link them.
+        </p>
+      </div>
+
+      {error && <div className="text-red-500 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-md">{error}</div>}
+      {isScheduled && (
+        <div className="text-emerald-700 dark:text-emerald-300 text-sm bg-emerald-50 dark:bg-emerald-950 p-3 rounded-md">
+          File name matching started. Documents drop off this list as they are linked.
+        </div>
+      )}
+
+      {canRelink && (
+        <button
+          onClick={handleRelink}
+          disabled={isRelinking}
+          className="bg-slate-700 text-white px-4 py-2 rounded-md font-medium hover:bg-slate-800 transition-colors disabled:opacity-50"
+        >
+          {isRelinking ? 'Matching...' : 'Retry file name matching'}
+        </button>
+      )}
+
+      {status === 'LoadingFirstPage' ? (
+        <div className="text-center text-slate-500">Loading unlinked documents...</div>
+      ) : documents.length === 0 ? (
+        <div className="text-center text-sm text-emerald-700 dark:text-emerald-300">Every document is linked</div>
+      ) : (
+        <table className="w-full text-sm border border-slate-300 dark:border-slate-700">
+          <tbody>
+            {documents.map((doc) => (
+              <CandidateLinkRow key={doc._id} documentId={doc._id} name={doc.name} />
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+        <button
+          onClick={() => loadMore(UNLINKED_PAGE_SIZE)}
+          disabled={status === 'LoadingMore'}
+          className="text-sm font-medium text-blue-500 hover:underline disabled:text-slate-400"
+        >
+          {status === 'LoadingMore' ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CandidateLinkRow({ documentId, name }: { documentId: Id<'documents'>; name: string }) {
+  const [query, setQuery] = useState('');
+  const candidates = useQuery(api.candidates.searchCandidates, query.trim() ? { query } : 'skip');
+  const setDocumentCandidate = useMutation(api.candidates.setDocumentCandidate);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLink = async (candidateId: Id<'candidates'>) => {
+    setError(null);
+    try {
+      await setDocumentCandidate({ documentId, candidateId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to link document');
+    }
+  };
+
+  return (
+    <tr className="border-b border-slate-200 dark:border-slate-700 align-top">
+      <td className="p-2 w-1/2">
+        <Link to="/documents/$documentId" params={{ documentId }} className="text-blue-500 hover:underline break-all">
+          {name}
+        </Link>
+        {error && <div className="text-xs text-red-500 mt-1">{error}</div>}
+      </td>
+      <td className="p-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search candidate..."
+          className="w-full px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md bg-background text-xs"
+        />
+        {candidates && candidates.length > 0 && (
+          <ul className="mt-1 border border-slate-200 dark:border-slate-700 rounded-md divide-y divide-slate-100 dark:divide-slate-800">
+            {candidates.map((candidate) => (
+              <li key={candidate._id}>
+                <button
+                  onClick={() => handleLink(candidate._id)}
+                  className="w-full text-left px-2 py-1 text-xs hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                  <span className="font-medium">{candidate.candidateName}</span>
+                  <span className="text-slate-500">
+                    {' '}
+                    · {candidate.position} · {candidate.party}
+                    {candidate.province ? ` · ${candidate.province}` : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function EntityReview() {
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-2xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-2">Donor & Supplier Review</h2>
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Merge donors or suppliers that automatic matching kept apart, split wrongly matched ones, or pin a canonical
+          name and cédula/RUC. Decisions are kept when documents are re-extracted.
+        </p>
+      </div>
+      <Link
+        to="/admin/entities"
+        className="text-center bg-slate-700 text-white px-4 py-2 rounded-md font-medium hover:bg-slate-800 transition-colors"
+      >
+        Open entity review
+      </Link>
+    </div>
+  );
+}
+
 function ProcessAllSummaries() {
   const processAll = useMutation(api.documents.processAllSummaries);
   const [isLoading, setIsLoading] = useState(false);
@@ -219,6 +478,7 @@ function ProcessAllSummaries() {
 function CreateUserForm() {
   const createUser = useAction(api.admin.createUser);
   const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('reviewer');
   const [result, setResult] = useState<{ email: string; password: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -230,7 +490,7 @@ function CreateUserForm() {
     setIsLoading(true);
 
     try {
-      const newUser = await createUser({ email });
+      const newUser = await createUser({ email, role });
       setResult(newUser);
       setEmail('');
     } catch (err) {
@@ -245,7 +505,7 @@ function CreateUserForm() {
       <div className="text-center">
         <h1 className="text-2xl font-bold mb-2">Create New User</h1>
         <p className="text-slate-600 dark:text-slate-400">
-          Enter an email address to create a new user with a generated password
+          Enter an email address and role to create a new user with a generated password
         </p>
       </div>
 
@@ -265,6 +525,24 @@ function CreateUserForm() {
           />
         </div>
 
+        <div className="flex flex-col gap-2">
+          <label htmlFor="role" className="text-sm font-medium">
+            Role
+          </label>
+          <select
+            id="role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+            className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-slate-500"
+          >
+            {ROLES.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {error && (
           <div className="text-red-500 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-md">{error}</div>
         )}
@@ -304,6 +582,170 @@ function CreateUserForm() {
   );
 }
 
+const formatDateTime = (timestamp: number | null) => (timestamp === null ? 'Never' : new Date(timestamp).toLocaleString());
+
+function UserManagement() {
+  const users = useQuery(api.users.listUsers);
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const setUserRole = useMutation(api.users.setUserRole);
+  const setUserActive = useMutation(api.users.setUserActive);
+  const resetPassword = useAction(api.admin.resetPassword);
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const [resetResult, setResetResult] = useState<{ email: string; password: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (userId: Id<'users'>, fallbackError: string, operation: () => Promise<unknown>) => {
+    setError(null);
+    setPending((prev) => new Set(prev).add(userId));
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setPending((prev) => {
+        const next = new Set(prev);
+        next.delete(userId);
+        return next;
+      });
+    }
+  };
+
+  const handleReset = (userId: Id<'users'>, email: string | null) => {
+    if (!window.confirm(`Reset the password for ${email ?? 'this user'}? They will be signed out everywhere.`)) return;
+    setResetResult(null);
+    void run(userId, 'Failed to reset password', async () => {
+      setResetResult(await resetPassword({ userId }));
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full max-w-5xl mx-auto">
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-2">Users</h2>
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Change roles, deactivate accounts and reset passwords. Deactivated users are signed out and cannot sign back
+          in until reactivated.
+        </p>
+      </div>
+
+      {error && <div className="text-red-500 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-md">{error}</div>}
+
+      {resetResult && (
+        <div className="bg-emerald-50 dark:bg-emerald-950 border border-emerald-200 dark:border-emerald-800 p-4 rounded-md text-sm">
+          <p>
+            <span className="font-medium">New password for {resetResult.email}:</span>{' '}
+            <code className="bg-emerald-100 dark:bg-emerald-900 px-1 rounded font-mono">{resetResult.password}</code>
+          </p>
+          <p className="text-xs text-emerald-600 dark:text-emerald-400 mt-2">
+            Make sure to save this password - it cannot be retrieved later!
+          </p>
+        </div>
+      )}
+
+      {users === undefined ? (
+        <div className="text-center text-slate-500">Loading users...</div>
+      ) : (
+        <table className="w-full text-sm border border-slate-300 dark:border-slate-700">
+          <thead className="bg-slate-50 dark:bg-slate-800">
+            <tr className="text-left">
+              <th className="p-2 font-medium">User</th>
+              <th className="p-2 font-medium">Role</th>
+              <th className="p-2 font-medium">Status</th>
+              <th className="p-2 font-medium">Last login</th>
+              <th className="p-2 font-medium">Validation activity</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => {
+              const isSelf = user._id === currentUser?._id;
+              const isPending = pending.has(user._id);
+              const isActive = user.deactivatedAt === null;
+              return (
+                <tr
+                  key={user._id}
+                  className={`border-b border-slate-200 dark:border-slate-700 align-top ${isActive ? '' : 'text-slate-400'}`}
+                >
+                  <td className="p-2">
+                    <div className="font-medium">{user.email ?? user.name ?? user._id}</div>
+                    <div className="text-xs text-slate-500">Created {formatDateTime(user._creationTime)}</div>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={user.role}
+                      disabled={isSelf || isPending}
+                      title={isSelf ? 'You cannot change your own role' : undefined}
+                      onChange={(e) =>
+                        void run(user._id, 'Failed to change role', () =>
+                          setUserRole({ userId: user._id, role: e.target.value as Role }),
+                        )
+                      }
+                      className="px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md bg-background disabled:opacity-50"
+                    >
+                      {ROLES.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    {isActive ? (
+                      <span className="text-emerald-700 dark:text-emerald-300">Active</span>
+                    ) : (
+                      <span className="text-red-600 dark:text-red-400">
+                        Deactivated {formatDateTime(user.deactivatedAt)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-2 whitespace-nowrap">{formatDateTime(user.lastLoginAt)}</td>
+                  <td className="p-2">
+                    {user.editCount === 0 ? (
+                      <span className="text-slate-500">No edits</span>
+                    ) : (
+                      <>
+                        <div>
+                          {user.editCount}
+                          {user.editCountCapped && '+'} cell edits in {user.documentsEdited} document(s)
+                        </div>
+                        <div className="text-xs text-slate-500">Last edit {formatDateTime(user.lastEditAt)}</div>
+                      </>
+                    )}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap space-x-2">
+                    <button
+                      onClick={() => handleReset(user._id, user.email)}
+                      disabled={isPending || user.email === null}
+                      className="border border-slate-300 dark:border-slate-700 px-3 py-1 rounded-md text-xs font-medium hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                    >
+                      Reset password
+                    </button>
+                    {!isSelf && (
+                      <button
+                        onClick={() =>
+                          void run(user._id, 'Failed to update user', () =>
+                            setUserActive({ userId: user._id, active: !isActive }),
+                          )
+                        }
+                        disabled={isPending}
+                        className={`px-3 py-1 rounded-md text-xs font-medium text-white transition-colors disabled:opacity-50 ${
+                          isActive ? 'bg-red-500 hover:bg-red-600' : 'bg-emerald-600 hover:bg-emerald-700'
+                        }`}
+                      >
+                        {isActive ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 function UserMenu() {
   const { signOut } = useAuthActions();
   const { isAuthenticated } = useConvexAuth();
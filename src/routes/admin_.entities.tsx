@@ -0,0 +1,467 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { Authenticated, Unauthenticated, useMutation, usePaginatedQuery, useQuery } from 'convex/react';
+import { useState } from 'react';
+import { z } from 'zod';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { formatPanamaId } from '@shared/panamaId';
+import { useHasRole } from '../lib/useHasRole';
+
+type EntityType = 'donor' | 'supplier';
+
+// Registry to review and the selected record in it
+const entitiesSearchSchema = z.object({
+  type: z.enum(['donor', 'supplier']).optional().catch(undefined),
+  id: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute('/admin_/entities')({
+  validateSearch: entitiesSearchSchema,
+  component: EntitiesPage,
+});
+
+const ENTITY_LABELS: Record<EntityType, { singular: string; plural: string }> = {
+  donor: { singular: 'donor', plural: 'Donors' },
+  supplier: { singular: 'supplier', plural: 'Suppliers' },
+};
+
+const ACTION_PAGE_SIZE = 25;
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+// Identity keys are 'id:<cédula/RUC>' or 'name:<normalized name>'
+function identityLabel(identityKey: string): string {
+  if (identityKey.startsWith('id:')) return `ID ${identityKey.slice('id:'.length)}`;
+  return `Name ${identityKey.slice('name:'.length)}`;
+}
+
+/**
+ * A donor or supplier with its identities; the two registries return the same shape
+ */
+function useEntity(type: EntityType, id: string | undefined) {
+  const donor = useQuery(api.donors.getDonor, type === 'donor' && id ? { donorId: id as Id<'donors'> } : 'skip');
+  const supplier = useQuery(
+    api.suppliers.getSupplier,
+    type === 'supplier' && id ? { supplierId: id as Id<'suppliers'> } : 'skip',
+  );
+  return type === 'donor' ? donor : supplier;
+}
+
+function useEntitySearch(type: EntityType, query: string) {
+  const args = query.trim() === '' ? null : { search: query, paginationOpts: { numItems: 10, cursor: null } };
+  const donors = useQuery(api.donors.listDonors, type === 'donor' && args ? args : 'skip');
+  const suppliers = useQuery(api.suppliers.listSuppliers, type === 'supplier' && args ? args : 'skip');
+  return (type === 'donor' ? donors : suppliers)?.page;
+}
+
+/**
+ * Merge, split and pin mutations of the selected registry, taking plain ids
+ */
+function useEntityMutations(type: EntityType) {
+  const mergeDonors = useMutation(api.donors.mergeDonors);
+  const mergeSuppliers = useMutation(api.suppliers.mergeSuppliers);
+  const splitDonor = useMutation(api.donors.splitDonor);
+  const splitSupplier = useMutation(api.suppliers.splitSupplier);
+  const pinDonor = useMutation(api.donors.pinDonor);
+  const pinSupplier = useMutation(api.suppliers.pinSupplier);
+
+  return {
+    merge: (sourceId: string, targetId: string): Promise<null> =>
+      type === 'donor'
+        ? mergeDonors({ sourceId: sourceId as Id<'donors'>, targetId: targetId as Id<'donors'> })
+        : mergeSuppliers({ sourceId: sourceId as Id<'suppliers'>, targetId: targetId as Id<'suppliers'> }),
+    split: (id: string, identityKeys: string[]): Promise<string> =>
+      type === 'donor'
+        ? splitDonor({ donorId: id as Id<'donors'>, identityKeys })
+        : splitSupplier({ supplierId: id as Id<'suppliers'>, identityKeys }),
+    pin: (id: string, name: string, idNumber: string | null): Promise<null> =>
+      type === 'donor'
+        ? pinDonor({ donorId: id as Id<'donors'>, name, idNumber })
+        : pinSupplier({ supplierId: id as Id<'suppliers'>, name, idNumber }),
+  };
+}
+
+function EntitiesPage() {
+  const { type = 'donor', id } = Route.useSearch();
+
+  return (
+    <>
+      <header className="sticky top-0 z-10 bg-background p-4 border-b-2 border-slate-200 dark:border-slate-800 flex flex-row justify-between items-center">
+        <Link to="/admin" className="hover:opacity-70">
+          ← Admin
+        </Link>
+        <span className="font-semibold">Donor & Supplier Review</span>
+        <span />
+      </header>
+      <main className="p-8 flex flex-col gap-8 w-full max-w-4xl mx-auto">
+        <Authenticated>
+          <EntityReviewSections type={type} id={id} />
+        </Authenticated>
+        <Unauthenticated>
+          <div className="text-center">
+            <p className="text-slate-600 dark:text-slate-400 mb-4">You must be logged in to review entities.</p>
+            <Link to="/" className="text-blue-500 hover:underline">
+              Go to login
+            </Link>
+          </div>
+        </Unauthenticated>
+      </main>
+    </>
+  );
+}
+
+function EntityReviewSections({ type, id }: { type: EntityType; id: string | undefined }) {
+  const canCurate = useHasRole('reviewer');
+
+  return (
+    <>
+      <div className="flex gap-2 justify-center">
+        {(['donor', 'supplier'] as const).map((entityType) => (
+          <Link
+            key={entityType}
+            to="/admin/entities"
+            search={{ type: entityType }}
+            className={`px-4 py-2 rounded-md text-sm font-medium ${
+              type === entityType
+                ? 'bg-slate-700 text-white'
+                : 'border border-slate-300 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800'
+            }`}
+          >
+            {ENTITY_LABELS[entityType].plural}
+          </Link>
+        ))}
+      </div>
+      {canCurate ? (
+        <>
+          <EntityPicker key={type} type={type} />
+          {id && <EntityDetail key={`${type}:${id}`} type={type} id={id} />}
+        </>
+      ) : (
+        <div className="text-center text-sm text-slate-500">Only reviewers can merge, split or pin records.</div>
+      )}
+      <EntityActionLog type={type} />
+    </>
+  );
+}
+
+function EntityPicker({ type }: { type: EntityType }) {
+  const [query, setQuery] = useState('');
+  const results = useEntitySearch(type, query);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={`Search ${ENTITY_LABELS[type].singular} by name or cédula/RUC...`}
+        className="px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-md bg-background focus:outline-none focus:ring-2 focus:ring-slate-500"
+      />
+      {results && results.length > 0 && (
+        <ul className="border border-slate-200 dark:border-slate-700 rounded-md divide-y divide-slate-100 dark:divide-slate-800 text-sm">
+          {results.map((entity) => (
+            <li key={entity._id}>
+              <Link
+                to="/admin/entities"
+                search={{ type, id: entity._id }}
+                onClick={() => setQuery('')}
+                className="block px-3 py-2 hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                <span className="font-medium">{entity.name}</span>
+                <span className="text-slate-500">
+                  {' '}
+                  · {entity.idNumber ? formatPanamaId({ canonical: entity.idNumber, dv: entity.dv }) : 'no ID'} ·{' '}
+                  {formatCurrency(entity.totalAmount)}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function EntityDetail({ type, id }: { type: EntityType; id: string }) {
+  const entity = useEntity(type, id);
+  const navigate = Route.useNavigate();
+  const { merge, split, pin } = useEntityMutations(type);
+  const [selectedIdentities, setSelectedIdentities] = useState<string[]>([]);
+  const [pinName, setPinName] = useState<string | null>(null);
+  const [pinIdNumber, setPinIdNumber] = useState<string | null>(null);
+  const [mergeQuery, setMergeQuery] = useState('');
+  const mergeResults = useEntitySearch(type, mergeQuery);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (entity === undefined) {
+    return <div className="text-center text-slate-500">Loading {ENTITY_LABELS[type].singular}...</div>;
+  }
+  if (entity === null) {
+    return (
+      <div className="text-center text-slate-500">
+        This {ENTITY_LABELS[type].singular} no longer exists (it may have been merged into another one).
+      </div>
+    );
+  }
+
+  const formattedId = entity.idNumber ? formatPanamaId({ canonical: entity.idNumber, dv: entity.dv }) : '';
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSplit = () =>
+    run(async () => {
+      const newId = await split(id, selectedIdentities);
+      setSelectedIdentities([]);
+      void navigate({ search: { type, id: newId } });
+    });
+
+  const handlePin = () =>
+    run(async () => {
+      await pin(id, pinName ?? entity.name, (pinIdNumber ?? formattedId).trim() || null);
+      setPinName(null);
+      setPinIdNumber(null);
+    });
+
+  const handleMerge = (sourceId: string) =>
+    run(async () => {
+      await merge(sourceId, id);
+      setMergeQuery('');
+    });
+
+  const toggleIdentity = (identityKey: string) => {
+    setSelectedIdentities((prev) =>
+      prev.includes(identityKey) ? prev.filter((key) => key !== identityKey) : [...prev, identityKey],
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-6 border border-slate-300 dark:border-slate-700 rounded-md p-6">
+      <div>
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-bold">{entity.name}</h2>
+          {entity.pinned && (
+            <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+              Pinned
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {formattedId || 'No cédula/RUC'} · {formatCurrency(entity.totalAmount)} in {entity.rowCount} rows ·{' '}
+          {entity.candidateCount} candidates ·{' '}
+          {type === 'donor' ? (
+            <Link to="/documents/donantes/$donorId" params={{ donorId: id }} className="text-blue-500 hover:underline">
+              Public page
+            </Link>
+          ) : (
+            <Link
+              to="/documents/proveedores/$supplierId"
+              params={{ supplierId: id }}
+              className="text-blue-500 hover:underline"
+            >
+              Public page
+            </Link>
+          )}
+        </p>
+      </div>
+
+      {error && <div className="text-red-500 text-sm bg-red-50 dark:bg-red-950 p-3 rounded-md">{error}</div>}
+
+      <section className="flex flex-col gap-2">
+        <h3 className="font-semibold">Pin canonical name and ID</h3>
+        <p className="text-xs text-slate-500">
+          Automatic matching will no longer rename this record or change its cédula/RUC, and every identity it has now
+          stays with it after re-extraction.
+        </p>
+        <div className="flex gap-2">
+          <input
+            value={pinName ?? entity.name}
+            onChange={(e) => setPinName(e.target.value)}
+            className="flex-1 px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md bg-background text-sm"
+          />
+          <input
+            value={pinIdNumber ?? formattedId}
+            onChange={(e) => setPinIdNumber(e.target.value)}
+            placeholder="Cédula/RUC"
+            className="w-48 px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md bg-background text-sm font-mono"
+          />
+          <button
+            onClick={handlePin}
+            disabled={isSaving}
+            className="bg-slate-700 text-white px-3 py-1 rounded-md text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            Pin
+          </button>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Identities</h3>
+          <button
+            onClick={handleSplit}
+            disabled={
+              isSaving || selectedIdentities.length === 0 || selectedIdentities.length === entity.identities.length
+            }
+            className="bg-slate-700 text-white px-3 py-1 rounded-md text-sm font-medium hover:bg-slate-800 transition-colors disabled:opacity-50"
+          >
+            Split selected into a new {ENTITY_LABELS[type].singular}
+          </button>
+        </div>
+        {entity.identities.length === 0 ? (
+          <p className="text-xs text-slate-500">
+            No identities recorded yet; run the aggregate backfill to rebuild them from the rows.
+          </p>
+        ) : (
+          <table className="w-full text-sm border border-slate-300 dark:border-slate-700">
+            <tbody>
+              {entity.identities.map((identity) => (
+                <tr key={identity.identityKey} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                  <td className="p-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={selectedIdentities.includes(identity.identityKey)}
+                      onChange={() => toggleIdentity(identity.identityKey)}
+                    />
+                  </td>
+                  <td className="p-2 font-mono text-xs">{identityLabel(identity.identityKey)}</td>
+                  <td className="p-2 text-xs">
+                    {identity.rawNames.join(' · ') || '—'}
+                    {identity.rawIdNumbers.length > 0 && (
+                      <div className="text-slate-500 font-mono">{identity.rawIdNumbers.join(' · ')}</div>
+                    )}
+                  </td>
+                  <td className="p-2 text-right font-mono text-xs">{identity.rowCount} rows</td>
+                  <td className="p-2 text-right font-mono text-xs">{formatCurrency(identity.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h3 className="font-semibold">Merge another {ENTITY_LABELS[type].singular} into this one</h3>
+        <input
+          value={mergeQuery}
+          onChange={(e) => setMergeQuery(e.target.value)}
+          placeholder="Search by name or cédula/RUC..."
+          className="px-2 py-1 border border-slate-300 dark:border-slate-700 rounded-md bg-background text-sm"
+        />
+        {mergeResults && (
+          <ul className="border border-slate-200 dark:border-slate-700 rounded-md divide-y divide-slate-100 dark:divide-slate-800 text-sm">
+            {mergeResults
+              .filter((other) => other._id !== id)
+              .map((other) => (
+                <li key={other._id} className="px-3 py-2 flex items-center justify-between gap-4">
+                  <span>
+                    <span className="font-medium">{other.name}</span>
+                    <span className="text-slate-500">
+                      {' '}
+                      · {other.idNumber ? formatPanamaId({ canonical: other.idNumber, dv: other.dv }) : 'no ID'} ·{' '}
+                      {formatCurrency(other.totalAmount)} · {other.rowCount} rows
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => handleMerge(other._id)}
+                    disabled={isSaving}
+                    className="border border-slate-300 dark:border-slate-700 px-3 py-1 rounded-md text-xs font-medium hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                  >
+                    Merge into {entity.name}
+                  </button>
+                </li>
+              ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function EntityActionLog({ type }: { type: EntityType }) {
+  const {
+    results: actions,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.entityActions.listEntityActions,
+    { entityType: type },
+    { initialNumItems: ACTION_PAGE_SIZE },
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="text-center">
+        <h2 className="text-xl font-bold mb-2">History</h2>
+        <p className="text-slate-600 dark:text-slate-400 text-sm">
+          Every merge, split and pin made in the {ENTITY_LABELS[type].singular} registry.
+        </p>
+      </div>
+      {status === 'LoadingFirstPage' ? (
+        <div className="text-center text-slate-500">Loading history...</div>
+      ) : actions.length === 0 ? (
+        <div className="text-center text-sm text-slate-500">No manual changes yet</div>
+      ) : (
+        <table className="w-full text-sm border border-slate-300 dark:border-slate-700">
+          <tbody>
+            {actions.map((action) => (
+              <tr key={action._id} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                <td className="p-2 whitespace-nowrap text-xs text-slate-500">
+                  {new Date(action.createdAt).toLocaleString('es-PA')}
+                </td>
+                <td className="p-2 text-xs">{action.userName}</td>
+                <td className="p-2 text-xs">
+                  {action.action === 'merge' && (
+                    <>
+                      Merged <span className="font-medium">{action.otherEntityName}</span> into{' '}
+                      <span className="font-medium">{action.entityName}</span>
+                    </>
+                  )}
+                  {action.action === 'split' && (
+                    <>
+                      Split <span className="font-medium">{action.otherEntityName}</span> off{' '}
+                      <span className="font-medium">{action.entityName}</span>
+                      {action.identityKeys && (
+                        <span className="text-slate-500"> ({action.identityKeys.map(identityLabel).join(', ')})</span>
+                      )}
+                    </>
+                  )}
+                  {action.action === 'pin' && (
+                    <>
+                      Pinned <span className="font-medium">{action.entityName}</span>
+                      {action.before && action.after && (
+                        <span className="text-slate-500">
+                          {' '}
+                          (was {action.before.name}, {action.before.idNumber ?? 'no ID'}; now{' '}
+                          {action.after.idNumber ?? 'no ID'})
+                        </span>
+                      )}
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+        <button
+          onClick={() => loadMore(ACTION_PAGE_SIZE)}
+          disabled={status === 'LoadingMore'}
+          className="text-sm text-blue-500 hover:underline disabled:text-slate-400"
+        >
+          {status === 'LoadingMore' ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
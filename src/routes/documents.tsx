@@ -9,6 +9,9 @@ export const Route = createFileRoute('/documents')({
 function DocumentsLayout() {
   const location = useLocation();
   const isDiscrepancias = location.pathname === '/documents/discrepancias';
+  const isDonantes = location.pathname === '/documents/donantes';
+  const isProveedores = location.pathname === '/documents/proveedores';
+  const isCola = location.pathname === '/documents/cola';
 
   return (
     <>
@@ -34,7 +37,7 @@ function DocumentsLayout() {
               <Link
                 to="/documents"
                 className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
-                  !isDiscrepancias
+                  !isDiscrepancias && !isDonantes && !isProveedores && !isCola
                     ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
                     : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300 dark:text-slate-400 dark:hover:text-slate-300'
                 }`}
@@ -51,6 +54,36 @@ function DocumentsLayout() {
               >
                 Discrepancias
               </Link>
+              <Link
+                to="/documents/donantes"
+                className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  isDonantes
+                    ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                    : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300 dark:text-slate-400 dark:hover:text-slate-300'
+                }`}
+              >
+                Donantes
+              </Link>
+              <Link
+                to="/documents/proveedores"
+                className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  isProveedores
+                    ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                    : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300 dark:text-slate-400 dark:hover:text-slate-300'
+                }`}
+              >
+                Proveedores
+              </Link>
+              <Link
+                to="/documents/cola"
+                className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  isCola
+                    ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                    : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300 dark:text-slate-400 dark:hover:text-slate-300'
+                }`}
+              >
+                Mi cola
+              </Link>
             </nav>
           </div>
 
@@ -0,0 +1,65 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { PAGE_REVIEW_STATE_CLASSES, PAGE_REVIEW_STATE_LABELS } from '@/features/document-validation/types';
+
+export const Route = createFileRoute('/documents/cola')({
+  component: ColaPage,
+});
+
+function ColaPage() {
+  const queue = useQuery(api.pageReviews.listMyQueue);
+  const pageTotal = queue?.reduce((sum, doc) => sum + doc.pages.length, 0) ?? 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Mi cola</h2>
+        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+          Páginas asignadas a ti que todavía no están validadas
+          {queue && queue.length > 0 && ` (${pageTotal} páginas en ${queue.length} documentos)`}.
+        </p>
+      </div>
+
+      {queue === undefined ? (
+        <div className="p-8 text-center text-slate-500">Cargando cola...</div>
+      ) : queue.length === 0 ? (
+        <div className="p-8 text-center text-slate-500">No tienes páginas pendientes.</div>
+      ) : (
+        <div className="divide-y divide-slate-200 dark:divide-slate-700">
+          {queue.map((doc) => (
+            <div key={doc.documentId} className="px-6 py-4">
+              <div className="flex items-baseline justify-between gap-4">
+                <Link
+                  to="/documents/$documentId"
+                  params={{ documentId: doc.documentId }}
+                  search={{ pagina: doc.pages[0].pageNumber }}
+                  className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {doc.name}
+                </Link>
+                <span className="text-sm text-slate-500">
+                  {doc.pages.length} de {doc.pageCount} páginas
+                </span>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {doc.pages.map((page) => (
+                  <Link
+                    key={page.pageNumber}
+                    to="/documents/$documentId"
+                    params={{ documentId: doc.documentId }}
+                    search={{ pagina: page.pageNumber }}
+                    title={PAGE_REVIEW_STATE_LABELS[page.state]}
+                    className={`px-2 py-0.5 rounded text-xs font-mono hover:opacity-80 ${PAGE_REVIEW_STATE_CLASSES[page.state]}`}
+                  >
+                    p. {page.pageNumber}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
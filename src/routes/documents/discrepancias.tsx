@@ -1,65 +1,96 @@
 import { createFileRoute, Link } from '@tanstack/react-router';
-import { useQuery } from 'convex/react';
+import { usePaginatedQuery } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
 import { api } from '../../../convex/_generated/api';
-import documentsIndex from '../../data/documents-index.json';
-
-type CandidateMetadata = {
-  id: string;
-  candidateName: string;
-  documentId: string;
-  position: string;
-  party: string;
-  province: string | null;
-  district: string | null;
-  township: string | null;
-  status: string;
-  isProclaimed: boolean;
-  dateSent: string | null;
-  totalIngress: number;
-  totalEgress: number;
-  pdfUrl: string | null;
-};
+import { z } from 'zod';
 
-function normalizeForComparison(str: string): string {
-  return str
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[ÃÂ]/g, '')
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .trim();
-}
+const PAGE_SIZE = 50;
 
-function findCandidateByFilename(filename: string): CandidateMetadata | null {
-  const normalizedFilename = normalizeForComparison(filename);
-
-  for (const candidate of documentsIndex as CandidateMetadata[]) {
-    if (!candidate.pdfUrl) continue;
-
-    let pdfFilename = candidate.pdfUrl.split('/').pop() || '';
-    try {
-      pdfFilename = decodeURIComponent(decodeURIComponent(pdfFilename));
-    } catch {
-      try {
-        pdfFilename = decodeURIComponent(pdfFilename);
-      } catch {
-        // Use as-is if decoding fails
-      }
-    }
-
-    if (normalizeForComparison(pdfFilename) === normalizedFilename) {
-      return candidate;
-    }
-  }
-  return null;
-}
+// 'resumen': summary page against row sums; 'portal': three-way comparison with the portal totals
+const discrepanciasSearchSchema = z.object({
+  vista: z.enum(['resumen', 'portal']).optional().catch(undefined),
+  // Row sums from four-eyes verified rows only
+  verificadas: z.boolean().optional().catch(undefined),
+});
 
 export const Route = createFileRoute('/documents/discrepancias')({
+  validateSearch: discrepanciasSearchSchema,
   component: DiscrepanciasPage,
 });
 
+type DiscrepancyDocument = FunctionReturnType<typeof api.documents.getDocumentsWithDiscrepancies>['page'][number];
+
+const OUTLIER_LABELS: Record<NonNullable<DiscrepancyDocument['ingressOutlier']>, string> = {
+  none: 'Los tres coinciden',
+  portal: 'Difiere el portal',
+  summary: 'Difiere el resumen',
+  rows: 'Difieren las filas',
+  all: 'Los tres difieren',
+  incomplete: 'Falta un total',
+};
+
+const OUTLIER_COLORS: Record<NonNullable<DiscrepancyDocument['ingressOutlier']>, string> = {
+  none: 'text-green-600 dark:text-green-400',
+  portal: 'text-amber-600 dark:text-amber-400',
+  summary: 'text-amber-600 dark:text-amber-400',
+  rows: 'text-amber-600 dark:text-amber-400',
+  all: 'text-red-600 dark:text-red-400 font-semibold',
+  incomplete: 'text-slate-500',
+};
+
+type RowFigures = {
+  summedIngresos: number | null;
+  summedGastos: number | null;
+  summedIngresosByCategory: number | null;
+  summedGastosByCategory: number | null;
+  ingressDiscrepancy: number | null;
+  egressDiscrepancy: number | null;
+  ingressDiscrepancyByCategory: number | null;
+  egressDiscrepancyByCategory: number | null;
+  portalIngressVsRows: number | null;
+  portalEgressVsRows: number | null;
+  ingressOutlier: NonNullable<DiscrepancyDocument['ingressOutlier']>;
+  egressOutlier: NonNullable<DiscrepancyDocument['egressOutlier']>;
+};
+
+const NO_VERIFIED_ROWS: RowFigures = {
+  summedIngresos: null,
+  summedGastos: null,
+  summedIngresosByCategory: null,
+  summedGastosByCategory: null,
+  ingressDiscrepancy: null,
+  egressDiscrepancy: null,
+  ingressDiscrepancyByCategory: null,
+  egressDiscrepancyByCategory: null,
+  portalIngressVsRows: null,
+  portalEgressVsRows: null,
+  ingressOutlier: 'incomplete',
+  egressOutlier: 'incomplete',
+};
+
+// Row sums and discrepancies over every row, or over the verified rows only (none without validated data)
+function rowFigures(doc: DiscrepancyDocument, verifiedOnly: boolean): RowFigures {
+  if (verifiedOnly) return doc.verified ?? NO_VERIFIED_ROWS;
+  return {
+    ...doc,
+    portalIngressVsRows: doc.portalIngressVsRows ?? null,
+    portalEgressVsRows: doc.portalEgressVsRows ?? null,
+    ingressOutlier: doc.ingressOutlier ?? 'incomplete',
+    egressOutlier: doc.egressOutlier ?? 'incomplete',
+  };
+}
+
 function DiscrepanciasPage() {
-  const discrepancies = useQuery(api.documents.getDocumentsWithDiscrepancies);
+  const { vista = 'resumen', verificadas = false } = Route.useSearch();
+  const {
+    results: discrepancies,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.documents.getDocumentsWithDiscrepancies,
+    { sortBy: vista === 'portal' ? 'portal' : 'summary', verifiedOnly: verificadas },
+    { initialNumItems: PAGE_SIZE },
+  );
 
   const formatCurrency = (value: number | null | undefined) => {
     if (value == null) return '—';
@@ -83,7 +114,7 @@ function DiscrepanciasPage() {
     return 'text-slate-600 dark:text-slate-400';
   };
 
-  if (discrepancies === undefined) {
+  if (status === 'LoadingFirstPage') {
     return <div className="p-8 text-center text-slate-500">Cargando discrepancias...</div>;
   }
 
@@ -95,9 +126,119 @@ function DiscrepanciasPage() {
     );
   }
 
+  const loadMoreButton = (status === 'CanLoadMore' || status === 'LoadingMore') && (
+    <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+      <button
+        onClick={() => loadMore(PAGE_SIZE)}
+        disabled={status === 'LoadingMore'}
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:text-slate-400"
+      >
+        {status === 'LoadingMore' ? 'Cargando...' : 'Cargar más'}
+      </button>
+    </div>
+  );
+
+  if (vista === 'portal') {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+          <DiscrepancyViewTabs vista={vista} verificadas={verificadas} />
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Portal vs Resumen vs Filas</h2>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Compara el total declarado en el portal del Tribunal Electoral, el total de la página de resumen del PDF
+            (ingresos sin saldo anterior) y la suma por categorías de las filas. Cuando dos de los tres coinciden, el
+            tercero es el valor atípico: si difieren las filas, probablemente falta o sobra una fila en la extracción;
+            si difiere el resumen, el candidato sumó mal su propio resumen; si difiere el portal, lo declarado en línea
+            no corresponde al PDF. Ordenado por mayor diferencia con el portal.
+          </p>
+        </div>
+
+        <div className="overflow-auto max-h-[calc(100vh-12rem)]">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Documento</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Portal Ingresos</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Resumen</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Σ Filas</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Δ Portal−Resumen</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Δ Portal−Filas</th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Atípico</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Portal Gastos</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Resumen</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Σ Filas</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Δ Portal−Resumen</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Δ Portal−Filas</th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Atípico</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {discrepancies.map((doc) => {
+                const figures = rowFigures(doc, verificadas);
+                return (
+                  <tr key={doc._id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                    <td className="px-4 py-3">
+                      <Link
+                        to="/documents/$documentId"
+                        params={{ documentId: doc._id }}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
+                      >
+                        {doc.displayName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(doc.portalTotalIngress)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(doc.adjustedSummaryIngresos)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(figures.summedIngresosByCategory)}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.portalIngressVsSummary)}`}>
+                      {formatDiscrepancy(doc.portalIngressVsSummary)}
+                    </td>
+                    <td
+                      className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.portalIngressVsRows)}`}
+                    >
+                      {formatDiscrepancy(figures.portalIngressVsRows)}
+                    </td>
+                    <td className={`px-4 py-3 ${OUTLIER_COLORS[figures.ingressOutlier]}`}>
+                      {OUTLIER_LABELS[figures.ingressOutlier]}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(doc.portalTotalEgress)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(doc.summaryTotalGastos)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
+                      {formatCurrency(figures.summedGastosByCategory)}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.portalEgressVsSummary)}`}>
+                      {formatDiscrepancy(doc.portalEgressVsSummary)}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.portalEgressVsRows)}`}>
+                      {formatDiscrepancy(figures.portalEgressVsRows)}
+                    </td>
+                    <td className={`px-4 py-3 ${OUTLIER_COLORS[figures.egressOutlier]}`}>
+                      {OUTLIER_LABELS[figures.egressOutlier]}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {loadMoreButton}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
       <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+        <DiscrepancyViewTabs vista={vista} verificadas={verificadas} />
         <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
           Discrepancias entre Resumen y Filas
         </h2>
@@ -112,7 +253,9 @@ function DiscrepanciasPage() {
             <tr>
               <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Documento</th>
               <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Fuente</th>
-              <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Resumen Ingresos (− saldo ant.)</th>
+              <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">
+                Resumen Ingresos (− saldo ant.)
+              </th>
               <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Σ Totales</th>
               <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Δ Totales</th>
               <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Σ Categorías</th>
@@ -126,7 +269,7 @@ function DiscrepanciasPage() {
           </thead>
           <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
             {discrepancies.map((doc) => {
-              const candidate = findCandidateByFilename(doc.name);
+              const figures = rowFigures(doc, verificadas);
               return (
                 <tr key={doc._id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
                   <td className="px-4 py-3">
@@ -135,11 +278,16 @@ function DiscrepanciasPage() {
                       params={{ documentId: doc._id }}
                       className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
                     >
-                      {candidate?.candidateName || doc.name}
+                      {doc.displayName}
                     </Link>
                     <div className="text-xs text-slate-400 mt-0.5">
                       {doc.ingressRowCount} ingresos, {doc.egressRowCount} egresos
                     </div>
+                    {verificadas && (doc.verified?.pendingSignatureCount ?? 0) > 0 && (
+                      <div className="text-xs text-amber-600 dark:text-amber-400 mt-0.5">
+                        {doc.verified?.pendingSignatureCount} filas esperan segunda firma
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <span
@@ -156,42 +304,76 @@ function DiscrepanciasPage() {
                     {formatCurrency(doc.summaryTotalIngresos)}
                   </td>
                   <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
-                    {formatCurrency(doc.summedIngresos)}
+                    {formatCurrency(figures.summedIngresos)}
                   </td>
-                  <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.ingressDiscrepancy)}`}>
-                    {formatDiscrepancy(doc.ingressDiscrepancy)}
+                  <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.ingressDiscrepancy)}`}>
+                    {formatDiscrepancy(figures.ingressDiscrepancy)}
                   </td>
                   <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
-                    {formatCurrency(doc.summedIngresosByCategory)}
+                    {formatCurrency(figures.summedIngresosByCategory)}
                   </td>
                   <td
-                    className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.ingressDiscrepancyByCategory)}`}
+                    className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.ingressDiscrepancyByCategory)}`}
                   >
-                    {formatDiscrepancy(doc.ingressDiscrepancyByCategory)}
+                    {formatDiscrepancy(figures.ingressDiscrepancyByCategory)}
                   </td>
                   <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
                     {formatCurrency(doc.summaryTotalGastos)}
                   </td>
                   <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
-                    {formatCurrency(doc.summedGastos)}
+                    {formatCurrency(figures.summedGastos)}
                   </td>
-                  <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.egressDiscrepancy)}`}>
-                    {formatDiscrepancy(doc.egressDiscrepancy)}
+                  <td className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.egressDiscrepancy)}`}>
+                    {formatDiscrepancy(figures.egressDiscrepancy)}
                   </td>
                   <td className="px-4 py-3 text-right font-mono text-slate-700 dark:text-slate-300">
-                    {formatCurrency(doc.summedGastosByCategory)}
+                    {formatCurrency(figures.summedGastosByCategory)}
                   </td>
                   <td
-                    className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(doc.egressDiscrepancyByCategory)}`}
+                    className={`px-4 py-3 text-right font-mono ${getDiscrepancyColor(figures.egressDiscrepancyByCategory)}`}
                   >
-                    {formatDiscrepancy(doc.egressDiscrepancyByCategory)}
+                    {formatDiscrepancy(figures.egressDiscrepancyByCategory)}
                   </td>
                 </tr>
               );
             })}
           </tbody>
         </table>
+        {loadMoreButton}
       </div>
     </div>
   );
 }
+
+function DiscrepancyViewTabs({ vista, verificadas }: { vista: 'resumen' | 'portal'; verificadas: boolean }) {
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+      active
+        ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300'
+        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300'
+    }`;
+  const verifiedSearch = verificadas ? { verificadas: true } : {};
+
+  return (
+    <div className="mb-3 flex gap-2">
+      <Link to="/documents/discrepancias" search={verifiedSearch} className={tabClass(vista === 'resumen')}>
+        Resumen vs Filas
+      </Link>
+      <Link
+        to="/documents/discrepancias"
+        search={{ vista: 'portal', ...verifiedSearch }}
+        className={tabClass(vista === 'portal')}
+      >
+        Portal vs Resumen vs Filas
+      </Link>
+      <Link
+        to="/documents/discrepancias"
+        search={{ vista: vista === 'portal' ? 'portal' : undefined, verificadas: verificadas ? undefined : true }}
+        className={`ml-auto ${tabClass(verificadas)}`}
+        title="Suma solo las filas validadas; las de monto alto o con errores aritméticos necesitan la firma de dos revisores"
+      >
+        Solo filas verificadas
+      </Link>
+    </div>
+  );
+}
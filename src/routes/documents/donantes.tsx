@@ -0,0 +1,117 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { usePaginatedQuery } from 'convex/react';
+import { useState } from 'react';
+import { z } from 'zod';
+import { api } from '../../../convex/_generated/api';
+import { formatPanamaId } from '@shared/panamaId';
+
+const PAGE_SIZE = 50;
+
+// Name or cédula/RUC to look for
+const donantesSearchSchema = z.object({
+  q: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute('/documents/donantes')({
+  validateSearch: donantesSearchSchema,
+  component: DonantesPage,
+});
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+function DonantesPage() {
+  const { q } = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const [query, setQuery] = useState(q ?? '');
+  const {
+    results: donors,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.donors.listDonors, { search: q }, { initialNumItems: PAGE_SIZE });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    void navigate({ search: { q: query.trim() || undefined } });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Registro de donantes</h2>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            Donantes de todas las declaraciones, unificados por cédula/RUC o por nombre. Ordenado por monto donado.
+          </p>
+        </div>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Nombre o cédula/RUC"
+            className="h-9 w-64 rounded-md border border-slate-200 bg-white px-3 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+          />
+          <button
+            type="submit"
+            className="h-9 px-3 rounded-md text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
+          >
+            Buscar
+          </button>
+        </form>
+      </div>
+
+      {status === 'LoadingFirstPage' ? (
+        <div className="p-8 text-center text-slate-500">Cargando donantes...</div>
+      ) : donors.length === 0 ? (
+        <div className="p-8 text-center text-slate-500">
+          {q ? 'Ningún donante coincide con la búsqueda.' : 'Todavía no hay donantes registrados.'}
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-[calc(100vh-12rem)]">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Donante</th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Cédula/RUC</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Candidatos</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Filas</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total donado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {donors.map((donor) => (
+                <tr key={donor._id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                  <td className="px-4 py-3">
+                    <Link
+                      to="/documents/donantes/$donorId"
+                      params={{ donorId: donor._id }}
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
+                    >
+                      {donor.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 font-mono">
+                    {donor.idNumber ? formatPanamaId({ canonical: donor.idNumber, dv: donor.dv }) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">{donor.candidateCount}</td>
+                  <td className="px-4 py-3 text-right font-mono">{donor.rowCount}</td>
+                  <td className="px-4 py-3 text-right font-mono">{formatCurrency(donor.totalAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+            <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+              <button
+                onClick={() => loadMore(PAGE_SIZE)}
+                disabled={status === 'LoadingMore'}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:text-slate-400"
+              >
+                {status === 'LoadingMore' ? 'Cargando...' : 'Cargar más'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
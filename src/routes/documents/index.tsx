@@ -1,92 +1,111 @@
 import { createFileRoute, Link } from '@tanstack/react-router';
-import { useMutation, useQuery } from 'convex/react';
+import { useAction, useConvex, useMutation, usePaginatedQuery, useQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
-import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
-import { PDFDocument } from 'pdf-lib';
+import { useRef, useState, useCallback } from 'react';
+import type { FunctionReturnType } from 'convex/server';
 import { createEgressCsvStream, createIngressCsvStream, type CsvExportDocument } from '../../lib/csvExport';
+import { readPdfFile } from '../../lib/pdfFile';
+import { useHasRole } from '../../lib/useHasRole';
 import type { Id } from '../../../convex/_generated/dataModel';
-import documentsIndex from '../../data/documents-index.json';
-
-type CandidateMetadata = {
-  id: string;
-  candidateName: string;
-  documentId: string;
-  position: string;
-  party: string;
-  province: string | null;
-  district: string | null;
-  township: string | null;
-  status: string;
-  isProclaimed: boolean;
-  dateSent: string | null;
-  totalIngress: number;
-  totalEgress: number;
-  pdfUrl: string | null;
-};
-
-function normalizeForComparison(str: string): string {
-  // Normalize unicode, remove accents, and lowercase
-  return str
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '') // Remove combining diacritical marks
-    .replace(/[ÃÂ]/g, '') // Remove mojibake artifacts
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function findCandidateByFilename(filename: string): CandidateMetadata | null {
-  const normalizedFilename = normalizeForComparison(filename);
-
-  for (const candidate of documentsIndex as CandidateMetadata[]) {
-    if (!candidate.pdfUrl) continue;
-
-    // Double decode to handle double-encoded URLs
-    let pdfFilename = candidate.pdfUrl.split('/').pop() || '';
-    try {
-      pdfFilename = decodeURIComponent(decodeURIComponent(pdfFilename));
-    } catch {
-      try {
-        pdfFilename = decodeURIComponent(pdfFilename);
-      } catch {
-        // Use as-is if decoding fails
-      }
-    }
+import { z } from 'zod';
+
+// Documents per page in the list, and per request when exporting
+const DOCUMENTS_PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 20;
+
+const documentStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+
+// Filters and sort order live in the URL so a filtered view can be shared
+const documentsSearchSchema = z.object({
+  status: documentStatusSchema.optional().catch(undefined),
+  summaryStatus: documentStatusSchema.optional().catch(undefined),
+  validated: z.boolean().optional().catch(undefined),
+  minDiscrepancy: z.number().optional().catch(undefined),
+  maxDiscrepancy: z.number().optional().catch(undefined),
+  position: z.string().optional().catch(undefined),
+  party: z.string().optional().catch(undefined),
+  province: z.string().optional().catch(undefined),
+  sortBy: z.enum(['creationTime', 'name', 'totalIngresos', 'totalGastos']).optional().catch(undefined),
+  sortOrder: z.enum(['asc', 'desc']).optional().catch(undefined),
+});
 
-    if (normalizeForComparison(pdfFilename) === normalizedFilename) {
-      return candidate;
-    }
-  }
-  return null;
-}
+type DocumentsSearch = z.infer<typeof documentsSearchSchema>;
 
 export const Route = createFileRoute('/documents/')({
+  validateSearch: documentsSearchSchema,
   component: DocumentsPage,
 });
 
+type ExportPage = FunctionReturnType<typeof api.documents.getDocumentsForCsvExport>;
+
 type UploadProgress = {
   fileName: string;
-  status: 'pending' | 'uploading' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'uploading' | 'processing' | 'completed' | 'failed' | 'duplicate' | 'cancelled';
   error?: string;
+  // Existing document a duplicate was linked to
+  documentId?: Id<'documents'>;
 };
 
+type ExistingDocument = NonNullable<FunctionReturnType<typeof api.documents.findDocumentByContentHash>>;
+
+type DuplicateDecision = 'link' | 'replace' | 'cancel';
+
+// An upload waiting for the user to decide what to do with a PDF that was already uploaded
+type DuplicatePrompt = {
+  fileName: string;
+  existing: ExistingDocument;
+  resolve: (decision: DuplicateDecision) => void;
+};
+
+const isUploadFinished = (item: UploadProgress) =>
+  item.status !== 'pending' && item.status !== 'uploading' && item.status !== 'processing';
+
 function DocumentsPage() {
-  const documents = useQuery(api.documents.listDocuments);
-  const [exportRequested, setExportRequested] = useState(false);
-  const exportData = useQuery(api.documents.getDocumentsForCsvExport, exportRequested ? {} : undefined);
+  const convex = useConvex();
+  const canEdit = useHasRole('reviewer');
+  const search = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const {
+    results: documents,
+    status: documentsStatus,
+    loadMore,
+  } = usePaginatedQuery(api.documents.listDocuments, search, { initialNumItems: DOCUMENTS_PAGE_SIZE });
   const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
-  const createDocument = useMutation(api.documents.createDocument);
+  const createDocument = useAction(api.documents.createDocument);
+  const createDocumentVersion = useAction(api.documents.createDocumentVersion);
   const retryExtraction = useMutation(api.documents.retryExtraction);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
-  const [uploadStats, setUploadStats] = useState<{ completed: number; failed: number; total: number } | null>(null);
+  const [uploadStats, setUploadStats] = useState<{
+    completed: number;
+    failed: number;
+    skipped: number;
+    total: number;
+  } | null>(null);
+  const [duplicatePrompts, setDuplicatePrompts] = useState<DuplicatePrompt[]>([]);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportVerifiedOnly, setExportVerifiedOnly] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const askDuplicateDecision = useCallback(
+    (fileName: string, existing: ExistingDocument) =>
+      new Promise<DuplicateDecision>((resolve) => {
+        setDuplicatePrompts((prev) => [...prev, { fileName, existing, resolve }]);
+      }),
+    [],
+  );
+
+  const handleDuplicateDecision = (decision: DuplicateDecision) => {
+    const [prompt, ...rest] = duplicatePrompts;
+    if (!prompt) return;
+    setDuplicatePrompts(rest);
+    prompt.resolve(decision);
+  };
+
   const uploadSingleFile = useCallback(
-    async (file: File, index: number): Promise<boolean> => {
+    async (file: File, index: number): Promise<'completed' | 'failed' | 'skipped'> => {
       // Update status to uploading
       setUploadProgress((prev) => {
         const updated = [...prev];
@@ -95,10 +114,24 @@ function DocumentsPage() {
       });
 
       try {
-        // Get page count from PDF
-        const arrayBuffer = await file.arrayBuffer();
-        const pdfDoc = await PDFDocument.load(arrayBuffer);
-        const pageCount = pdfDoc.getPageCount();
+        // Get page count and content hash from PDF
+        const { pageCount, contentHash } = await readPdfFile(file);
+
+        // Same content uploaded before: ask whether to link to it, replace it or skip this file
+        const existing = await convex.query(api.documents.findDocumentByContentHash, { contentHash });
+        const decision = existing ? await askDuplicateDecision(file.name, existing) : null;
+        if (existing && decision !== 'replace') {
+          setUploadProgress((prev) => {
+            const updated = [...prev];
+            updated[index] = {
+              ...updated[index]!,
+              status: decision === 'link' ? 'duplicate' : 'cancelled',
+              documentId: existing._id,
+            };
+            return updated;
+          });
+          return 'skipped';
+        }
 
         // Update status to processing
         setUploadProgress((prev) => {
@@ -123,12 +156,21 @@ function DocumentsPage() {
 
         const { storageId } = await response.json();
 
-        // Create document record
-        await createDocument({
-          fileId: storageId,
-          name: file.name,
-          pageCount,
-        });
+        // Create document record (or a new version of the duplicate being replaced)
+        if (existing) {
+          await createDocumentVersion({
+            documentId: existing._id,
+            fileId: storageId,
+            name: file.name,
+            pageCount,
+          });
+        } else {
+          await createDocument({
+            fileId: storageId,
+            name: file.name,
+            pageCount,
+          });
+        }
 
         // Update status to completed
         setUploadProgress((prev) => {
@@ -137,7 +179,7 @@ function DocumentsPage() {
           return updated;
         });
 
-        return true;
+        return 'completed';
       } catch (error) {
         // Update status to failed
         setUploadProgress((prev) => {
@@ -149,10 +191,10 @@ function DocumentsPage() {
           };
           return updated;
         });
-        return false;
+        return 'failed';
       }
     },
-    [generateUploadUrl, createDocument],
+    [convex, askDuplicateDecision, generateUploadUrl, createDocument, createDocumentVersion],
   );
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -187,21 +229,24 @@ function DocumentsPage() {
     const BATCH_SIZE = 5;
     let completed = 0;
     let failed = 0;
+    let skipped = 0;
 
     for (let i = 0; i < pdfFiles.length; i += BATCH_SIZE) {
       const batch = pdfFiles.slice(i, i + BATCH_SIZE);
       const results = await Promise.all(batch.map((file, batchIndex) => uploadSingleFile(file, i + batchIndex)));
 
-      results.forEach((success) => {
-        if (success) {
+      results.forEach((result) => {
+        if (result === 'completed') {
           completed++;
+        } else if (result === 'skipped') {
+          skipped++;
         } else {
           failed++;
         }
       });
     }
 
-    setUploadStats({ completed, failed, total: pdfFiles.length });
+    setUploadStats({ completed, failed, skipped, total: pdfFiles.length });
     setIsUploading(false);
 
     // Reset file input
@@ -209,8 +254,8 @@ function DocumentsPage() {
       fileInputRef.current.value = '';
     }
 
-    // Clear progress after 5 seconds if all succeeded
-    if (failed === 0) {
+    // Clear progress after 5 seconds if all succeeded (duplicates stay listed with their links)
+    if (failed === 0 && skipped === 0) {
       setTimeout(() => {
         setUploadProgress([]);
         setUploadStats(null);
@@ -232,78 +277,73 @@ function DocumentsPage() {
     showSaveFilePicker: (options?: {}) => Promise<FileSystemFileHandle>;
   } => 'showSaveFilePicker' in value;
 
-  useEffect(() => {
-    if (!exportRequested || !exportData || isExporting) return;
-    const runExport = async () => {
-      setIsExporting(true);
-      setExportError(null);
-      try {
-        const exportPayload: CsvExportDocument[] = exportData.map((doc) => {
-          const candidate = findCandidateByFilename(doc.name);
-          return {
-            ...doc,
-            candidateName: candidate?.candidateName ?? null,
-            candidatePosition: candidate?.position ?? null,
-            candidateParty: candidate?.party ?? null,
-            candidateProvince: candidate?.province ?? null,
-            candidateDistrict: candidate?.district ?? null,
-          };
+  const handleExportCsv = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      // Rows are loaded a few documents at a time to stay under the query read limits
+      const exportData: ExportPage['page'] = [];
+      let cursor: string | null = null;
+      while (true) {
+        const result: ExportPage = await convex.query(api.documents.getDocumentsForCsvExport, {
+          paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor },
+          verifiedOnly: exportVerifiedOnly,
         });
-        const dateStamp = new Date().toISOString().slice(0, 10);
-        const ingressFileName = `documentos-ingresos-${dateStamp}.csv`;
-        const egressFileName = `documentos-egresos-${dateStamp}.csv`;
-        const ingressStream = createIngressCsvStream(exportPayload);
-        const egressStream = createEgressCsvStream(exportPayload);
-
-        if (hasFilePicker(window)) {
-          const saveStream = async (stream: ReadableStream<Uint8Array>, suggestedName: string) => {
-            const handle = await (window as any).showSaveFilePicker({
-              suggestedName,
-              types: [
-                {
-                  description: 'CSV',
-                  accept: { 'text/csv': ['.csv'] },
-                },
-              ],
-            });
-            const writable = await handle.createWritable();
-            const reader = stream.getReader();
-            while (true) {
-              const { value, done } = await reader.read();
-              if (done) break;
-              await writable.write(value);
-            }
-            await writable.close();
-          };
-
-          await saveStream(ingressStream, ingressFileName);
-          await saveStream(egressStream, egressFileName);
-        } else {
-          const downloadStream = async (stream: ReadableStream<Uint8Array>, fileName: string) => {
-            const blob = await new Response(stream).blob();
-            const url = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = fileName;
-            link.click();
-            URL.revokeObjectURL(url);
-          };
-          await downloadStream(ingressStream, ingressFileName);
-          await downloadStream(egressStream, egressFileName);
-        }
-      } catch (error) {
-        setExportError(error instanceof Error ? error.message : 'Export failed');
-      } finally {
-        setIsExporting(false);
-        setExportRequested(false);
+        exportData.push(...result.page);
+        if (result.isDone) break;
+        cursor = result.continueCursor;
       }
-    };
-    void runExport();
-  }, [exportRequested, exportData, isExporting]);
 
-  const handleExportCsv = () => {
-    setExportError(null);
-    setExportRequested(true);
+      const exportPayload: CsvExportDocument[] = exportData;
+      const dateStamp = new Date().toISOString().slice(0, 10);
+      const suffix = exportVerifiedOnly ? '-verificados' : '';
+      const ingressFileName = `documentos-ingresos${suffix}-${dateStamp}.csv`;
+      const egressFileName = `documentos-egresos${suffix}-${dateStamp}.csv`;
+      const ingressStream = createIngressCsvStream(exportPayload);
+      const egressStream = createEgressCsvStream(exportPayload);
+
+      if (hasFilePicker(window)) {
+        const saveStream = async (stream: ReadableStream<Uint8Array>, suggestedName: string) => {
+          const handle = await (window as any).showSaveFilePicker({
+            suggestedName,
+            types: [
+              {
+                description: 'CSV',
+                accept: { 'text/csv': ['.csv'] },
+              },
+            ],
+          });
+          const writable = await handle.createWritable();
+          const reader = stream.getReader();
+          while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            await writable.write(value);
+          }
+          await writable.close();
+        };
+
+        await saveStream(ingressStream, ingressFileName);
+        await saveStream(egressStream, egressFileName);
+      } else {
+        const downloadStream = async (stream: ReadableStream<Uint8Array>, fileName: string) => {
+          const blob = await new Response(stream).blob();
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = fileName;
+          link.click();
+          URL.revokeObjectURL(url);
+        };
+        await downloadStream(ingressStream, ingressFileName);
+        await downloadStream(egressStream, egressFileName);
+      }
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const getStatusBadge = (status: string) => {
@@ -318,198 +358,228 @@ function DocumentsPage() {
 
   return (
     <>
+      {duplicatePrompts[0] && (
+        <DuplicateUploadDialog
+          prompt={duplicatePrompts[0]}
+          pendingCount={duplicatePrompts.length}
+          onDecide={handleDuplicateDecision}
+        />
+      )}
+
       {/* Upload Section */}
-          <div className="mb-8 p-6 bg-white dark:bg-slate-800 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600">
-            <div className="text-center">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="application/pdf"
-                multiple
-                onChange={handleUpload}
-                disabled={isUploading}
-                className="hidden"
-                id="pdf-upload"
-              />
-              <label
-                htmlFor="pdf-upload"
-                className={`inline-flex items-center gap-2 px-6 py-3 rounded-lg font-medium cursor-pointer transition-colors ${
-                  isUploading
-                    ? 'bg-slate-300 text-slate-500 cursor-not-allowed'
-                    : 'bg-indigo-600 text-white hover:bg-indigo-700'
-                }`}
-              >
-                {isUploading ? (
-                  <>
-                    <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                      <circle
-                        className="opacity-25"
-                        cx="12"
-                        cy="12"
-                        r="10"
-                        stroke="currentColor"
-                        strokeWidth="4"
-                        fill="none"
-                      />
-                      <path
-                        className="opacity-75"
-                        fill="currentColor"
-                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                      />
-                    </svg>
-                    Subiendo...
-                  </>
-                ) : (
-                  <>
-                    <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                      />
-                    </svg>
-                    Subir PDFs
-                  </>
-                )}
-              </label>
-              <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">
-                Selecciona uno o múltiples PDFs (INFORME DE INGRESOS o INFORME DE GASTOS)
-              </p>
-              {uploadError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
-            </div>
+          {canEdit && (
+            <div className="mb-8 p-6 bg-white dark:bg-slate-800 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600">
+              <div className="text-center">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/pdf"
+                  multiple
+                  onChange={handleUpload}
+                  disabled={isUploading}
+                  className="hidden"
+                  id="pdf-upload"
+                />
+                <label
+                  htmlFor="pdf-upload"
+                  className={`inline-flex items-center gap-2 px-6 py-3 rounded-lg font-medium cursor-pointer transition-colors ${
+                    isUploading
+                      ? 'bg-slate-300 text-slate-500 cursor-not-allowed'
+                      : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                  }`}
+                >
+                  {isUploading ? (
+                    <>
+                      <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                        <circle
+                          className="opacity-25"
+                          cx="12"
+                          cy="12"
+                          r="10"
+                          stroke="currentColor"
+                          strokeWidth="4"
+                          fill="none"
+                        />
+                        <path
+                          className="opacity-75"
+                          fill="currentColor"
+                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                        />
+                      </svg>
+                      Subiendo...
+                    </>
+                  ) : (
+                    <>
+                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                        />
+                      </svg>
+                      Subir PDFs
+                    </>
+                  )}
+                </label>
+                <p className="mt-2 text-sm text-slate-500 dark:text-slate-400">
+                  Selecciona uno o múltiples PDFs (INFORME DE INGRESOS o INFORME DE GASTOS)
+                </p>
+                {uploadError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{uploadError}</p>}
+              </div>
 
-            {/* Upload Progress */}
-            {uploadProgress.length > 0 && (
-              <div className="mt-6">
-                {/* Summary Stats */}
-                {uploadStats && (
-                  <div className="mb-4 p-3 rounded-lg bg-slate-100 dark:bg-slate-700 flex items-center justify-center gap-6">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
-                        {uploadStats.completed}
+              {/* Upload Progress */}
+              {uploadProgress.length > 0 && (
+                <div className="mt-6">
+                  {/* Summary Stats */}
+                  {uploadStats && (
+                    <div className="mb-4 p-3 rounded-lg bg-slate-100 dark:bg-slate-700 flex items-center justify-center gap-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">
+                          {uploadStats.completed}
+                        </div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">Completados</div>
                       </div>
-                      <div className="text-xs text-slate-500 dark:text-slate-400">Completados</div>
-                    </div>
-                    {uploadStats.failed > 0 && (
+                      {uploadStats.failed > 0 && (
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-red-600 dark:text-red-400">{uploadStats.failed}</div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Fallidos</div>
+                        </div>
+                      )}
+                      {uploadStats.skipped > 0 && (
+                        <div className="text-center">
+                          <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">{uploadStats.skipped}</div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">Duplicados</div>
+                        </div>
+                      )}
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-red-600 dark:text-red-400">{uploadStats.failed}</div>
-                        <div className="text-xs text-slate-500 dark:text-slate-400">Fallidos</div>
+                        <div className="text-2xl font-bold text-slate-600 dark:text-slate-300">{uploadStats.total}</div>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">Total</div>
                       </div>
-                    )}
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-slate-600 dark:text-slate-300">{uploadStats.total}</div>
-                      <div className="text-xs text-slate-500 dark:text-slate-400">Total</div>
                     </div>
-                  </div>
-                )}
-
-                {/* Progress Bar */}
-                {isUploading && (
-                  <div className="mb-4">
-                    <div className="flex justify-between text-sm text-slate-600 dark:text-slate-400 mb-1">
-                      <span>Progreso</span>
-                      <span>
-                        {uploadProgress.filter((p) => p.status === 'completed' || p.status === 'failed').length} /{' '}
-                        {uploadProgress.length}
-                      </span>
-                    </div>
-                    <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
-                      <div
-                        className="h-full bg-indigo-600 transition-all duration-300"
-                        style={{
-                          width: `${(uploadProgress.filter((p) => p.status === 'completed' || p.status === 'failed').length / uploadProgress.length) * 100}%`,
-                        }}
-                      />
+                  )}
+
+                  {/* Progress Bar */}
+                  {isUploading && (
+                    <div className="mb-4">
+                      <div className="flex justify-between text-sm text-slate-600 dark:text-slate-400 mb-1">
+                        <span>Progreso</span>
+                        <span>
+                          {uploadProgress.filter(isUploadFinished).length} /{' '}
+                          {uploadProgress.length}
+                        </span>
+                      </div>
+                      <div className="w-full h-2 bg-slate-200 dark:bg-slate-600 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-indigo-600 transition-all duration-300"
+                          style={{
+                            width: `${(uploadProgress.filter(isUploadFinished).length / uploadProgress.length) * 100}%`,
+                          }}
+                        />
+                      </div>
                     </div>
-                  </div>
-                )}
-
-                {/* File List - Collapsible for large uploads */}
-                <details className="group" open={uploadProgress.length <= 10}>
-                  <summary className="cursor-pointer text-sm font-medium text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200">
-                    {uploadProgress.length} archivos{' '}
-                    <span className="text-slate-400 group-open:hidden">(click para expandir)</span>
-                  </summary>
-                  <div className="mt-2 max-h-60 overflow-y-auto space-y-1 text-sm">
-                    {uploadProgress.map((item, idx) => (
-                      <div
-                        key={idx}
-                        className={`flex items-center gap-2 px-2 py-1 rounded ${
-                          item.status === 'completed'
-                            ? 'bg-emerald-50 dark:bg-emerald-900/20'
-                            : item.status === 'failed'
-                              ? 'bg-red-50 dark:bg-red-900/20'
-                              : item.status === 'uploading' || item.status === 'processing'
-                                ? 'bg-blue-50 dark:bg-blue-900/20'
-                                : 'bg-slate-50 dark:bg-slate-800'
-                        }`}
-                      >
-                        {/* Status Icon */}
-                        {item.status === 'pending' && <span className="w-4 h-4 text-slate-400">○</span>}
-                        {(item.status === 'uploading' || item.status === 'processing') && (
-                          <svg className="animate-spin h-4 w-4 text-blue-500" viewBox="0 0 24 24">
-                            <circle
-                              className="opacity-25"
-                              cx="12"
-                              cy="12"
-                              r="10"
-                              stroke="currentColor"
-                              strokeWidth="4"
-                              fill="none"
-                            />
-                            <path
-                              className="opacity-75"
-                              fill="currentColor"
-                              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                            />
-                          </svg>
-                        )}
-                        {item.status === 'completed' && <span className="w-4 h-4 text-emerald-500">✓</span>}
-                        {item.status === 'failed' && <span className="w-4 h-4 text-red-500">✕</span>}
-
-                        {/* File Name */}
-                        <span
-                          className={`flex-1 truncate ${
-                            item.status === 'failed'
-                              ? 'text-red-700 dark:text-red-400'
-                              : item.status === 'completed'
-                                ? 'text-emerald-700 dark:text-emerald-400'
-                                : 'text-slate-700 dark:text-slate-300'
+                  )}
+
+                  {/* File List - Collapsible for large uploads */}
+                  <details className="group" open={uploadProgress.length <= 10}>
+                    <summary className="cursor-pointer text-sm font-medium text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200">
+                      {uploadProgress.length} archivos{' '}
+                      <span className="text-slate-400 group-open:hidden">(click para expandir)</span>
+                    </summary>
+                    <div className="mt-2 max-h-60 overflow-y-auto space-y-1 text-sm">
+                      {uploadProgress.map((item, idx) => (
+                        <div
+                          key={idx}
+                          className={`flex items-center gap-2 px-2 py-1 rounded ${
+                            item.status === 'completed'
+                              ? 'bg-emerald-50 dark:bg-emerald-900/20'
+                              : item.status === 'failed'
+                                ? 'bg-red-50 dark:bg-red-900/20'
+                                : item.status === 'duplicate'
+                                  ? 'bg-amber-50 dark:bg-amber-900/20'
+                                  : item.status === 'uploading' || item.status === 'processing'
+                                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                                    : 'bg-slate-50 dark:bg-slate-800'
                           }`}
-                          title={item.fileName}
                         >
-                          {item.fileName}
-                        </span>
+                          {/* Status Icon */}
+                          {item.status === 'pending' && <span className="w-4 h-4 text-slate-400">○</span>}
+                          {(item.status === 'uploading' || item.status === 'processing') && (
+                            <svg className="animate-spin h-4 w-4 text-blue-500" viewBox="0 0 24 24">
+                              <circle
+                                className="opacity-25"
+                                cx="12"
+                                cy="12"
+                                r="10"
+                                stroke="currentColor"
+                                strokeWidth="4"
+                                fill="none"
+                              />
+                              <path
+                                className="opacity-75"
+                                fill="currentColor"
+                                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                              />
+                            </svg>
+                          )}
+                          {item.status === 'completed' && <span className="w-4 h-4 text-emerald-500">✓</span>}
+                          {item.status === 'failed' && <span className="w-4 h-4 text-red-500">✕</span>}
+                          {item.status === 'duplicate' && <span className="w-4 h-4 text-amber-500">=</span>}
+                          {item.status === 'cancelled' && <span className="w-4 h-4 text-slate-400">–</span>}
+
+                          {/* File Name */}
+                          <span
+                            className={`flex-1 truncate ${
+                              item.status === 'failed'
+                                ? 'text-red-700 dark:text-red-400'
+                                : item.status === 'completed'
+                                  ? 'text-emerald-700 dark:text-emerald-400'
+                                  : 'text-slate-700 dark:text-slate-300'
+                            }`}
+                            title={item.fileName}
+                          >
+                            {item.fileName}
+                          </span>
 
-                        {/* Status Label */}
-                        <span className="text-xs text-slate-400">
-                          {item.status === 'pending' && 'Pendiente'}
-                          {item.status === 'uploading' && 'Subiendo...'}
-                          {item.status === 'processing' && 'Procesando...'}
-                          {item.status === 'completed' && 'Listo'}
-                          {item.status === 'failed' && (item.error || 'Error')}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
-                </details>
-
-                {/* Clear button when done */}
-                {!isUploading && uploadStats && uploadStats.failed > 0 && (
-                  <button
-                    onClick={() => {
-                      setUploadProgress([]);
-                      setUploadStats(null);
-                    }}
-                    className="mt-3 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
-                  >
-                    Limpiar lista
-                  </button>
-                )}
-              </div>
-            )}
-          </div>
+                          {/* Status Label */}
+                          <span className="text-xs text-slate-400">
+                            {item.status === 'pending' && 'Pendiente'}
+                            {item.status === 'uploading' && 'Subiendo...'}
+                            {item.status === 'processing' && 'Procesando...'}
+                            {item.status === 'completed' && 'Listo'}
+                            {item.status === 'failed' && (item.error || 'Error')}
+                            {item.status === 'cancelled' && 'Cancelado (duplicado)'}
+                            {item.status === 'duplicate' && item.documentId && (
+                              <Link
+                                to="/documents/$documentId"
+                                params={{ documentId: item.documentId }}
+                                className="text-amber-600 dark:text-amber-400 hover:underline"
+                              >
+                                Ya existía: ver documento
+                              </Link>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+
+                  {/* Clear button when done */}
+                  {!isUploading && uploadStats && (uploadStats.failed > 0 || uploadStats.skipped > 0) && (
+                    <button
+                      onClick={() => {
+                        setUploadProgress([]);
+                        setUploadStats(null);
+                      }}
+                      className="mt-3 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                    >
+                      Limpiar lista
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Documents List */}
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
@@ -517,29 +587,47 @@ function DocumentsPage() {
               <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Documentos</h2>
               <div className="flex items-center gap-3">
                 {exportError && <span className="text-sm text-red-600 dark:text-red-400">{exportError}</span>}
+                <label
+                  className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400"
+                  title="Solo filas validadas; las de monto alto o con errores aritméticos necesitan la firma de dos revisores"
+                >
+                  <input
+                    type="checkbox"
+                    checked={exportVerifiedOnly}
+                    onChange={(e) => setExportVerifiedOnly(e.target.checked)}
+                  />
+                  Solo filas verificadas
+                </label>
                 <button
                   onClick={handleExportCsv}
-                  disabled={isExporting || exportRequested || documents === undefined || documents.length === 0}
+                  disabled={isExporting || documents.length === 0}
                   className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                    isExporting || exportRequested || documents === undefined || documents.length === 0
+                    isExporting || documents.length === 0
                       ? 'bg-slate-200 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-400'
                       : 'bg-emerald-600 text-white hover:bg-emerald-700'
                   }`}
                 >
-                  {isExporting || exportRequested ? 'Exportando...' : 'Exportar CSVs'}
+                  {isExporting ? 'Exportando...' : 'Exportar CSVs'}
                 </button>
               </div>
             </div>
 
-            {documents === undefined ? (
+            <DocumentFiltersBar
+              search={search}
+              onChange={(changes) => void navigate({ search: (prev) => ({ ...prev, ...changes }), replace: true })}
+            />
+
+            {documentsStatus === 'LoadingFirstPage' ? (
               <div className="p-8 text-center text-slate-500">Cargando...</div>
             ) : documents.length === 0 ? (
-              <div className="p-8 text-center text-slate-500">No hay documentos. Sube un PDF para comenzar.</div>
+              <div className="p-8 text-center text-slate-500">
+                {hasActiveFilters(search)
+                  ? 'Ningún documento coincide con los filtros.'
+                  : 'No hay documentos. Sube un PDF para comenzar.'}
+              </div>
             ) : (
               <div className="divide-y divide-slate-200 dark:divide-slate-700">
-                {documents.map((doc) => {
-                  const candidate = findCandidateByFilename(doc.name);
-                  return (
+                {documents.map((doc) => (
                     <div
                       key={doc._id}
                       className="px-6 py-4 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
@@ -550,21 +638,38 @@ function DocumentsPage() {
                           params={{ documentId: doc._id }}
                           className="text-lg font-medium text-indigo-600 dark:text-indigo-400 hover:underline truncate block"
                         >
-                          {candidate?.candidateName || doc.name}
+                          {doc.candidateName || doc.name}
                         </Link>
-                        {candidate && (
+                        {doc.candidateName && (
                           <div className="flex items-center gap-2 mt-1 text-sm">
                             <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
-                              {candidate.position}
+                              {doc.candidatePosition}
                             </span>
                             <span className="px-2 py-0.5 rounded bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
-                              {candidate.party}
+                              {doc.candidateParty}
                             </span>
                           </div>
                         )}
                         <div className="flex items-center gap-4 mt-1 text-sm text-slate-500 dark:text-slate-400">
                           <span>{doc.pageCount} páginas</span>
                           <span>•</span>
+                          {doc.validatedPageCount > 0 && (
+                            <>
+                              <span
+                                className="flex items-center gap-2"
+                                title={`${doc.validatedPageCount} de ${doc.pageCount} páginas validadas`}
+                              >
+                                <span className="w-16 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                                  <span
+                                    className="block h-full bg-emerald-500"
+                                    style={{ width: `${completionPercent(doc.validatedPageCount, doc.pageCount)}%` }}
+                                  />
+                                </span>
+                                {completionPercent(doc.validatedPageCount, doc.pageCount)}% validado
+                              </span>
+                              <span>•</span>
+                            </>
+                          )}
                           {(doc.ingressCount > 0 || doc.egressCount > 0) && (
                             <>
                               <span>{doc.ingressCount} ingresos</span>
@@ -573,6 +678,17 @@ function DocumentsPage() {
                               <span>•</span>
                             </>
                           )}
+                          {doc.ruleIssueCount > 0 && (
+                            <>
+                              <span
+                                className="text-amber-600 dark:text-amber-400 font-medium"
+                                title="Filas cuyas sumas, tipo de pago o signos no cuadran"
+                              >
+                                ⚠ {doc.ruleIssueCount} filas con errores aritméticos
+                              </span>
+                              <span>•</span>
+                            </>
+                          )}
                           {(doc.totalIngresos != null || doc.totalGastos != null) && (
                             <>
                               {doc.totalIngresos != null && (
@@ -606,7 +722,7 @@ function DocumentsPage() {
                       <div className="flex items-center gap-4">
                         {getStatusBadge(doc.status)}
 
-                        {doc.status === 'failed' && (
+                        {doc.status === 'failed' && canEdit && (
                           <button
                             onClick={() => handleRetry(doc._id)}
                             className="px-3 py-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
@@ -626,11 +742,254 @@ function DocumentsPage() {
                         )}
                       </div>
                     </div>
-                  );
-                })}
+                ))}
+              </div>
+            )}
+            {(documentsStatus === 'CanLoadMore' || documentsStatus === 'LoadingMore') && (
+              <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+                <button
+                  onClick={() => loadMore(DOCUMENTS_PAGE_SIZE)}
+                  disabled={documentsStatus === 'LoadingMore'}
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:text-slate-400"
+                >
+                  {documentsStatus === 'LoadingMore' ? 'Cargando...' : 'Cargar más documentos'}
+                </button>
               </div>
             )}
           </div>
     </>
   );
 }
+
+const completionPercent = (validatedPageCount: number, pageCount: number) =>
+  pageCount === 0 ? 0 : Math.round((validatedPageCount / pageCount) * 100);
+
+const STATUS_LABELS: Record<z.infer<typeof documentStatusSchema>, string> = {
+  pending: 'Pendiente',
+  processing: 'Procesando',
+  completed: 'Completado',
+  failed: 'Fallido',
+};
+
+const SORT_LABELS: Record<NonNullable<DocumentsSearch['sortBy']>, string> = {
+  creationTime: 'Fecha de carga',
+  name: 'Nombre',
+  totalIngresos: 'Total ingresos',
+  totalGastos: 'Total gastos',
+};
+
+const FILTER_KEYS = [
+  'status',
+  'summaryStatus',
+  'validated',
+  'minDiscrepancy',
+  'maxDiscrepancy',
+  'position',
+  'party',
+  'province',
+] as const;
+
+function hasActiveFilters(search: DocumentsSearch) {
+  return FILTER_KEYS.some((key) => search[key] !== undefined);
+}
+
+const filterSelectClass =
+  'px-2 py-1.5 text-sm rounded-md border border-slate-300 bg-white dark:bg-slate-900 dark:border-slate-600 text-slate-700 dark:text-slate-200';
+
+function DocumentFiltersBar({
+  search,
+  onChange,
+}: {
+  search: DocumentsSearch;
+  onChange: (changes: Partial<DocumentsSearch>) => void;
+}) {
+  const options = useQuery(api.candidates.getCandidateFilterOptions) ?? { positions: [], parties: [], provinces: [] };
+  const parseAmount = (value: string) => (value === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-200 dark:border-slate-700 flex flex-wrap gap-2 items-center">
+      <select
+        value={search.status ?? ''}
+        onChange={(e) => onChange({ status: (e.target.value || undefined) as DocumentsSearch['status'] })}
+        className={filterSelectClass}
+      >
+        <option value="">Extracción: todas</option>
+        {Object.entries(STATUS_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            Extracción: {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={search.summaryStatus ?? ''}
+        onChange={(e) => onChange({ summaryStatus: (e.target.value || undefined) as DocumentsSearch['summaryStatus'] })}
+        className={filterSelectClass}
+      >
+        <option value="">Resumen: todos</option>
+        {Object.entries(STATUS_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            Resumen: {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={search.validated === undefined ? '' : String(search.validated)}
+        onChange={(e) => onChange({ validated: e.target.value === '' ? undefined : e.target.value === 'true' })}
+        className={filterSelectClass}
+      >
+        <option value="">Validados y sin validar</option>
+        <option value="true">Validados</option>
+        <option value="false">Sin validar</option>
+      </select>
+      <select
+        value={search.position ?? ''}
+        onChange={(e) => onChange({ position: e.target.value || undefined })}
+        className={filterSelectClass}
+      >
+        <option value="">Todos los cargos</option>
+        {options.positions.map((position) => (
+          <option key={position} value={position}>
+            {position}
+          </option>
+        ))}
+      </select>
+      <select
+        value={search.party ?? ''}
+        onChange={(e) => onChange({ party: e.target.value || undefined })}
+        className={`${filterSelectClass} max-w-56`}
+      >
+        <option value="">Todos los partidos</option>
+        {options.parties.map((party) => (
+          <option key={party} value={party}>
+            {party}
+          </option>
+        ))}
+      </select>
+      <select
+        value={search.province ?? ''}
+        onChange={(e) => onChange({ province: e.target.value || undefined })}
+        className={filterSelectClass}
+      >
+        <option value="">Todas las provincias</option>
+        {options.provinces.map((province) => (
+          <option key={province} value={province}>
+            {province}
+          </option>
+        ))}
+      </select>
+      <div className="flex items-center gap-1 text-sm text-slate-500 dark:text-slate-400">
+        <span>Discrepancia $</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="mín"
+          key={`min-${search.minDiscrepancy ?? ''}`}
+          defaultValue={search.minDiscrepancy}
+          onBlur={(e) => onChange({ minDiscrepancy: parseAmount(e.target.value) })}
+          className={`${filterSelectClass} w-24`}
+        />
+        <span>–</span>
+        <input
+          type="number"
+          min={0}
+          placeholder="máx"
+          key={`max-${search.maxDiscrepancy ?? ''}`}
+          defaultValue={search.maxDiscrepancy}
+          onBlur={(e) => onChange({ maxDiscrepancy: parseAmount(e.target.value) })}
+          className={`${filterSelectClass} w-24`}
+        />
+      </div>
+      <div className="flex items-center gap-1 ml-auto">
+        <select
+          value={search.sortBy ?? 'creationTime'}
+          onChange={(e) =>
+            onChange({
+              sortBy: e.target.value === 'creationTime' ? undefined : (e.target.value as DocumentsSearch['sortBy']),
+            })
+          }
+          className={filterSelectClass}
+        >
+          {Object.entries(SORT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              Ordenar: {label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            const defaultOrder = search.sortBy === 'name' ? 'asc' : 'desc';
+            const current = search.sortOrder ?? defaultOrder;
+            const next = current === 'asc' ? 'desc' : 'asc';
+            onChange({ sortOrder: next === defaultOrder ? undefined : next });
+          }}
+          className={filterSelectClass}
+          title="Cambiar orden"
+        >
+          {(search.sortOrder ?? (search.sortBy === 'name' ? 'asc' : 'desc')) === 'asc' ? '↑' : '↓'}
+        </button>
+        {hasActiveFilters(search) && (
+          <button
+            onClick={() => onChange(Object.fromEntries(FILTER_KEYS.map((key) => [key, undefined])))}
+            className="px-2 py-1.5 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+          >
+            Limpiar filtros
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DuplicateUploadDialog({
+  prompt,
+  pendingCount,
+  onDecide,
+}: {
+  prompt: DuplicatePrompt;
+  pendingCount: number;
+  onDecide: (decision: DuplicateDecision) => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center">
+      <div className="absolute inset-0 bg-slate-900/30" />
+      <div className="relative w-full max-w-md bg-white dark:bg-slate-900 rounded-xl shadow-xl p-6">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">PDF ya subido</h2>
+        <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+          <span className="font-medium break-all">{prompt.fileName}</span> tiene el mismo contenido que{' '}
+          <Link
+            to="/documents/$documentId"
+            params={{ documentId: prompt.existing._id }}
+            target="_blank"
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            {prompt.existing.displayName}
+          </Link>
+          .
+        </p>
+        {pendingCount > 1 && (
+          <p className="mt-1 text-xs text-slate-500">{pendingCount - 1} duplicados más esperando</p>
+        )}
+        <div className="mt-6 flex flex-col gap-2">
+          <button
+            onClick={() => onDecide('link')}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            Usar el documento existente
+          </button>
+          <button
+            onClick={() => onDecide('replace')}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-amber-300 text-amber-700 hover:bg-amber-50 dark:border-amber-700 dark:text-amber-400 dark:hover:bg-amber-900/20"
+          >
+            Reemplazar como nueva versión (vuelve a extraer)
+          </button>
+          <button
+            onClick={() => onDecide('cancel')}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800"
+          >
+            Cancelar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
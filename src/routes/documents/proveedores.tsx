@@ -0,0 +1,149 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { usePaginatedQuery } from 'convex/react';
+import { useState } from 'react';
+import { z } from 'zod';
+import { api } from '../../../convex/_generated/api';
+import { formatPanamaId } from '@shared/panamaId';
+
+const PAGE_SIZE = 50;
+
+// 'todos': every supplier by spend; 'compartidos': suppliers paid by more than one candidate
+const proveedoresSearchSchema = z.object({
+  vista: z.enum(['todos', 'compartidos']).optional().catch(undefined),
+  q: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute('/documents/proveedores')({
+  validateSearch: proveedoresSearchSchema,
+  component: ProveedoresPage,
+});
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+function ProveedoresPage() {
+  const { vista = 'todos', q } = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const [query, setQuery] = useState(q ?? '');
+  const {
+    results: suppliers,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.suppliers.listSuppliers,
+    { search: q, sortBy: vista === 'compartidos' ? 'shared' : 'amount' },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    void navigate({ search: { q: query.trim() || undefined } });
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+      active
+        ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300'
+        : 'text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300'
+    }`;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-end justify-between gap-4">
+        <div>
+          <div className="mb-3 flex gap-2">
+            <Link to="/documents/proveedores" search={{}} className={tabClass(vista === 'todos' && !q)}>
+              Todos
+            </Link>
+            <Link
+              to="/documents/proveedores"
+              search={{ vista: 'compartidos' }}
+              className={tabClass(vista === 'compartidos' && !q)}
+            >
+              Compartidos entre candidatos
+            </Link>
+          </div>
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+            {vista === 'compartidos' ? 'Proveedores compartidos' : 'Registro de proveedores'}
+          </h2>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+            {vista === 'compartidos'
+              ? 'Proveedores pagados por más de un candidato, ordenados por número de candidatos.'
+              : 'Proveedores de todas las declaraciones, unificados por cédula/RUC o por nombre. Ordenado por gasto.'}
+          </p>
+        </div>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Nombre o cédula/RUC"
+            className="h-9 w-64 rounded-md border border-slate-200 bg-white px-3 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+          />
+          <button
+            type="submit"
+            className="h-9 px-3 rounded-md text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400"
+          >
+            Buscar
+          </button>
+        </form>
+      </div>
+
+      {status === 'LoadingFirstPage' ? (
+        <div className="p-8 text-center text-slate-500">Cargando proveedores...</div>
+      ) : suppliers.length === 0 ? (
+        <div className="p-8 text-center text-slate-500">
+          {q ? 'Ningún proveedor coincide con la búsqueda.' : 'Todavía no hay proveedores registrados.'}
+        </div>
+      ) : (
+        <div className="overflow-auto max-h-[calc(100vh-12rem)]">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700/50 sticky top-0 z-10 shadow-sm">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Proveedor</th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Cédula/RUC</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Candidatos</th>
+                <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Partidos</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Filas</th>
+                <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total pagado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {suppliers.map((supplier) => (
+                <tr key={supplier._id} className="hover:bg-slate-50 dark:hover:bg-slate-700/30 transition-colors">
+                  <td className="px-4 py-3">
+                    <Link
+                      to="/documents/proveedores/$supplierId"
+                      params={{ supplierId: supplier._id }}
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
+                    >
+                      {supplier.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 font-mono">
+                    {supplier.idNumber ? formatPanamaId({ canonical: supplier.idNumber, dv: supplier.dv }) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">{supplier.candidateCount}</td>
+                  <td className="px-4 py-3 text-xs text-slate-600 dark:text-slate-400">
+                    {supplier.parties.join(', ') || '—'}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">{supplier.rowCount}</td>
+                  <td className="px-4 py-3 text-right font-mono">{formatCurrency(supplier.totalAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+            <div className="px-6 py-4 border-t border-slate-200 dark:border-slate-700 text-center">
+              <button
+                onClick={() => loadMore(PAGE_SIZE)}
+                disabled={status === 'LoadingMore'}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 disabled:text-slate-400"
+              >
+                {status === 'LoadingMore' ? 'Cargando...' : 'Cargar más'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,44 +1,76 @@
+import { useState } from 'react';
 import { createFileRoute } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { z } from 'zod';
+import { api } from '@convex/api';
+import type { Id } from '@convex/dataModel';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { DocumentHeader } from '@/features/document-validation/DocumentHeader';
 import { DataPanel } from '@/features/document-validation/DataPanel';
 import { PdfPanel } from '@/features/document-validation/PdfPanel';
 import { useDocumentValidationData } from '@/features/document-validation/useDocumentValidationData';
+import { ValidationHistoryDrawer } from '@/features/document-validation/ValidationHistoryDrawer';
+import { PageReviewBar } from '@/features/document-validation/PageReviewBar';
+import { RowSignaturesBar } from '@/features/document-validation/RowSignaturesBar';
+import { PresenceBar } from '@/features/document-validation/PresenceBar';
+import { MergeConflictDialog } from '@/features/document-validation/MergeConflictDialog';
+import { useHasRole } from '@/lib/useHasRole';
+
+// Page to open, for links from the review queue
+const documentSearchSchema = z.object({
+  pagina: z.number().int().positive().optional().catch(undefined),
+});
 
 export const Route = createFileRoute('/documents_/$documentId')({
+  validateSearch: documentSearchSchema,
   component: DocumentValidationPage,
 });
 
 function DocumentValidationPage() {
   const { documentId } = Route.useParams();
+  const { pagina } = Route.useSearch();
   const {
     document,
     validatedData,
     isSaving,
     hasEdits,
+    editedPages,
+    conflicts,
     currentPage,
     currentPageIngressRows,
     currentPageEgressRows,
     currentIngress,
     currentEgress,
     pagesWithUnreadables,
+    pagesNeedingReview,
     hasIngressOnPage,
     hasEgressOnPage,
     isCurrentPageReExtracting,
     currentPageReExtractionFailed,
+    failedPages,
+    currentPageExtractionError,
     handleCellEdit,
     handleAddRow,
     handleDeleteRow,
     handleToggleUnreadable,
     handleAutoCalculateEgressTotals,
     handleSave,
+    resolveConflicts,
+    dismissConflicts,
     handleRerunExtraction,
     handleReExtractPage,
+    handleRetryFailedPages,
     goToPage,
     handleRotate,
     getCurrentRotation,
     setCurrentPage,
-  } = useDocumentValidationData(documentId);
+  } = useDocumentValidationData(documentId, pagina);
+  const pageReviews = useQuery(api.pageReviews.getDocumentPageReviews, {
+    documentId: documentId as Id<'documents'>,
+  });
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const canEdit = useHasRole('reviewer');
 
   if (!document) {
     return (
@@ -51,14 +83,42 @@ function DocumentValidationPage() {
   return (
     <div className="h-screen overflow-hidden bg-slate-50 dark:bg-slate-950 flex flex-col">
       <DocumentHeader
+        documentId={documentId}
         documentName={document.name}
         documentStatus={document.status}
+        documentVersion={document.version ?? 1}
+        isSuperseded={document.supersededBy !== undefined}
         isValidated={Boolean(validatedData)}
+        pageCount={document.pageCount}
+        validatedPageCount={pageReviews?.filter((review) => review.state === 'validated').length ?? 0}
         pagesWithUnreadables={pagesWithUnreadables}
+        failedPageCount={failedPages.length}
         isSaving={isSaving}
         hasEdits={hasEdits}
         onSave={handleSave}
         onRerunExtraction={handleRerunExtraction}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        readOnly={!canEdit}
+      />
+
+      <PresenceBar documentId={documentId} currentPage={currentPage} lockedPages={editedPages} goToPage={goToPage} />
+
+      <PageReviewBar
+        documentId={documentId}
+        pageCount={document.pageCount}
+        currentPage={currentPage}
+        currentUserId={currentUser?._id ?? null}
+        goToPage={goToPage}
+        readOnly={!canEdit}
+      />
+
+      <RowSignaturesBar
+        documentId={documentId}
+        currentPage={currentPage}
+        currentUserId={currentUser?._id ?? null}
+        goToPage={goToPage}
+        hasEdits={hasEdits}
+        readOnly={!canEdit}
       />
 
       <ResizablePanelGroup orientation="horizontal" className="flex-1 min-h-0">
@@ -74,6 +134,7 @@ function DocumentValidationPage() {
             onReExtractPage={handleReExtractPage}
             isReExtracting={isCurrentPageReExtracting}
             reExtractionFailed={currentPageReExtractionFailed}
+            readOnly={!canEdit}
           />
         </ResizablePanel>
 
@@ -85,6 +146,10 @@ function DocumentValidationPage() {
             hasIngressOnPage={hasIngressOnPage}
             hasEgressOnPage={hasEgressOnPage}
             pagesWithUnreadables={pagesWithUnreadables}
+            pagesNeedingReview={pagesNeedingReview}
+            failedPages={failedPages}
+            currentPageExtractionError={currentPageExtractionError}
+            onRetryFailedPages={handleRetryFailedPages}
             goToPage={goToPage}
             ingressRows={currentPageIngressRows}
             egressRows={currentPageEgressRows}
@@ -100,9 +165,29 @@ function DocumentValidationPage() {
             onAddEgress={() => handleAddRow('egress')}
             onAutoCalculateEgressTotals={handleAutoCalculateEgressTotals}
             isReExtracting={isCurrentPageReExtracting}
+            readOnly={!canEdit}
           />
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      {isHistoryOpen && (
+        <ValidationHistoryDrawer
+          documentId={documentId}
+          currentPage={currentPage}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {conflicts && (
+        <MergeConflictDialog
+          conflicts={conflicts}
+          ingress={currentIngress}
+          egress={currentEgress}
+          isSaving={isSaving}
+          onResolve={resolveConflicts}
+          onCancel={dismissConflicts}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,183 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { FunctionReturnType } from 'convex/server';
+
+export const Route = createFileRoute('/documents_/$documentId_/conciliacion')({
+  component: ReconciliationPage,
+});
+
+type ReconciliationData = NonNullable<FunctionReturnType<typeof api.portalRecords.getPortalReconciliation>>;
+type Reconciliation = ReconciliationData['ingress'];
+
+const FIELD_LABELS: Record<Reconciliation['matched'][number]['differences'][number], string> = {
+  fecha: 'fecha',
+  documentNumber: 'número',
+  counterpartyName: 'nombre',
+  amount: 'monto',
+};
+
+const DATA_SOURCE_LABELS: Record<ReconciliationData['dataSource'], string> = {
+  validated: 'filas validadas',
+  extraction: 'filas extraídas (sin validar)',
+  none: 'sin filas extraídas',
+};
+
+const formatCurrency = (value: number | null) => {
+  if (value == null) return '—';
+  return `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+};
+
+function ReconciliationPage() {
+  const { documentId } = Route.useParams();
+  const data = useQuery(api.portalRecords.getPortalReconciliation, { documentId: documentId as Id<'documents'> });
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="mx-auto p-8 flex flex-col gap-6">
+        <div>
+          <Link
+            to="/documents/$documentId"
+            params={{ documentId }}
+            className="text-slate-500 hover:text-slate-700 dark:text-slate-400"
+          >
+            ← Volver al documento
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+            Conciliación con el portal
+          </h1>
+          {data && (
+            <p className="mt-2 text-slate-600 dark:text-slate-400">
+              {data.candidateName} · {data.documentName} · {DATA_SOURCE_LABELS[data.dataSource]} · {data.donationCount}{' '}
+              donaciones en el portal
+            </p>
+          )}
+        </div>
+
+        {data === undefined ? (
+          <div className="p-8 text-center text-slate-500">Cargando conciliación...</div>
+        ) : data === null ? (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-8 text-center text-slate-500">
+            Este documento no está vinculado a un candidato, así que no hay registros del portal para comparar.
+          </div>
+        ) : (
+          <>
+            <ReconciliationSection title="Ingresos" reconciliation={data.ingress} />
+            <ReconciliationSection title="Gastos" reconciliation={data.egress} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReconciliationSection({ title, reconciliation }: { title: string; reconciliation: Reconciliation }) {
+  const { matched, pdfOnly, portalOnly } = reconciliation;
+  const withDifferences = matched.filter((match) => match.differences.length > 0).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{title}</h2>
+        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+          <span className="text-green-600 dark:text-green-400">{matched.length} coinciden</span>
+          {withDifferences > 0 && (
+            <span className="text-amber-600 dark:text-amber-400"> ({withDifferences} con diferencias)</span>
+          )}
+          {' · '}
+          <span className="text-red-600 dark:text-red-400">{pdfOnly.length} solo en el PDF</span>
+          {' · '}
+          <span className="text-red-600 dark:text-red-400">{portalOnly.length} solo en el portal</span>
+        </p>
+      </div>
+
+      <div className="overflow-auto max-h-[32rem]">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700/50 sticky top-0 z-10 shadow-sm">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Estado</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Pág.</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Fecha</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Número</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Nombre</th>
+              <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Monto PDF</th>
+              <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Monto portal</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {pdfOnly.map((row, index) => (
+              <tr key={`pdf-${index}`} className="bg-red-50/50 dark:bg-red-950/20">
+                <td className="px-4 py-2 text-red-600 dark:text-red-400">Solo PDF</td>
+                <td className="px-4 py-2 font-mono">{row.pageNumber}</td>
+                <td className="px-4 py-2 font-mono">{row.fecha ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{row.documentNumber ?? '—'}</td>
+                <td className="px-4 py-2">{row.counterpartyName ?? '—'}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCurrency(row.amount)}</td>
+                <td className="px-4 py-2 text-right font-mono">—</td>
+              </tr>
+            ))}
+            {portalOnly.map((record) => (
+              <tr key={record._id} className="bg-red-50/50 dark:bg-red-950/20">
+                <td className="px-4 py-2 text-red-600 dark:text-red-400">Solo portal</td>
+                <td className="px-4 py-2 font-mono">—</td>
+                <td className="px-4 py-2 font-mono">{record.fecha ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{record.documentNumber ?? '—'}</td>
+                <td className="px-4 py-2">
+                  {record.counterpartyName ?? '—'}
+                  {record.description && <div className="text-xs text-slate-500">{record.description}</div>}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">—</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCurrency(record.amount)}</td>
+              </tr>
+            ))}
+            {matched.map(({ pdfRow, portalRecord, differences }) => (
+              <tr key={portalRecord._id}>
+                <td className="px-4 py-2">
+                  {differences.length === 0 ? (
+                    <span className="text-green-600 dark:text-green-400">Coincide</span>
+                  ) : (
+                    <span className="text-amber-600 dark:text-amber-400">
+                      Difiere: {differences.map((field) => FIELD_LABELS[field]).join(', ')}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 font-mono">{pdfRow.pageNumber}</td>
+                <td className="px-4 py-2 font-mono">
+                  {pdfRow.fecha ?? '—'}
+                  {differences.includes('fecha') && (
+                    <div className="text-xs text-amber-600 dark:text-amber-400">
+                      portal: {portalRecord.fecha ?? '—'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2 font-mono">
+                  {pdfRow.documentNumber ?? '—'}
+                  {differences.includes('documentNumber') && (
+                    <div className="text-xs text-amber-600 dark:text-amber-400">
+                      portal: {portalRecord.documentNumber ?? '—'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  {pdfRow.counterpartyName ?? '—'}
+                  {differences.includes('counterpartyName') && (
+                    <div className="text-xs text-amber-600 dark:text-amber-400">
+                      portal: {portalRecord.counterpartyName ?? '—'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right font-mono">{formatCurrency(pdfRow.amount)}</td>
+                <td
+                  className={`px-4 py-2 text-right font-mono ${differences.includes('amount') ? 'text-amber-600 dark:text-amber-400' : ''}`}
+                >
+                  {formatCurrency(portalRecord.amount)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { useRef, useState } from 'react';
+import { z } from 'zod';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { FunctionReturnType } from 'convex/server';
+import { Button } from '@/components/ui/button';
+import {
+  EGRESS_INFO_COLUMNS,
+  EGRESS_SPEND_COLUMNS,
+  EGRESS_TOTAL_COLUMN,
+  INGRESS_COLUMNS,
+} from '@/features/document-validation/types';
+import { normalizeValueForDisplay } from '@/features/document-validation/utils';
+import { readPdfFile } from '../lib/pdfFile';
+import { useHasRole } from '../lib/useHasRole';
+
+// The two versions being compared live in the URL so a comparison can be shared
+const versionsSearchSchema = z.object({
+  base: z.string().optional().catch(undefined),
+  compare: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute('/documents_/$documentId_/versiones')({
+  validateSearch: versionsSearchSchema,
+  component: VersionsPage,
+});
+
+type DocumentVersion = FunctionReturnType<typeof api.documents.getDocumentVersions>[number];
+type VersionDiff = FunctionReturnType<typeof api.documents.getVersionDiff>;
+type RowDiff = VersionDiff['ingress'];
+
+const STATUS_LABELS: Record<DocumentVersion['status'], string> = {
+  pending: 'Pendiente',
+  processing: 'Procesando',
+  completed: 'Completado',
+  failed: 'Fallido',
+};
+
+const DATA_SOURCE_LABELS: Record<VersionDiff['base']['dataSource'], string> = {
+  validated: 'validada',
+  extraction: 'sin validar',
+  none: 'sin filas',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(
+    [...INGRESS_COLUMNS, ...EGRESS_INFO_COLUMNS, ...EGRESS_SPEND_COLUMNS, EGRESS_TOTAL_COLUMN].map((col) => [
+      col.key,
+      col.label,
+    ]),
+  ),
+  humanUnreadableFields: 'Ilegibles',
+  failedToRead: 'No se pudo leer',
+};
+
+const formatCurrency = (value: number | null) => {
+  if (value == null) return '—';
+  return `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+};
+
+function formatChangeValue(field: string, value: unknown): string {
+  if (Array.isArray(value)) return value.map((item) => FIELD_LABELS[item] ?? item).join(', ');
+  return normalizeValueForDisplay(field, value);
+}
+
+function VersionsPage() {
+  const { documentId } = Route.useParams();
+  const search = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const versions = useQuery(api.documents.getDocumentVersions, { documentId: documentId as Id<'documents'> });
+  const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
+  const createDocumentVersion = useAction(api.documents.createDocumentVersion);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canUpload = useHasRole('reviewer');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Default comparison: the latest version against the one before it
+  const latest = versions?.[versions.length - 1];
+  const compareId = search.compare ?? latest?._id;
+  const baseId = search.base ?? versions?.[versions.length - 2]?._id;
+  const diff = useQuery(
+    api.documents.getVersionDiff,
+    baseId && compareId && baseId !== compareId
+      ? { baseDocumentId: baseId as Id<'documents'>, compareDocumentId: compareId as Id<'documents'> }
+      : 'skip',
+  );
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const { pageCount } = await readPdfFile(file);
+      const uploadUrl = await generateUploadUrl();
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error('Upload failed');
+      }
+      const { storageId } = await response.json();
+
+      await createDocumentVersion({
+        documentId: documentId as Id<'documents'>,
+        fileId: storageId,
+        name: file.name,
+        pageCount,
+      });
+      // Compare the new version against the previous latest one
+      void navigate({ search: {} });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const selectVersion = (key: 'base' | 'compare', value: string) => {
+    void navigate({ search: { base: baseId, compare: compareId, [key]: value } });
+  };
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="mx-auto p-8 flex flex-col gap-6">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <Link
+              to="/documents/$documentId"
+              params={{ documentId }}
+              className="text-slate-500 hover:text-slate-700 dark:text-slate-400"
+            >
+              ← Volver al documento
+            </Link>
+            <h1 className="mt-2 text-3xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+              Versiones de la declaración
+            </h1>
+            <p className="mt-2 text-slate-600 dark:text-slate-400">
+              Cada declaración enmendada es una versión con su propia extracción, resumen y validación.
+            </p>
+          </div>
+          {canUpload && (
+            <div className="flex flex-col items-end gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/pdf"
+                onChange={handleUpload}
+                className="hidden"
+              />
+              <Button onClick={() => fileInputRef.current?.click()} disabled={isUploading || versions === undefined}>
+                {isUploading ? 'Subiendo...' : 'Subir nueva versión'}
+              </Button>
+              {uploadError && <span className="text-sm text-red-600 dark:text-red-400">{uploadError}</span>}
+            </div>
+          )}
+        </div>
+
+        {versions === undefined ? (
+          <div className="p-8 text-center text-slate-500">Cargando versiones...</div>
+        ) : (
+          <>
+            <VersionsTable versions={versions} />
+
+            {versions.length < 2 ? (
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-8 text-center text-slate-500">
+                Este documento tiene una sola versión. Sube la declaración enmendada para comparar.
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3 text-sm text-slate-600 dark:text-slate-400">
+                  Comparar
+                  <VersionSelect
+                    versions={versions}
+                    value={baseId}
+                    onChange={(value) => selectVersion('base', value)}
+                  />
+                  con
+                  <VersionSelect
+                    versions={versions}
+                    value={compareId}
+                    onChange={(value) => selectVersion('compare', value)}
+                  />
+                  {diff && (
+                    <span>
+                      (v{diff.base.version} {DATA_SOURCE_LABELS[diff.base.dataSource]}, v{diff.compare.version}{' '}
+                      {DATA_SOURCE_LABELS[diff.compare.dataSource]})
+                    </span>
+                  )}
+                </div>
+
+                {baseId === compareId ? (
+                  <div className="p-8 text-center text-slate-500">Elige dos versiones distintas.</div>
+                ) : diff === undefined ? (
+                  <div className="p-8 text-center text-slate-500">Comparando versiones...</div>
+                ) : (
+                  <>
+                    <VersionDiffSection title="Ingresos" diff={diff.ingress} />
+                    <VersionDiffSection title="Gastos" diff={diff.egress} />
+                  </>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+}: {
+  versions: DocumentVersion[];
+  value: string | undefined;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+    >
+      {versions.map((version) => (
+        <option key={version._id} value={version._id}>
+          v{version.version} · {version.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function VersionsTable({ versions }: { versions: DocumentVersion[] }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 dark:bg-slate-700/50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Versión</th>
+            <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Archivo</th>
+            <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Subida</th>
+            <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Estado</th>
+            <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Filas</th>
+            <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total ingresos</th>
+            <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total gastos</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+          {versions.map((version) => (
+            <tr key={version._id}>
+              <td className="px-4 py-2 font-mono">
+                v{version.version}
+                {version.isLatest && (
+                  <span className="ml-2 px-2 py-0.5 bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300 rounded-full text-xs font-sans">
+                    Vigente
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-2">
+                <Link
+                  to="/documents/$documentId"
+                  params={{ documentId: version._id }}
+                  className="text-blue-600 hover:underline dark:text-blue-400"
+                >
+                  {version.name}
+                </Link>
+              </td>
+              <td className="px-4 py-2 text-slate-500">{new Date(version._creationTime).toLocaleString('es-PA')}</td>
+              <td className="px-4 py-2">
+                {STATUS_LABELS[version.status]}
+                {version.dataSource === 'validated' && ' · validada'}
+              </td>
+              <td className="px-4 py-2 text-right font-mono">
+                {version.ingressCount} / {version.egressCount}
+              </td>
+              <td className="px-4 py-2 text-right font-mono">{formatCurrency(version.totalIngresos)}</td>
+              <td className="px-4 py-2 text-right font-mono">{formatCurrency(version.totalGastos)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function VersionDiffSection({ title, diff }: { title: string; diff: RowDiff }) {
+  const { added, removed, changed, unchangedCount } = diff;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{title}</h2>
+        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+          <span className="text-green-600 dark:text-green-400">{added.length} agregadas</span>
+          {' · '}
+          <span className="text-red-600 dark:text-red-400">{removed.length} eliminadas</span>
+          {' · '}
+          <span className="text-amber-600 dark:text-amber-400">{changed.length} modificadas</span>
+          {' · '}
+          {unchangedCount} sin cambios
+        </p>
+      </div>
+
+      <div className="overflow-auto max-h-[32rem]">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700/50 sticky top-0 z-10 shadow-sm">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Cambio</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Pág.</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Fecha</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Número</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Nombre</th>
+              <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Monto</th>
+              <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Detalle</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {added.map((row, index) => (
+              <tr key={`added-${index}`} className="bg-green-50/50 dark:bg-green-950/20">
+                <td className="px-4 py-2 text-green-600 dark:text-green-400">Agregada</td>
+                <td className="px-4 py-2 font-mono">{row.pageNumber}</td>
+                <td className="px-4 py-2 font-mono">{row.fecha ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{row.documentNumber ?? '—'}</td>
+                <td className="px-4 py-2">{row.counterpartyName ?? '—'}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCurrency(row.amount)}</td>
+                <td className="px-4 py-2" />
+              </tr>
+            ))}
+            {removed.map((row, index) => (
+              <tr key={`removed-${index}`} className="bg-red-50/50 dark:bg-red-950/20">
+                <td className="px-4 py-2 text-red-600 dark:text-red-400">Eliminada</td>
+                <td className="px-4 py-2 font-mono">{row.pageNumber}</td>
+                <td className="px-4 py-2 font-mono">{row.fecha ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{row.documentNumber ?? '—'}</td>
+                <td className="px-4 py-2 line-through">{row.counterpartyName ?? '—'}</td>
+                <td className="px-4 py-2 text-right font-mono line-through">{formatCurrency(row.amount)}</td>
+                <td className="px-4 py-2" />
+              </tr>
+            ))}
+            {changed.map(({ before, after, changes }, index) => (
+              <tr key={`changed-${index}`}>
+                <td className="px-4 py-2 text-amber-600 dark:text-amber-400">Modificada</td>
+                <td className="px-4 py-2 font-mono">
+                  {before.pageNumber === after.pageNumber
+                    ? after.pageNumber
+                    : `${before.pageNumber} → ${after.pageNumber}`}
+                </td>
+                <td className="px-4 py-2 font-mono">{after.fecha ?? '—'}</td>
+                <td className="px-4 py-2 font-mono">{after.documentNumber ?? '—'}</td>
+                <td className="px-4 py-2">{after.counterpartyName ?? '—'}</td>
+                <td className="px-4 py-2 text-right font-mono">{formatCurrency(after.amount)}</td>
+                <td className="px-4 py-2 text-xs">
+                  {changes.map((change) => (
+                    <div key={change.field}>
+                      <span className="font-medium">{FIELD_LABELS[change.field] ?? change.field}</span>:{' '}
+                      <span className="line-through text-red-600 dark:text-red-400">
+                        {formatChangeValue(change.field, change.oldValue)}
+                      </span>{' '}
+                      →{' '}
+                      <span className="text-emerald-700 dark:text-emerald-400">
+                        {formatChangeValue(change.field, change.newValue)}
+                      </span>
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { createFileRoute, Link } from '@tanstack/react-router';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { formatPanamaId } from '@shared/panamaId';
+
+export const Route = createFileRoute('/documents_/donantes/$donorId')({
+  component: DonorPage,
+});
+
+const ID_KIND_LABELS = {
+  cedula: 'Cédula',
+  ruc: 'RUC',
+} as const;
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+function DonorPage() {
+  const { donorId } = Route.useParams();
+  const donor = useQuery(api.donors.getDonor, { donorId: donorId as Id<'donors'> });
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="mx-auto p-8 flex flex-col gap-6">
+        <div>
+          <Link to="/documents/donantes" className="text-slate-500 hover:text-slate-700 dark:text-slate-400">
+            ← Volver a donantes
+          </Link>
+          {donor && (
+            <>
+              <h1 className="mt-2 text-3xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+                {donor.name}
+              </h1>
+              <p className="mt-2 text-slate-600 dark:text-slate-400">
+                {donor.idKind && donor.idNumber
+                  ? `${ID_KIND_LABELS[donor.idKind]} ${formatPanamaId({ canonical: donor.idNumber, dv: donor.dv })}`
+                  : 'Sin cédula/RUC legible'}{' '}
+                · {formatCurrency(donor.totalAmount)} en {donor.rowCount} filas · {donor.candidateCount} candidatos
+              </p>
+            </>
+          )}
+        </div>
+
+        {donor === undefined ? (
+          <div className="p-8 text-center text-slate-500">Cargando donante...</div>
+        ) : donor === null ? (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-8 text-center text-slate-500">
+            Este donante ya no existe en el registro.
+          </div>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Donaciones por candidato</h2>
+              </div>
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 dark:bg-slate-700/50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Candidato</th>
+                    <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Cargo</th>
+                    <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Partido</th>
+                    <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Documentos</th>
+                    <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Filas</th>
+                    <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {donor.candidates.map((candidate) => (
+                    <tr key={candidate.candidateId ?? 'unlinked'}>
+                      <td className="px-4 py-2 font-medium">{candidate.candidateName ?? 'Sin candidato vinculado'}</td>
+                      <td className="px-4 py-2">{candidate.position ?? '—'}</td>
+                      <td className="px-4 py-2">{candidate.party ?? '—'}</td>
+                      <td className="px-4 py-2">
+                        {candidate.documents.map((doc) => (
+                          <div key={doc.documentId}>
+                            <Link
+                              to="/documents/$documentId"
+                              params={{ documentId: doc.documentId }}
+                              className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                            >
+                              {doc.name}
+                            </Link>
+                            <span className="ml-2 text-xs text-slate-500">
+                              {formatCurrency(doc.amount)} · {doc.rowCount} filas
+                            </span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">{candidate.rowCount}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatCurrency(candidate.totalAmount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-6 text-sm">
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Cómo aparece en las filas</h2>
+              <p className="mt-1 text-slate-500 dark:text-slate-400">
+                Nombres y números tal como se escribieron en las declaraciones que se unificaron en este donante.
+              </p>
+              <div className="mt-4 grid grid-cols-2 gap-6">
+                <ul className="space-y-1">
+                  {donor.rawNames.map((name) => (
+                    <li key={name}>{name}</li>
+                  ))}
+                </ul>
+                <ul className="space-y-1 font-mono">
+                  {donor.rawIdNumbers.map((idNumber) => (
+                    <li key={idNumber}>{idNumber}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
+import { useMutation, useQuery } from 'convex/react';
+import { useState } from 'react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { formatPanamaId } from '@shared/panamaId';
+import { Button } from '@/components/ui/button';
+import { EGRESS_SPEND_COLUMNS } from '@/features/document-validation/types';
+import { useHasRole } from '@/lib/useHasRole';
+
+export const Route = createFileRoute('/documents_/proveedores/$supplierId')({
+  component: SupplierPage,
+});
+
+const ID_KIND_LABELS = {
+  cedula: 'Cédula',
+  ruc: 'RUC',
+} as const;
+
+const CATEGORY_LABELS: Record<string, string> = Object.fromEntries(
+  EGRESS_SPEND_COLUMNS.map((col) => [col.key, col.label]),
+);
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('es-PA', { minimumFractionDigits: 2 })}`;
+
+// Identity keys are 'id:<cédula/RUC>' or 'name:<normalized name>'
+function identityLabel(identityKey: string): string {
+  if (identityKey.startsWith('id:')) return `Cédula/RUC ${identityKey.slice('id:'.length)}`;
+  return `Nombre ${identityKey.slice('name:'.length)}`;
+}
+
+function SupplierPage() {
+  const { supplierId } = Route.useParams();
+  const navigate = useNavigate();
+  const supplier = useQuery(api.suppliers.getSupplier, { supplierId: supplierId as Id<'suppliers'> });
+  const splitSupplier = useMutation(api.suppliers.splitSupplier);
+  const canCurate = useHasRole('reviewer');
+  const [selectedIdentities, setSelectedIdentities] = useState<string[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const toggleIdentity = (identityKey: string) => {
+    setSelectedIdentities((prev) =>
+      prev.includes(identityKey) ? prev.filter((key) => key !== identityKey) : [...prev, identityKey],
+    );
+  };
+
+  const handleSplit = async () => {
+    setActionError(null);
+    try {
+      const newSupplierId = await splitSupplier({
+        supplierId: supplierId as Id<'suppliers'>,
+        identityKeys: selectedIdentities,
+      });
+      setSelectedIdentities([]);
+      void navigate({ to: '/documents/proveedores/$supplierId', params: { supplierId: newSupplierId } });
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Split failed');
+    }
+  };
+
+  const categories = supplier
+    ? Object.entries(supplier.categoryAmounts)
+        .filter(([, amount]) => amount !== 0)
+        .sort(([, a], [, b]) => b - a)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-linear-to-br from-slate-50 to-slate-100 dark:from-slate-950 dark:to-slate-900">
+      <div className="mx-auto p-8 flex flex-col gap-6">
+        <div>
+          <Link to="/documents/proveedores" className="text-slate-500 hover:text-slate-700 dark:text-slate-400">
+            ← Volver a proveedores
+          </Link>
+          {supplier && (
+            <>
+              <h1 className="mt-2 text-3xl font-bold tracking-tight text-slate-900 dark:text-slate-100">
+                {supplier.name}
+              </h1>
+              <p className="mt-2 text-slate-600 dark:text-slate-400">
+                {supplier.idKind && supplier.idNumber
+                  ? `${ID_KIND_LABELS[supplier.idKind]} ${formatPanamaId({ canonical: supplier.idNumber, dv: supplier.dv })}`
+                  : 'Sin cédula/RUC legible'}{' '}
+                · {formatCurrency(supplier.totalAmount)} en {supplier.rowCount} filas · {supplier.candidateCount}{' '}
+                candidatos · {supplier.parties.join(', ') || 'sin partido'}
+              </p>
+            </>
+          )}
+        </div>
+
+        {supplier === undefined ? (
+          <div className="p-8 text-center text-slate-500">Cargando proveedor...</div>
+        ) : supplier === null ? (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-8 text-center text-slate-500">
+            Este proveedor ya no existe en el registro (pudo haberse fusionado con otro).
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-6">
+              <div className="col-span-2 bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+                  <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Pagos por candidato</h2>
+                </div>
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-700/50">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Candidato</th>
+                      <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Partido</th>
+                      <th className="px-4 py-3 text-left font-medium text-slate-600 dark:text-slate-300">Documentos</th>
+                      <th className="px-4 py-3 text-right font-medium text-slate-600 dark:text-slate-300">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                    {supplier.candidates.map((candidate) => (
+                      <tr key={candidate.candidateId ?? 'unlinked'}>
+                        <td className="px-4 py-2">
+                          <div className="font-medium">{candidate.candidateName ?? 'Sin candidato vinculado'}</div>
+                          {candidate.position && <div className="text-xs text-slate-500">{candidate.position}</div>}
+                        </td>
+                        <td className="px-4 py-2">{candidate.party ?? '—'}</td>
+                        <td className="px-4 py-2">
+                          {candidate.documents.map((doc) => (
+                            <div key={doc.documentId}>
+                              <Link
+                                to="/documents/$documentId"
+                                params={{ documentId: doc.documentId }}
+                                className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                              >
+                                {doc.name}
+                              </Link>
+                              <span className="ml-2 text-xs text-slate-500">
+                                {formatCurrency(doc.amount)} · {doc.rowCount} filas
+                              </span>
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-2 text-right font-mono">{formatCurrency(candidate.totalAmount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+                <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+                  <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Gasto por categoría</h2>
+                </div>
+                {categories.length === 0 ? (
+                  <div className="p-6 text-sm text-slate-500">Las filas no desglosan el gasto por categoría.</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                      {categories.map(([category, amount]) => (
+                        <tr key={category}>
+                          <td className="px-4 py-2">{CATEGORY_LABELS[category] ?? category}</td>
+                          <td className="px-4 py-2 text-right font-mono">{formatCurrency(amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm overflow-hidden">
+              <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-end justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Identidades unificadas</h2>
+                  <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+                    Cédulas/RUC y nombres cuyas filas se asignaron a este proveedor.
+                    {canCurate && ' Marca las que no corresponden para separarlas en un proveedor nuevo.'}
+                  </p>
+                </div>
+                {canCurate && (
+                  <Button
+                    onClick={handleSplit}
+                    disabled={
+                      selectedIdentities.length === 0 || selectedIdentities.length === supplier.identities.length
+                    }
+                    variant="outline"
+                  >
+                    Separar seleccionadas
+                  </Button>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                  {supplier.identities.map((identity) => (
+                    <tr key={identity.identityKey}>
+                      {canCurate && (
+                        <td className="px-4 py-2 w-8">
+                          <input
+                            type="checkbox"
+                            checked={selectedIdentities.includes(identity.identityKey)}
+                            onChange={() => toggleIdentity(identity.identityKey)}
+                          />
+                        </td>
+                      )}
+                      <td className="px-4 py-2 font-mono text-xs">{identityLabel(identity.identityKey)}</td>
+                      <td className="px-4 py-2">
+                        {identity.rawNames.join(' · ') || '—'}
+                        {identity.rawIdNumbers.length > 0 && (
+                          <div className="text-xs text-slate-500 font-mono">{identity.rawIdNumbers.join(' · ')}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">{identity.rowCount} filas</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatCurrency(identity.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {canCurate && <MergeSupplierPanel supplierId={supplier._id} onError={setActionError} />}
+            {actionError && <div className="text-sm text-red-600 dark:text-red-400">{actionError}</div>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Find another supplier that is really the same one and merge it into this supplier
+ */
+function MergeSupplierPanel({
+  supplierId,
+  onError,
+}: {
+  supplierId: Id<'suppliers'>;
+  onError: (message: string | null) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const mergeSuppliers = useMutation(api.suppliers.mergeSuppliers);
+  const matches = useQuery(
+    api.suppliers.listSuppliers,
+    query.trim() === '' ? 'skip' : { search: query, paginationOpts: { numItems: 10, cursor: null } },
+  );
+
+  const handleMerge = async (sourceId: Id<'suppliers'>) => {
+    onError(null);
+    try {
+      await mergeSuppliers({ sourceId, targetId: supplierId });
+      setQuery('');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Merge failed');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm p-6">
+      <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Fusionar otro proveedor aquí</h2>
+      <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">
+        Sus filas, cédulas/RUC y nombres pasan a este proveedor, también en extracciones futuras.
+      </p>
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Buscar por nombre o cédula/RUC"
+        className="mt-4 h-9 w-80 rounded-md border border-slate-200 bg-white px-3 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+      />
+      {matches && (
+        <ul className="mt-3 divide-y divide-slate-100 dark:divide-slate-700 text-sm">
+          {matches.page
+            .filter((match) => match._id !== supplierId)
+            .map((match) => (
+              <li key={match._id} className="py-2 flex items-center justify-between gap-4">
+                <span>
+                  {match.name}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {match.idNumber ?? 'sin cédula/RUC'} · {formatCurrency(match.totalAmount)}
+                  </span>
+                </span>
+                <Button onClick={() => handleMerge(match._id)} variant="outline" size="sm">
+                  Fusionar
+                </Button>
+              </li>
+            ))}
+        </ul>
+      )}
+    </div>
+  );
+}